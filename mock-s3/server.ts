@@ -0,0 +1,134 @@
+/**
+ * Local stand-in for the event's S3 bucket
+ *
+ * Serves the same JSON files as the bucket, cut from a simulated race running
+ * in accelerated time. Point the app at it with REACT_APP_DATA_BASE_URL.
+ *
+ *   npm run mock:s3 -- --port=4566 --speed=60 --riders=400 --seed=2025 --offset=0
+ *
+ * --speed   race minutes that pass per real minute (default 60)
+ * --offset  race hours already run when the server starts (default 0)
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createHash } from 'crypto';
+import { API_CONFIG } from '../src/config/api';
+import { RaceSimulator } from './simulator';
+
+interface MockOptions {
+  port: number;
+  /** Race minutes that pass per real minute */
+  speed: number;
+  riders: number;
+  seed: number;
+  /** Race hours already run at startup */
+  offset: number;
+}
+
+const DEFAULTS: MockOptions = { port: 4566, speed: 60, riders: 400, seed: 2025, offset: 0 };
+
+/**
+ * Read `--name=value` arguments, falling back to MOCK_<NAME> environment variables
+ */
+function readOptions(argv: string[]): MockOptions {
+  const args = new Map(argv
+    .filter(arg => arg.startsWith('--') && arg.includes('='))
+    .map(arg => arg.slice(2).split('=') as [string, string]));
+
+  const read = (name: keyof MockOptions): number => {
+    const raw = args.get(name) ?? process.env[`MOCK_${name.toUpperCase()}`];
+    const value = raw === undefined ? NaN : Number(raw);
+    return Number.isFinite(value) ? value : DEFAULTS[name];
+  };
+
+  return {
+    port: read('port'),
+    speed: read('speed'),
+    riders: read('riders'),
+    seed: read('seed'),
+    offset: read('offset')
+  };
+}
+
+const options = readOptions(process.argv.slice(2));
+const simulator = new RaceSimulator({ riders: options.riders, seed: options.seed });
+const startedAt = Date.now();
+
+/**
+ * Current moment of the simulated race, to the whole minute so feeds stay
+ * cacheable between ticks
+ */
+function getRaceTime(): Date {
+  const elapsed = (Date.now() - startedAt) * options.speed + options.offset * 60 * 60 * 1000;
+  const time = simulator.raceStart.getTime() + elapsed;
+  return new Date(Math.floor(time / 60000) * 60000);
+}
+
+const { endpoints } = API_CONFIG;
+const [wavePrefix, waveSuffix] = endpoints.waveTracking.split('{wave}');
+
+/**
+ * Payload for a bucket path, or null if the bucket has no such file
+ */
+function getPayload(path: string): unknown | null {
+  const now = getRaceTime();
+
+  switch (path) {
+    case endpoints.riders:
+      return simulator.getRidersFeed();
+    case endpoints.indianRiders:
+      return simulator.getTrackingFeed(now);
+    case endpoints.routes:
+      return simulator.getRoutesFeed();
+    case endpoints.weather:
+      return simulator.getWeatherFeed(now);
+    case '__mock/clock':
+      return { raceTime: now.toISOString(), speed: options.speed, startedAt: new Date(startedAt).toISOString() };
+  }
+
+  if (path.startsWith(wavePrefix) && path.endsWith(waveSuffix)) {
+    const wave = decodeURIComponent(path.slice(wavePrefix.length, path.length - waveSuffix.length));
+    return simulator.hasWave(wave) ? simulator.getTrackingFeed(now, wave) : null;
+  }
+
+  return null;
+}
+
+function send(res: ServerResponse, status: number, headers: Record<string, string> = {}, body?: string): void {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'If-None-Match, If-Modified-Since',
+    'Access-Control-Expose-Headers': 'ETag',
+    ...headers
+  });
+  res.end(body);
+}
+
+function handle(req: IncomingMessage, res: ServerResponse): void {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method !== 'GET') return send(res, 405);
+
+  const path = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname.replace(/^\/+/, ''));
+  const payload = getPayload(path);
+  if (payload === null) {
+    console.log(`404 ${path}`);
+    return send(res, 404, { 'Content-Type': 'application/xml' }, '<Error><Code>NoSuchKey</Code></Error>');
+  }
+
+  // S3 gives every rewritten object a new ETag, so the publish time counts even when the riders have not moved
+  const body = JSON.stringify(payload);
+  const etag = `"${createHash('sha1').update(body).digest('hex')}"`;
+
+  if (req.headers['if-none-match'] === etag) {
+    return send(res, 304, { ETag: etag });
+  }
+
+  console.log(`200 ${path} (${Math.round(body.length / 1024)} KB, race time ${getRaceTime().toISOString()})`);
+  send(res, 200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache', ETag: etag }, body);
+}
+
+createServer(handle).listen(options.port, () => {
+  console.log(`Mock S3 serving ${options.riders} simulated riders at http://localhost:${options.port}`);
+  console.log(`Race starts ${simulator.raceStart.toISOString()}, ${options.speed} race minutes per minute`);
+  console.log(`Run the app with REACT_APP_DATA_BASE_URL=http://localhost:${options.port} npm start`);
+});
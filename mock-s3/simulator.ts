@@ -0,0 +1,368 @@
+/**
+ * Synthetic race for the mock S3 server
+ *
+ * A seeded field of riders is planned once: start time, riding speed, stops,
+ * overnight sleeps, an abandonment for some, and checkpoints the timing system
+ * "missed". The feeds are then cut from that plan at any simulated moment, so
+ * the same seed always plays out the same race.
+ */
+
+import {
+  DEFAULT_EVENT,
+  getControlDefinition,
+  getDefaultStartLocation,
+  getWaveSchedule,
+  type EventDefinition,
+  type RouteControl,
+  type StartLocation
+} from '../src/config/events';
+import type { Rider } from '../src/types';
+import type { RawCheckpoint, RawTrackingRider } from '../src/utils/dataProcessors/trackingProcessors';
+import type { Control } from '../src/utils/dataProcessors/controlProcessors';
+import type { RouteTrack, RouteTrackPoint, TrackingFeed } from '../src/utils/dataProcessors/feedValidators';
+import type { ControlWeatherData, WeatherResponse } from '../src/features/indian-riders/services/weatherService';
+import { formatEventTimestamp, getEventLocalTime } from '../src/utils/eventTimestamp';
+import { TOWN_COORDINATES } from './towns';
+
+export interface SimulatorOptions {
+  /** Riders in the field */
+  riders: number;
+  /** Seed of the random plan */
+  seed: number;
+  event?: EventDefinition;
+}
+
+interface PlannedVisit {
+  control: RouteControl;
+  /** Checkpoint name as the tracking feed spells it (e.g., "Brampton S") */
+  feedName: string;
+  arrival: Date;
+  departure: Date;
+  /** False for checkpoints the timing system misses */
+  recorded: boolean;
+}
+
+interface SimulatedRider {
+  rider: Rider;
+  wave: string;
+  start: Date;
+  /** Published only for riders who left well after their wave */
+  actualStart?: string;
+  visits: PlannedVisit[];
+  /** Whether the rider stops for good after the last planned visit */
+  abandons: boolean;
+  routeLength: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Share of riders who abandon, and of checkpoints the timing system misses
+const DNF_RATE = 0.1;
+const MISSED_CHECKPOINT_RATE = 0.05;
+// An abandonment shows in the feed this long after the rider's last control
+const DNF_DECLARED_AFTER = 3 * HOUR;
+
+const FIRST_NAMES = [
+  'Aarav', 'Priya', 'Rohan', 'Ananya', 'Vikram', 'Meera', 'Arjun', 'Kavya', 'Sanjay', 'Divya',
+  'James', 'Emma', 'Oliver', 'Sophie', 'Lukas', 'Anna', 'Pierre', 'Claire', 'Marco', 'Giulia',
+  'Kenji', 'Yuki', 'Daniel', 'Sarah', 'Erik', 'Ingrid', 'Liam', 'Chloe', 'Mateo', 'Lucia'
+];
+const LAST_NAMES = [
+  'Sharma', 'Iyer', 'Reddy', 'Patel', 'Nair', 'Menon', 'Kulkarni', 'Gupta', 'Rao', 'Singh',
+  'Smith', 'Jones', 'Taylor', 'Müller', 'Schmidt', 'Dubois', 'Martin', 'Rossi', 'Bianchi', 'Tanaka',
+  'Sato', 'Johnson', 'Brown', 'Larsen', 'Andersson', 'Murphy', 'Walsh', 'García', 'López', 'Kowalski'
+];
+// India weighted up so the Indian riders feed is never empty
+const COUNTRIES = [
+  'India', 'India', 'India', 'United Kingdom', 'United Kingdom', 'United States', 'Germany',
+  'France', 'Italy', 'Japan', 'Australia', 'Netherlands', 'Denmark', 'Ireland', 'Spain'
+];
+
+/**
+ * Seeded random numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Checkpoint name the way the tracking feed spells it
+ */
+function getFeedName(control: RouteControl, event: EventDefinition): string {
+  const direction = getControlDefinition(control.id, event)?.direction;
+  if (direction === 'north') return `${control.name} N`;
+  if (direction === 'south') return `${control.name} S`;
+  return control.name;
+}
+
+export class RaceSimulator {
+  readonly event: EventDefinition;
+  /** First wave start, where the race clock begins */
+  readonly raceStart: Date;
+  private field: SimulatedRider[];
+
+  constructor({ riders, seed, event = DEFAULT_EVENT }: SimulatorOptions) {
+    this.event = event;
+    this.field = this.planField(riders, createRandom(seed));
+    this.raceStart = new Date(Math.min(...Array.from(getWaveSchedule(event).values()).map(wave =>
+      getEventLocalTime(event, wave.dayOffset, wave.time)!.getTime()
+    )));
+  }
+
+  /**
+   * Plan every rider's race up front
+   */
+  private planField(size: number, random: () => number): SimulatedRider[] {
+    const event = this.event;
+    const waves = Array.from(getWaveSchedule(event).values());
+    const bibsPerWave = new Map<string, number>();
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+    return Array.from({ length: size }, () => {
+      const wave = pick(waves);
+      const bib = (bibsPerWave.get(wave.code) || 0) + 1;
+      bibsPerWave.set(wave.code, bib);
+      const riderNo = `${wave.code}${bib}`;
+
+      const location: StartLocation = event.startLocations.find(candidate =>
+        candidate.riderPattern?.test(riderNo)
+      ) || getDefaultStartLocation(event);
+
+      const waveStart = getEventLocalTime(event, wave.dayOffset, wave.time)!;
+      // A few riders miss their wave and start on their own
+      const isLate = random() < 0.05;
+      const start = new Date(waveStart.getTime() + (isLate ? 20 + random() * 40 : random() * 8) * MINUTE);
+
+      const speed = 16 + random() * 12; // km/h while moving
+      const abandons = random() < DNF_RATE;
+      const lastIndex = abandons
+        ? 1 + Math.floor(random() * (location.controls.length - 2))
+        : location.controls.length - 1;
+
+      const visits: PlannedVisit[] = [];
+      let clock = start.getTime();
+      location.controls.slice(0, lastIndex + 1).forEach((control, index) => {
+        if (index > 0) {
+          const legKm = control.km - location.controls[index - 1].km;
+          clock += (legKm / speed) * HOUR * (0.9 + random() * 0.2);
+        }
+        const arrival = new Date(clock);
+
+        // Short stop at every control, and a sleep at some beyond the first night
+        let stopMinutes = index === 0 ? 0 : 10 + random() * 35;
+        if (control.km > 350 && random() < 0.2) stopMinutes += 120 + random() * 180;
+        clock += stopMinutes * MINUTE;
+
+        const isEnd = index === 0 || index === location.controls.length - 1;
+        visits.push({
+          control,
+          feedName: getFeedName(control, event),
+          arrival,
+          departure: new Date(clock),
+          recorded: isEnd || random() >= MISSED_CHECKPOINT_RATE
+        });
+      });
+
+      return {
+        rider: {
+          rider_no: riderNo,
+          name: `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`,
+          country: pick(COUNTRIES)
+        },
+        wave: wave.code,
+        start,
+        actualStart: isLate ? formatEventTimestamp(start, event.timezone) : undefined,
+        visits,
+        abandons,
+        routeLength: location.controls.length
+      };
+    });
+  }
+
+  /**
+   * A rider as the tracking feed shows them at a moment
+   */
+  private trackRider(entry: SimulatedRider, now: Date): RawTrackingRider {
+    const timezone = this.event.timezone;
+    const reached = entry.visits.filter(visit => visit.arrival.getTime() <= now.getTime());
+    const recorded = reached.filter(visit => visit.recorded);
+    const last = recorded[recorded.length - 1];
+
+    const base: RawTrackingRider = {
+      rider_no: entry.rider.rider_no,
+      name: entry.rider.name,
+      status: 'not_started',
+      checkpoints: [],
+      distance_km: 0,
+      last_checkpoint: null
+    };
+    if (entry.actualStart) base.actual_start = entry.actualStart;
+    if (!last) return base;
+
+    const lastVisit = entry.visits[entry.visits.length - 1];
+    const finished = reached.length === entry.routeLength;
+    const abandoned = entry.abandons && reached.length === entry.visits.length &&
+      now.getTime() - lastVisit.departure.getTime() > DNF_DECLARED_AFTER;
+
+    const checkpoints: RawCheckpoint[] = recorded.map(visit => {
+      const checkpoint: RawCheckpoint = { name: visit.feedName, time: formatEventTimestamp(visit.arrival, timezone) };
+      if (visit.departure.getTime() > visit.arrival.getTime() && visit.departure.getTime() <= now.getTime()) {
+        checkpoint.departure = formatEventTimestamp(visit.departure, timezone);
+      }
+      return checkpoint;
+    });
+
+    const hours = (last.arrival.getTime() - entry.start.getTime()) / HOUR;
+    return {
+      ...base,
+      status: finished ? 'finished' : abandoned ? 'dnf' : 'in_progress',
+      checkpoints,
+      distance_km: last.control.km,
+      last_checkpoint: last.feedName,
+      average_speed: hours > 0 ? Math.round((last.control.km / hours) * 10) / 10 : undefined
+    };
+  }
+
+  /**
+   * Controls listed in the tracking and weather feeds (the default route)
+   */
+  private getFeedControls(): Control[] {
+    const controls = getDefaultStartLocation(this.event).controls;
+    const turnKm = controls[controls.length - 1].km / 2;
+    return controls.map(control => ({
+      id: control.id,
+      name: control.name,
+      km: control.km,
+      leg: control.km <= turnKm ? 'North' : 'South'
+    }));
+  }
+
+  /**
+   * riders.json
+   */
+  getRidersFeed(): Rider[] {
+    return this.field.map(entry => entry.rider);
+  }
+
+  /**
+   * A tracking feed at a moment
+   * @param now - Simulated time
+   * @param wave - Only this wave (a shard); omit for the Indian riders feed
+   */
+  getTrackingFeed(now: Date, wave?: string): TrackingFeed {
+    const riders = this.field
+      .filter(entry => wave ? entry.wave === wave : entry.rider.country === 'India')
+      .map(entry => this.trackRider(entry, now));
+
+    return {
+      event: { controls: this.getFeedControls() },
+      riders,
+      // Publish time, like the real feed; the app flags data older than ten minutes
+      last_updated: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Whether a wave has any riders in the field
+   */
+  hasWave(wave: string): boolean {
+    return this.field.some(entry => entry.wave === wave);
+  }
+
+  /**
+   * routes.json: straight lines between the control towns of each start location
+   */
+  getRoutesFeed(): RouteTrack[] {
+    const colours = ['#2563eb', '#dc2626', '#16a34a'];
+    return this.event.startLocations.map((location, index) => {
+      let id = 0;
+      const coords: RouteTrackPoint[] = [];
+
+      location.controls.forEach((control, controlIndex) => {
+        const town = TOWN_COORDINATES[control.name];
+        const previous = location.controls[controlIndex - 1];
+        const from = previous && TOWN_COORDINATES[previous.name];
+        if (!town) return;
+
+        // A few points per leg so the track has some shape on the map
+        if (from) {
+          for (let step = 1; step < 4; step++) {
+            const share = step / 4;
+            coords.push({
+              id: id++,
+              lat: from.lat + (town.lat - from.lat) * share,
+              lon: from.lon + (town.lon - from.lon) * share,
+              dist: previous.km + (control.km - previous.km) * share,
+              elev: 50
+            });
+          }
+        }
+        coords.push({ id: id++, lat: town.lat, lon: town.lon, dist: control.km, elev: 50, checkpoint: control.name });
+      });
+
+      return { id: index + 1, name: `${location.name} start`, colour: colours[index % colours.length], coords };
+    });
+  }
+
+  /**
+   * control-weather.json with made-up but plausible conditions
+   * @param now - Simulated time; conditions change hourly
+   */
+  getWeatherFeed(now: Date): WeatherResponse {
+    const hour = Math.floor(now.getTime() / HOUR);
+    const controls = this.getFeedControls();
+    const seen = new Set<string>();
+
+    const weather: ControlWeatherData[] = controls.flatMap((control, index): ControlWeatherData[] => {
+      const town = TOWN_COORDINATES[control.name];
+      if (!town || seen.has(control.name)) return [];
+      seen.add(control.name);
+
+      const random = createRandom(hour * 100 + index);
+      const rainy = random() < 0.3;
+      const temperature = Math.round((12 + random() * 10 - (town.lat - 51) * 1.5) * 10) / 10;
+      return [{
+        control_id: control.id,
+        control_name: control.name,
+        coordinates: town,
+        current: {
+          temperature,
+          temperature_unit: '°C',
+          condition: rainy ? 'rain' : random() < 0.5 ? 'cloudy' : 'sunny',
+          condition_code: rainy ? 61 : 3,
+          description: rainy ? 'Light rain' : 'Partly cloudy',
+          wind_speed: Math.round(random() * 30),
+          wind_direction: Math.round(random() * 360),
+          humidity: Math.round(60 + random() * 35),
+          pressure: Math.round(1000 + random() * 25),
+          uv_index: Math.round(random() * 5),
+          feels_like: Math.round((temperature - 2) * 10) / 10,
+          precipitation: rainy ? Math.round(random() * 40) / 10 : 0
+        },
+        forecast_24h: {
+          rain_probability: Math.round((rainy ? 50 : 10) + random() * 40),
+          max_temp: Math.round(temperature + 4),
+          min_temp: Math.round(temperature - 5)
+        }
+      }];
+    });
+
+    return {
+      event: {
+        name: this.event.name,
+        distance_km: this.event.distance,
+        controls: controls.map(control => ({ ...control }))
+      },
+      weather,
+      last_updated: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Approximate coordinates of the LEL control towns, by control name
+ * Only used to draw mock route tracks and place mock weather stations.
+ */
+export const TOWN_COORDINATES: Record<string, { lat: number; lon: number }> = {
+  London: { lat: 51.594, lon: -0.130 },
+  Writtle: { lat: 51.729, lon: 0.427 },
+  Northstowe: { lat: 52.281, lon: 0.050 },
+  Boston: { lat: 52.978, lon: -0.026 },
+  Louth: { lat: 53.367, lon: -0.006 },
+  Hessle: { lat: 53.722, lon: -0.435 },
+  Malton: { lat: 54.136, lon: -0.797 },
+  Richmond: { lat: 54.403, lon: -1.737 },
+  Brampton: { lat: 54.941, lon: -2.734 },
+  Hawick: { lat: 55.422, lon: -2.787 },
+  Moffat: { lat: 55.333, lon: -3.442 },
+  Dalkeith: { lat: 55.894, lon: -3.067 },
+  Innerleithen: { lat: 55.620, lon: -3.063 },
+  Eskdalemuir: { lat: 55.254, lon: -3.198 },
+  Henham: { lat: 51.946, lon: 0.245 }
+};
@@ -1,42 +1,69 @@
 import React, { useState } from 'react';
-import { BrowserRouter as Router, Routes, Route, Link, useLocation } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import HomePage from './components/HomePage';
 import WavesSummary from './components/WavesSummary';
 import WaveDetail from './components/WaveDetail';
 import RidersList from './components/RidersList';
 import IndianRidersTimeline from './components/IndianRidersTimeline';
 import IndianRidersProgressPage from './components/IndianRidersProgressPage';
+import RiderGroups from './components/RiderGroups';
+import RiderGroupTimeline from './components/RiderGroupTimeline';
+import Countries from './components/Countries';
+import CountryDashboard from './components/CountryDashboard';
+import Clubs from './components/Clubs';
 import RouteMap from './components/RouteMap';
-import { Menu, X, Users, Flag, Home, Grid3x3, Map } from 'lucide-react';
+import AtRiskRiders from './components/AtRiskRiders';
+import DiagnosticsPage from './components/DiagnosticsPage';
+import { Menu, X, Users, Flag, Home, Grid3x3, Map, UsersRound, Globe, Trophy, History, Hourglass } from 'lucide-react';
 import { usePageTracking } from './hooks/useAnalytics';
-import { GlobalDataProvider } from './contexts';
+import { GlobalDataProvider, EventProvider, ReplayProvider, ClockProvider, useEvent, useEventPath, useReplay } from './contexts';
+import { DEFAULT_EVENT_ID, listEvents } from './config/events';
 import ErrorBoundary from './components/ErrorBoundary';
 import AsyncBoundary from './components/AsyncBoundary';
+import OfflineBanner from './components/OfflineBanner';
+import FeedFreshnessBanner from './components/FeedFreshnessBanner';
+import ReplayBar from './components/ReplayBar';
 import { buildInfo } from './buildInfo';
+import { getClockFromSearch, systemClock } from './utils/clock';
 function NavBar() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const location = useLocation();
+  const navigate = useNavigate();
+  const event = useEvent();
+  const eventPath = useEventPath();
+  const { canReplay, isReplaying, startReplay } = useReplay();
+  const events = listEvents();
 
   const navItems = [
-    { path: '/', label: 'Home', icon: Home },
-    { path: '/waves', label: 'Waves', icon: Grid3x3 },
-    { path: '/route', label: 'Route Map', icon: Map },
-    { path: '/all-riders', label: 'All Riders', icon: Users },
-    { path: '/indian-riders', label: 'Indian Riders', icon: Flag },
+    { path: eventPath('/'), label: 'Home', icon: Home },
+    { path: eventPath('/waves'), label: 'Waves', icon: Grid3x3 },
+    { path: eventPath('/route'), label: 'Route Map', icon: Map },
+    { path: eventPath('/all-riders'), label: 'All Riders', icon: Users },
+    { path: eventPath('/indian-riders'), label: 'Indian Riders', icon: Flag },
+    { path: eventPath('/countries'), label: 'Countries', icon: Globe },
+    { path: eventPath('/clubs'), label: 'Clubs', icon: Trophy },
+    { path: eventPath('/groups'), label: 'Groups', icon: UsersRound },
+    { path: eventPath('/at-risk'), label: 'At Risk', icon: Hourglass },
   ];
 
   const isActive = (path: string) => {
-    if (path === '/indian-riders') {
-      return location.pathname.startsWith('/indian-riders');
+    if ([eventPath('/indian-riders'), eventPath('/countries'), eventPath('/groups')].includes(path)) {
+      return location.pathname.startsWith(path);
     }
     return location.pathname === path;
   };
 
+  // Keep the current page when switching to another event
+  const handleEventChange = (eventId: string) => {
+    const currentPage = location.pathname.slice(eventPath('/').length);
+    navigate(`/events/${eventId}${currentPage}`);
+  };
+
   return (
     <header className="bg-white shadow-md sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
-          <Link to="/" className="flex items-center gap-2">
+          <Link to={eventPath()} className="flex items-center gap-2">
             <img 
               src="https://www.enduroco.in/static/media/logo_orange.af42cec0c79a012b7028.png" 
               alt="Enduroco" 
@@ -44,12 +71,24 @@ function NavBar() {
             />
             <div className="flex flex-col">
               <span className="text-lg font-bold text-gray-900">Enduroco</span>
-              <span className="text-xs text-gray-600 -mt-1">LEL 2025 Tracker</span>
+              <span className="text-xs text-gray-600 -mt-1">{event.shortName} Tracker</span>
             </div>
           </Link>
 
           {/* Desktop Navigation */}
           <nav className="hidden md:flex items-center gap-6">
+            {events.length > 1 && (
+              <select
+                value={event.id}
+                onChange={(e) => handleEventChange(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700"
+                aria-label="Select event"
+              >
+                {events.map(({ id, shortName }) => (
+                  <option key={id} value={id}>{shortName}</option>
+                ))}
+              </select>
+            )}
             {navItems.map(({ path, label, icon: Icon }) => (
               <Link
                 key={path}
@@ -64,6 +103,15 @@ function NavBar() {
                 {label}
               </Link>
             ))}
+            {canReplay && !isReplaying && (
+              <button
+                onClick={startReplay}
+                className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+              >
+                <History className="h-4 w-4" />
+                Replay
+              </button>
+            )}
             <a
               href="https://enduroco.in"
               className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
@@ -88,6 +136,21 @@ function NavBar() {
         {isMenuOpen && (
           <nav className="md:hidden pb-4">
             <div className="flex flex-col gap-2">
+              {events.length > 1 && (
+                <select
+                  value={event.id}
+                  onChange={(e) => {
+                    setIsMenuOpen(false);
+                    handleEventChange(e.target.value);
+                  }}
+                  className="px-4 py-3 border border-gray-300 rounded-md text-base text-gray-700"
+                  aria-label="Select event"
+                >
+                  {events.map(({ id, shortName }) => (
+                    <option key={id} value={id}>{shortName}</option>
+                  ))}
+                </select>
+              )}
               {navItems.map(({ path, label, icon: Icon }) => (
                 <Link
                   key={path}
@@ -103,6 +166,18 @@ function NavBar() {
                   {label}
                 </Link>
               ))}
+              {canReplay && !isReplaying && (
+                <button
+                  onClick={() => {
+                    setIsMenuOpen(false);
+                    startReplay();
+                  }}
+                  className="flex items-center gap-3 px-4 py-3 rounded-md text-base font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+                >
+                  <History className="h-5 w-5" />
+                  Replay
+                </button>
+              )}
               <a
                 href="https://enduroco.in"
                 className="flex items-center gap-3 px-4 py-3 rounded-md text-base font-medium text-gray-700 hover:bg-gray-100 transition-colors"
@@ -121,21 +196,33 @@ function NavBar() {
 
 function AppContent() {
   usePageTracking(); // Track page views
+  const event = useEvent();
   
   return (
     <div className="min-h-screen bg-background">
       <NavBar />
+      <OfflineBanner />
+      <FeedFreshnessBanner />
+      <ReplayBar />
       
       <main className="flex-1">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
             <Routes>
-              <Route path="/" element={<AsyncBoundary><HomePage /></AsyncBoundary>} />
-              <Route path="/waves" element={<AsyncBoundary><WavesSummary /></AsyncBoundary>} />
-              <Route path="/wave/:wave" element={<AsyncBoundary><WaveDetail /></AsyncBoundary>} />
-              <Route path="/route" element={<AsyncBoundary><RouteMap /></AsyncBoundary>} />
-              <Route path="/all-riders" element={<AsyncBoundary><RidersList /></AsyncBoundary>} />
-              <Route path="/indian-riders" element={<AsyncBoundary><IndianRidersTimeline /></AsyncBoundary>} />
-              <Route path="/indian-riders/progress" element={<AsyncBoundary><IndianRidersProgressPage /></AsyncBoundary>} />
+              <Route index element={<AsyncBoundary><HomePage /></AsyncBoundary>} />
+              <Route path="waves" element={<AsyncBoundary><WavesSummary /></AsyncBoundary>} />
+              <Route path="wave/:wave" element={<AsyncBoundary><WaveDetail /></AsyncBoundary>} />
+              <Route path="route" element={<AsyncBoundary><RouteMap /></AsyncBoundary>} />
+              <Route path="all-riders" element={<AsyncBoundary><RidersList /></AsyncBoundary>} />
+              <Route path="indian-riders" element={<AsyncBoundary><IndianRidersTimeline /></AsyncBoundary>} />
+              <Route path="indian-riders/progress" element={<AsyncBoundary><IndianRidersProgressPage /></AsyncBoundary>} />
+              <Route path="countries" element={<AsyncBoundary><Countries /></AsyncBoundary>} />
+              <Route path="countries/:code" element={<AsyncBoundary><CountryDashboard /></AsyncBoundary>} />
+              <Route path="clubs" element={<AsyncBoundary><Clubs /></AsyncBoundary>} />
+              <Route path="groups" element={<AsyncBoundary><RiderGroups /></AsyncBoundary>} />
+              <Route path="groups/:groupId" element={<AsyncBoundary><RiderGroupTimeline /></AsyncBoundary>} />
+              <Route path="at-risk" element={<AsyncBoundary><AtRiskRiders /></AsyncBoundary>} />
+              {/* Not in the navigation: for whoever maintains the feeds */}
+              <Route path="diagnostics" element={<AsyncBoundary><DiagnosticsPage /></AsyncBoundary>} />
             </Routes>
           </div>
         </main>
@@ -155,7 +242,7 @@ function AppContent() {
                   </p>
                 </div>
                 <a 
-                  href="https://wa.me/919899054441?text=Hi%2C%20I%20have%20feedback%20about%20the%20LEL%202025%20Tracker"
+                  href={`https://wa.me/919899054441?text=${encodeURIComponent(`Hi, I have feedback about the ${event.shortName} Tracker`)}`}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="bg-green-500 hover:bg-green-600 text-white px-6 py-3 rounded-md font-medium transition-colors flex items-center gap-2"
@@ -229,14 +316,49 @@ function AppContent() {
   );
 }
 
+// Data is loaded per event; remounting on event change drops the previous event's data and replay
+function EventScopedApp() {
+  const event = useEvent();
+  
+  return (
+    <ReplayProvider key={event.id}>
+      <GlobalDataProvider>
+        <AppContent />
+      </GlobalDataProvider>
+    </ReplayProvider>
+  );
+}
+
+// Pre-event URLs (e.g. /indian-riders) point at the default event
+function LegacyRedirect() {
+  const location = useLocation();
+  const isEventIndex = location.pathname === '/' || location.pathname.replace(/\/$/, '') === '/events';
+  const path = isEventIndex ? '' : location.pathname;
+  
+  return <Navigate replace to={`/events/${DEFAULT_EVENT_ID}${path}${location.search}`} />;
+}
+
+// `?now=...&speed=...` runs the app on a simulated race clock (see utils/clock)
+const appClock = getClockFromSearch(window.location.search) || systemClock;
+
 function App() {
   return (
     <ErrorBoundary>
-      <Router>
-        <GlobalDataProvider>
-          <AppContent />
-        </GlobalDataProvider>
-      </Router>
+      <ClockProvider clock={appClock}>
+        <Router>
+          <Routes>
+            <Route
+              path="/events/:eventId/*"
+              element={
+                <EventProvider>
+                  <EventScopedApp />
+                </EventProvider>
+              }
+            />
+            <Route path="*" element={<LegacyRedirect />} />
+          </Routes>
+        </Router>
+      </ClockProvider>
     </ErrorBoundary>
   );
 }
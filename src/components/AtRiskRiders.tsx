@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Flag, Hourglass, Layers, Users } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import {
+  useEvent,
+  useEventPath,
+  useGlobalDataActions,
+  useGlobalDataSelector,
+  selectAtRiskRiders,
+  selectGlobalStatistics,
+  selectWaves
+} from '../contexts';
+import { useUrlViewState } from '../hooks/useUrlViewState';
+import type { RiderSortBy } from '../types/enhanced';
+import { formatElapsedTime } from '../config/lel-route';
+import { formatEventTimestamp } from '../utils/eventTimestamp';
+import { sortRidersByName, sortRidersByNumber, trackingSorters } from '../utils/dataProcessors';
+
+type AtRiskSort = Extract<RiderSortBy, 'finish_chance' | 'rider_no' | 'name' | 'wave'>;
+
+const SORT_OPTIONS: Array<{ value: AtRiskSort; label: string }> = [
+  { value: 'finish_chance', label: 'Most at risk' },
+  { value: 'rider_no', label: 'Rider number' },
+  { value: 'name', label: 'Name' },
+  { value: 'wave', label: 'Wave' }
+];
+
+// Rows rendered at once; the most at risk come first by default
+const MAX_ROWS = 300;
+
+const formatMargin = (minutes: number): string =>
+  minutes < 0 ? `${formatElapsedTime(-minutes)} late` : `${formatElapsedTime(minutes)} spare`;
+
+const getChanceVariant = (probability: number): 'destructive' | 'outline' | 'secondary' => {
+  if (probability < 0.5) return 'destructive';
+  if (probability < 0.8) return 'outline';
+  return 'secondary';
+};
+
+/**
+ * Projected finishes of every tracked rider on the road, least likely to make the limit first
+ */
+const AtRiskRiders: React.FC = () => {
+  const event = useEvent();
+  const eventPath = useEventPath();
+  const atRiskRiders = useGlobalDataSelector(selectAtRiskRiders);
+  const globalStatistics = useGlobalDataSelector(selectGlobalStatistics);
+  const waves = useGlobalDataSelector(selectWaves);
+  const trackingShards = useGlobalDataSelector(state => state.trackingShards);
+  const loading = useGlobalDataSelector(state => state.loading);
+  const { loadWaveTracking } = useGlobalDataActions();
+  const [isLoadingShards, setIsLoadingShards] = useState(false);
+
+  const { state: urlViewState, update: updateUrlViewState } = useUrlViewState();
+  const sortBy = SORT_OPTIONS.find(option => option.value === urlViewState.sortBy)?.value || 'finish_chance';
+
+  const riders = useMemo(() => {
+    switch (sortBy) {
+      case 'rider_no':
+        return sortRidersByNumber(atRiskRiders);
+      case 'name':
+        return sortRidersByName(atRiskRiders);
+      case 'wave':
+        return [...atRiskRiders].sort((a, b) => a.wave.localeCompare(b.wave) || trackingSorters.byFinishChance(a, b));
+      default:
+        return atRiskRiders;
+    }
+  }, [atRiskRiders, sortBy]);
+
+  const likelyToMiss = atRiskRiders.filter(rider => rider.finishProjection!.probability < 0.5).length;
+  const unloadedWaves = waves.map(wave => wave.code).filter(code => !trackingShards[code]);
+
+  const handleLoadAllWaves = async () => {
+    setIsLoadingShards(true);
+    try {
+      await loadWaveTracking(unloadedWaves);
+    } finally {
+      setIsLoadingShards(false);
+    }
+  };
+
+  const tiles = [
+    { label: 'Projected finishers', value: globalStatistics.projectedFinishers, icon: Flag },
+    { label: 'Finished', value: globalStatistics.byStatus.finished, icon: Flag },
+    { label: 'On the road', value: globalStatistics.byStatus.inProgress, icon: Users },
+    { label: 'Likely to miss the limit', value: likelyToMiss, icon: Hourglass }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Will they make it?</h1>
+          <p className="text-gray-600">
+            Projected finishes against the {event.timeLimit}-hour limit, from each rider's pace so far
+          </p>
+        </div>
+        {unloadedWaves.length > 0 && (
+          <Button variant="outline" onClick={handleLoadAllWaves} disabled={isLoadingShards}>
+            <Layers className="h-4 w-4 mr-2" />
+            {isLoadingShards ? 'Loading waves...' : `Include all ${waves.length} waves`}
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {tiles.map(({ label, value, icon: Icon }) => (
+          <Card key={label}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{label}</CardTitle>
+              <Icon className="h-4 w-4 text-primary opacity-50" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{value.toLocaleString()}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">Riders on the road ({riders.length})</CardTitle>
+            <CardDescription>
+              {unloadedWaves.length > 0
+                ? `Tracked riders only: ${waves.length - unloadedWaves.length} of ${waves.length} waves loaded.`
+                : 'Every wave is loaded.'}
+              {' '}Chances count the finish limit only, not closed intermediate controls.
+            </CardDescription>
+          </div>
+          <select
+            value={sortBy}
+            onChange={(e) => updateUrlViewState({ sortBy: e.target.value as AtRiskSort })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>Sort: {option.label}</option>
+            ))}
+          </select>
+        </CardHeader>
+        <CardContent>
+          {loading.riders ? (
+            <p className="text-gray-500">Loading riders...</p>
+          ) : riders.length === 0 ? (
+            <p className="text-gray-500">No tracked rider is on the road.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Rider', 'Wave', 'Last control', 'Projected finish', 'Limit', 'Margin', 'Chance'].map(header => (
+                      <th key={header} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {riders.slice(0, MAX_ROWS).map(rider => {
+                    const projection = rider.finishProjection!;
+                    return (
+                      <tr key={rider.rider_no} className="align-top">
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          <div className="font-medium">{rider.name}</div>
+                          <div className="text-xs text-gray-500">{rider.rider_no}</div>
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          <Link to={eventPath(`/wave/${rider.wave}`)} className="text-blue-600 hover:underline">
+                            {rider.wave}
+                          </Link>
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">{rider.currentLocation}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          <div>{formatEventTimestamp(new Date(projection.projectedFinish), event.timezone)}</div>
+                          <div className="text-xs text-gray-500">
+                            likely {formatEventTimestamp(new Date(projection.earliest), event.timezone)} to{' '}
+                            {formatEventTimestamp(new Date(projection.latest), event.timezone)}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {formatEventTimestamp(new Date(projection.limit), event.timezone)}
+                        </td>
+                        <td className={`px-3 py-2 whitespace-nowrap ${projection.marginMinutes < 0 ? 'text-red-600 font-medium' : ''}`}>
+                          {formatMargin(projection.marginMinutes)}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          <Badge variant={getChanceVariant(projection.probability)}>
+                            {Math.round(projection.probability * 100)}%
+                          </Badge>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {riders.length > MAX_ROWS && (
+                <p className="mt-3 text-sm text-gray-600">
+                  Showing the first {MAX_ROWS} of {riders.length}.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AtRiskRiders;
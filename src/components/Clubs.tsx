@@ -0,0 +1,8 @@
+import React from 'react';
+import { ClubsContainer } from '../features/clubs';
+
+const Clubs: React.FC = () => {
+  return <ClubsContainer />;
+};
+
+export default Clubs;
@@ -0,0 +1,8 @@
+import React from 'react';
+import { CountriesContainer } from '../features/countries';
+
+const Countries: React.FC = () => {
+  return <CountriesContainer />;
+};
+
+export default Countries;
@@ -0,0 +1,8 @@
+import React from 'react';
+import { CountryDashboardContainer } from '../features/countries';
+
+const CountryDashboard: React.FC = () => {
+  return <CountryDashboardContainer />;
+};
+
+export default CountryDashboard;
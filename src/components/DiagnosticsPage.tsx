@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Download, Layers } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { useEvent, useGlobalDataActions, useGlobalDataSelector, selectWaves } from '../contexts';
+import {
+  DIAGNOSTIC_SEVERITY,
+  DiagnosticCheck,
+  DiagnosticsTrackingFeed,
+  runDiagnostics
+} from '../utils/dataProcessors';
+
+const CHECK_LABELS: Record<DiagnosticCheck, string> = {
+  unknown_checkpoint: 'Unknown checkpoint',
+  checkpoint_off_route: 'Checkpoint off route',
+  unparseable_time: 'Unreadable time',
+  time_backwards: 'Time going backwards',
+  departure_before_arrival: 'Departure before arrival',
+  unknown_wave: 'Unknown wave',
+  not_registered: 'Not in riders.json'
+};
+
+// Rows rendered at once; the export always holds every anomaly
+const MAX_ROWS = 500;
+
+/**
+ * Consistency checks over the loaded feeds, for whoever maintains the data
+ *
+ * Not linked from the navigation; open /events/<event>/diagnostics directly.
+ */
+const DiagnosticsPage: React.FC = () => {
+  const event = useEvent();
+  const rawRiders = useGlobalDataSelector(state => state.rawRiders);
+  const liveTrackingData = useGlobalDataSelector(state => state.liveTrackingData);
+  const trackingShards = useGlobalDataSelector(state => state.trackingShards);
+  const loading = useGlobalDataSelector(state => state.loading);
+  const waves = useGlobalDataSelector(selectWaves);
+  const { loadWaveTracking } = useGlobalDataActions();
+  const [checkFilter, setCheckFilter] = useState<DiagnosticCheck | ''>('');
+  const [isLoadingShards, setIsLoadingShards] = useState(false);
+
+  // Live feeds as fetched, not rewound by a replay
+  const trackingFeeds = useMemo((): DiagnosticsTrackingFeed[] => [
+    ...(liveTrackingData ? [{ feed: 'tracking', riders: liveTrackingData.riders }] : []),
+    ...Object.keys(trackingShards).sort().map(code => ({ feed: `wave-${code}`, riders: trackingShards[code].riders }))
+  ], [liveTrackingData, trackingShards]);
+
+  const report = useMemo(
+    () => runDiagnostics(rawRiders, trackingFeeds, event),
+    [rawRiders, trackingFeeds, event]
+  );
+
+  const anomalies = checkFilter
+    ? report.anomalies.filter(anomaly => anomaly.check === checkFilter)
+    : report.anomalies;
+  const unloadedWaves = waves.map(wave => wave.code).filter(code => !trackingShards[code]);
+
+  const handleLoadAllWaves = async () => {
+    setIsLoadingShards(true);
+    try {
+      await loadWaveTracking(unloadedWaves);
+    } finally {
+      setIsLoadingShards(false);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `diagnostics-${report.eventId}-${report.generatedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Data diagnostics</h1>
+          <p className="text-gray-600">
+            {event.shortName}: {report.feeds.map(feed => `${feed.feed} (${feed.riders})`).join(', ')}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {unloadedWaves.length > 0 && (
+            <Button variant="outline" onClick={handleLoadAllWaves} disabled={isLoadingShards}>
+              <Layers className="h-4 w-4 mr-2" />
+              {isLoadingShards ? 'Loading waves...' : `Check all ${waves.length} waves`}
+            </Button>
+          )}
+          <Button onClick={handleExport} disabled={loading.riders}>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+        {(Object.keys(CHECK_LABELS) as DiagnosticCheck[]).map(check => (
+          <button
+            key={check}
+            onClick={() => setCheckFilter(prev => prev === check ? '' : check)}
+            className={`text-left rounded-lg border p-3 transition-colors ${
+              checkFilter === check ? 'border-blue-500 bg-blue-50' : 'bg-white hover:bg-gray-50'
+            }`}
+          >
+            <div className="text-2xl font-semibold">{report.summary[check]}</div>
+            <div className="text-xs text-gray-600">{CHECK_LABELS[check]}</div>
+          </button>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">
+            {checkFilter ? CHECK_LABELS[checkFilter] : 'All anomalies'} ({anomalies.length})
+          </CardTitle>
+          <CardDescription>
+            Checked at {new Date(report.generatedAt).toLocaleTimeString('en-GB')}; rerun by reloading the feeds.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading.riders ? (
+            <p className="text-gray-500">Loading riders...</p>
+          ) : anomalies.length === 0 ? (
+            <p className="flex items-center gap-2 text-green-700">
+              <CheckCircle2 className="h-5 w-5" />
+              No anomalies in the loaded feeds.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Check', 'Rider', 'Feed', 'Field', 'Value', 'Problem', 'Suggested fix'].map(header => (
+                      <th key={header} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {anomalies.slice(0, MAX_ROWS).map((anomaly, index) => (
+                    <tr key={`${anomaly.feed}-${anomaly.riderNo}-${anomaly.field}-${index}`} className="align-top">
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <Badge variant={DIAGNOSTIC_SEVERITY[anomaly.check] === 'error' ? 'destructive' : 'secondary'}>
+                          {CHECK_LABELS[anomaly.check]}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <div className="font-medium">{anomaly.riderNo}</div>
+                        {anomaly.riderName && <div className="text-xs text-gray-500">{anomaly.riderName}</div>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">{anomaly.feed}</td>
+                      <td className="px-3 py-2 whitespace-nowrap font-mono text-xs">{anomaly.field}</td>
+                      <td className="px-3 py-2 whitespace-nowrap font-mono text-xs">{anomaly.value ?? '-'}</td>
+                      <td className="px-3 py-2">{anomaly.message}</td>
+                      <td className="px-3 py-2 text-gray-600">{anomaly.suggestedFix}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {anomalies.length > MAX_ROWS && (
+                <p className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+                  <AlertTriangle className="h-4 w-4" />
+                  Showing the first {MAX_ROWS}; the export has all {anomalies.length}.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DiagnosticsPage;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { History, Hourglass, RefreshCw } from 'lucide-react';
+import { useGlobalDataActions, useReplay } from '../contexts';
+import { useFeedFreshness } from '../hooks/useFeedFreshness';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+import type { FeedFreshness } from '../utils/dataProcessors';
+import { formatTime, getRelativeTime } from '../utils/formatUtils';
+
+// "tracking" -> "main feed", "wave-A" -> "wave A"
+const formatFeedName = (feed: string): string => {
+  const wave = feed.match(/^wave-(.+)$/);
+  return wave ? `wave ${wave[1]}` : feed === 'tracking' ? 'main feed' : feed;
+};
+
+const listFeeds = (feeds: FeedFreshness[]): string => feeds.map(f => formatFeedName(f.feed)).join(', ');
+
+const oldest = (dates: (Date | null)[]): Date | null =>
+  dates.reduce<Date | null>((min, date) => (date && (!min || date < min) ? date : min), null);
+
+interface BannerProps {
+  icon: React.ReactNode;
+  className: string;
+  children: React.ReactNode;
+}
+
+const Banner: React.FC<BannerProps> = ({ icon, className, children }) => (
+  <div role="status" className={`border-b ${className}`}>
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-2 text-sm">
+      <span className="flex-shrink-0">{icon}</span>
+      <span>{children}</span>
+    </div>
+  </div>
+);
+
+/**
+ * Explains why tracking looks old: we have not refreshed, the source stopped
+ * updating, or the source sent an older payload than one already shown
+ */
+const FeedFreshnessBanner: React.FC = () => {
+  const feeds = useFeedFreshness();
+  const { isReplaying } = useReplay();
+  const { isOnline } = useOfflineStatus();
+  const { refreshTracking } = useGlobalDataActions();
+
+  // A replay shows the past on purpose
+  if (isReplaying) return null;
+
+  // Offline is explained by the offline banner
+  const notRefreshed = isOnline ? feeds.filter(f => f.state === 'not_refreshed') : [];
+  const stalled = feeds.filter(f => f.state === 'source_stalled');
+  const wentBackwards = feeds.filter(f => f.state === 'went_backwards');
+  // Wall clock: these describe fetches and the source, not race time
+  const now = new Date();
+
+  const lastFetched = oldest(notRefreshed.map(f => f.fetchedAt));
+  const stalledSince = oldest(stalled.map(f => f.sourceUpdatedAt));
+
+  return (
+    <>
+      {lastFetched && (
+        <Banner icon={<RefreshCw className="h-4 w-4" />} className="bg-amber-50 border-amber-200 text-amber-900">
+          <span className="font-medium">Tracking has not been refreshed since {formatTime(lastFetched)}</span>{' '}
+          ({listFeeds(notRefreshed)}). Newer positions may be available.{' '}
+          <button onClick={() => refreshTracking()} className="underline font-medium hover:text-amber-700">
+            Refresh now
+          </button>
+        </Banner>
+      )}
+
+      {stalledSince && (
+        <Banner icon={<Hourglass className="h-4 w-4" />} className="bg-sky-50 border-sky-200 text-sky-900">
+          <span className="font-medium">
+            The timing system has not published new tracking since {formatTime(stalledSince)}, {getRelativeTime(stalledSince, now)}
+          </span>{' '}
+          ({listFeeds(stalled)}). Riders have not necessarily stopped: positions will catch up when updates resume.
+        </Banner>
+      )}
+
+      {wentBackwards.length > 0 && (
+        <Banner icon={<History className="h-4 w-4" />} className="bg-violet-50 border-violet-200 text-violet-900">
+          <span className="font-medium">The timing system sent older tracking than already shown</span>{' '}
+          ({wentBackwards.map(f => `${formatFeedName(f.feed)}: ${formatTime(f.sourceUpdatedAt!)} to ${formatTime(f.latestSourceUpdatedAt!)}`).join(', ')}).
+          Some riders may appear behind where they are until it catches up.
+        </Banner>
+      )}
+    </>
+  );
+};
+
+export default FeedFreshnessBanner;
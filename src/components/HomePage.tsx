@@ -2,22 +2,40 @@ import React from 'react';
 import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Users, Flag, Grid3x3, MapPin, Trophy, Calendar, ArrowRight } from 'lucide-react';
+import { useEvent, useEventPath } from '../contexts';
+
+// Format an event's date range, e.g. "August 3-8, 2025"
+const formatEventDates = (startDate: string, endDate: string): string => {
+  const start = new Date(`${startDate}T12:00:00Z`);
+  const end = new Date(`${endDate}T12:00:00Z`);
+  const month = start.toLocaleDateString('en-US', { month: 'long', timeZone: 'UTC' });
+  
+  if (start.getUTCMonth() === end.getUTCMonth()) {
+    return `${month} ${start.getUTCDate()}-${end.getUTCDate()}, ${start.getUTCFullYear()}`;
+  }
+  
+  const endMonth = end.toLocaleDateString('en-US', { month: 'long', timeZone: 'UTC' });
+  return `${month} ${start.getUTCDate()} - ${endMonth} ${end.getUTCDate()}, ${end.getUTCFullYear()}`;
+};
 
 const HomePage: React.FC = () => {
+  const event = useEvent();
+  const eventPath = useEventPath();
+  
   const sections = [
     {
       title: 'Browse by Waves',
       description: 'Explore riders organized by their starting waves',
       icon: Grid3x3,
-      link: '/waves',
+      link: eventPath('/waves'),
       color: 'bg-blue-500',
       stats: '50+ waves'
     },
     {
       title: 'All Riders',
-      description: 'Complete searchable list of all LEL 2025 participants',
+      description: `Complete searchable list of all ${event.shortName} participants`,
       icon: Users,
-      link: '/all-riders',
+      link: eventPath('/all-riders'),
       color: 'bg-green-500',
       stats: '2,000+ riders'
     },
@@ -25,16 +43,16 @@ const HomePage: React.FC = () => {
       title: 'Indian Riders',
       description: 'Dedicated section for participants from India',
       icon: Flag,
-      link: '/indian-riders',
+      link: eventPath('/indian-riders'),
       color: 'bg-orange-500',
       stats: 'Special listing'
     }
   ];
 
   const eventInfo = [
-    { icon: Calendar, label: 'Date', value: 'August 3-8, 2025' },
-    { icon: MapPin, label: 'Route', value: 'London to Edinburgh and back' },
-    { icon: Trophy, label: 'Distance', value: '1,540 kilometers' },
+    { icon: Calendar, label: 'Date', value: formatEventDates(event.startDate, event.endDate) },
+    { icon: MapPin, label: 'Route', value: event.description },
+    { icon: Trophy, label: 'Distance', value: `${event.distance.toLocaleString('en-US')} kilometers` },
   ];
 
   return (
@@ -50,10 +68,10 @@ const HomePage: React.FC = () => {
           <p className="text-sm text-orange-600 font-semibold">ENDUROCO.IN PRESENTS</p>
         </div>
         <h1 className="text-5xl font-bold text-gray-900 mb-4">
-          LEL 2025 Rider Directory
+          {event.shortName} Rider Directory
         </h1>
         <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
-          Explore the complete list of brave cyclists taking on the London-Edinburgh-London challenge
+          Explore the complete list of brave cyclists taking on the {event.name} challenge
         </p>
       </div>
 
@@ -108,11 +126,11 @@ const HomePage: React.FC = () => {
             <p className="text-sm text-muted-foreground">Starting Waves</p>
           </div>
           <div>
-            <p className="text-3xl font-bold text-primary">125</p>
+            <p className="text-3xl font-bold text-primary">{event.timeLimit}</p>
             <p className="text-sm text-muted-foreground">Hour Limit</p>
           </div>
           <div>
-            <p className="text-3xl font-bold text-primary">1,540</p>
+            <p className="text-3xl font-bold text-primary">{event.distance.toLocaleString('en-US')}</p>
             <p className="text-sm text-muted-foreground">Kilometers</p>
           </div>
         </div>
@@ -123,7 +141,7 @@ const HomePage: React.FC = () => {
         <p className="text-lg text-muted-foreground mb-4">
           Ready to explore the riders taking on this epic challenge?
         </p>
-        <Link to="/waves">
+        <Link to={eventPath('/waves')}>
           <button className="bg-primary text-primary-foreground px-8 py-3 rounded-lg font-semibold hover:bg-primary/90 transition-colors">
             Browse All Waves
           </button>
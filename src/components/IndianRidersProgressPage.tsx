@@ -3,8 +3,11 @@ import { Link } from 'react-router-dom';
 import { ArrowLeft } from 'lucide-react';
 import { Button } from './ui/button';
 import RouteVisualization from './RouteVisualization';
+import { useEventPath } from '../contexts';
 
 const IndianRidersProgressPage: React.FC = () => {
+  const eventPath = useEventPath();
+
   return (
     <div className="space-y-6">
       <div>
@@ -13,7 +16,7 @@ const IndianRidersProgressPage: React.FC = () => {
       </div>
       
       <div className="flex items-center gap-4">
-        <Link to="/indian-riders">
+        <Link to={eventPath('/indian-riders')}>
           <Button variant="outline" size="sm" className="flex items-center gap-2">
             <ArrowLeft className="h-4 w-4" />
             Back to Timeline
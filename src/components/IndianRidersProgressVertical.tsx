@@ -2,8 +2,9 @@ import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Activity } from 'lucide-react';
-import { useGlobalData } from '../contexts';
-import { getControlsForRider, getTotalDistanceForRider } from '../config/lel-route';
+import { useGlobalDataSelector, useGlobalDataActions, selectRawTrackingData, useEvent } from '../contexts';
+import { getCheckpointVisit, getTotalDistanceForRider } from '../config/lel-route';
+import { getDefaultStartLocation } from '../config/events';
 
 interface RiderPosition {
   rider_no: string;
@@ -16,7 +17,11 @@ interface RiderPosition {
 }
 
 const IndianRidersProgressVertical: React.FC = () => {
-  const { rawTrackingData, loading, errors, refreshTracking } = useGlobalData();
+  const rawTrackingData = useGlobalDataSelector(selectRawTrackingData);
+  const loading = useGlobalDataSelector(state => state.loading);
+  const errors = useGlobalDataSelector(state => state.errors);
+  const { refreshTracking } = useGlobalDataActions();
+  const event = useEvent();
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
@@ -44,8 +49,8 @@ const IndianRidersProgressVertical: React.FC = () => {
 
   // Calculate rider positions - filter to only show active riders
   const riderPositions: RiderPosition[] = indianRiders
-    .filter((rider: any) => rider.status !== 'not_started') // Only show riders who have started
-    .map((rider: any) => {
+    .filter(rider => rider.status !== 'not_started') // Only show riders who have started
+    .map(rider => {
       let distance = 0;
       let lastCheckpoint = 'Start';
 
@@ -54,12 +59,7 @@ const IndianRidersProgressVertical: React.FC = () => {
         lastCheckpoint = lastCP.name;
         
         // Find the control distance
-        const controls = getControlsForRider(rider.rider_no);
-        const control = controls.find(c => 
-          c.name === lastCP.name.replace(/\s+[NSEW]$/, '') ||
-          c.name === lastCP.name ||
-          (lastCP.name === 'Start' && c.km === 0)
-        );
+        const control = getCheckpointVisit(lastCP.name, rider.rider_no, event);
         
         if (control) {
           distance = control.km;
@@ -118,8 +118,8 @@ const IndianRidersProgressVertical: React.FC = () => {
 
     // Get max distance for the route
     const maxDistance = riderPositions.length > 0 
-      ? Math.max(...riderPositions.map(r => getTotalDistanceForRider(r.rider_no)))
-      : 1540;
+      ? Math.max(...riderPositions.map(r => getTotalDistanceForRider(r.rider_no, event)))
+      : event.distance;
 
     // Y scale (distance) - inverted so 0 is at bottom
     const yScale = d3.scaleLinear()
@@ -165,7 +165,7 @@ const IndianRidersProgressVertical: React.FC = () => {
       .text('Distance (km)');
 
     // Add control points as horizontal lines
-    const controls = getControlsForRider('A1'); // Get standard controls
+    const controls = getDefaultStartLocation(event).controls; // Get standard controls
     controls.forEach(control => {
       const y = yScale(control.km);
       
@@ -324,7 +324,7 @@ const IndianRidersProgressVertical: React.FC = () => {
     return () => {
       d3.select('body').selectAll('.tooltip').remove();
     };
-  }, [dimensions, riderPositions]);
+  }, [dimensions, riderPositions, event]);
 
   const inProgressCount = riderPositions.filter(r => r.status === 'in_progress').length;
   const finishedCount = riderPositions.filter(r => r.status === 'finished').length;
@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+import { WifiOff } from 'lucide-react';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+import { formatTime, getRelativeTime } from '../utils/formatUtils';
+
+/**
+ * Warns when the connection is down or the data on screen is an offline copy
+ */
+const OfflineBanner: React.FC = () => {
+  const { isOnline, oldestSnapshot } = useOfflineStatus();
+  const [, setNow] = useState(Date.now());
+
+  const isVisible = !isOnline || oldestSnapshot !== null;
+
+  // Keep "saved N minutes ago" current while the banner is up
+  useEffect(() => {
+    if (!isVisible) return;
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [isVisible]);
+
+  if (!isVisible) return null;
+
+  const headline = isOnline ? 'Cannot reach the tracking data.' : 'You are offline.';
+  const detail = oldestSnapshot
+    ? `Showing data saved ${getRelativeTime(oldestSnapshot)} (at ${formatTime(oldestSnapshot)}). It will refresh when the connection is back.`
+    : 'Data will refresh when the connection is back.';
+
+  return (
+    <div role="status" className="bg-amber-50 border-b border-amber-200 text-amber-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-2 text-sm">
+        <WifiOff className="h-4 w-4 flex-shrink-0" />
+        <span>
+          <span className="font-medium">{headline}</span> {detail}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default OfflineBanner;
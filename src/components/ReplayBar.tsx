@@ -0,0 +1,72 @@
+import React from 'react';
+import { History, Pause, Play, X } from 'lucide-react';
+import { useEvent, useReplay, REPLAY_SPEEDS } from '../contexts';
+import { formatEventTimestamp } from '../utils/eventTimestamp';
+
+// Slider steps are whole minutes
+const STEP_MS = 60 * 1000;
+
+const formatSpeed = (minutesPerSecond: number): string => {
+  return minutesPerSecond >= 60 ? `${minutesPerSecond / 60}h/s` : `${minutesPerSecond}m/s`;
+};
+
+/**
+ * Time-travel controls shown while the race is being replayed
+ */
+const ReplayBar: React.FC = () => {
+  const event = useEvent();
+  const { asOf, start, end, isPlaying, speed, seek, play, pause, setSpeed, stopReplay } = useReplay();
+
+  if (!asOf || !start || !end) return null;
+
+  return (
+    <div role="region" aria-label="Race replay" className="bg-indigo-50 border-b border-indigo-200 text-indigo-900">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center gap-3 text-sm">
+        <History className="h-4 w-4 flex-shrink-0" />
+        <span className="font-medium whitespace-nowrap">
+          Replay: {formatEventTimestamp(asOf, event.timezone)}
+        </span>
+
+        <button
+          onClick={isPlaying ? pause : play}
+          className="p-1.5 rounded-md hover:bg-indigo-100"
+          aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </button>
+
+        <input
+          type="range"
+          min={start.getTime()}
+          max={end.getTime()}
+          step={STEP_MS}
+          value={asOf.getTime()}
+          onChange={(e) => seek(new Date(Number(e.target.value)))}
+          className="flex-1 min-w-[8rem] accent-indigo-600"
+          aria-label="Replay time"
+        />
+
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="px-2 py-1 border border-indigo-200 rounded-md bg-white text-sm"
+          aria-label="Replay speed"
+        >
+          {REPLAY_SPEEDS.map(option => (
+            <option key={option} value={option}>{formatSpeed(option)}</option>
+          ))}
+        </select>
+
+        <button
+          onClick={stopReplay}
+          className="flex items-center gap-1 px-2 py-1 rounded-md hover:bg-indigo-100 font-medium"
+        >
+          <X className="h-4 w-4" />
+          Back to live
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayBar;
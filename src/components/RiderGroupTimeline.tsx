@@ -0,0 +1,8 @@
+import React from 'react';
+import { GroupTimelineContainer } from '../features/rider-groups';
+
+const RiderGroupTimeline: React.FC = () => {
+  return <GroupTimelineContainer />;
+};
+
+export default RiderGroupTimeline;
@@ -0,0 +1,8 @@
+import React from 'react';
+import { GroupsContainer } from '../features/rider-groups';
+
+const RiderGroups: React.FC = () => {
+  return <GroupsContainer />;
+};
+
+export default RiderGroups;
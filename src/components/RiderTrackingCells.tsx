@@ -0,0 +1,64 @@
+import React from 'react';
+import type { RiderStatus, TrackingRider, TrackingShardState } from '../types/enhanced';
+import { formatDistance } from '../utils/formatUtils';
+
+const STATUS_LABELS: Record<RiderStatus, { label: string; className: string }> = {
+  not_started: { label: 'Not Started', className: 'bg-gray-100 text-gray-600' },
+  in_progress: { label: 'Riding', className: 'bg-blue-100 text-blue-800' },
+  finished: { label: 'Finished', className: 'bg-green-100 text-green-800' },
+  dnf: { label: 'DNF', className: 'bg-red-100 text-red-800' }
+};
+
+const cellClassName = 'px-6 py-4 whitespace-nowrap text-sm text-gray-500';
+
+export const TRACKING_COLUMN_HEADERS = ['Status', 'Distance', 'Last Checkpoint'];
+
+interface RiderTrackingCellsProps {
+  rider: TrackingRider | undefined;
+  /** Shard of the rider's wave; undefined until it is requested */
+  shard: TrackingShardState | undefined;
+}
+
+/**
+ * Status, distance and last checkpoint cells of a rider table row
+ */
+const RiderTrackingCells: React.FC<RiderTrackingCellsProps> = ({ rider, shard }) => {
+  const hasFeedData = rider && rider.status !== 'not_started';
+
+  // Riders in the Indian riders feed have data before their shard arrives
+  if (!hasFeedData && (!shard || (shard.loading && !shard.lastUpdated))) {
+    return (
+      <td colSpan={TRACKING_COLUMN_HEADERS.length} className={`${cellClassName} text-gray-400`}>
+        Loading tracking...
+      </td>
+    );
+  }
+
+  if (!hasFeedData && shard?.error && !shard.lastUpdated) {
+    return (
+      <td colSpan={TRACKING_COLUMN_HEADERS.length} className={`${cellClassName} text-gray-400`}>
+        Tracking unavailable
+      </td>
+    );
+  }
+
+  const status = STATUS_LABELS[rider?.status || 'not_started'];
+
+  return (
+    <>
+      <td className={cellClassName}>
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+          {status.label}
+        </span>
+      </td>
+      <td className={cellClassName}>
+        {rider && rider.distanceCovered > 0 ? formatDistance(rider.distanceCovered) : '-'}
+      </td>
+      <td className={cellClassName}>
+        {rider?.lastCheckpoint || '-'}
+      </td>
+    </>
+  );
+};
+
+export default RiderTrackingCells;
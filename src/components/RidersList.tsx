@@ -1,16 +1,31 @@
-import React, { useState, useMemo } from 'react';
-import { useGlobalData } from '../contexts';
-import { isLondonStartRider } from '../config/lel-route';
+import React, { useState, useMemo, useEffect } from 'react';
+import { useGlobalDataSelector, selectEnhancedRiders, selectTrackedWaves, useEvent } from '../contexts';
+import { useWaveTracking } from '../hooks/useWaveTracking';
+import { useUrlViewState } from '../hooks/useUrlViewState';
+import type { TrackingRider } from '../types/enhanced';
+import { getExtraDistanceForRider } from '../config/lel-route';
+import { formatAffiliation } from '../utils/formatUtils';
+import RiderTrackingCells, { TRACKING_COLUMN_HEADERS } from './RiderTrackingCells';
+
+// Tracking is loaded per wave for the riders on the current page only
+const PAGE_SIZE = 100;
 
 const RidersList: React.FC = () => {
-  const { 
-    enhancedRiders,
-    loading,
-    errors
-  } = useGlobalData();
+  const event = useEvent();
+  const enhancedRiders = useGlobalDataSelector(selectEnhancedRiders);
+  const trackedWaves = useGlobalDataSelector(selectTrackedWaves);
+  const trackingShards = useGlobalDataSelector(state => state.trackingShards);
+  const loading = useGlobalDataSelector(state => state.loading);
+  const errors = useGlobalDataSelector(state => state.errors);
 
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortByLocal, setSortByLocal] = useState<'name' | 'rider_no'>('rider_no');
+  // Search and sort come from the URL, so the list can be linked and history works
+  const { state: urlViewState, update: updateUrlViewState } = useUrlViewState();
+  const searchTerm = urlViewState.filters.searchTerm || '';
+  const sortByLocal = urlViewState.sortBy === 'name' ? 'name' : 'rider_no';
+  const setSearchTerm = (term: string) =>
+    updateUrlViewState({ filters: { ...urlViewState.filters, searchTerm: term } }, { replace: true });
+  const setSortByLocal = (sortBy: 'name' | 'rider_no') => updateUrlViewState({ sortBy });
+  const [page, setPage] = useState(0);
 
   // Filter and sort riders locally
   const filteredAndSortedRiders = useMemo(() => {
@@ -39,6 +54,27 @@ const RidersList: React.FC = () => {
     });
   }, [enhancedRiders, searchTerm, sortByLocal]);
 
+  useEffect(() => {
+    setPage(0);
+  }, [searchTerm, sortByLocal]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredAndSortedRiders.length / PAGE_SIZE));
+  const pageRiders = useMemo(
+    () => filteredAndSortedRiders.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE),
+    [filteredAndSortedRiders, page]
+  );
+
+  const pageWaves = useMemo(() => pageRiders.map(rider => rider.wave), [pageRiders]);
+  const tracking = useWaveTracking(pageWaves);
+
+  const trackingByRider = useMemo(() => {
+    const map = new Map<string, TrackingRider>();
+    trackedWaves.forEach(wave => {
+      wave.trackingRiders.forEach(rider => map.set(rider.rider_no, rider));
+    });
+    return map;
+  }, [trackedWaves]);
+
   if (loading.riders) return (
     <div className="flex justify-center items-center min-h-screen">
       <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
@@ -59,6 +95,9 @@ const RidersList: React.FC = () => {
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-4">All Riders</h1>
         <p className="text-gray-600">Total riders: {enhancedRiders.length}</p>
+        {tracking.error && (
+          <p className="text-sm text-red-600 mt-1">Some tracking could not be loaded: {tracking.error.message}</p>
+        )}
       </div>
 
       <div className="mb-6 flex flex-col sm:flex-row gap-4">
@@ -94,20 +133,30 @@ const RidersList: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Name
                 </th>
+                {TRACKING_COLUMN_HEADERS.map(header => (
+                  <th key={header} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {header}
+                  </th>
+                ))}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredAndSortedRiders.map((rider) => (
+              {pageRiders.map((rider) => (
                 <tr key={rider.rider_no} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     {rider.rider_no}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {rider.name}
-                    {isLondonStartRider(rider.rider_no) && (
-                      <sup className="text-xs text-gray-400 ml-1">+20km</sup>
+                    {getExtraDistanceForRider(rider.rider_no, event) > 0 && (
+                      <sup className="text-xs text-gray-400 ml-1">+{getExtraDistanceForRider(rider.rider_no, event)}km</sup>
                     )}
+                    <div className="text-xs text-gray-400">{formatAffiliation(rider)}</div>
                   </td>
+                  <RiderTrackingCells
+                    rider={trackingByRider.get(rider.rider_no)}
+                    shard={trackingShards[rider.wave]}
+                  />
                 </tr>
               ))}
             </tbody>
@@ -115,6 +164,29 @@ const RidersList: React.FC = () => {
         </div>
       </div>
 
+      {pageCount > 1 && (
+        <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+          <button
+            className="px-4 py-2 border border-gray-300 rounded-lg disabled:opacity-50"
+            onClick={() => setPage(p => p - 1)}
+            disabled={page === 0}
+          >
+            Previous
+          </button>
+          <span>
+            Page {page + 1} of {pageCount}
+            {tracking.loading && <span className="ml-2 text-gray-400">(loading tracking...)</span>}
+          </span>
+          <button
+            className="px-4 py-2 border border-gray-300 rounded-lg disabled:opacity-50"
+            onClick={() => setPage(p => p + 1)}
+            disabled={page >= pageCount - 1}
+          >
+            Next
+          </button>
+        </div>
+      )}
+
       {filteredAndSortedRiders.length === 0 && (
         <div className="text-center py-8 text-gray-500">
           No riders found matching "{searchTerm}"
@@ -5,6 +5,10 @@ import 'leaflet/dist/leaflet.css';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Bike, MapPin, Navigation, Activity } from 'lucide-react';
+import { useEvent } from '../contexts';
+import { getEventDataUrl } from '../config/events';
+import { routeService } from '../services';
+import type { RouteTrack, RouteTrackPoint } from '../types/enhanced';
 
 // Fix for default markers in React Leaflet
 import icon from 'leaflet/dist/images/marker-icon.png';
@@ -29,24 +33,8 @@ const createNumberedIcon = (number: number) => {
   });
 };
 
-interface RoutePoint {
-  id: number;
-  lat: number;
-  lon: number;
-  dist: number;
-  elev: number;
-  checkpoint?: string;
-}
-
-interface Route {
-  id: number;
-  name: string;
-  colour: string;
-  coords: RoutePoint[];
-}
-
 // Component to fit map bounds to route
-function FitBounds({ coords }: { coords: RoutePoint[] }) {
+function FitBounds({ coords }: { coords: RouteTrackPoint[] }) {
   const map = useMap();
   
   useEffect(() => {
@@ -60,17 +48,14 @@ function FitBounds({ coords }: { coords: RoutePoint[] }) {
 }
 
 const RouteMap: React.FC = () => {
-  const [routes, setRoutes] = useState<Route[]>([]);
+  const event = useEvent();
+  const [routes, setRoutes] = useState<RouteTrack[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedRoute, setSelectedRoute] = useState<number>(0);
 
   useEffect(() => {
-    fetch('https://lel-riders-data-2025.s3.ap-south-1.amazonaws.com/routes.json')
-      .then(response => {
-        if (!response.ok) throw new Error('Failed to fetch route data');
-        return response.json();
-      })
+    routeService.fetchRouteData(getEventDataUrl(event, 'routes'))
       .then(data => {
         setRoutes(data);
         setLoading(false);
@@ -79,7 +64,7 @@ const RouteMap: React.FC = () => {
         setError(err.message);
         setLoading(false);
       });
-  }, []);
+  }, [event]);
 
   if (loading) return (
     <div className="flex justify-center items-center min-h-[600px]">
@@ -109,8 +94,8 @@ const RouteMap: React.FC = () => {
   );
 
   // Collect all checkpoints from all routes
-  const allCheckpoints: RoutePoint[] = [];
-  const allCoords: RoutePoint[] = [];
+  const allCheckpoints: RouteTrackPoint[] = [];
+  const allCoords: RouteTrackPoint[] = [];
   
   routes.forEach(route => {
     const routeCheckpoints = route.coords.filter(point => point.checkpoint);
@@ -150,7 +135,7 @@ const RouteMap: React.FC = () => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <MapPin className="h-5 w-5" />
-            LEL 2025 Route Map
+            {event.shortName} Route Map
           </CardTitle>
           <CardDescription>
             Interactive map showing the full route from London/Writtle to Edinburgh and back (1537-1557km)
@@ -2,8 +2,11 @@ import React, { useEffect, useRef, useState, useMemo } from 'react';
 import * as d3 from 'd3';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { MapPin, Users, AlertCircle } from 'lucide-react';
-import { useGlobalData } from '../contexts';
-import { getControlsForRider, getTotalDistanceForRider, getWaveStartTime } from '../config/lel-route';
+import { useGlobalDataSelector, useGlobalDataActions, selectPaceModel, selectRawTrackingData, useEvent, useClock } from '../contexts';
+import { predictRiderEta, RawCheckpoint } from '../utils/dataProcessors';
+import { getCheckpointVisit, getControlVisitsForRider, getTotalDistanceForRider, getWaveStartTime } from '../config/lel-route';
+import { getDefaultStartLocation } from '../config/events';
+import { formatEventTimestamp, parseEventTimestamp } from '../utils/eventTimestamp';
 
 interface ApproximatedRider {
   rider_no: string;
@@ -19,16 +22,23 @@ interface ApproximatedRider {
   nextCheckpoint: {
     name: string;
     distance: number;
+    eta: string | null; // Predicted arrival with its likely range
   };
   approximatedDistance: number;
   isApproximated: boolean;
   timeSinceLastUpdate: number; // minutes
-  averageSpeed: number;
+  pace: number; // Predicted daytime pace in km/h, 0 if not on the road
   confidence: 'high' | 'medium' | 'low';
 }
 
 const RouteVisualization: React.FC = () => {
-  const { rawTrackingData, loading, errors, refreshTracking } = useGlobalData();
+  const rawTrackingData = useGlobalDataSelector(selectRawTrackingData);
+  const paceModel = useGlobalDataSelector(selectPaceModel);
+  const loading = useGlobalDataSelector(state => state.loading);
+  const errors = useGlobalDataSelector(state => state.errors);
+  const { refreshTracking } = useGlobalDataActions();
+  const event = useEvent();
+  const clock = useClock();
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
@@ -48,21 +58,22 @@ const RouteVisualization: React.FC = () => {
   const approximatedRiders = useMemo((): ApproximatedRider[] => {
     if (!indianRiders.length) return [];
 
-    const currentTime = new Date();
+    // Positions are estimated at the clock's time (the replay time when scrubbing)
+    const currentTime = clock.now();
     const results: ApproximatedRider[] = [];
 
-    indianRiders.forEach((rider: any) => {
+    indianRiders.forEach(rider => {
       // Skip riders who haven't started
       if (rider.status === 'not_started' || !rider.checkpoints || rider.checkpoints.length === 0) {
         return;
       }
 
       // Get rider's route controls
-      const controls = getControlsForRider(rider.rider_no);
+      const controls = getControlVisitsForRider(rider.rider_no, event);
       const wave = rider.rider_no.match(/^[A-Z]+/)?.[0] || '';
 
       // Find last checkpoint with arrival time
-      let lastCheckpointData: any = null;
+      let lastCheckpointData: RawCheckpoint | null = null;
       let lastCheckpointIndex = -1;
       
       for (let i = rider.checkpoints.length - 1; i >= 0; i--) {
@@ -76,21 +87,15 @@ const RouteVisualization: React.FC = () => {
       if (!lastCheckpointData) return;
 
       // Find matching control for distance
-      const lastControlName = lastCheckpointData.name.replace(/\s+[NSEW]$/, '');
-      const lastControl = controls.find(c => 
-        c.name === lastControlName || 
-        c.name === lastCheckpointData.name ||
-        (lastCheckpointData.name === 'Start' && c.km === 0)
-      );
+      const lastControl = getCheckpointVisit(lastCheckpointData.name, rider.rider_no, event);
 
       if (!lastControl) return;
 
       // Find next control
-      const currentControlIndex = controls.findIndex(c => c.name === lastControl.name);
-      const nextControl = controls[currentControlIndex + 1];
+      const nextControl = controls[lastControl.ordinal + 1];
 
       // Parse checkpoint time
-      const checkpointTime = parseCheckpointTime(lastCheckpointData.time, rider.rider_no);
+      const checkpointTime = parseEventTimestamp(lastCheckpointData.time, event, { notAfter: currentTime });
       if (!checkpointTime) return;
 
       // Calculate time since checkpoint
@@ -100,29 +105,21 @@ const RouteVisualization: React.FC = () => {
       let isApproximated = false;
       let confidence: 'high' | 'medium' | 'low' = 'high';
 
-      // If rider has departed (either explicit departure time or been at control > 5 minutes)
-      const hasDepart = lastCheckpointData.departure || timeSinceMinutes > 5;
+      // Position from the predicted pace since leaving the last control
+      const eta = predictRiderEta(rider, currentTime, event, paceModel);
+      const nextEta = eta?.controls[0];
       
-      if (hasDepart && rider.status === 'in_progress' && nextControl) {
-        // Calculate average speed (km/h)
-        const avgSpeed = rider.average_speed || 15; // Default 15 km/h if not available
-        
-        // Estimate distance traveled since departure
-        const timeSinceDeparture = lastCheckpointData.departure 
-          ? timeSinceMinutes 
-          : Math.max(0, timeSinceMinutes - 5); // Assume 5 min stop if no departure time
-        
-        const estimatedDistance = (timeSinceDeparture / 60) * avgSpeed;
-        
-        // Calculate approximated position, but cap before next control
+      if (eta && nextEta && nextControl && eta.estimatedKm > lastControl.km) {
+        // Cap before the next control: the rider has not been seen there yet
         const maxDistance = nextControl.km - 2; // 2km buffer before next control
-        approximatedDistance = Math.min(lastControl.km + estimatedDistance, maxDistance);
+        approximatedDistance = Math.max(lastControl.km, Math.min(eta.estimatedKm, maxDistance));
         isApproximated = true;
 
-        // Determine confidence based on time since last update
-        if (timeSinceMinutes < 60) {
+        // Confidence from how wide the predicted arrival window is
+        const windowMinutes = (nextEta.latest - nextEta.earliest) / 60000;
+        if (windowMinutes < 60) {
           confidence = 'high';
-        } else if (timeSinceMinutes < 180) {
+        } else if (windowMinutes < 180) {
           confidence = 'medium';
         } else {
           confidence = 'low';
@@ -142,22 +139,28 @@ const RouteVisualization: React.FC = () => {
         },
         nextCheckpoint: nextControl ? {
           name: nextControl.name,
-          distance: nextControl.km
+          distance: nextControl.km,
+          eta: nextEta
+            ? `${formatEventTimestamp(new Date(nextEta.eta), event.timezone)} (likely ${
+              formatEventTimestamp(new Date(nextEta.earliest), event.timezone)} to ${
+              formatEventTimestamp(new Date(nextEta.latest), event.timezone)})`
+            : null
         } : {
           name: 'Finish',
-          distance: getTotalDistanceForRider(rider.rider_no)
+          distance: getTotalDistanceForRider(rider.rider_no, event),
+          eta: null
         },
         approximatedDistance,
         isApproximated,
         timeSinceLastUpdate: timeSinceMinutes,
-        averageSpeed: rider.average_speed || 15,
+        pace: eta ? eta.baseSpeed : 0,
         confidence
       });
     });
 
     // Sort by distance (furthest first)
     return results.sort((a, b) => b.approximatedDistance - a.approximatedDistance);
-  }, [indianRiders]);
+  }, [indianRiders, clock, event, paceModel]);
 
   // Update dimensions
   useEffect(() => {
@@ -193,7 +196,7 @@ const RouteVisualization: React.FC = () => {
 
     // Get max distance for scale
     const maxDistance = Math.max(...approximatedRiders.map(r => 
-      getTotalDistanceForRider(r.rider_no)
+      getTotalDistanceForRider(r.rider_no, event)
     ));
 
     // Y scale (distance) - inverted so start is at top
@@ -253,7 +256,7 @@ const RouteVisualization: React.FC = () => {
       .attr('opacity', 0.5);
 
     // Add control points
-    const controls = getControlsForRider('A1'); // Get standard controls
+    const controls = getDefaultStartLocation(event).controls; // Get standard controls
     
     controls.forEach(control => {
       const y = yScale(control.km);
@@ -380,10 +383,11 @@ const RouteVisualization: React.FC = () => {
           <div>Status: ${d.status.replace('_', ' ')}</div>
           <div>${statusText}</div>
           <div>Last update: ${d.timeSinceLastUpdate}min ago</div>
-          <div>Avg speed: ${d.averageSpeed.toFixed(1)}km/h</div>
+          ${d.pace > 0 ? `<div>Pace: ${d.pace.toFixed(1)}km/h by day</div>` : ''}
           <div style="margin-top: 4px; font-size: 11px">
             Next: ${d.nextCheckpoint.name} (${d.nextCheckpoint.distance}km)
           </div>
+          ${d.nextCheckpoint.eta ? `<div style="font-size: 11px">Expected ${d.nextCheckpoint.eta}</div>` : ''}
         `)
           .style('left', (event.pageX + 10) + 'px')
           .style('top', (event.pageY - 10) + 'px');
@@ -410,7 +414,7 @@ const RouteVisualization: React.FC = () => {
       d3.select('body').selectAll('.tooltip').remove();
       style.remove();
     };
-  }, [dimensions, approximatedRiders, hoveredRider]);
+  }, [dimensions, approximatedRiders, hoveredRider, event]);
 
   // Loading state
   if (loading.tracking || !rawTrackingData) {
@@ -488,7 +492,7 @@ const RouteVisualization: React.FC = () => {
         </div>
         <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
           <AlertCircle className="h-3 w-3" />
-          <span>Positions between checkpoints are approximated based on average speed</span>
+          <span>Positions between checkpoints are estimated from each rider's recent pace, adjusted for night riding and harder legs</span>
         </div>
       </CardHeader>
       <CardContent ref={containerRef} className="p-4 overflow-auto" style={{ maxHeight: '80vh' }}>
@@ -498,65 +502,4 @@ const RouteVisualization: React.FC = () => {
   );
 };
 
-// Helper function to parse checkpoint time
-function parseCheckpointTime(timeStr: string, riderNo: string): Date | null {
-  try {
-    // Get current UK time for reference
-    const ukTimeString = new Date().toLocaleString('en-US', { 
-      timeZone: 'Europe/London',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false
-    });
-    
-    const [datePart, timePart] = ukTimeString.split(', ');
-    const [month, day, year] = datePart.split('/');
-    const [hours, minutes, seconds] = timePart.split(':');
-    const currentUKTime = new Date(parseInt(year), parseInt(month) - 1, parseInt(day), parseInt(hours), parseInt(minutes), parseInt(seconds));
-
-    // Event starts on Sunday August 3, 2025
-    const eventStartDate = new Date('2025-08-03');
-    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-
-    let checkpointDate: Date;
-
-    if (timeStr.includes('/')) {
-      // Format: "3/8 19:32"
-      const [date, time] = timeStr.split(' ');
-      const [dayNum, monthNum] = date.split('/');
-      const [hrs, mins] = time.split(':');
-      checkpointDate = new Date(currentUKTime.getFullYear(), parseInt(monthNum) - 1, parseInt(dayNum), parseInt(hrs), parseInt(mins));
-    } else {
-      // Format: "Sunday 08:46"
-      const parts = timeStr.split(' ');
-      const dayName = parts[0];
-      const time = parts[parts.length - 1];
-      const [hrs, mins] = time.split(':').map(Number);
-      
-      const eventDayIndex = eventStartDate.getDay();
-      const checkpointDayIndex = dayNames.indexOf(dayName);
-      
-      if (checkpointDayIndex >= 0) {
-        let dayOffset = checkpointDayIndex - eventDayIndex;
-        if (dayOffset < 0) dayOffset += 7;
-        
-        checkpointDate = new Date(eventStartDate);
-        checkpointDate.setDate(checkpointDate.getDate() + dayOffset);
-        checkpointDate.setHours(hrs, mins, 0, 0);
-      } else {
-        return null;
-      }
-    }
-
-    return checkpointDate;
-  } catch (error) {
-    console.error('Error parsing checkpoint time:', error);
-    return null;
-  }
-}
-
 export default RouteVisualization;
\ No newline at end of file
@@ -1,21 +1,40 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { useGlobalData } from '../contexts';
+import { useGlobalDataSelector, selectTrackedWaves, selectWaves, useEvent, useEventPath } from '../contexts';
+import type { ProcessedWave, TrackedWave } from '../types/enhanced';
 import { trackWaveView } from '../hooks/useAnalytics';
-import { isLondonStartRider } from '../config/lel-route';
+import { useWaveTracking } from '../hooks/useWaveTracking';
+import { useUrlViewState } from '../hooks/useUrlViewState';
+import { getExtraDistanceForRider } from '../config/lel-route';
+import { formatAffiliation, formatTime } from '../utils/formatUtils';
+import RiderTrackingCells, { TRACKING_COLUMN_HEADERS } from './RiderTrackingCells';
 
 const WaveDetail: React.FC = () => {
+  const event = useEvent();
+  const eventPath = useEventPath();
   const { wave } = useParams<{ wave: string }>();
-  const [searchTerm, setSearchTerm] = useState('');
-  const { 
-    loading,
-    errors,
-    getWaveByCode
-  } = useGlobalData();
-
-  const waveData = getWaveByCode(wave || '');
+  const { state: urlViewState, update: updateUrlViewState } = useUrlViewState();
+  const searchTerm = urlViewState.filters.searchTerm || '';
+  const setSearchTerm = (term: string) =>
+    updateUrlViewState({ filters: { ...urlViewState.filters, searchTerm: term } }, { replace: true });
+  const loading = useGlobalDataSelector(state => state.loading);
+  const errors = useGlobalDataSelector(state => state.errors);
+  const trackingShards = useGlobalDataSelector(state => state.trackingShards);
+  const waveData = useGlobalDataSelector((state): TrackedWave | ProcessedWave | null =>
+    selectTrackedWaves(state).find(w => w.code === wave) ||
+    selectWaves(state).find(w => w.code === wave) ||
+    null
+  );
   const riders = waveData?.riders || [];
 
+  const waveCodes = useMemo(() => (wave ? [wave] : []), [wave]);
+  const tracking = useWaveTracking(waveCodes);
+
+  const trackingByRider = useMemo(() => {
+    const trackingRiders = waveData && 'trackingRiders' in waveData ? waveData.trackingRiders : [];
+    return new Map(trackingRiders.map(rider => [rider.rider_no, rider]));
+  }, [waveData]);
+
   useEffect(() => {
     // Track wave view
     if (wave) {
@@ -65,7 +84,7 @@ const WaveDetail: React.FC = () => {
       <nav className="mb-6">
         <ol className="flex items-center space-x-2 text-sm">
           <li>
-            <Link to="/" className="text-blue-600 hover:text-blue-800">Home</Link>
+            <Link to={eventPath()} className="text-blue-600 hover:text-blue-800">Home</Link>
           </li>
           <li>
             <span className="mx-2 text-gray-400">/</span>
@@ -79,6 +98,12 @@ const WaveDetail: React.FC = () => {
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-4">Wave {wave} Riders</h1>
         <p className="text-gray-600">Total riders in wave {wave}: {riders.length}</p>
+        {tracking.lastUpdated && (
+          <p className="text-sm text-gray-500 mt-1">Tracking updated {formatTime(tracking.lastUpdated)}</p>
+        )}
+        {tracking.error && (
+          <p className="text-sm text-red-600 mt-1">Tracking could not be loaded: {tracking.error.message}</p>
+        )}
       </div>
 
       <div className="mb-6">
@@ -102,6 +127,11 @@ const WaveDetail: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Name
                 </th>
+                {TRACKING_COLUMN_HEADERS.map(header => (
+                  <th key={header} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {header}
+                  </th>
+                ))}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -112,10 +142,15 @@ const WaveDetail: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {rider.name}
-                    {isLondonStartRider(rider.rider_no) && (
-                      <sup className="text-xs text-gray-400 ml-1">+20km</sup>
+                    {getExtraDistanceForRider(rider.rider_no, event) > 0 && (
+                      <sup className="text-xs text-gray-400 ml-1">+{getExtraDistanceForRider(rider.rider_no, event)}km</sup>
                     )}
+                    <div className="text-xs text-gray-400">{formatAffiliation(rider)}</div>
                   </td>
+                  <RiderTrackingCells
+                    rider={trackingByRider.get(rider.rider_no)}
+                    shard={wave ? trackingShards[wave] : undefined}
+                  />
                 </tr>
               ))}
             </tbody>
@@ -131,13 +166,13 @@ const WaveDetail: React.FC = () => {
 
       <div className="mt-8 flex gap-4 justify-center">
         <Link 
-          to="/" 
+          to={eventPath()} 
           className="inline-block bg-gray-600 text-white px-6 py-3 rounded-lg hover:bg-gray-700 transition-colors"
         >
           Back to Wave Summary
         </Link>
         <Link 
-          to="/all-riders" 
+          to={eventPath('/all-riders')} 
           className="inline-block bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
         >
           View All Riders
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { useGlobalData } from '../contexts';
+import { useGlobalDataSelector, selectWaves, selectGlobalStatistics, useEventPath } from '../contexts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -8,13 +8,12 @@ import { Input } from './ui/input';
 import { Users, Search, TrendingUp, Activity, ChevronLeft } from 'lucide-react';
 
 const WavesSummary: React.FC = () => {
+  const eventPath = useEventPath();
   const [searchTerm, setSearchTerm] = useState('');
-  const { 
-    waves,
-    loading, 
-    errors,
-    globalStatistics
-  } = useGlobalData();
+  const waves = useGlobalDataSelector(selectWaves);
+  const loading = useGlobalDataSelector(state => state.loading);
+  const errors = useGlobalDataSelector(state => state.errors);
+  const globalStatistics = useGlobalDataSelector(selectGlobalStatistics);
 
   // Filter waves by search term
   const filteredWaves = searchTerm
@@ -126,7 +125,7 @@ const WavesSummary: React.FC = () => {
       {/* Waves Grid */}
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
         {filteredWaves.map((wave) => (
-          <Link key={wave.code} to={`/wave/${wave.code}`}>
+          <Link key={wave.code} to={eventPath(`/wave/${wave.code}`)}>
             <Card className="hover:shadow-lg transition-all hover:scale-105 cursor-pointer h-full hover:border-primary">
               <CardHeader className="text-center pb-4">
                 <div className="mx-auto mb-2 w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
@@ -154,13 +153,13 @@ const WavesSummary: React.FC = () => {
 
       {/* Navigation */}
       <div className="flex justify-center gap-4 pt-4">
-        <Link to="/">
+        <Link to={eventPath()}>
           <Button variant="outline" size="lg" className="gap-2">
             <ChevronLeft className="h-4 w-4" />
             Back to Home
           </Button>
         </Link>
-        <Link to="/all-riders">
+        <Link to={eventPath('/all-riders')}>
           <Button size="lg" className="gap-2 bg-primary hover:bg-primary/90">
             <Users className="h-4 w-4" />
             View All Riders
@@ -1,15 +1,35 @@
+// Minutes from a REACT_APP_REFRESH_* setting, in ms; unset, 0 or not a number leaves the source manual
+const readRefreshMinutes = (value: string | undefined): number | null => {
+  const minutes = Number(value);
+  return value && Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : null;
+};
+
 export const API_CONFIG = {
-  BASE_URL: 'https://lel-riders-data-2025.s3.ap-south-1.amazonaws.com',
+  // Set REACT_APP_DATA_BASE_URL to read the feeds from another host (e.g., a local mock)
+  BASE_URL: process.env.REACT_APP_DATA_BASE_URL || 'https://lel-riders-data-2025.s3.ap-south-1.amazonaws.com',
   endpoints: {
     riders: 'riders.json',
     indianRiders: 'indian-riders-tracking.json',
+    waveTracking: 'tracking/wave-{wave}.json', // One shard per wave, fetched on demand
     routes: 'routes.json',
+    affiliations: 'rider-affiliations.json', // Optional; club and city by rider number
+    weather: 'control-weather.json',
   },
   // Cache configuration
   cache: {
     staleTime: 5 * 60 * 1000, // 5 minutes
     cacheTime: 10 * 60 * 1000, // 10 minutes
   },
+  // Automatic refresh per source (ms); null leaves a source on manual refresh.
+  // All off unless set, e.g. REACT_APP_REFRESH_TRACKING_MINUTES=5; GlobalDataProvider's
+  // refreshIntervals override these and every polled source reads them from it.
+  polling: {
+    riders: readRefreshMinutes(process.env.REACT_APP_REFRESH_RIDERS_MINUTES),
+    tracking: readRefreshMinutes(process.env.REACT_APP_REFRESH_TRACKING_MINUTES),
+    waveTracking: readRefreshMinutes(process.env.REACT_APP_REFRESH_WAVE_TRACKING_MINUTES),
+    routes: readRefreshMinutes(process.env.REACT_APP_REFRESH_ROUTES_MINUTES),
+    weather: readRefreshMinutes(process.env.REACT_APP_REFRESH_WEATHER_MINUTES),
+  } as Record<'riders' | 'tracking' | 'waveTracking' | 'routes' | 'weather', number | null>,
   // Request configuration
   request: {
     timeout: 30000, // 30 seconds
@@ -18,6 +38,9 @@ export const API_CONFIG = {
   },
 } as const;
 
+export type RefreshSource = keyof typeof API_CONFIG.polling;
+export type RefreshIntervals = Record<RefreshSource, number | null>;
+
 // Helper function to construct full URLs
 export const getApiUrl = (endpoint: keyof typeof API_CONFIG.endpoints): string => {
   return `${API_CONFIG.BASE_URL}/${API_CONFIG.endpoints[endpoint]}`;
@@ -5,15 +5,7 @@ export const APP_CONFIG = {
   description: 'Track riders participating in London-Edinburgh-London 2025',
   version: '1.0.0',
   
-  // Event details
-  event: {
-    name: 'London-Edinburgh-London',
-    year: 2025,
-    startDate: '2025-08-03',
-    endDate: '2025-08-07',
-    distance: 1540, // km
-    timeLimit: 125, // hours
-  },
+  // Event details live in the event registry (src/config/events)
   
   // UI configuration
   ui: {
@@ -28,7 +20,7 @@ export const APP_CONFIG = {
     enableAnalytics: true,
     enableMaps: true,
     enableRealTimeTracking: true,
-    enableOfflineSupport: false,
+    enableOfflineSupport: true, // Service worker shell and IndexedDB feed snapshots
   },
 } as const;
 
@@ -0,0 +1,52 @@
+import { COUNTRIES, getCountry, getCountryFlag, normalizeCountryCode } from './countries';
+
+describe('normalizeCountryCode', () => {
+  test('resolves names, codes and aliases to one code', () => {
+    ['United Kingdom', 'UK', 'GB', 'GBR', 'Great Britain', 'England', 'Scotland'].forEach(spelling => {
+      expect(normalizeCountryCode(spelling)).toBe('GB');
+    });
+    expect(normalizeCountryCode('India')).toBe('IN');
+    expect(normalizeCountryCode('IND')).toBe('IN');
+  });
+
+  test('ignores case, dots and spacing', () => {
+    expect(normalizeCountryCode('u.s.a.')).toBe('US');
+    expect(normalizeCountryCode('  united   states ')).toBe('US');
+    expect(normalizeCountryCode('the netherlands')).toBe('NL');
+    expect(normalizeCountryCode('in')).toBe('IN');
+  });
+
+  test('keeps accented spellings', () => {
+    expect(normalizeCountryCode('Türkiye')).toBe('TR');
+    expect(normalizeCountryCode('Österreich')).toBe('AT');
+  });
+
+  test('has no code for unknown or missing countries', () => {
+    expect(normalizeCountryCode('Atlantis')).toBeNull();
+    expect(normalizeCountryCode('')).toBeNull();
+    expect(normalizeCountryCode(null)).toBeNull();
+    expect(normalizeCountryCode(undefined)).toBeNull();
+  });
+
+  test('resolves every spelling in the registry to its own country', () => {
+    COUNTRIES.forEach(country => {
+      [country.code, country.name, ...country.aliases].forEach(spelling => {
+        expect([spelling, normalizeCountryCode(spelling)]).toEqual([spelling, country.code]);
+      });
+    });
+  });
+});
+
+describe('getCountry', () => {
+  test('looks a country up by code in any case', () => {
+    expect(getCountry('gb')?.name).toBe('United Kingdom');
+    expect(getCountry('XX')).toBeNull();
+  });
+});
+
+describe('getCountryFlag', () => {
+  test('builds the flag from regional indicator letters', () => {
+    expect(getCountryFlag('GB')).toBe('🇬🇧');
+    expect(getCountryFlag('in')).toBe('🇮🇳');
+  });
+});
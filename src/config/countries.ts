@@ -0,0 +1,151 @@
+/**
+ * Country registry
+ *
+ * The riders feed spells countries however riders typed them at entry
+ * ("UK", "United Kingdom", "GB", "England"). Every spelling is resolved to an
+ * ISO 3166-1 alpha-2 code so riders from one nation are counted together.
+ */
+
+export interface CountryDefinition {
+  /** ISO 3166-1 alpha-2 code */
+  code: string;
+  name: string;
+  /** Other spellings seen in entry data, including the alpha-3 code */
+  aliases: string[];
+}
+
+export const COUNTRIES: CountryDefinition[] = [
+  { code: 'GB', name: 'United Kingdom', aliases: ['GBR', 'UK', 'U.K.', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'] },
+  { code: 'IE', name: 'Ireland', aliases: ['IRL', 'Republic of Ireland', 'Eire'] },
+  { code: 'US', name: 'United States', aliases: ['USA', 'U.S.A.', 'U.S.', 'United States of America', 'America'] },
+  { code: 'CA', name: 'Canada', aliases: ['CAN'] },
+  { code: 'MX', name: 'Mexico', aliases: ['MEX'] },
+  { code: 'BR', name: 'Brazil', aliases: ['BRA', 'Brasil'] },
+  { code: 'AR', name: 'Argentina', aliases: ['ARG'] },
+  { code: 'CL', name: 'Chile', aliases: ['CHL'] },
+  { code: 'CO', name: 'Colombia', aliases: ['COL'] },
+  { code: 'PE', name: 'Peru', aliases: ['PER'] },
+  { code: 'UY', name: 'Uruguay', aliases: ['URY'] },
+  { code: 'CR', name: 'Costa Rica', aliases: ['CRI'] },
+  { code: 'AU', name: 'Australia', aliases: ['AUS'] },
+  { code: 'NZ', name: 'New Zealand', aliases: ['NZL'] },
+  { code: 'IN', name: 'India', aliases: ['IND', 'Bharat'] },
+  { code: 'PK', name: 'Pakistan', aliases: ['PAK'] },
+  { code: 'BD', name: 'Bangladesh', aliases: ['BGD'] },
+  { code: 'LK', name: 'Sri Lanka', aliases: ['LKA'] },
+  { code: 'NP', name: 'Nepal', aliases: ['NPL'] },
+  { code: 'CN', name: 'China', aliases: ['CHN', "People's Republic of China", 'PRC'] },
+  { code: 'HK', name: 'Hong Kong', aliases: ['HKG', 'Hong Kong SAR'] },
+  { code: 'TW', name: 'Taiwan', aliases: ['TWN', 'Chinese Taipei'] },
+  { code: 'JP', name: 'Japan', aliases: ['JPN'] },
+  { code: 'KR', name: 'South Korea', aliases: ['KOR', 'Korea', 'Republic of Korea'] },
+  { code: 'SG', name: 'Singapore', aliases: ['SGP'] },
+  { code: 'MY', name: 'Malaysia', aliases: ['MYS'] },
+  { code: 'TH', name: 'Thailand', aliases: ['THA'] },
+  { code: 'ID', name: 'Indonesia', aliases: ['IDN'] },
+  { code: 'PH', name: 'Philippines', aliases: ['PHL'] },
+  { code: 'VN', name: 'Vietnam', aliases: ['VNM', 'Viet Nam'] },
+  { code: 'KZ', name: 'Kazakhstan', aliases: ['KAZ'] },
+  { code: 'AE', name: 'United Arab Emirates', aliases: ['ARE', 'UAE', 'U.A.E.'] },
+  { code: 'SA', name: 'Saudi Arabia', aliases: ['SAU'] },
+  { code: 'QA', name: 'Qatar', aliases: ['QAT'] },
+  { code: 'KW', name: 'Kuwait', aliases: ['KWT'] },
+  { code: 'IL', name: 'Israel', aliases: ['ISR'] },
+  { code: 'TR', name: 'Turkey', aliases: ['TUR', 'Türkiye', 'Turkiye'] },
+  { code: 'EG', name: 'Egypt', aliases: ['EGY'] },
+  { code: 'KE', name: 'Kenya', aliases: ['KEN'] },
+  { code: 'ZA', name: 'South Africa', aliases: ['ZAF', 'RSA'] },
+  { code: 'DE', name: 'Germany', aliases: ['DEU', 'GER', 'Deutschland'] },
+  { code: 'FR', name: 'France', aliases: ['FRA'] },
+  { code: 'NL', name: 'Netherlands', aliases: ['NLD', 'The Netherlands', 'Holland', 'Nederland'] },
+  { code: 'BE', name: 'Belgium', aliases: ['BEL', 'Belgique', 'België'] },
+  { code: 'LU', name: 'Luxembourg', aliases: ['LUX'] },
+  { code: 'CH', name: 'Switzerland', aliases: ['CHE', 'SUI', 'Schweiz', 'Suisse'] },
+  { code: 'AT', name: 'Austria', aliases: ['AUT', 'Österreich'] },
+  { code: 'IT', name: 'Italy', aliases: ['ITA', 'Italia'] },
+  { code: 'ES', name: 'Spain', aliases: ['ESP', 'España', 'Espana'] },
+  { code: 'PT', name: 'Portugal', aliases: ['PRT', 'POR'] },
+  { code: 'DK', name: 'Denmark', aliases: ['DNK', 'DEN', 'Danmark'] },
+  { code: 'SE', name: 'Sweden', aliases: ['SWE', 'Sverige'] },
+  { code: 'NO', name: 'Norway', aliases: ['NOR', 'Norge'] },
+  { code: 'FI', name: 'Finland', aliases: ['FIN', 'Suomi'] },
+  { code: 'IS', name: 'Iceland', aliases: ['ISL'] },
+  { code: 'PL', name: 'Poland', aliases: ['POL', 'Polska'] },
+  { code: 'CZ', name: 'Czechia', aliases: ['CZE', 'Czech Republic'] },
+  { code: 'SK', name: 'Slovakia', aliases: ['SVK'] },
+  { code: 'HU', name: 'Hungary', aliases: ['HUN'] },
+  { code: 'SI', name: 'Slovenia', aliases: ['SVN'] },
+  { code: 'HR', name: 'Croatia', aliases: ['HRV', 'CRO'] },
+  { code: 'RS', name: 'Serbia', aliases: ['SRB'] },
+  { code: 'BA', name: 'Bosnia and Herzegovina', aliases: ['BIH'] },
+  { code: 'RO', name: 'Romania', aliases: ['ROU'] },
+  { code: 'BG', name: 'Bulgaria', aliases: ['BGR'] },
+  { code: 'GR', name: 'Greece', aliases: ['GRC'] },
+  { code: 'CY', name: 'Cyprus', aliases: ['CYP'] },
+  { code: 'MT', name: 'Malta', aliases: ['MLT'] },
+  { code: 'EE', name: 'Estonia', aliases: ['EST'] },
+  { code: 'LV', name: 'Latvia', aliases: ['LVA'] },
+  { code: 'LT', name: 'Lithuania', aliases: ['LTU'] },
+  { code: 'UA', name: 'Ukraine', aliases: ['UKR'] },
+  { code: 'BY', name: 'Belarus', aliases: ['BLR'] },
+  { code: 'RU', name: 'Russia', aliases: ['RUS', 'Russian Federation'] }
+];
+
+/**
+ * Normalise a country string for lookup
+ * @param value - Raw country string
+ * @returns Lowercase string without dots and with single spaces
+ */
+function normalizeCountryKey(value: string): string {
+  return value.trim().replace(/\./g, '').replace(/\s+/g, ' ').toLowerCase();
+}
+
+let countryLookup: Map<string, CountryDefinition> | null = null;
+
+/**
+ * Build (once) the table from every normalised spelling to its country
+ */
+function getCountryLookup(): Map<string, CountryDefinition> {
+  if (!countryLookup) {
+    countryLookup = new Map();
+    COUNTRIES.forEach(country => {
+      [country.code, country.name, ...country.aliases].forEach(spelling => {
+        countryLookup!.set(normalizeCountryKey(spelling), country);
+      });
+    });
+  }
+  return countryLookup;
+}
+
+/**
+ * Resolve a raw country string to an ISO code
+ * @param country - Country as entered (e.g., "UK", "United Kingdom", "gb")
+ * @returns ISO 3166-1 alpha-2 code, or null if the spelling is not known
+ */
+export function normalizeCountryCode(country: string | null | undefined): string | null {
+  if (!country) return null;
+  return getCountryLookup().get(normalizeCountryKey(country))?.code || null;
+}
+
+/**
+ * Look up a country by ISO code
+ * @param code - ISO 3166-1 alpha-2 code (any case)
+ * @returns Country definition or null if unknown
+ */
+export function getCountry(code: string): CountryDefinition | null {
+  const upper = code.toUpperCase();
+  return COUNTRIES.find(country => country.code === upper) || null;
+}
+
+/**
+ * Flag emoji of a country
+ * @param code - ISO 3166-1 alpha-2 code
+ * @returns Flag built from regional indicator symbols (e.g., "🇬🇧")
+ */
+export function getCountryFlag(code: string): string {
+  return code
+    .toUpperCase()
+    .split('')
+    .map(letter => String.fromCodePoint(0x1f1e6 + letter.charCodeAt(0) - 65))
+    .join('');
+}
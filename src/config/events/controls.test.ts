@@ -0,0 +1,110 @@
+import {
+  getControlWeatherName,
+  isFinishControl,
+  isStartControl,
+  normalizeControlName,
+  resolveControlId,
+  resolveControlVisit,
+  visitMatchesControl
+} from './controls';
+import { LEL_2025 } from './lel-2025';
+import type { ControlDefinition, EventDefinition } from './types';
+
+const [london, writtle] = LEL_2025.startLocations;
+
+// A copy of LEL 2025 with its controls replaced, for registries that must be rejected
+const withControls = (controls: ControlDefinition[], id = 'broken'): EventDefinition => ({ ...LEL_2025, id, controls });
+
+describe('resolveControlId', () => {
+  test('resolves ids and aliases, ignoring case and spacing', () => {
+    expect(resolveControlId('brampton-south', LEL_2025)).toBe('brampton-south');
+    expect(resolveControlId('Brampton S', LEL_2025)).toBe('brampton-south');
+    expect(resolveControlId('  brampton   s ', LEL_2025)).toBe('brampton-south');
+    expect(normalizeControlName(' Brampton\tN ')).toBe('brampton n');
+  });
+
+  test('reads a bare name as the northbound visit', () => {
+    expect(resolveControlId('Brampton', LEL_2025)).toBe('brampton-north');
+    expect(resolveControlId('Northstowe', LEL_2025)).toBe('northstowe-north');
+  });
+
+  test('resolves both directions of a control visited once', () => {
+    expect(resolveControlId('Hawick N', LEL_2025)).toBe('hawick');
+    expect(resolveControlId('Hawick S', LEL_2025)).toBe('hawick');
+  });
+
+  test('knows nothing of unlisted names or route-relative ones', () => {
+    expect(resolveControlId('Edinburgh', LEL_2025)).toBeNull();
+    expect(resolveControlId('Start', LEL_2025)).toBeNull();
+  });
+
+  test('rejects a registry where an alias means two controls', () => {
+    const event = withControls([
+      ...LEL_2025.controls,
+      { id: 'boston-extra', name: 'Boston', aliases: ['Boston N'] }
+    ], 'ambiguous');
+    expect(() => resolveControlId('Boston', event))
+      .toThrow('ambiguous: control alias "Boston N" maps to both boston-north and boston-extra');
+  });
+
+  test('rejects a registry that claims the route-relative names', () => {
+    const event = withControls([...LEL_2025.controls, { id: 'hq', name: 'HQ', aliases: ['Start'] }]);
+    expect(() => resolveControlId('HQ', event)).toThrow('"Start" is reserved');
+  });
+
+  test('rejects a route through an unregistered control', () => {
+    const event = withControls(LEL_2025.controls.filter(control => control.id !== 'henham'));
+    expect(() => resolveControlId('Boston', event)).toThrow('route london uses unregistered control henham');
+  });
+});
+
+describe('resolveControlVisit', () => {
+  test('places a control at its position on the rider\'s route', () => {
+    const northstowe = resolveControlVisit('Northstowe N', london, LEL_2025)!;
+    expect(northstowe).toMatchObject({ id: 'northstowe-north', km: 110, ordinal: 2, isStart: false, isFinish: false });
+    expect(resolveControlVisit('Northstowe N', writtle, LEL_2025)).toMatchObject({ km: 90, ordinal: 1 });
+  });
+
+  test('reads Start and Finish as the ends of the route', () => {
+    expect(resolveControlVisit('Start', london, LEL_2025)).toMatchObject({ id: 'london', isStart: true });
+    expect(resolveControlVisit('start', writtle, LEL_2025)).toMatchObject({ id: 'writtle', isStart: true });
+    expect(resolveControlVisit('Finish', london, LEL_2025)).toMatchObject({ id: 'london-finish', isFinish: true });
+    expect(resolveControlVisit('Finish', writtle, LEL_2025)).toMatchObject({ id: 'writtle-finish', km: 1537 });
+  });
+
+  test('has no visit for a control off the route', () => {
+    expect(resolveControlVisit('London', writtle, LEL_2025)).toBeNull();
+    expect(resolveControlVisit('Edinburgh', london, LEL_2025)).toBeNull();
+  });
+});
+
+describe('visitMatchesControl', () => {
+  test('counts any route\'s start and finish as the event\'s', () => {
+    const writtleStart = resolveControlVisit('Writtle', writtle, LEL_2025);
+    expect(visitMatchesControl(writtleStart, 'writtle', LEL_2025)).toBe(true);
+    expect(visitMatchesControl(writtleStart, 'london', LEL_2025)).toBe(true);
+    expect(visitMatchesControl(resolveControlVisit('Finish', writtle, LEL_2025), 'london-finish', LEL_2025)).toBe(true);
+  });
+
+  test('keeps every other control to itself', () => {
+    // Writtle is a control on the London route, not its start
+    const writtleOnLondonRoute = resolveControlVisit('Writtle', london, LEL_2025);
+    expect(visitMatchesControl(writtleOnLondonRoute, 'london', LEL_2025)).toBe(false);
+    expect(visitMatchesControl(resolveControlVisit('Brampton', london, LEL_2025), 'brampton-south', LEL_2025)).toBe(false);
+    expect(visitMatchesControl(null, 'london', LEL_2025)).toBe(false);
+  });
+
+  test('knows the start and finish controls of every route', () => {
+    expect(['london', 'writtle'].every(id => isStartControl(id, LEL_2025))).toBe(true);
+    expect(['london-finish', 'writtle-finish'].every(id => isFinishControl(id, LEL_2025))).toBe(true);
+    expect(isStartControl('henham', LEL_2025)).toBe(false);
+    expect(isFinishControl('london', LEL_2025)).toBe(false);
+  });
+});
+
+describe('getControlWeatherName', () => {
+  test('falls back to the display name', () => {
+    expect(getControlWeatherName('brampton-south', LEL_2025)).toBe('Brampton');
+    expect(getControlWeatherName('edinburgh', LEL_2025)).toBeNull();
+  });
+});
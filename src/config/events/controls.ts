@@ -0,0 +1,192 @@
+/**
+ * Control identity
+ *
+ * Feeds name checkpoints loosely ("Brampton N", "Start", "Writtle"), and the
+ * same town can be visited twice on one route. Every raw name is resolved
+ * through the event's alias table to a registered control id, and from there
+ * to the single visit of that control on the rider's route.
+ */
+
+import type { ControlDefinition, EventDefinition, RouteControl, StartLocation } from './types';
+
+/**
+ * A control as visited on one route
+ */
+export interface ControlVisit extends RouteControl {
+  /** Position on the route (0 = start) */
+  ordinal: number;
+  isStart: boolean;
+  isFinish: boolean;
+}
+
+// Names that mean the first or last control of whichever route the rider is on
+const ROUTE_START_ALIAS = 'start';
+const ROUTE_FINISH_ALIAS = 'finish';
+
+const aliasTables = new WeakMap<EventDefinition, Map<string, string>>();
+const routeVisits = new WeakMap<StartLocation, ControlVisit[]>();
+
+/**
+ * Normalise a checkpoint name for alias lookup
+ * @param name - Raw name from a feed
+ * @returns Lowercase name with single spaces
+ */
+export function normalizeControlName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Build (once per event) the table from normalised alias to control id
+ * @throws Error if an alias or route entry is ambiguous
+ */
+function getAliasTable(event: EventDefinition): Map<string, string> {
+  const cached = aliasTables.get(event);
+  if (cached) return cached;
+
+  const table = new Map<string, string>();
+  event.controls.forEach(control => {
+    [control.id, ...control.aliases].forEach(alias => {
+      const key = normalizeControlName(alias);
+      const existing = table.get(key);
+      if (key === ROUTE_START_ALIAS || key === ROUTE_FINISH_ALIAS) {
+        throw new Error(`${event.id}: "${alias}" is reserved for route starts and finishes`);
+      }
+      if (existing && existing !== control.id) {
+        throw new Error(`${event.id}: control alias "${alias}" maps to both ${existing} and ${control.id}`);
+      }
+      table.set(key, control.id);
+    });
+  });
+
+  event.startLocations.forEach(location => {
+    const seen = new Set<string>();
+    location.controls.forEach(control => {
+      if (!event.controls.some(definition => definition.id === control.id)) {
+        throw new Error(`${event.id}: route ${location.id} uses unregistered control ${control.id}`);
+      }
+      if (seen.has(control.id)) {
+        throw new Error(`${event.id}: route ${location.id} visits ${control.id} twice`);
+      }
+      seen.add(control.id);
+    });
+  });
+
+  aliasTables.set(event, table);
+  return table;
+}
+
+/**
+ * Look up a registered control
+ * @param controlId - Control id (e.g., "brampton-south")
+ * @param event - Event definition
+ * @returns Control definition or null if unknown
+ */
+export function getControlDefinition(controlId: string, event: EventDefinition): ControlDefinition | null {
+  return event.controls.find(control => control.id === controlId) || null;
+}
+
+/**
+ * Resolve a raw feed name to a control id
+ * Route-relative names ("Start", "Finish") need a route; use resolveControlVisit.
+ * @param rawName - Checkpoint name from a feed
+ * @param event - Event definition
+ * @returns Control id or null if the name is not in the alias table
+ */
+export function resolveControlId(rawName: string, event: EventDefinition): string | null {
+  return getAliasTable(event).get(normalizeControlName(rawName)) || null;
+}
+
+/**
+ * Get the controls of a route with their positions
+ * @param location - Start location
+ * @returns Visits in route order
+ */
+export function getRouteVisits(location: StartLocation): ControlVisit[] {
+  let visits = routeVisits.get(location);
+  if (!visits) {
+    const last = location.controls.length - 1;
+    visits = location.controls.map((control, ordinal) => ({
+      ...control,
+      ordinal,
+      isStart: ordinal === 0,
+      isFinish: ordinal === last
+    }));
+    routeVisits.set(location, visits);
+  }
+  return visits;
+}
+
+/**
+ * Resolve a raw feed name to its visit on a route
+ * @param rawName - Checkpoint name from a feed
+ * @param location - Start location of the rider
+ * @param event - Event definition
+ * @returns The visit, or null if the name is unknown or not on this route
+ */
+export function resolveControlVisit(
+  rawName: string,
+  location: StartLocation,
+  event: EventDefinition
+): ControlVisit | null {
+  const visits = getRouteVisits(location);
+  const key = normalizeControlName(rawName);
+
+  if (key === ROUTE_START_ALIAS) return visits[0] || null;
+  if (key === ROUTE_FINISH_ALIAS) return visits[visits.length - 1] || null;
+
+  const controlId = resolveControlId(rawName, event);
+  return visits.find(visit => visit.id === controlId) || null;
+}
+
+/**
+ * Check whether a visit counts as reaching a control
+ * Start and finish controls differ between start locations, so any route's
+ * start counts as the start (and any finish as the finish) of the event.
+ * @param visit - Resolved visit (null never matches)
+ * @param controlId - Control id to compare against
+ * @param event - Event definition
+ * @returns True if the visit is at that control
+ */
+export function visitMatchesControl(
+  visit: ControlVisit | null,
+  controlId: string,
+  event: EventDefinition
+): boolean {
+  if (!visit) return false;
+  if (visit.id === controlId) return true;
+
+  if (visit.isStart) return isStartControl(controlId, event);
+  if (visit.isFinish) return isFinishControl(controlId, event);
+  return false;
+}
+
+/**
+ * Check whether a control is where some route starts
+ * @param controlId - Control id
+ * @param event - Event definition
+ * @returns True for start controls
+ */
+export function isStartControl(controlId: string, event: EventDefinition): boolean {
+  return event.startLocations.some(location => location.controls[0]?.id === controlId);
+}
+
+/**
+ * Check whether a control is where some route finishes
+ * @param controlId - Control id
+ * @param event - Event definition
+ * @returns True for finish controls
+ */
+export function isFinishControl(controlId: string, event: EventDefinition): boolean {
+  return event.startLocations.some(location => location.controls[location.controls.length - 1]?.id === controlId);
+}
+
+/**
+ * Name of a control in the weather feed
+ * @param controlId - Control id
+ * @param event - Event definition
+ * @returns Weather feed name, or null if the control is unknown
+ */
+export function getControlWeatherName(controlId: string, event: EventDefinition): string | null {
+  const control = getControlDefinition(controlId, event);
+  return control ? control.weatherName || control.name : null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Event registry
+ *
+ * Every event the app can show is registered here. Pages are scoped by
+ * `/events/:eventId/...`, so adding an edition is a matter of writing its
+ * definition file and listing it below.
+ */
+
+import { LEL_2025 } from './lel-2025';
+import type { EventDefinition, EventFeed, StartLocation } from './types';
+
+export * from './types';
+export * from './controls';
+export * from './waves';
+export { LEL_2025 } from './lel-2025';
+
+export const EVENT_REGISTRY: Record<string, EventDefinition> = {
+  [LEL_2025.id]: LEL_2025,
+};
+
+export const DEFAULT_EVENT_ID = LEL_2025.id;
+export const DEFAULT_EVENT: EventDefinition = EVENT_REGISTRY[DEFAULT_EVENT_ID];
+
+/**
+ * Look up an event by id
+ * @param eventId - Registry id (e.g., "lel-2025")
+ * @returns Event definition or null if unknown
+ */
+export function getEventById(eventId: string): EventDefinition | null {
+  return EVENT_REGISTRY[eventId] || null;
+}
+
+/**
+ * List all registered events, most recent first
+ */
+export function listEvents(): EventDefinition[] {
+  return Object.values(EVENT_REGISTRY).sort((a, b) => b.startDate.localeCompare(a.startDate));
+}
+
+/**
+ * Build the URL of one of an event's data feeds
+ * @param event - Event definition
+ * @param feed - Feed name
+ * @returns Absolute URL
+ */
+export function getEventDataUrl(event: EventDefinition, feed: EventFeed): string {
+  return `${event.data.baseUrl}/${event.data[feed]}`;
+}
+
+/**
+ * Build the URL of one wave's tracking shard
+ * @param event - Event definition
+ * @param waveCode - Wave code (e.g., "AB")
+ * @returns Absolute URL
+ */
+export function getWaveTrackingUrl(event: EventDefinition, waveCode: string): string {
+  return `${event.data.baseUrl}/${event.data.waveTracking.replace('{wave}', encodeURIComponent(waveCode))}`;
+}
+
+/**
+ * Build the URL of an event's affiliations side file
+ * @param event - Event definition
+ * @returns Absolute URL, or null if the event has no side file
+ */
+export function getAffiliationsUrl(event: EventDefinition): string | null {
+  return event.data.affiliations ? `${event.data.baseUrl}/${event.data.affiliations}` : null;
+}
+
+/**
+ * Get the start location used when a rider matches no specific pattern
+ * @param event - Event definition
+ * @returns Fallback start location
+ */
+export function getDefaultStartLocation(event: EventDefinition): StartLocation {
+  return event.startLocations.find(location => !location.riderPattern) || event.startLocations[0];
+}
+
+/**
+ * Get the shortest total distance across all start locations
+ * @param event - Event definition
+ * @returns Distance in km
+ */
+export function getBaseDistance(event: EventDefinition): number {
+  return Math.min(...event.startLocations.map(location => location.totalDistance));
+}
+
+/**
+ * Get the weekday name the event starts on (e.g., "Sunday")
+ * @param event - Event definition
+ * @returns English weekday name
+ */
+export function getEventStartDayName(event: EventDefinition): string {
+  return new Date(`${event.startDate}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    timeZone: 'UTC'
+  });
+}
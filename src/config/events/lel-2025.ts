@@ -0,0 +1,176 @@
+/**
+ * LEL 2025 event definition
+ *
+ * The London-Edinburgh-London event has TWO starting points:
+ * 1. LONDON START - for riders in L-series waves (LA, LB, LC, LD, LE, LF, LG, LH)
+ * 2. WRITTLE START - for all other riders (A, AA, AB, etc.)
+ *
+ * Both routes MERGE at Northstowe and then continue on the same route.
+ */
+
+import { API_CONFIG } from '../api';
+import type { ControlDefinition, EventDefinition, RouteControl, WaveScheduleRule } from './types';
+
+/**
+ * Control registry
+ *
+ * Northbound and southbound visits to the same town are separate controls.
+ * The tracking feed suffixes them with "N" and "S"; a bare name means the
+ * northbound visit, matching how the feed reported the first days.
+ */
+export const LEL_2025_CONTROLS: ControlDefinition[] = [
+  { id: 'london', name: 'London', aliases: ['London', 'London N'] },
+  { id: 'writtle', name: 'Writtle', aliases: ['Writtle', 'Writtle N'] },
+  { id: 'northstowe-north', name: 'Northstowe', direction: 'north', aliases: ['Northstowe', 'Northstowe N'] },
+  { id: 'boston-north', name: 'Boston', direction: 'north', aliases: ['Boston', 'Boston N'] },
+  { id: 'louth-north', name: 'Louth', direction: 'north', aliases: ['Louth', 'Louth N'] },
+  { id: 'hessle-north', name: 'Hessle', direction: 'north', aliases: ['Hessle', 'Hessle N'] },
+  { id: 'malton-north', name: 'Malton', direction: 'north', aliases: ['Malton', 'Malton N'] },
+  { id: 'richmond-north', name: 'Richmond', direction: 'north', aliases: ['Richmond', 'Richmond N'] },
+  { id: 'brampton-north', name: 'Brampton', direction: 'north', aliases: ['Brampton', 'Brampton N'] },
+  { id: 'hawick', name: 'Hawick', aliases: ['Hawick', 'Hawick N', 'Hawick S'] },
+  { id: 'moffat', name: 'Moffat', aliases: ['Moffat', 'Moffat N', 'Moffat S'] },
+  { id: 'dalkeith', name: 'Dalkeith', aliases: ['Dalkeith', 'Dalkeith N', 'Dalkeith S'] },
+  { id: 'innerleithen', name: 'Innerleithen', aliases: ['Innerleithen', 'Innerleithen N', 'Innerleithen S'] },
+  { id: 'eskdalemuir', name: 'Eskdalemuir', aliases: ['Eskdalemuir', 'Eskdalemuir N', 'Eskdalemuir S'] },
+  { id: 'brampton-south', name: 'Brampton', direction: 'south', aliases: ['Brampton S'] },
+  { id: 'richmond-south', name: 'Richmond', direction: 'south', aliases: ['Richmond S'] },
+  { id: 'malton-south', name: 'Malton', direction: 'south', aliases: ['Malton S'] },
+  { id: 'hessle-south', name: 'Hessle', direction: 'south', aliases: ['Hessle S'] },
+  { id: 'louth-south', name: 'Louth', direction: 'south', aliases: ['Louth S'] },
+  { id: 'boston-south', name: 'Boston', direction: 'south', aliases: ['Boston S'] },
+  { id: 'northstowe-south', name: 'Northstowe', direction: 'south', aliases: ['Northstowe S'] },
+  { id: 'henham', name: 'Henham', direction: 'south', aliases: ['Henham', 'Henham S'] },
+  { id: 'writtle-finish', name: 'Writtle', direction: 'south', aliases: ['Writtle S', 'Writtle Finish'] },
+  { id: 'london-finish', name: 'London', direction: 'south', aliases: ['London S', 'London Finish'] }
+];
+
+/**
+ * Control points for WRITTLE START riders
+ * These riders skip London and start directly from Writtle
+ */
+export const WRITTLE_START_CONTROLS: RouteControl[] = [
+  { id: 'writtle', name: 'Writtle', km: 0, description: 'Start point for non-London riders' },
+  { id: 'northstowe-north', name: 'Northstowe', km: 90, description: 'Merge point with London riders' },
+  { id: 'boston-north', name: 'Boston', km: 193 },
+  { id: 'louth-north', name: 'Louth', km: 248 },
+  { id: 'hessle-north', name: 'Hessle', km: 305 },
+  { id: 'malton-north', name: 'Malton', km: 373 },
+  { id: 'richmond-north', name: 'Richmond', km: 467 },
+  { id: 'brampton-north', name: 'Brampton', km: 581 },
+  { id: 'hawick', name: 'Hawick', km: 654 },
+  { id: 'moffat', name: 'Moffat', km: 725 },
+  { id: 'dalkeith', name: 'Dalkeith', km: 807 },
+  { id: 'innerleithen', name: 'Innerleithen', km: 846 },
+  { id: 'eskdalemuir', name: 'Eskdalemuir', km: 896 },
+  { id: 'brampton-south', name: 'Brampton', km: 953, description: 'Return' },
+  { id: 'richmond-south', name: 'Richmond', km: 1066, description: 'Return' },
+  { id: 'malton-south', name: 'Malton', km: 1157, description: 'Return' },
+  { id: 'hessle-south', name: 'Hessle', km: 1225, description: 'Return' },
+  { id: 'louth-south', name: 'Louth', km: 1284, description: 'Return' },
+  { id: 'boston-south', name: 'Boston', km: 1340, description: 'Return' },
+  { id: 'northstowe-south', name: 'Northstowe', km: 1443, description: 'Return' },
+  { id: 'henham', name: 'Henham', km: 1494 },
+  { id: 'writtle-finish', name: 'Writtle', km: 1537, description: 'Finish' }
+];
+
+/**
+ * Control points for LONDON START riders (L-series waves)
+ * These riders do the full London-Edinburgh-London loop
+ * All distances are +20km compared to Writtle start
+ */
+export const LONDON_START_CONTROLS: RouteControl[] = [
+  { id: 'london', name: 'London', km: 0, description: 'Start point for L-series riders' },
+  { id: 'writtle', name: 'Writtle', km: 20, description: 'First control after London' },
+  { id: 'northstowe-north', name: 'Northstowe', km: 110, description: 'Merge point with Writtle riders' },
+  { id: 'boston-north', name: 'Boston', km: 213 },
+  { id: 'louth-north', name: 'Louth', km: 268 },
+  { id: 'hessle-north', name: 'Hessle', km: 325 },
+  { id: 'malton-north', name: 'Malton', km: 393 },
+  { id: 'richmond-north', name: 'Richmond', km: 487 },
+  { id: 'brampton-north', name: 'Brampton', km: 601 },
+  { id: 'hawick', name: 'Hawick', km: 674 },
+  { id: 'moffat', name: 'Moffat', km: 745 },
+  { id: 'dalkeith', name: 'Dalkeith', km: 827 },
+  { id: 'innerleithen', name: 'Innerleithen', km: 866 },
+  { id: 'eskdalemuir', name: 'Eskdalemuir', km: 916 },
+  { id: 'brampton-south', name: 'Brampton', km: 973, description: 'Return' },
+  { id: 'richmond-south', name: 'Richmond', km: 1086, description: 'Return' },
+  { id: 'malton-south', name: 'Malton', km: 1177, description: 'Return' },
+  { id: 'hessle-south', name: 'Hessle', km: 1245, description: 'Return' },
+  { id: 'louth-south', name: 'Louth', km: 1304, description: 'Return' },
+  { id: 'boston-south', name: 'Boston', km: 1360, description: 'Return' },
+  { id: 'northstowe-south', name: 'Northstowe', km: 1463, description: 'Return' },
+  { id: 'henham', name: 'Henham', km: 1514 },
+  { id: 'london-finish', name: 'London', km: 1557, description: 'Finish - back to London' }
+];
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+/**
+ * Wave schedule
+ * Writtle start waves: A-Z then AA-AZ from 4:00 AM, every 15 minutes
+ * London start waves: LA-LQ from 5:00 AM, every 15 minutes
+ */
+export const LEL_2025_WAVE_SCHEDULE: WaveScheduleRule[] = [
+  {
+    waves: [...LETTERS, ...LETTERS.map(letter => `A${letter}`)],
+    firstStart: '04:00',
+    intervalMinutes: 15
+  },
+  {
+    waves: LETTERS.slice(0, LETTERS.indexOf('Q') + 1).map(letter => `L${letter}`),
+    firstStart: '05:00',
+    intervalMinutes: 15
+  }
+];
+
+export const LEL_2025: EventDefinition = {
+  id: 'lel-2025',
+  name: 'London-Edinburgh-London',
+  shortName: 'LEL 2025',
+  year: 2025,
+  description: 'London to Edinburgh and back',
+  startDate: '2025-08-03',
+  endDate: '2025-08-08',
+  timezone: 'Europe/London',
+  distance: 1540,
+  timeLimit: 125,
+  cutoffRules: {
+    maxSpeed: 30,
+    startClosesAfter: 60,
+    warningMinutes: 120
+  },
+  controls: LEL_2025_CONTROLS,
+  startLocations: [
+    {
+      id: 'london',
+      name: 'London',
+      riderPattern: /^L[A-Q]/,
+      controls: LONDON_START_CONTROLS,
+      totalDistance: 1557
+    },
+    {
+      id: 'writtle',
+      name: 'Writtle',
+      controls: WRITTLE_START_CONTROLS,
+      totalDistance: 1537
+    }
+  ],
+  waveSchedule: LEL_2025_WAVE_SCHEDULE,
+  wavePattern: /^([A-Z]+)/,
+  data: {
+    baseUrl: API_CONFIG.BASE_URL,
+    riders: API_CONFIG.endpoints.riders,
+    tracking: API_CONFIG.endpoints.indianRiders,
+    waveTracking: API_CONFIG.endpoints.waveTracking,
+    routes: API_CONFIG.endpoints.routes,
+    affiliations: API_CONFIG.endpoints.affiliations,
+    weather: API_CONFIG.endpoints.weather
+  },
+  notice: {
+    title: 'Event Cancelled',
+    message: 'The London-Edinburgh-London 2025 event has been called off. All riders have been notified to stop and make arrangements to return safely.',
+    note: 'We will continue tracking southbound riders until they safely reach London.'
+  }
+};
@@ -0,0 +1,134 @@
+/**
+ * Event definition types
+ *
+ * An EventDefinition describes everything the app needs to know about one
+ * edition of a long-distance brevet: dates, timezone, start locations with
+ * their control tables, wave schedule, time limit and where its data lives.
+ */
+
+/**
+ * A control point registered for an event
+ *
+ * Controls visited twice (northbound and southbound) are separate entries,
+ * e.g. `brampton-north` and `brampton-south`, so every raw feed name resolves
+ * to exactly one of them.
+ */
+export interface ControlDefinition {
+  /** Stable id (e.g., "brampton-north") */
+  id: string;
+  /** Display name (e.g., "Brampton") */
+  name: string;
+  direction?: 'north' | 'south';
+  /** Checkpoint names used by the feeds for this control (e.g., "Brampton N") */
+  aliases: string[];
+  /** Name of the control in the weather feed, if different from `name` */
+  weatherName?: string;
+}
+
+/**
+ * A control on one start location's route
+ */
+export interface RouteControl {
+  /** Registry id of the control */
+  id: string;
+  name: string;
+  km: number;
+  description?: string;
+}
+
+/**
+ * A place riders start from, with the controls they visit in order
+ */
+export interface StartLocation {
+  id: string;
+  name: string;
+  /** Bib numbers matching this pattern start here; omit for the fallback location */
+  riderPattern?: RegExp;
+  controls: RouteControl[];
+  totalDistance: number;
+}
+
+/**
+ * A run of waves released at a fixed interval
+ */
+export interface WaveScheduleRule {
+  /** Wave codes in start order */
+  waves: string[];
+  /** Start time of the first wave (HH:MM, event timezone) */
+  firstStart: string;
+  /** Minutes between consecutive waves */
+  intervalMinutes: number;
+  /** Days after the event start date (defaults to 0) */
+  dayOffset?: number;
+}
+
+/**
+ * Where an event's S3 feeds live
+ */
+export interface EventDataEndpoints {
+  baseUrl: string;
+  riders: string;
+  tracking: string;
+  /** Per-wave tracking feed for the whole field; `{wave}` is replaced by the wave code */
+  waveTracking: string;
+  routes: string;
+  weather: string;
+  /** Optional side file with club and city by rider number */
+  affiliations?: string;
+}
+
+export type EventFeed = Exclude<keyof EventDataEndpoints, 'baseUrl' | 'waveTracking' | 'affiliations'>;
+
+/**
+ * Banner shown on event pages (cancellations, weather holds, etc.)
+ */
+export interface EventNotice {
+  title: string;
+  message: string;
+  note?: string;
+}
+
+/**
+ * Rules for control opening and closing times
+ *
+ * Times are measured from each rider's wave start. Controls open at the pace
+ * of `maxSpeed` and close at the even pace that uses the whole time limit
+ * over the rider's route, unless a closing time is given explicitly.
+ */
+export interface CutoffRules {
+  /** Fastest allowed average speed in km/h */
+  maxSpeed: number;
+  /** Minutes after the wave start that the start control closes */
+  startClosesAfter: number;
+  /** Closing times in hours after the wave start, by control id */
+  closingOverrides?: Record<string, number>;
+  /** Margins below this many minutes count as close to a cutoff */
+  warningMinutes: number;
+}
+
+export interface EventDefinition {
+  id: string;
+  name: string;
+  shortName: string;
+  year: number;
+  description: string;
+  /** First and last day of the event (YYYY-MM-DD, local to the event timezone) */
+  startDate: string;
+  endDate: string;
+  /** IANA timezone all feed times are expressed in */
+  timezone: string;
+  /** Nominal distance in km */
+  distance: number;
+  /** Overall time limit in hours */
+  timeLimit: number;
+  cutoffRules: CutoffRules;
+  /** Every control on any of the event's routes */
+  controls: ControlDefinition[];
+  startLocations: StartLocation[];
+  /** Rules that generate each wave's scheduled start */
+  waveSchedule: WaveScheduleRule[];
+  /** Extracts the wave code from a bib number */
+  wavePattern: RegExp;
+  data: EventDataEndpoints;
+  notice?: EventNotice;
+}
@@ -0,0 +1,80 @@
+/**
+ * Wave schedule
+ *
+ * Events describe their waves as rules ("these waves from 04:00, every 15
+ * minutes"). The rules are expanded once per event into a lookup of each
+ * wave's scheduled start; waves not covered by any rule have no start.
+ */
+
+import type { EventDefinition } from './types';
+
+/**
+ * Scheduled start of one wave
+ */
+export interface ScheduledWave {
+  code: string;
+  /** Start time (HH:MM, event timezone) */
+  time: string;
+  /** Days after the event start date */
+  dayOffset: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const schedules = new WeakMap<EventDefinition, Map<string, ScheduledWave>>();
+
+/**
+ * Format minutes after midnight as HH:MM
+ */
+function formatClock(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+/**
+ * Expand an event's wave rules into a lookup by wave code
+ * @param event - Event definition
+ * @returns Map of wave code to scheduled start
+ * @throws Error if a rule is malformed or a wave appears in two rules
+ */
+export function getWaveSchedule(event: EventDefinition): Map<string, ScheduledWave> {
+  const cached = schedules.get(event);
+  if (cached) return cached;
+
+  const schedule = new Map<string, ScheduledWave>();
+  event.waveSchedule.forEach(rule => {
+    const match = rule.firstStart.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) {
+      throw new Error(`${event.id}: invalid wave start "${rule.firstStart}"`);
+    }
+    const firstMinutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+
+    rule.waves.forEach((code, index) => {
+      if (schedule.has(code)) {
+        throw new Error(`${event.id}: wave ${code} is scheduled twice`);
+      }
+
+      // Late waves can roll past midnight into the next day
+      const minutes = firstMinutes + index * rule.intervalMinutes;
+      schedule.set(code, {
+        code,
+        time: formatClock(minutes % MINUTES_PER_DAY),
+        dayOffset: (rule.dayOffset || 0) + Math.floor(minutes / MINUTES_PER_DAY)
+      });
+    });
+  });
+
+  schedules.set(event, schedule);
+  return schedule;
+}
+
+/**
+ * Look up a wave's scheduled start
+ * @param waveCode - Wave code (e.g., "LA", "AB")
+ * @param event - Event definition
+ * @returns Scheduled start, or null if no rule covers the wave
+ */
+export function getScheduledWave(waveCode: string, event: EventDefinition): ScheduledWave | null {
+  return getWaveSchedule(event).get(waveCode) || null;
+}
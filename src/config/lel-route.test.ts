@@ -0,0 +1,26 @@
+import { getRiderStartInstant, getStartGap, getWaveStartInstant } from './lel-route';
+import { LEL_2025 } from './events';
+
+describe('getStartGap', () => {
+  // Wave B starts at 05:15 on the first day
+  const scheduled = getWaveStartInstant('LB12', LEL_2025)!;
+
+  test('a bare time just before the wave start is an early start, not the next day', () => {
+    const gap = getStartGap({ rider_no: 'LB12', actual_start: '05:10' }, LEL_2025);
+    expect(gap.scheduled).toEqual(scheduled);
+    expect(gap.gapMinutes).toBe(-5);
+  });
+
+  test('a bare time after the wave start is a late start', () => {
+    expect(getStartGap({ rider_no: 'LB12', actual_start: '05:40' }, LEL_2025).gapMinutes).toBe(25);
+  });
+
+  test('a weekday time resolves the same way', () => {
+    expect(getStartGap({ rider_no: 'LB12', actual_start: 'Sunday 05:10' }, LEL_2025).gapMinutes).toBe(-5);
+  });
+
+  test('without an actual start the rider starts with the wave', () => {
+    expect(getStartGap({ rider_no: 'LB12' }, LEL_2025).gapMinutes).toBeNull();
+    expect(getRiderStartInstant({ rider_no: 'LB12' }, LEL_2025)).toEqual(scheduled);
+  });
+});
@@ -1,157 +1,41 @@
 /**
- * LEL 2025 Route Configuration
- * 
- * The London-Edinburgh-London event has TWO starting points:
- * 1. LONDON START - for riders in L-series waves (LA, LB, LC, LD, LE, LF, LG, LH)
- * 2. WRITTLE START - for all other riders (A, AA, AB, etc.)
- * 
- * Both routes MERGE at Northstowe and then continue on the same route.
+ * Route helpers for event definitions
+ *
+ * Every helper takes the event as an optional trailing argument and falls
+ * back to the default event (LEL 2025), so existing call sites keep working.
+ *
+ * For LEL, riders in L-series waves start in London and everyone else starts
+ * in Writtle; both routes MERGE at Northstowe and then continue on the same route.
  */
 
-export interface RouteControl {
-  name: string;
-  km: number;
-  description?: string;
-}
+import {
+  DEFAULT_EVENT,
+  LEL_2025,
+  getBaseDistance,
+  getDefaultStartLocation,
+  getRouteVisits,
+  getScheduledWave,
+  resolveControlVisit
+} from './events';
+import type { ControlVisit, EventDefinition, RouteControl, ScheduledWave, StartLocation } from './events';
+import { LONDON_START_CONTROLS, WRITTLE_START_CONTROLS } from './events/lel-2025';
+import { getEventLocalTime, getMinutesBetween, parseEventTimestamp } from '../utils/eventTimestamp';
 
-/**
- * Control points for WRITTLE START riders
- * These riders skip London and start directly from Writtle
- */
-export const WRITTLE_START_CONTROLS: RouteControl[] = [
-  { name: 'Writtle', km: 0, description: 'Start point for non-London riders' },
-  { name: 'Northstowe', km: 90, description: 'Merge point with London riders' },
-  { name: 'Boston', km: 193 },
-  { name: 'Louth', km: 248 },
-  { name: 'Hessle', km: 305 },
-  { name: 'Malton', km: 373 },
-  { name: 'Richmond', km: 467 },
-  { name: 'Brampton', km: 581 },
-  { name: 'Hawick', km: 654 },
-  { name: 'Moffat', km: 725 },
-  { name: 'Dalkeith', km: 807 },
-  { name: 'Innerleithen', km: 846 },
-  { name: 'Eskdalemuir', km: 896 },
-  { name: 'Brampton', km: 953, description: 'Return' },
-  { name: 'Richmond', km: 1066, description: 'Return' },
-  { name: 'Malton', km: 1157, description: 'Return' },
-  { name: 'Hessle', km: 1225, description: 'Return' },
-  { name: 'Louth', km: 1284, description: 'Return' },
-  { name: 'Boston', km: 1340, description: 'Return' },
-  { name: 'Northstowe', km: 1443, description: 'Return' },
-  { name: 'Henham', km: 1494 },
-  { name: 'Writtle', km: 1537, description: 'Finish' }
-];
+export type { ControlVisit, RouteControl };
+export { LONDON_START_CONTROLS, WRITTLE_START_CONTROLS };
 
 /**
- * Control points for LONDON START riders (L-series waves)
- * These riders do the full London-Edinburgh-London loop
- * All distances are +20km compared to Writtle start
- */
-export const LONDON_START_CONTROLS: RouteControl[] = [
-  { name: 'London', km: 0, description: 'Start point for L-series riders' },
-  { name: 'Writtle', km: 20, description: 'First control after London' },
-  { name: 'Northstowe', km: 110, description: 'Merge point with Writtle riders' },
-  { name: 'Boston', km: 213 },
-  { name: 'Louth', km: 268 },
-  { name: 'Hessle', km: 325 },
-  { name: 'Malton', km: 393 },
-  { name: 'Richmond', km: 487 },
-  { name: 'Brampton', km: 601 },
-  { name: 'Hawick', km: 674 },
-  { name: 'Moffat', km: 745 },
-  { name: 'Dalkeith', km: 827 },
-  { name: 'Innerleithen', km: 866 },
-  { name: 'Eskdalemuir', km: 916 },
-  { name: 'Brampton', km: 973, description: 'Return' },
-  { name: 'Richmond', km: 1086, description: 'Return' },
-  { name: 'Malton', km: 1177, description: 'Return' },
-  { name: 'Hessle', km: 1245, description: 'Return' },
-  { name: 'Louth', km: 1304, description: 'Return' },
-  { name: 'Boston', km: 1360, description: 'Return' },
-  { name: 'Northstowe', km: 1463, description: 'Return' },
-  { name: 'Henham', km: 1514 },
-  { name: 'London', km: 1557, description: 'Finish - back to London' }
-];
-
-/**
- * Wave start times for different rider groups
- * Writtle start waves: Base time 4:00 AM, then 15-minute increments continuously
- * London start waves: Base time 5:00 AM, then 15-minute increments
+ * Get the start location for a rider
+ * @param riderNo - The rider's bib number
+ * @param event - Event definition (defaults to LEL 2025)
+ * @returns The start location whose pattern matches, or the event's fallback location
  */
-export const WAVE_START_TIMES: { [key: string]: string } = {
-  // Writtle start waves (start at 4:00 AM)
-  'A': '04:00',
-  'B': '04:15',
-  'C': '04:30',
-  'D': '04:45',
-  'E': '05:00',
-  'F': '05:15',
-  'G': '05:30',
-  'H': '05:45',
-  'I': '06:00',
-  'J': '06:15',
-  'K': '06:30',
-  'L': '06:45',
-  'M': '07:00',
-  'N': '07:15',
-  'O': '07:30',
-  'P': '07:45',
-  'Q': '08:00',
-  'R': '08:15',
-  'S': '08:30',
-  'T': '08:45',
-  'U': '09:00',
-  'V': '09:15',
-  'W': '09:30',
-  'X': '09:45',
-  'Y': '10:00',
-  'Z': '10:15',
-  'AA': '10:30',
-  'AB': '10:45',
-  'AC': '11:00',
-  'AD': '11:15',
-  'AE': '11:30',
-  'AF': '11:45',
-  'AG': '12:00',
-  'AH': '12:15',
-  'AI': '12:30',
-  'AJ': '12:45',
-  'AK': '13:00',
-  'AL': '13:15',
-  'AM': '13:30',
-  'AN': '13:45',
-  'AO': '14:00',
-  'AP': '14:15',
-  'AQ': '14:30',
-  'AR': '14:45',
-  'AS': '15:00',
-  'AT': '15:15',
-  'AU': '15:30',
-  'AV': '15:45',
-  'AW': '16:00',
-  'AX': '16:15',
-  'AY': '16:30',
-  'AZ': '16:45',
-  
-  // London start waves (start at 5:00 AM)
-  'LA': '05:00',
-  'LB': '05:15',
-  'LC': '05:30',
-  'LD': '05:45',
-  'LE': '06:00',
-  'LF': '06:15',
-  'LG': '06:30',
-  'LH': '06:45',
-  'LI': '07:00',
-  'LJ': '07:15',
-  'LK': '07:30',
-  'LL': '07:45',
-  'LM': '08:00',
-  'LN': '08:15',
-  'LO': '08:30',
-  'LP': '08:45',
-  'LQ': '09:00',
+export const getStartLocationForRider = (
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): StartLocation => {
+  return event.startLocations.find(location => location.riderPattern?.test(riderNo)) ||
+    getDefaultStartLocation(event);
 };
 
 /**
@@ -160,137 +44,213 @@ export const WAVE_START_TIMES: { [key: string]: string } = {
  * @returns true if the rider starts from London, false if from Writtle
  */
 export const isLondonStartRider = (riderNo: string): boolean => {
-  return /^L[A-Q]/.test(riderNo);
+  return getStartLocationForRider(riderNo, LEL_2025).id === 'london';
+};
+
+/**
+ * Get how much further a rider rides than the shortest route of the event
+ * @param riderNo - The rider's bib number
+ * @param event - Event definition (defaults to LEL 2025)
+ * @returns Extra distance in km (e.g., 20 for LEL London starters)
+ */
+export const getExtraDistanceForRider = (
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): number => {
+  return getStartLocationForRider(riderNo, event).totalDistance - getBaseDistance(event);
 };
 
 /**
  * Get the appropriate control points for a rider based on their start location
  * @param riderNo - The rider's bib number
+ * @param event - Event definition (defaults to LEL 2025)
  * @returns Array of control points for the rider's route
  */
-export const getControlsForRider = (riderNo: string): RouteControl[] => {
-  return isLondonStartRider(riderNo) ? LONDON_START_CONTROLS : WRITTLE_START_CONTROLS;
+export const getControlsForRider = (
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): RouteControl[] => {
+  return getStartLocationForRider(riderNo, event).controls;
 };
 
 /**
  * Get the total distance for a rider based on their start location
  * @param riderNo - The rider's bib number
+ * @param event - Event definition (defaults to LEL 2025)
  * @returns Total distance in kilometers
  */
-export const getTotalDistanceForRider = (riderNo: string): number => {
-  return isLondonStartRider(riderNo) ? 1557 : 1537;
+export const getTotalDistanceForRider = (
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): number => {
+  return getStartLocationForRider(riderNo, event).totalDistance;
+};
+
+/**
+ * Get a rider's route controls with their positions
+ * @param riderNo - The rider's bib number
+ * @param event - Event definition (defaults to LEL 2025)
+ * @returns Control visits in route order
+ */
+export const getControlVisitsForRider = (
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): ControlVisit[] => {
+  return getRouteVisits(getStartLocationForRider(riderNo, event));
+};
+
+/**
+ * Resolve a checkpoint name from the feed to the control visit on a rider's route
+ * @param checkpointName - Name of the checkpoint (e.g., "Brampton S", "Start")
+ * @param riderNo - The rider's bib number to determine which route to use
+ * @param event - Event definition (defaults to LEL 2025)
+ * @returns The control visit, or null if the name is unknown on this route
+ */
+export const getCheckpointVisit = (
+  checkpointName: string,
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): ControlVisit | null => {
+  return resolveControlVisit(checkpointName, getStartLocationForRider(riderNo, event), event);
 };
 
 /**
  * Find the distance for a checkpoint name
- * @param checkpointName - Name of the checkpoint (may include directional suffixes like "N", "S")
+ * @param checkpointName - Name of the checkpoint (e.g., "Brampton S", "Start")
  * @param riderNo - The rider's bib number to determine which route to use
+ * @param event - Event definition (defaults to LEL 2025)
  * @returns Distance in kilometers, or 0 if not found
  */
-export const getCheckpointDistance = (checkpointName: string, riderNo: string): number => {
-  const controls = getControlsForRider(riderNo);
-  
-  // Clean checkpoint name by removing directional suffixes (N, S, E, W)
-  const cleanName = checkpointName.replace(/\s+[NSEW]$/, '');
-  
-  const control = controls.find(c => 
-    c.name === cleanName || 
-    c.name === checkpointName ||
-    checkpointName.includes(c.name) ||
-    // Special case: "Start" means Writtle for Writtle riders, London for London riders
-    (checkpointName === 'Start' && c.km === 0)
-  );
-  
-  return control ? control.km : 0;
+export const getCheckpointDistance = (
+  checkpointName: string,
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): number => {
+  const visit = getCheckpointVisit(checkpointName, riderNo, event);
+  return visit ? visit.km : 0;
+};
+
+/**
+ * A rider as far as start times are concerned
+ */
+export interface RiderStart {
+  rider_no: string;
+  /** Actual start time from the feed (e.g., "Sunday 04:17"), if it differs from the wave */
+  actual_start?: string;
+}
+
+/**
+ * Difference between a rider's scheduled and actual start
+ */
+export interface StartGap {
+  scheduled: Date | null;
+  actual: Date | null;
+  /** Minutes the rider started after the wave (negative if earlier), or null if unknown */
+  gapMinutes: number | null;
+}
+
+/**
+ * Get the scheduled wave start for a rider
+ * @param riderNo - The rider's bib number
+ * @param event - Event definition (defaults to LEL 2025)
+ * @returns The rider's scheduled wave, or null if no schedule rule covers it
+ */
+export const getScheduledWaveForRider = (
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): ScheduledWave | null => {
+  const waveMatch = riderNo.match(event.wavePattern);
+  return waveMatch ? getScheduledWave(waveMatch[1], event) : null;
 };
 
 /**
  * Get the wave start time for a rider
  * @param riderNo - The rider's bib number
- * @returns Start time in HH:MM format, or default based on rider type
+ * @param event - Event definition (defaults to LEL 2025)
+ * @returns Start time in HH:MM format, or null if the wave is not scheduled
  */
-export const getWaveStartTime = (riderNo: string): string => {
-  const waveMatch = riderNo.match(/^([A-Z]+)/);
-  if (waveMatch) {
-    const waveCode = waveMatch[1];
-    if (WAVE_START_TIMES[waveCode]) {
-      return WAVE_START_TIMES[waveCode];
-    }
-    // Default based on whether it's a London start or not
-    return isLondonStartRider(riderNo) ? '05:00' : '04:00';
-  }
-  // Default for non-London riders
-  return '04:00';
+export const getWaveStartTime = (
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): string | null => {
+  const wave = getScheduledWaveForRider(riderNo, event);
+  return wave ? wave.time : null;
 };
 
 /**
- * Calculate elapsed time from wave start to checkpoint arrival
+ * Get the absolute instant a rider's wave is scheduled to start
  * @param riderNo - The rider's bib number
+ * @param event - Event definition (defaults to LEL 2025)
+ * @returns Scheduled wave start instant, or null if the wave is not scheduled
+ */
+export const getWaveStartInstant = (
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): Date | null => {
+  const wave = getScheduledWaveForRider(riderNo, event);
+  return wave ? getEventLocalTime(event, wave.dayOffset, wave.time) : null;
+};
+
+/**
+ * Get the instant a rider actually started
+ * @param rider - Rider with an optional actual start time
+ * @param event - Event definition (defaults to LEL 2025)
+ * @returns Actual start if known, otherwise the scheduled wave start
+ */
+export const getRiderStartInstant = (
+  rider: RiderStart,
+  event: EventDefinition = DEFAULT_EVENT
+): Date | null => {
+  return getStartGap(rider, event).actual || getWaveStartInstant(rider.rider_no, event);
+};
+
+// How far before the wave start an actual start is looked for
+const START_SEARCH_HOURS_BEFORE = 12;
+
+/**
+ * Compare a rider's actual start with their wave's scheduled start
+ * @param rider - Rider with an optional actual start time
+ * @param event - Event definition (defaults to LEL 2025)
+ * @returns Scheduled and actual start with the gap between them
+ */
+export const getStartGap = (
+  rider: RiderStart,
+  event: EventDefinition = DEFAULT_EVENT
+): StartGap => {
+  const scheduled = getWaveStartInstant(rider.rider_no, event);
+  // A bare "HH:MM" is the occurrence nearest the wave start, early or late
+  const actual = parseEventTimestamp(rider.actual_start, event, {
+    notBefore: scheduled ? new Date(scheduled.getTime() - START_SEARCH_HOURS_BEFORE * 3600000) : null
+  });
+  
+  return {
+    scheduled,
+    actual,
+    gapMinutes: scheduled && actual ? getMinutesBetween(scheduled, actual) : null
+  };
+};
+
+/**
+ * Calculate elapsed time from a rider's start to checkpoint arrival
+ * Late starters are timed from their actual start rather than their wave.
+ * @param rider - Rider with an optional actual start time
  * @param checkpointTime - The checkpoint arrival time (e.g., "3/8 19:32" or "Sunday 08:46")
- * @param eventDate - The event start date (default: "2025-08-03")
+ * @param event - Event definition (defaults to LEL 2025)
  * @returns Elapsed time in minutes, or null if invalid
  */
 export const calculateElapsedTime = (
-  riderNo: string,
+  rider: RiderStart,
   checkpointTime: string,
-  eventDate: string = '2025-08-03'
+  event: EventDefinition = DEFAULT_EVENT
 ): number | null => {
-  try {
-    // Get wave start time
-    const waveStartTime = getWaveStartTime(riderNo);
-    
-    // Handle different time formats
-    let checkpointDateStr: string;
-    
-    if (checkpointTime.includes('/')) {
-      // Format: "3/8 19:32"
-      const [date, time] = checkpointTime.split(' ');
-      if (!date || !time) return null;
-      
-      const [day, month] = date.split('/');
-      const year = eventDate.split('-')[0];
-      checkpointDateStr = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')} ${time}:00`;
-    } else {
-      // Format: "Sunday 08:46" or "Monday 02:29"
-      const parts = checkpointTime.split(' ');
-      const dayName = parts[0];
-      const time = parts[parts.length - 1];
-      if (!time || !time.includes(':')) return null;
-      
-      // Map day names to dates (assuming event starts on Sunday August 3, 2025)
-      const eventStartDate = new Date(eventDate);
-      const eventDayName = eventStartDate.toLocaleDateString('en-US', { weekday: 'long' });
-      
-      // Calculate the date based on day name
-      const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      const eventDayIndex = dayNames.indexOf(eventDayName);
-      const checkpointDayIndex = dayNames.indexOf(dayName);
-      
-      let dayOffset = 0;
-      if (checkpointDayIndex >= 0 && eventDayIndex >= 0) {
-        dayOffset = checkpointDayIndex - eventDayIndex;
-        if (dayOffset < 0) dayOffset += 7; // Handle week wraparound
-      }
-      
-      const checkpointDate = new Date(eventDate);
-      checkpointDate.setDate(checkpointDate.getDate() + dayOffset);
-      
-      const [year, month, day] = checkpointDate.toISOString().split('T')[0].split('-');
-      checkpointDateStr = `${year}-${month}-${day} ${time}:00`;
-    }
-    
-    const checkpointDate = new Date(checkpointDateStr);
-    const startDate = new Date(`${eventDate} ${waveStartTime}:00`);
-    
-    // Calculate difference in minutes
-    const diffMs = checkpointDate.getTime() - startDate.getTime();
-    const diffMinutes = Math.floor(diffMs / (1000 * 60));
-    
-    return diffMinutes > 0 ? diffMinutes : null;
-  } catch (error) {
-    console.error('Error calculating elapsed time:', error);
-    return null;
-  }
+  const start = getRiderStartInstant(rider, event);
+  if (!start) return null;
+  
+  const checkpointInstant = parseEventTimestamp(checkpointTime, event, { notBefore: start });
+  if (!checkpointInstant) return null;
+  
+  const diffMinutes = getMinutesBetween(start, checkpointInstant);
+  return diffMinutes > 0 ? diffMinutes : null;
 };
 
 /**
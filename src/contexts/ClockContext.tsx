@@ -0,0 +1,33 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { Clock, systemClock } from '../utils/clock';
+
+// Without a provider the app runs on the real time
+const ClockContext = createContext<Clock>(systemClock);
+
+interface ClockProviderProps {
+  children: ReactNode;
+  clock: Clock;
+}
+
+export const ClockProvider: React.FC<ClockProviderProps> = ({ children, clock }) => (
+  <ClockContext.Provider value={clock}>
+    {children}
+  </ClockContext.Provider>
+);
+
+// Hook to get the clock race logic reads the time from
+export const useClock = (): Clock => useContext(ClockContext);
+
+// Hook returning the clock's time, refreshed every `intervalMs` and whenever the clock is swapped
+export const useNow = (intervalMs: number = 60 * 1000): Date => {
+  const clock = useClock();
+  const [now, setNow] = useState(() => clock.now());
+
+  useEffect(() => {
+    setNow(clock.now());
+    const interval = setInterval(() => setNow(clock.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [clock, intervalMs]);
+
+  return now;
+};
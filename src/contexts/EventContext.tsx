@@ -0,0 +1,55 @@
+import React, { createContext, useContext, useCallback, ReactNode } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { getEventById, DEFAULT_EVENT_ID, EventDefinition } from '../config/events';
+
+const EventContext = createContext<EventDefinition | undefined>(undefined);
+
+interface EventProviderProps {
+  children: ReactNode;
+  /** Explicit event id; defaults to the `:eventId` route parameter */
+  eventId?: string;
+}
+
+export const EventProvider: React.FC<EventProviderProps> = ({ children, eventId }) => {
+  const params = useParams<{ eventId: string }>();
+  const id = eventId || params.eventId || DEFAULT_EVENT_ID;
+  const event = getEventById(id);
+
+  if (!event) {
+    return (
+      <div className="flex flex-col justify-center items-center min-h-screen gap-4">
+        <p className="text-xl font-semibold text-gray-900">Unknown event "{id}"</p>
+        <Link to={`/events/${DEFAULT_EVENT_ID}`} className="text-blue-600 hover:text-blue-800">
+          Go to the current event
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <EventContext.Provider value={event}>
+      {children}
+    </EventContext.Provider>
+  );
+};
+
+// Hook to get the event the current page is scoped to
+export const useEvent = (): EventDefinition => {
+  const context = useContext(EventContext);
+
+  if (!context) {
+    throw new Error('useEvent must be used within an EventProvider');
+  }
+
+  return context;
+};
+
+// Hook returning a function that prefixes app paths with the current event scope
+export const useEventPath = (): ((path?: string) => string) => {
+  const event = useEvent();
+
+  return useCallback((path: string = '/') => {
+    const suffix = path === '/' ? '' : path.startsWith('/') ? path : `/${path}`;
+    return `/events/${event.id}${suffix}`;
+  }, [event.id]);
+};
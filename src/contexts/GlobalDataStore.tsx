@@ -1,80 +1,132 @@
-import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode } from 'react';
-import { riderService, routeService } from '../services';
-import { Rider } from '../types';
+import React, { createContext, useContext, useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useSyncExternalStore, ReactNode } from 'react';
+import { riderService, routeService, DataProcessingClient, FeedFreshnessMonitor, RaceEventLog, StateStore } from '../services';
+import { getSnapshotFeeds } from '../services/offlineStore';
+import { API_CONFIG, RefreshIntervals, RefreshSource } from '../config/api';
+import { useRefreshTask } from '../hooks/useRefreshTask';
+import { getAffiliationsUrl, getEventDataUrl, getWaveTrackingUrl } from '../config/events';
+import { useEvent } from './EventContext';
+import { useReplay } from './ReplayContext';
+import { useClock, useNow } from './ClockContext';
+import { useUrlViewState } from '../hooks/useUrlViewState';
 import {
+  selectAllTrackingRiders,
+  selectControlProgress,
+  selectEnhancedRiders,
+  selectGlobalDataState,
+  selectLiveTrackingByRider,
+  selectRaceDataInput,
+  selectTrackedWaves,
+  selectWaves
+} from './globalDataSelectors';
+import { Rider, RiderAffiliation } from '../types';
+import {
+  GlobalDataActions,
+  GlobalDataSources,
   GlobalDataStore,
-  GlobalStatistics,
   LoadingState,
   ErrorState,
   UpdateTimestamps,
   RiderFilters,
   RiderSortBy,
-  WaveStatisticsExtended,
-  RouteData
+  RouteData,
+  TrackingShardState
 } from '../types/enhanced';
 import {
-  enhanceRiders,
-  processTrackingRider,
-  processWaves,
-  processTrackedWaves,
-  processControlProgress,
-  calculateWaveStatistics,
-  getCurrentUKTime,
-  sortRidersByNumber,
-  sortRidersByName,
-  trackingSorters,
-  filterRidersBySearch,
+  extractWaveCode,
+  deriveRaceEvents,
   TrackingRider,
-  RawTrackingRider
+  TrackingFeed,
+  RawTrackingRider,
+  ProcessedRaceData
 } from '../utils/dataProcessors';
 
-// Default cache durations - DISABLED AUTO-REFRESH
-const CACHE_DURATIONS = {
-  riders: Infinity,    // SAFETY: No auto-refresh
-  tracking: Infinity,  // SAFETY: No auto-refresh
-  routes: Infinity     // Never expires
-};
+// Wave shards fetched at once; a page sorted by name can span every wave
+const SHARD_BATCH_SIZE = 4;
+
+// How often the worker reprocesses at the clock's time, so cutoffs and projections keep moving without new data
+const PROCESSING_TICK_MS = 60 * 1000;
 
-// Context
-const GlobalDataContext = createContext<GlobalDataStore | undefined>(undefined);
+// Order of the filtered tracking riders when the URL does not give one
+const DEFAULT_SORT_BY: RiderSortBy = 'distance';
+
+// The context carries the store and actions, not the data, so it never changes
+interface GlobalDataContextValue {
+  store: StateStore<GlobalDataSources>;
+  actions: GlobalDataActions;
+  /** Automatic refresh of every polled source, including those fetched outside the store */
+  refreshIntervals: RefreshIntervals;
+}
+
+const GlobalDataContext = createContext<GlobalDataContextValue | undefined>(undefined);
 
 interface GlobalDataProviderProps {
   children: ReactNode;
-  cacheConfig?: {
-    riders?: number;
-    tracking?: number;
-    routes?: number;
-  };
+  /** Automatic refresh per source in ms, e.g. { tracking: 5 * 60 * 1000 }; sources left out follow API_CONFIG.polling */
+  refreshIntervals?: Partial<RefreshIntervals>;
 }
 
 export const GlobalDataProvider: React.FC<GlobalDataProviderProps> = ({ 
   children,
-  cacheConfig = {}
+  refreshIntervals
 }) => {
-  // Cache configuration - memoize to prevent infinite loops
-  const cacheDurations = useMemo(() => ({
-    ...CACHE_DURATIONS,
-    ...cacheConfig
-  }), [cacheConfig]);
+  const event = useEvent();
+  const { asOf } = useReplay();
+  const clock = useClock();
+  // A number, so a stopped clock (paused replay) does not reprocess every tick
+  const now = useNow(PROCESSING_TICK_MS).getTime();
+  const intervals = useMemo(
+    (): RefreshIntervals => ({ ...API_CONFIG.polling, ...refreshIntervals }),
+    [refreshIntervals]
+  );
   
   // Abort controllers for fetch operations
   const abortControllersRef = React.useRef<{
     riders?: AbortController;
     tracking?: AbortController;
     routes?: AbortController;
+    affiliations?: AbortController;
   }>({});
+  // One controller per wave shard in flight
+  const shardControllersRef = React.useRef<Map<string, AbortController>>(new Map());
+  const loadedShardsRef = React.useRef<Set<string>>(new Set());
+  // The provider is remounted per event, so one log covers one event
+  const [raceEventLog] = useState(() => new RaceEventLog());
+  const previousTrackingRef = React.useRef<ReadonlyMap<string, RawTrackingRider>>(new Map());
+  const [feedFreshness] = useState(() => new FeedFreshnessMonitor());
 
   // Raw data
   const [rawRiders, setRawRiders] = useState<Rider[]>([]);
-  const [rawTrackingData, setRawTrackingData] = useState<any>(null);
+  const [riderAffiliations, setRiderAffiliations] = useState<Record<string, RiderAffiliation>>({});
+  const [rawTrackingData, setRawTrackingData] = useState<TrackingFeed | null>(null);
+  const [trackingShards, setTrackingShards] = useState<Record<string, TrackingShardState>>({});
   const [rawRouteData, setRawRouteData] = useState<RouteData | null>(null);
 
+  // Processed in a worker; the previous result stays in place until the next one arrives
+  const [processingClient] = useState(() => new DataProcessingClient());
+  const [processed, setProcessed] = useState<ProcessedRaceData | null>(null);
+  const [processingError, setProcessingError] = useState<Error | null>(null);
+
   // Loading and error states
   const [loading, setLoading] = useState<LoadingState>({
     riders: true,
     tracking: true,
     routes: true
   });
+  const [refreshing, setRefreshing] = useState<LoadingState>({
+    riders: false,
+    tracking: false,
+    routes: false
+  });
+  // Sources that have loaded once; later fetches are refreshes
+  const loadedSourcesRef = React.useRef<Set<keyof LoadingState>>(new Set());
+  const startLoading = useCallback((source: keyof LoadingState) => {
+    const setState = loadedSourcesRef.current.has(source) ? setRefreshing : setLoading;
+    setState(prev => ({ ...prev, [source]: true }));
+  }, []);
+  const finishLoading = useCallback((source: keyof LoadingState) => {
+    setLoading(prev => ({ ...prev, [source]: false }));
+    setRefreshing(prev => ({ ...prev, [source]: false }));
+  }, []);
   const [errors, setErrors] = useState<ErrorState>({
     riders: null,
     tracking: null,
@@ -87,203 +139,105 @@ export const GlobalDataProvider: React.FC<GlobalDataProviderProps> = ({
   });
 
   // Filters and sorting
-  const [activeFilters, setActiveFilters] = useState<RiderFilters>({});
-  const [activeSortBy, setActiveSortBy] = useState<RiderSortBy>('distance');
-
-  // UI state
-  const [selectedRider, setSelectedRider] = useState<TrackingRider | null>(null);
-  const [selectedWave, setSelectedWave] = useState<string | null>(null);
-  const [selectedControl, setSelectedControl] = useState<string | null>(null);
-
-  // Process enhanced riders
-  const enhancedRiders = useMemo(() => {
-    return enhanceRiders(rawRiders);
-  }, [rawRiders]);
-
-  // Process tracking riders
-  const trackingRiders = useMemo(() => {
-    if (!rawTrackingData?.riders) return [];
-    
-    const currentTime = getCurrentUKTime();
-    const trackingMap = new Map<string, RawTrackingRider>();
-    
-    // Create map of tracking data
-    rawTrackingData.riders.forEach((rider: RawTrackingRider) => {
-      trackingMap.set(rider.rider_no, rider);
-    });
-    
-    // Process each enhanced rider with tracking data if available
-    return enhancedRiders.map(enhancedRider => {
-      const trackingData = trackingMap.get(enhancedRider.rider_no);
-      
-      if (trackingData) {
-        return processTrackingRider(trackingData, enhancedRider, currentTime);
-      }
-      
-      // Return enhanced rider with default tracking values
-      return {
-        ...enhancedRider,
-        status: 'not_started' as const,
-        checkpoints: [],
-        currentLocation: 'Not Started',
-        lastCheckpoint: null,
-        distanceCovered: 0,
-        estimatedDistance: 0,
-        elapsedMinutes: 0,
-        averageSpeed: 0,
-        progress: 0
-      } as TrackingRider;
-    });
-  }, [enhancedRiders, rawTrackingData]);
-
-  // Process waves
-  const waves = useMemo(() => {
-    return processWaves(enhancedRiders);
-  }, [enhancedRiders]);
-
-  // Process tracked waves
-  const trackedWaves = useMemo(() => {
-    if (!rawTrackingData) return [];
-    return processTrackedWaves(trackingRiders);
-  }, [trackingRiders, rawTrackingData]);
-
-  // Process control progress
-  const controlProgress = useMemo(() => {
-    if (!rawTrackingData?.event?.controls) return new Map();
-    return processControlProgress(rawTrackingData.event.controls, trackingRiders);
-  }, [rawTrackingData, trackingRiders]);
-
-  // Calculate global statistics
-  const globalStatistics = useMemo((): GlobalStatistics => {
-    const totalRiders = enhancedRiders.length;
-    const countries = new Set(enhancedRiders.map(r => r.country || 'Unknown'));
-    const totalCountries = countries.size;
-    const totalWaves = waves.length;
-    
-    // Count by status
-    const statusCounts = trackingRiders.reduce((acc, rider) => {
-      switch(rider.status) {
-        case 'not_started':
-          acc.notStarted++;
-          break;
-        case 'in_progress':
-          acc.inProgress++;
-          break;
-        case 'finished':
-          acc.finished++;
-          break;
-        case 'dnf':
-          acc.dnf++;
-          break;
-      }
-      return acc;
-    }, { notStarted: 0, inProgress: 0, finished: 0, dnf: 0 });
-    
-    // Count by route
-    const routeCounts = enhancedRiders.reduce((acc, rider) => {
-      acc[rider.route]++;
-      return acc;
-    }, { london: 0, writtle: 0 });
-    
-    // Calculate averages
-    const activeRiders = trackingRiders.filter(r => r.distanceCovered > 0);
-    const totalDistance = activeRiders.reduce((sum, r) => sum + r.distanceCovered, 0);
-    const totalSpeed = activeRiders.reduce((sum, r) => sum + r.averageSpeed, 0);
-    
-    return {
-      totalRiders,
-      totalCountries,
-      totalWaves,
-      byStatus: statusCounts,
-      byRoute: routeCounts,
-      averageDistance: activeRiders.length > 0 ? totalDistance / activeRiders.length : 0,
-      averageSpeed: activeRiders.length > 0 ? totalSpeed / activeRiders.length : 0,
-      completionRate: totalRiders > 0 ? (statusCounts.finished / totalRiders) * 100 : 0,
-      lastUpdated: new Date()
-    };
-  }, [enhancedRiders, waves, trackingRiders]);
+  // Filters, sorting and selection live in the URL, so views can be linked and history works
+  const { state: urlViewState, update: updateUrlViewState } = useUrlViewState();
+  const activeFilters = urlViewState.filters;
+  const activeSortBy = urlViewState.sortBy || DEFAULT_SORT_BY;
 
-  // Calculate wave statistics
-  const waveStatistics = useMemo(() => {
-    const statsMap = new Map<string, WaveStatisticsExtended>();
-    
-    trackedWaves.forEach(wave => {
-      const stats = calculateWaveStatistics(wave.trackingRiders);
-      const countries = new Set(wave.riders.map(r => r.country || 'Unknown'));
-      
-      // Find lead rider
-      const leadRider = wave.trackingRiders
-        .filter(r => r.distanceCovered > 0)
-        .sort((a, b) => b.distanceCovered - a.distanceCovered)[0] || null;
-      
-      statsMap.set(wave.code, {
-        code: wave.code,
-        startTime: wave.startTime,
-        route: wave.route,
-        riderCount: wave.riders.length,
-        countries: Array.from(countries),
-        status: {
-          notStarted: stats.notStarted,
-          inProgress: stats.inProgress,
-          finished: stats.finished,
-          dnf: stats.dnf
-        },
-        performance: {
-          avgDistance: stats.avgDistance,
-          avgSpeed: stats.avgSpeed,
-          leadRider
-        }
+  // Riders count as loading until the worker has processed them for the first time
+  const ridersAwaitingProcessing = rawRiders.length > 0 && !processed?.enhancedRiders.length && !processingError;
+  const storeLoading = useMemo(
+    (): LoadingState => ridersAwaitingProcessing ? { ...loading, riders: true } : loading,
+    [loading, ridersAwaitingProcessing]
+  );
+  const storeErrors = useMemo(
+    (): ErrorState => processingError && !errors.riders ? { ...errors, riders: processingError } : errors,
+    [errors, processingError]
+  );
+
+  // Everything the selectors derive from; a new object only when one of these changes
+  const sources = useMemo((): GlobalDataSources => ({
+    event,
+    clock,
+    now,
+    asOf,
+    rawRiders,
+    riderAffiliations,
+    liveTrackingData: rawTrackingData,
+    trackingShards,
+    rawRouteData,
+    processed,
+    loading: storeLoading,
+    refreshing,
+    errors: storeErrors,
+    lastUpdated,
+    activeFilters,
+    activeSortBy,
+    selectedRiderNo: urlViewState.rider,
+    selectedWave: urlViewState.wave,
+    selectedControl: urlViewState.control
+  }), [
+    event, clock, now, asOf, rawRiders, riderAffiliations, rawTrackingData, trackingShards, rawRouteData,
+    processed, storeLoading, refreshing, storeErrors, lastUpdated, activeFilters, activeSortBy, urlViewState
+  ]);
+
+  const [store] = useState(() => new StateStore(sources));
+
+  // Publish before paint so subscribed components never show a frame behind
+  useLayoutEffect(() => {
+    store.setState(sources);
+  }, [store, sources]);
+
+  // Hand each new payload to the worker; superseded payloads resolve to null and are dropped.
+  // Every other result is applied, even if the input has changed since: during replay
+  // playback the input changes faster than a run takes, and the views must still move.
+  const raceDataInput = selectRaceDataInput(sources);
+  const mountedRef = React.useRef(false);
+  const jobCountRef = React.useRef(0);
+  const appliedJobRef = React.useRef(0);
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+  useEffect(() => {
+    const job = ++jobCountRef.current;
+    // Jobs finish in order; the check keeps an older result from replacing a newer one regardless
+    const isCurrent = () => mountedRef.current && job > appliedJobRef.current;
+    processingClient.process(raceDataInput, event)
+      .then(result => {
+        if (!result || !isCurrent()) return;
+        appliedJobRef.current = job;
+        setProcessed(result);
+        setProcessingError(null);
+      })
+      .catch((error: Error) => {
+        if (!isCurrent()) return;
+        appliedJobRef.current = job;
+        console.error('[GlobalDataProvider] Processing failed:', error.message);
+        setProcessingError(error);
       });
-    });
-    
-    return statsMap;
-  }, [trackedWaves]);
+  }, [processingClient, raceDataInput, event]);
 
-  // Filter and sort riders
-  const filteredAndSortedRiders = useMemo(() => {
-    let riders = [...trackingRiders];
-    
-    // Apply filters
-    if (activeFilters.wave) {
-      riders = riders.filter(r => r.wave === activeFilters.wave);
-    }
-    if (activeFilters.status) {
-      riders = riders.filter(r => r.status === activeFilters.status);
-    }
-    if (activeFilters.country) {
-      riders = riders.filter(r => r.country === activeFilters.country);
-    }
-    if (activeFilters.minDistance !== undefined) {
-      riders = riders.filter(r => r.distanceCovered >= activeFilters.minDistance!);
-    }
-    if (activeFilters.maxDistance !== undefined) {
-      riders = riders.filter(r => r.distanceCovered <= activeFilters.maxDistance!);
-    }
-    if (activeFilters.searchTerm) {
-      riders = filterRidersBySearch(riders, activeFilters.searchTerm);
-    }
-    
-    // Apply sorting
-    switch (activeSortBy) {
-      case 'name':
-        return sortRidersByName(riders);
-      case 'rider_no':
-        return sortRidersByNumber(riders);
-      case 'distance':
-        return riders.sort(trackingSorters.byDistance);
-      case 'speed':
-        return riders.sort(trackingSorters.bySpeed);
-      case 'status':
-        return riders.sort(trackingSorters.byStatus);
-      case 'wave':
-        return riders.sort((a, b) => a.wave.localeCompare(b.wave));
-      default:
-        return riders;
-    }
-  }, [trackingRiders, activeFilters, activeSortBy]);
+  useEffect(() => processingClient.dispose, [processingClient]);
+
+  // Log what changed since the previous payload (main feed or any shard)
+  const liveTrackingByRider = selectLiveTrackingByRider(sources);
+  useEffect(() => {
+    raceEventLog.append(deriveRaceEvents(previousTrackingRef.current, liveTrackingByRider, event));
+    previousTrackingRef.current = liveTrackingByRider;
+  }, [liveTrackingByRider, raceEventLog, event]);
+
+  // An offline snapshot is not a fetch: recording it would hide that we have not refreshed
+  const recordFetch = useCallback((feed: string, url: string, sourceTimestamp: string | undefined) => {
+    if (getSnapshotFeeds().has(url)) return;
+    feedFreshness.record(feed, sourceTimestamp);
+  }, [feedFreshness]);
 
   // Data fetching functions
-  const fetchRiders = useCallback(async () => {
+  // Fetchers resolve true on success so the refresh scheduler can back off on failure
+  const fetchRiders = useCallback(async (): Promise<boolean> => {
     // Cancel any existing request
     if (abortControllersRef.current.riders) {
       abortControllersRef.current.riders.abort();
@@ -293,30 +247,33 @@ export const GlobalDataProvider: React.FC<GlobalDataProviderProps> = ({
     const controller = new AbortController();
     abortControllersRef.current.riders = controller;
     
-    setLoading(prev => ({ ...prev, riders: true }));
+    startLoading('riders');
     setErrors(prev => ({ ...prev, riders: null }));
     
     try {
-      const data = await riderService.fetchRiders(controller.signal);
+      const data = await riderService.fetchRiders(controller.signal, getEventDataUrl(event, 'riders'));
       
       // Only update state if request wasn't aborted
       if (!controller.signal.aborted) {
         setRawRiders(data);
+        loadedSourcesRef.current.add('riders');
         setLastUpdated(prev => ({ ...prev, riders: new Date() }));
       }
+      return true;
     } catch (error: any) {
       // Only set error if it's not an abort error
       if (!controller.signal.aborted && error?.code !== 'REQUEST_ABORTED') {
         setErrors(prev => ({ ...prev, riders: error as Error }));
       }
+      return false;
     } finally {
       if (!controller.signal.aborted) {
-        setLoading(prev => ({ ...prev, riders: false }));
+        finishLoading('riders');
       }
     }
-  }, []);
+  }, [event, startLoading, finishLoading]);
 
-  const fetchTracking = useCallback(async () => {
+  const fetchTracking = useCallback(async (): Promise<boolean> => {
     // Cancel any existing request
     if (abortControllersRef.current.tracking) {
       abortControllersRef.current.tracking.abort();
@@ -326,46 +283,112 @@ export const GlobalDataProvider: React.FC<GlobalDataProviderProps> = ({
     const controller = new AbortController();
     abortControllersRef.current.tracking = controller;
     
-    setLoading(prev => ({ ...prev, tracking: true }));
+    startLoading('tracking');
     setErrors(prev => ({ ...prev, tracking: null }));
     
     try {
-      // Add timestamp to URL to bypass cache
-      const timestamp = Date.now();
-      const url = `https://lel-riders-data-2025.s3.ap-south-1.amazonaws.com/indian-riders-tracking.json?t=${timestamp}`;
-      
-      const response = await fetch(url, {
-        signal: controller.signal,
-        cache: 'no-cache',
-        headers: {
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache',
-          'Expires': '0'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      // An unchanged feed comes back as the same object, so nothing downstream recomputes
+      const url = getEventDataUrl(event, 'tracking');
+      const data = await riderService.fetchTrackingFeed(url, controller.signal);
       
       if (!controller.signal.aborted) {
+        recordFetch('tracking', url, data.last_updated);
         setRawTrackingData(data);
+        loadedSourcesRef.current.add('tracking');
         setLastUpdated(prev => ({ ...prev, tracking: new Date() }));
       }
+      return true;
     } catch (error: any) {
-      if (!controller.signal.aborted && error?.name !== 'AbortError') {
+      if (!controller.signal.aborted && error?.code !== 'REQUEST_ABORTED') {
         setErrors(prev => ({ ...prev, tracking: error as Error }));
       }
+      return false;
     } finally {
       if (!controller.signal.aborted) {
-        setLoading(prev => ({ ...prev, tracking: false }));
+        finishLoading('tracking');
       }
     }
-  }, []);
+  }, [event, recordFetch, startLoading, finishLoading]);
 
-  const fetchRoutes = useCallback(async () => {
+  const fetchTrackingShard = useCallback(async (waveCode: string, controller: AbortController): Promise<boolean> => {
+    setTrackingShards(prev => ({
+      ...prev,
+      [waveCode]: {
+        riders: prev[waveCode]?.riders || [],
+        loading: true,
+        error: null,
+        lastUpdated: prev[waveCode]?.lastUpdated || null
+      }
+    }));
+    
+    try {
+      const url = getWaveTrackingUrl(event, waveCode);
+      const data = await riderService.fetchTrackingFeed(url, controller.signal);
+      // A shard only speaks for its own wave
+      const riders = data.riders.filter(rider => extractWaveCode(rider.rider_no) === waveCode);
+      
+      if (!controller.signal.aborted) {
+        recordFetch(`wave-${waveCode}`, url, data.last_updated);
+        loadedShardsRef.current.add(waveCode);
+        setTrackingShards(prev => ({
+          ...prev,
+          [waveCode]: { riders, loading: false, error: null, lastUpdated: new Date() }
+        }));
+      }
+      return true;
+    } catch (error: any) {
+      if (!controller.signal.aborted && error?.code !== 'REQUEST_ABORTED') {
+        setTrackingShards(prev => ({
+          ...prev,
+          [waveCode]: { ...prev[waveCode], loading: false, error: error as Error }
+        }));
+      }
+      return false;
+    } finally {
+      if (shardControllersRef.current.get(waveCode) === controller) {
+        shardControllersRef.current.delete(waveCode);
+      }
+    }
+  }, [event, recordFetch]);
+
+  const loadTrackingShards = useCallback(async (waveCodes: string[], force: boolean): Promise<boolean> => {
+    // Skip shards in flight, and loaded ones unless refreshing
+    const pending = Array.from(new Set(waveCodes)).filter(code =>
+      !shardControllersRef.current.has(code) && (force || !loadedShardsRef.current.has(code))
+    );
+    
+    const controllers = pending.map(code => {
+      const controller = new AbortController();
+      shardControllersRef.current.set(code, controller);
+      return controller;
+    });
+    
+    let succeeded = true;
+    for (let i = 0; i < pending.length; i += SHARD_BATCH_SIZE) {
+      const results = await Promise.all(
+        pending.slice(i, i + SHARD_BATCH_SIZE).map((code, j) => fetchTrackingShard(code, controllers[i + j]))
+      );
+      succeeded = succeeded && results.every(Boolean);
+    }
+    return succeeded;
+  }, [fetchTrackingShard]);
+
+  const loadWaveTracking = useCallback(async (waveCodes: string[]) => {
+    await loadTrackingShards(waveCodes, false);
+  }, [loadTrackingShards]);
+
+  const refreshWaveTracking = useCallback(() => {
+    return loadTrackingShards(Array.from(loadedShardsRef.current), true);
+  }, [loadTrackingShards]);
+
+  const refreshTracking = useCallback(async () => {
+    await Promise.all([
+      fetchTracking(),
+      refreshWaveTracking()
+    ]);
+  }, [fetchTracking, refreshWaveTracking]);
+
+  const fetchRoutes = useCallback(async (): Promise<boolean> => {
     // Cancel any existing request
     if (abortControllersRef.current.routes) {
       abortControllersRef.current.routes.abort();
@@ -375,120 +398,137 @@ export const GlobalDataProvider: React.FC<GlobalDataProviderProps> = ({
     const controller = new AbortController();
     abortControllersRef.current.routes = controller;
     
-    setLoading(prev => ({ ...prev, routes: true }));
+    startLoading('routes');
     setErrors(prev => ({ ...prev, routes: null }));
     
     try {
-      const data = await routeService.fetchRouteData();
+      const data = await routeService.fetchRouteData(getEventDataUrl(event, 'routes'), controller.signal);
       
       if (!controller.signal.aborted) {
-        setRawRouteData(data as any);
+        setRawRouteData(data);
+        loadedSourcesRef.current.add('routes');
         setLastUpdated(prev => ({ ...prev, routes: new Date() }));
       }
+      return true;
     } catch (error: any) {
       if (!controller.signal.aborted) {
         setErrors(prev => ({ ...prev, routes: error as Error }));
       }
+      return false;
     } finally {
       if (!controller.signal.aborted) {
-        setLoading(prev => ({ ...prev, routes: false }));
+        finishLoading('routes');
       }
     }
-  }, []);
+  }, [event, startLoading, finishLoading]);
+
+  // Club and city are optional extras; riders show without them if the side file is missing
+  const fetchAffiliations = useCallback(async () => {
+    const url = getAffiliationsUrl(event);
+    if (!url) return;
+
+    abortControllersRef.current.affiliations?.abort();
+    const controller = new AbortController();
+    abortControllersRef.current.affiliations = controller;
+
+    try {
+      const data = await riderService.fetchAffiliations(url, controller.signal);
+      if (!controller.signal.aborted) {
+        setRiderAffiliations(data);
+      }
+    } catch (error: any) {
+      if (!controller.signal.aborted && error?.code !== 'REQUEST_ABORTED') {
+        console.warn('[GlobalDataProvider] Rider affiliations unavailable:', error?.message);
+      }
+    }
+  }, [event]);
 
   const fetchAllData = useCallback(async () => {
     await Promise.all([
       fetchRiders(),
-      fetchTracking(),
+      fetchAffiliations(),
+      refreshTracking(),
       fetchRoutes()
     ]);
-  }, [fetchRiders, fetchTracking, fetchRoutes]);
+  }, [fetchRiders, fetchAffiliations, refreshTracking, fetchRoutes]);
 
-  // Initial fetch only - no auto-refresh
+  // Initial fetch; later refreshes come from the scheduler below or the refresh buttons
   useEffect(() => {
-    console.log('[GlobalDataProvider] Mounting - Initial fetch only, NO auto-refresh');
-    console.log('[GlobalDataProvider] Cache durations:', cacheDurations);
-    
-    // Initial fetch
     fetchAllData();
     
-    // SAFETY: Absolutely no intervals or timeouts here
-    console.log('[GlobalDataProvider] No intervals set up - manual refresh only');
+    const shardControllers = shardControllersRef.current;
     
     return () => {
       // Abort any ongoing requests on unmount
       Object.values(abortControllersRef.current).forEach(controller => {
         controller?.abort();
       });
+      shardControllers.forEach(controller => controller.abort());
     };
     // Only run on mount
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Data access functions
+  // Replace offline snapshots with live data as soon as the connection is back
+  useEffect(() => {
+    window.addEventListener('online', fetchAllData);
+    return () => window.removeEventListener('online', fetchAllData);
+  }, [fetchAllData]);
+
+  // Opt-in auto-refresh per source; paused while the tab is hidden
+  useRefreshTask('riders', fetchRiders, intervals.riders);
+  useRefreshTask('tracking', fetchTracking, intervals.tracking);
+  useRefreshTask('wave-tracking', refreshWaveTracking, intervals.waveTracking);
+  useRefreshTask('routes', fetchRoutes, intervals.routes);
+
+  // Data access functions read the latest state, so they never change
   const getRiderById = useCallback((riderNo: string) => {
-    return trackingRiders.find(r => r.rider_no === riderNo) || 
-           enhancedRiders.find(r => r.rider_no === riderNo) || 
+    const state = store.getState();
+    return selectAllTrackingRiders(state).find(r => r.rider_no === riderNo) || 
+           selectEnhancedRiders(state).find(r => r.rider_no === riderNo) || 
            null;
-  }, [trackingRiders, enhancedRiders]);
+  }, [store]);
 
   const getWaveByCode = useCallback((code: string) => {
-    return trackedWaves.find(w => w.code === code) || 
-           waves.find(w => w.code === code) || 
+    const state = store.getState();
+    return selectTrackedWaves(state).find(w => w.code === code) || 
+           selectWaves(state).find(w => w.code === code) || 
            null;
-  }, [trackedWaves, waves]);
+  }, [store]);
 
   const getControlById = useCallback((id: string) => {
-    return controlProgress.get(id) || null;
-  }, [controlProgress]);
+    return selectControlProgress(store.getState()).get(id) || null;
+  }, [store]);
 
-  // Context value
-  const value: GlobalDataStore = {
-    // Raw data
-    rawRiders,
-    rawTrackingData,
-    rawRouteData,
-    
-    // Processed data
-    enhancedRiders,
-    trackingRiders: filteredAndSortedRiders,
-    waves,
-    trackedWaves,
-    
-    // Derived intelligence
-    globalStatistics,
-    controlProgress,
-    waveStatistics,
-    
-    // State management
-    loading,
-    errors,
-    lastUpdated,
-    
-    // Filters and sorting
-    activeFilters,
-    activeSortBy,
-    
-    // UI state
-    selectedRider,
-    selectedWave,
-    selectedControl,
-    
-    // Actions
+  const actions = useMemo((): GlobalDataActions => ({
     fetchAllData,
-    refreshRiders: fetchRiders,
-    refreshTracking: fetchTracking,
-    refreshRoutes: fetchRoutes,
+    refreshRiders: async () => { await fetchRiders(); },
+    refreshTracking,
+    refreshRoutes: async () => { await fetchRoutes(); },
+    loadWaveTracking,
     getRiderById,
     getWaveByCode,
     getControlById,
-    setFilters: setActiveFilters,
-    setSortBy: setActiveSortBy,
-    clearFilters: () => setActiveFilters({}),
-    selectRider: setSelectedRider,
-    selectWave: setSelectedWave,
-    selectControl: setSelectedControl
-  };
+    getRaceEvents: raceEventLog.getEvents,
+    subscribeToRaceEvents: raceEventLog.subscribe,
+    getFeedObservations: feedFreshness.getObservations,
+    subscribeToFeedObservations: feedFreshness.subscribe,
+    setFilters: (filters: RiderFilters) => updateUrlViewState({ filters }),
+    setSortBy: (sortBy: RiderSortBy) => updateUrlViewState({ sortBy }),
+    clearFilters: () => updateUrlViewState({ filters: {} }),
+    selectRider: (rider: TrackingRider | null) => updateUrlViewState({ rider: rider?.rider_no || null }),
+    selectWave: (wave: string | null) => updateUrlViewState({ wave }),
+    selectControl: (control: string | null) => updateUrlViewState({ control })
+  }), [
+    fetchAllData, fetchRiders, refreshTracking, fetchRoutes, loadWaveTracking,
+    getRiderById, getWaveByCode, getControlById, raceEventLog, feedFreshness, updateUrlViewState
+  ]);
+
+  // All stable for the provider's lifetime, so the context itself never re-renders consumers
+  const value = useMemo(
+    () => ({ store, actions, refreshIntervals: intervals }),
+    [store, actions, intervals]
+  );
 
   return (
     <GlobalDataContext.Provider value={value}>
@@ -497,13 +537,64 @@ export const GlobalDataProvider: React.FC<GlobalDataProviderProps> = ({
   );
 };
 
-// Hook to use the global data store
-export const useGlobalData = (): GlobalDataStore => {
+const useGlobalDataContext = (hookName: string): GlobalDataContextValue => {
   const context = useContext(GlobalDataContext);
   
   if (!context) {
-    throw new Error('useGlobalData must be used within a GlobalDataProvider');
+    throw new Error(`${hookName} must be used within a GlobalDataProvider`);
   }
   
   return context;
-};
\ No newline at end of file
+};
+
+/**
+ * Read one slice of the global data store; re-renders only when the slice changes
+ * @param selector - Picks the slice; use the memoized selectors for derived data
+ * @param isEqual - Treats a new selection equal to the last as unchanged (e.g., shallowEqual)
+ */
+export function useGlobalDataSelector<T>(
+  selector: (state: GlobalDataSources) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const { store } = useGlobalDataContext('useGlobalDataSelector');
+  const lastRef = useRef<{ state: GlobalDataSources; selector: typeof selector; selection: T } | null>(null);
+
+  const getSelection = () => {
+    const state = store.getState();
+    const last = lastRef.current;
+    if (last && last.state === state && last.selector === selector) return last.selection;
+
+    const selection = selector(state);
+    // Keep the previous object when it is equal, so the component can bail out
+    const stable = last && isEqual(last.selection, selection) ? last.selection : selection;
+    lastRef.current = { state, selector, selection: stable };
+    return stable;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSelection);
+}
+
+// Hook to get the store's actions; they never change, so this never re-renders
+export const useGlobalDataActions = (): GlobalDataActions => {
+  return useGlobalDataContext('useGlobalDataActions').actions;
+};
+
+/**
+ * How often a source refreshes by itself
+ * @param source - Polled source
+ * @returns Interval in ms, or null when the source is refreshed by hand
+ */
+export const useRefreshInterval = (source: RefreshSource): number | null => {
+  return useGlobalDataContext('useRefreshInterval').refreshIntervals[source];
+};
+
+/**
+ * The whole store: every derived value, re-rendering on any change
+ *
+ * Kept for existing callers; prefer useGlobalDataSelector and useGlobalDataActions.
+ */
+export const useGlobalData = (): GlobalDataStore => {
+  const actions = useGlobalDataActions();
+  const state = useGlobalDataSelector(selectGlobalDataState);
+  return useMemo(() => ({ ...state, ...actions }), [state, actions]);
+};
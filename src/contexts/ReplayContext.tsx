@@ -0,0 +1,141 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { useEvent } from './EventContext';
+import { ClockProvider, useClock } from './ClockContext';
+import { getReplayStart } from '../utils/dataProcessors';
+import { createFixedClock } from '../utils/clock';
+
+// Race minutes played per second of playback
+export const REPLAY_SPEEDS = [10, 30, 60, 180];
+const DEFAULT_SPEED = 60;
+// How often the "as of" time moves while playing
+const TICK_MS = 500;
+
+interface ReplayState {
+  /** Moment the race is shown at; null when showing live data */
+  asOf: Date | null;
+  isReplaying: boolean;
+  isPlaying: boolean;
+  /** Race minutes per second of playback */
+  speed: number;
+  /** First wave start; null if the event has no schedule */
+  start: Date | null;
+  /** Time the replay was opened; the slider stops there */
+  end: Date | null;
+  /** Whether there is any race to replay yet */
+  canReplay: boolean;
+}
+
+interface ReplayActions {
+  startReplay: () => void;
+  stopReplay: () => void;
+  /** Jump to a moment; clamped to the replay range */
+  seek: (asOf: Date) => void;
+  play: () => void;
+  pause: () => void;
+  setSpeed: (speed: number) => void;
+}
+
+type ReplayContextValue = ReplayState & ReplayActions;
+
+const ReplayContext = createContext<ReplayContextValue | undefined>(undefined);
+
+interface ReplayProviderProps {
+  children: ReactNode;
+}
+
+export const ReplayProvider: React.FC<ReplayProviderProps> = ({ children }) => {
+  const event = useEvent();
+  const clock = useClock();
+  const start = useMemo(() => getReplayStart(event), [event]);
+  const [asOf, setAsOf] = useState<Date | null>(null);
+  const [end, setEnd] = useState<Date | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(DEFAULT_SPEED);
+
+  const canReplay = start !== null && start.getTime() < clock.now().getTime();
+
+  const clamp = useCallback((date: Date, until: Date): Date => {
+    if (!start) return date;
+    return new Date(Math.min(Math.max(date.getTime(), start.getTime()), until.getTime()));
+  }, [start]);
+
+  const startReplay = useCallback(() => {
+    const now = clock.now();
+    if (!start || start.getTime() >= now.getTime()) return;
+    setEnd(now);
+    setAsOf(start);
+    setIsPlaying(false);
+  }, [start, clock]);
+
+  const stopReplay = useCallback(() => {
+    setAsOf(null);
+    setEnd(null);
+    setIsPlaying(false);
+  }, []);
+
+  const seek = useCallback((date: Date) => {
+    if (!end) return;
+    setAsOf(clamp(date, end));
+  }, [end, clamp]);
+
+  const play = useCallback(() => {
+    if (!asOf || !end) return;
+    // Playing from the end starts over
+    if (asOf.getTime() >= end.getTime() && start) setAsOf(start);
+    setIsPlaying(true);
+  }, [asOf, end, start]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  // Move the race forward while playing, stopping at the end
+  useEffect(() => {
+    if (!isPlaying || !end) return;
+
+    const interval = setInterval(() => {
+      setAsOf(prev => prev && new Date(Math.min(prev.getTime() + speed * 60 * TICK_MS, end.getTime())));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, end]);
+
+  useEffect(() => {
+    if (isPlaying && asOf && end && asOf.getTime() >= end.getTime()) setIsPlaying(false);
+  }, [isPlaying, asOf, end]);
+
+  // While replaying, everything below reads the time from the replay
+  const replayClock = useMemo(() => (asOf ? createFixedClock(asOf) : clock), [asOf, clock]);
+
+  const value: ReplayContextValue = {
+    asOf,
+    isReplaying: asOf !== null,
+    isPlaying,
+    speed,
+    start,
+    end,
+    canReplay,
+    startReplay,
+    stopReplay,
+    seek,
+    play,
+    pause,
+    setSpeed
+  };
+
+  return (
+    <ReplayContext.Provider value={value}>
+      <ClockProvider clock={replayClock}>
+        {children}
+      </ClockProvider>
+    </ReplayContext.Provider>
+  );
+};
+
+// Hook to read and control the race replay
+export const useReplay = (): ReplayContextValue => {
+  const context = useContext(ReplayContext);
+
+  if (!context) {
+    throw new Error('useReplay must be used within a ReplayProvider');
+  }
+
+  return context;
+};
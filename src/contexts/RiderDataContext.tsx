@@ -1,6 +1,7 @@
 import React, { createContext, useContext, ReactNode } from 'react';
 import { useRiders } from '../hooks/useRiders';
 import { Rider, ApiError } from '../types/index';
+import { normalizeCountryCode } from '../config/countries';
 
 interface RiderDataContextValue {
   riders: Rider[];
@@ -94,7 +95,7 @@ export const useWaveSummary = () => {
         
         waveData.count++;
         if (rider.country) {
-          waveData.countries.add(rider.country);
+          waveData.countries.add(normalizeCountryCode(rider.country) || rider.country);
         }
         
         waveMap.set(wave, waveData);
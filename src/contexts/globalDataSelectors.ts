@@ -0,0 +1,318 @@
+/**
+ * Selectors for the global data store
+ *
+ * The store holds what was fetched, the processing worker's latest output
+ * and UI state; filtered lists and statistics are derived here on first use
+ * and cached until their inputs change. Selecting a rider or opening a
+ * dialog therefore reprocesses nothing.
+ */
+
+import { normalizeCountryCode } from '../config/countries';
+import { createSelector } from '../utils/createSelector';
+import {
+  GlobalDataSources,
+  GlobalDataState,
+  GlobalStatistics,
+  WaveStatisticsExtended
+} from '../types/enhanced';
+import {
+  mergeTrackingRiders,
+  calculateWaveStatistics,
+  sortRidersByNumber,
+  sortRidersByName,
+  trackingSorters,
+  filterRidersBySearch,
+  countRidersByRoute,
+  indexCheckpointInstants,
+  rewindTracking,
+  rewindTrackingRider,
+  countProjectedFinishers,
+  EMPTY_PACE_MODEL,
+  ControlProgress,
+  EnhancedRider,
+  ProcessedWave,
+  RaceDataInput,
+  TrackedWave,
+  TrackingRider
+} from '../utils/dataProcessors';
+
+const selectEvent = (state: GlobalDataSources) => state.event;
+const selectAsOf = (state: GlobalDataSources) => state.asOf;
+
+// Raw tracking from the main feed and every loaded wave shard
+export const selectLiveTrackingByRider = createSelector(
+  [(state: GlobalDataSources) => state.liveTrackingData, (state: GlobalDataSources) => state.trackingShards],
+  (liveTrackingData, trackingShards) => {
+    const shardRiders = Object.values(trackingShards).map(shard => shard.riders);
+    return mergeTrackingRiders([liveTrackingData?.riders || [], ...shardRiders]);
+  }
+);
+
+// In replay, every view is built from the checkpoints recorded up to the "as of" time
+const selectCheckpointInstants = createSelector(
+  [(state: GlobalDataSources) => state.asOf !== null, selectLiveTrackingByRider, selectEvent],
+  (isReplaying, liveTrackingByRider, event) => isReplaying ? indexCheckpointInstants(liveTrackingByRider, event) : null
+);
+
+export const selectRawTrackingByRider = createSelector(
+  [selectAsOf, selectCheckpointInstants, selectLiveTrackingByRider],
+  (asOf, checkpointInstants, liveTrackingByRider) => {
+    if (!asOf || !checkpointInstants) return liveTrackingByRider;
+    return rewindTracking(liveTrackingByRider, checkpointInstants, asOf);
+  }
+);
+
+export const selectRawTrackingData = createSelector(
+  [selectAsOf, selectCheckpointInstants, (state: GlobalDataSources) => state.liveTrackingData],
+  (asOf, checkpointInstants, liveTrackingData) => {
+    if (!asOf || !checkpointInstants || !liveTrackingData) return liveTrackingData;
+    return {
+      ...liveTrackingData,
+      riders: liveTrackingData.riders.map(rider =>
+        rewindTrackingRider(rider, checkpointInstants.get(rider.rider_no) || [], asOf)
+      )
+    };
+  }
+);
+
+// What the processing worker is given; a new object only when one of its inputs changes
+export const selectRaceDataInput = createSelector(
+  [
+    (state: GlobalDataSources) => state.rawRiders,
+    (state: GlobalDataSources) => state.riderAffiliations,
+    selectRawTrackingByRider,
+    (state: GlobalDataSources) => !!state.liveTrackingData?.riders || Object.keys(state.trackingShards).length > 0,
+    (state: GlobalDataSources) => selectRawTrackingData(state)?.event?.controls || null,
+    (state: GlobalDataSources) => state.now
+  ],
+  (rawRiders, riderAffiliations, rawTrackingByRider, hasTracking, controls, now): RaceDataInput => ({
+    rawRiders,
+    riderAffiliations,
+    trackingRiders: Array.from(rawTrackingByRider.values()),
+    hasTracking,
+    controls,
+    currentTime: now
+  })
+);
+
+// Until the worker's first result arrives there is nothing processed to show
+const EMPTY_ENHANCED_RIDERS: EnhancedRider[] = [];
+const EMPTY_TRACKING_RIDERS: TrackingRider[] = [];
+const EMPTY_WAVES: ProcessedWave[] = [];
+const EMPTY_TRACKED_WAVES: TrackedWave[] = [];
+const EMPTY_CONTROL_PROGRESS: Map<string, ControlProgress> = new Map();
+
+export const selectEnhancedRiders = (state: GlobalDataSources) =>
+  state.processed?.enhancedRiders || EMPTY_ENHANCED_RIDERS;
+
+// Every registered rider with their tracking, unfiltered
+export const selectAllTrackingRiders = (state: GlobalDataSources) =>
+  state.processed?.trackingRiders || EMPTY_TRACKING_RIDERS;
+
+export const selectWaves = (state: GlobalDataSources) =>
+  state.processed?.waves || EMPTY_WAVES;
+
+export const selectTrackedWaves = (state: GlobalDataSources) =>
+  state.processed?.trackedWaves || EMPTY_TRACKED_WAVES;
+
+export const selectControlProgress = (state: GlobalDataSources) =>
+  state.processed?.controlProgress || EMPTY_CONTROL_PROGRESS;
+
+// What the field's completed legs say, for predicting arrivals
+export const selectPaceModel = (state: GlobalDataSources) =>
+  state.processed?.paceModel || EMPTY_PACE_MODEL;
+
+export const selectGlobalStatistics = createSelector(
+  [selectEnhancedRiders, selectWaves, selectAllTrackingRiders, selectEvent],
+  (enhancedRiders, waves, trackingRiders, event): GlobalStatistics => {
+    const totalRiders = enhancedRiders.length;
+    const countries = new Set(enhancedRiders.map(r => r.countryCode || r.country || 'Unknown'));
+    const totalCountries = countries.size;
+    const totalWaves = waves.length;
+
+    // Count by status
+    const statusCounts = trackingRiders.reduce((acc, rider) => {
+      switch(rider.status) {
+        case 'not_started':
+          acc.notStarted++;
+          break;
+        case 'in_progress':
+          acc.inProgress++;
+          break;
+        case 'finished':
+          acc.finished++;
+          break;
+        case 'dnf':
+          acc.dnf++;
+          break;
+      }
+      return acc;
+    }, { notStarted: 0, inProgress: 0, finished: 0, dnf: 0 });
+
+    // Count by route
+    const routeCounts = countRidersByRoute(enhancedRiders, event);
+
+    // Calculate averages
+    const activeRiders = trackingRiders.filter(r => r.distanceCovered > 0);
+    const totalDistance = activeRiders.reduce((sum, r) => sum + r.distanceCovered, 0);
+    const totalSpeed = activeRiders.reduce((sum, r) => sum + r.averageSpeed, 0);
+
+    return {
+      totalRiders,
+      totalCountries,
+      totalWaves,
+      byStatus: statusCounts,
+      byRoute: routeCounts,
+      averageDistance: activeRiders.length > 0 ? totalDistance / activeRiders.length : 0,
+      averageSpeed: activeRiders.length > 0 ? totalSpeed / activeRiders.length : 0,
+      completionRate: totalRiders > 0 ? (statusCounts.finished / totalRiders) * 100 : 0,
+      projectedFinishers: Math.round(countProjectedFinishers(trackingRiders)),
+      lastUpdated: new Date()
+    };
+  }
+);
+
+export const selectWaveStatistics = createSelector(
+  [selectTrackedWaves],
+  trackedWaves => {
+    const statsMap = new Map<string, WaveStatisticsExtended>();
+
+    trackedWaves.forEach(wave => {
+      const stats = calculateWaveStatistics(wave.trackingRiders);
+      const countries = new Set(wave.riders.map(r => r.countryCode || r.country || 'Unknown'));
+
+      // Find lead rider
+      const leadRider = wave.trackingRiders
+        .filter(r => r.distanceCovered > 0)
+        .sort((a, b) => b.distanceCovered - a.distanceCovered)[0] || null;
+
+      statsMap.set(wave.code, {
+        code: wave.code,
+        startTime: wave.startTime,
+        route: wave.route,
+        riderCount: wave.riders.length,
+        countries: Array.from(countries),
+        status: {
+          notStarted: stats.notStarted,
+          inProgress: stats.inProgress,
+          finished: stats.finished,
+          dnf: stats.dnf
+        },
+        performance: {
+          avgDistance: stats.avgDistance,
+          avgSpeed: stats.avgSpeed,
+          leadRider
+        }
+      });
+    });
+
+    return statsMap;
+  }
+);
+
+// Riders on the road with a finish projection, least likely to make the limit first
+export const selectAtRiskRiders = createSelector(
+  [selectAllTrackingRiders],
+  trackingRiders => trackingRiders
+    .filter(rider => rider.status === 'in_progress' && rider.finishProjection)
+    .sort(trackingSorters.byFinishChance)
+);
+
+export const selectSelectedRider = createSelector(
+  [selectAllTrackingRiders, (state: GlobalDataSources) => state.selectedRiderNo],
+  (trackingRiders, selectedRiderNo) =>
+    (selectedRiderNo && trackingRiders.find(rider => rider.rider_no === selectedRiderNo)) || null
+);
+
+// Tracking riders after the active filters and sort
+export const selectTrackingRiders = createSelector(
+  [selectAllTrackingRiders, (state: GlobalDataSources) => state.activeFilters, (state: GlobalDataSources) => state.activeSortBy],
+  (trackingRiders, activeFilters, activeSortBy) => {
+    let riders = [...trackingRiders];
+
+    // Apply filters
+    if (activeFilters.wave) {
+      riders = riders.filter(r => r.wave === activeFilters.wave);
+    }
+    if (activeFilters.status) {
+      riders = riders.filter(r => r.status === activeFilters.status);
+    }
+    if (activeFilters.country) {
+      const countryCode = normalizeCountryCode(activeFilters.country);
+      riders = riders.filter(r => r.countryCode === countryCode);
+    }
+    if (activeFilters.minDistance !== undefined) {
+      riders = riders.filter(r => r.distanceCovered >= activeFilters.minDistance!);
+    }
+    if (activeFilters.maxDistance !== undefined) {
+      riders = riders.filter(r => r.distanceCovered <= activeFilters.maxDistance!);
+    }
+    if (activeFilters.searchTerm) {
+      riders = filterRidersBySearch(riders, activeFilters.searchTerm);
+    }
+
+    // Apply sorting
+    switch (activeSortBy) {
+      case 'name':
+        return sortRidersByName(riders);
+      case 'rider_no':
+        return sortRidersByNumber(riders);
+      case 'distance':
+        return riders.sort(trackingSorters.byDistance);
+      case 'speed':
+        return riders.sort(trackingSorters.bySpeed);
+      case 'status':
+        return riders.sort(trackingSorters.byStatus);
+      case 'wave':
+        return riders.sort((a, b) => a.wave.localeCompare(b.wave));
+      case 'finish_chance':
+        return riders.sort(trackingSorters.byFinishChance);
+      default:
+        return riders;
+    }
+  }
+);
+
+/**
+ * The whole store in one object, for consumers not yet reading slices
+ *
+ * Builds every derived value, so prefer the narrower selectors above.
+ */
+export const selectGlobalDataState = createSelector(
+  [(state: GlobalDataSources) => state],
+  (state): GlobalDataState => ({
+    // Raw data
+    rawRiders: state.rawRiders,
+    riderAffiliations: state.riderAffiliations,
+    rawTrackingData: selectRawTrackingData(state),
+    trackingShards: state.trackingShards,
+    rawTrackingByRider: selectRawTrackingByRider(state),
+    rawRouteData: state.rawRouteData,
+
+    // Processed data
+    enhancedRiders: selectEnhancedRiders(state),
+    trackingRiders: selectTrackingRiders(state),
+    waves: selectWaves(state),
+    trackedWaves: selectTrackedWaves(state),
+
+    // Derived intelligence
+    globalStatistics: selectGlobalStatistics(state),
+    controlProgress: selectControlProgress(state),
+    waveStatistics: selectWaveStatistics(state),
+
+    // State management
+    loading: state.loading,
+    refreshing: state.refreshing,
+    errors: state.errors,
+    lastUpdated: state.lastUpdated,
+
+    // Filters and sorting
+    activeFilters: state.activeFilters,
+    activeSortBy: state.activeSortBy,
+
+    // UI state
+    selectedRider: selectSelectedRider(state),
+    selectedWave: state.selectedWave,
+    selectedControl: state.selectedControl
+  })
+);
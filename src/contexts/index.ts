@@ -10,4 +10,27 @@ export {
 export {
   GlobalDataProvider,
   useGlobalData,
-} from './GlobalDataStore';
\ No newline at end of file
+  useGlobalDataSelector,
+  useGlobalDataActions,
+  useRefreshInterval,
+} from './GlobalDataStore';
+
+export * from './globalDataSelectors';
+
+export {
+  EventProvider,
+  useEvent,
+  useEventPath,
+} from './EventContext';
+
+export {
+  ClockProvider,
+  useClock,
+  useNow,
+} from './ClockContext';
+
+export {
+  ReplayProvider,
+  useReplay,
+  REPLAY_SPEEDS,
+} from './ReplayContext';
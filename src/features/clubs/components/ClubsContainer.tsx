@@ -0,0 +1,180 @@
+import React, { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useGlobalDataSelector } from '@/contexts/GlobalDataStore';
+import { selectEnhancedRiders, selectTrackedWaves } from '@/contexts/globalDataSelectors';
+import { useEvent } from '@/contexts/EventContext';
+import { useWaveTracking } from '@/hooks/useWaveTracking';
+import {
+  extractWaveCode,
+  formatElapsedTime,
+  sortClubStandings,
+  summarizeClubs,
+  ClubSortBy
+} from '@/utils/dataProcessors';
+
+const SORT_OPTIONS: { value: ClubSortBy; label: string }[] = [
+  { value: 'started', label: 'Started' },
+  { value: 'finished', label: 'Finished' },
+  { value: 'riding', label: 'Still riding' }
+];
+
+export const ClubsContainer: React.FC = () => {
+  const event = useEvent();
+  const enhancedRiders = useGlobalDataSelector(selectEnhancedRiders);
+  const trackedWaves = useGlobalDataSelector(selectTrackedWaves);
+  const loading = useGlobalDataSelector(state => state.loading);
+  const errors = useGlobalDataSelector(state => state.errors);
+  const [sortBy, setSortBy] = useState<ClubSortBy>('started');
+  const [expandedClub, setExpandedClub] = useState<string | null>(null);
+
+  // Only the waves that club riders are in
+  const waveCodes = useMemo(() => {
+    const codes = new Set(enhancedRiders.filter(rider => rider.club).map(rider => extractWaveCode(rider.rider_no)));
+    return Array.from(codes).filter(Boolean);
+  }, [enhancedRiders]);
+  const tracking = useWaveTracking(waveCodes);
+
+  const trackingByRider = useMemo(() => {
+    const trackingRiders = trackedWaves.flatMap(wave => wave.trackingRiders);
+    return new Map(trackingRiders.map(rider => [rider.rider_no, rider]));
+  }, [trackedWaves]);
+
+  const standings = useMemo(
+    () => summarizeClubs(enhancedRiders, trackingByRider, event),
+    [enhancedRiders, trackingByRider, event]
+  );
+
+  const sortedStandings = useMemo(() => sortClubStandings(standings, sortBy), [standings, sortBy]);
+
+  if (loading.riders) return (
+    <div className="flex justify-center items-center min-h-screen">
+      <Loader2 className="h-8 w-8 animate-spin" />
+    </div>
+  );
+
+  if (errors.riders) return (
+    <div className="flex justify-center items-center min-h-screen">
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error loading riders</CardTitle>
+          <CardDescription>{errors.riders.message}</CardDescription>
+        </CardHeader>
+      </Card>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-3xl font-bold text-primary">Club Standings</h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          {standings.length} clubs riding {event.shortName}
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {standings.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No club affiliations have been published for this event.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <span className="text-sm text-muted-foreground">Rank by</span>
+                {SORT_OPTIONS.map(option => (
+                  <Button
+                    key={option.value}
+                    size="sm"
+                    variant={sortBy === option.value ? 'default' : 'outline'}
+                    onClick={() => setSortBy(option.value)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+
+              {tracking.loading && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading results for {waveCodes.length} waves...
+                </p>
+              )}
+              {tracking.error && (
+                <p className="text-sm text-red-600 mb-4">
+                  Some results could not be loaded: {tracking.error.message}
+                </p>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">#</TableHead>
+                    <TableHead>Club</TableHead>
+                    <TableHead className="text-right">Riders</TableHead>
+                    <TableHead className="text-right">Started</TableHead>
+                    <TableHead className="text-right">Riding</TableHead>
+                    <TableHead className="text-right">Finished</TableHead>
+                    <TableHead className="text-right">DNF</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedStandings.map((club, index) => {
+                    const isExpanded = expandedClub === club.key;
+
+                    return (
+                      <React.Fragment key={club.key}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => setExpandedClub(isExpanded ? null : club.key)}
+                        >
+                          <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                          <TableCell>
+                            <span className="flex items-center gap-1 font-medium">
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              {club.name}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">{club.riderCount}</TableCell>
+                          <TableCell className="text-right">{club.started}</TableCell>
+                          <TableCell className="text-right text-blue-600">{club.riding}</TableCell>
+                          <TableCell className="text-right text-green-600">{club.finished}</TableCell>
+                          <TableCell className="text-right text-red-600">{club.dnf}</TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow className="bg-muted/40 hover:bg-muted/40">
+                            <TableCell />
+                            <TableCell colSpan={6}>
+                              {club.controls.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">No control times yet</p>
+                              ) : (
+                                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                                  {club.controls.map(control => (
+                                    <div key={control.controlId}>
+                                      <div className="font-medium">{control.name}</div>
+                                      <div className="text-muted-foreground">
+                                        {formatElapsedTime(control.medianElapsedMinutes)} median
+                                        <span className="text-xs"> ({control.riderCount})</span>
+                                      </div>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { ClubsContainer } from './components/ClubsContainer';
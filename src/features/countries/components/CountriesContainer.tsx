@@ -0,0 +1,114 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useGlobalDataSelector } from '@/contexts/GlobalDataStore';
+import { selectEnhancedRiders, selectRawTrackingByRider, selectWaves } from '@/contexts/globalDataSelectors';
+import { useEvent, useEventPath } from '@/contexts/EventContext';
+import { useWaveTracking } from '@/hooks/useWaveTracking';
+import { summarizeCountries } from '@/utils/dataProcessors';
+
+export const CountriesContainer: React.FC = () => {
+  const event = useEvent();
+  const eventPath = useEventPath();
+  const enhancedRiders = useGlobalDataSelector(selectEnhancedRiders);
+  const rawTrackingByRider = useGlobalDataSelector(selectRawTrackingByRider);
+  const waves = useGlobalDataSelector(selectWaves);
+  const loading = useGlobalDataSelector(state => state.loading);
+  const errors = useGlobalDataSelector(state => state.errors);
+
+  // Results need every wave's shard; they fill in as shards arrive
+  const waveCodes = useMemo(() => waves.map(wave => wave.code), [waves]);
+  const tracking = useWaveTracking(waveCodes);
+
+  const summaries = useMemo(
+    () => summarizeCountries(enhancedRiders, rawTrackingByRider),
+    [enhancedRiders, rawTrackingByRider]
+  );
+  const unrecognisedCount = useMemo(
+    () => enhancedRiders.filter(rider => !rider.countryCode).length,
+    [enhancedRiders]
+  );
+
+  if (loading.riders) return (
+    <div className="flex justify-center items-center min-h-screen">
+      <Loader2 className="h-8 w-8 animate-spin" />
+    </div>
+  );
+
+  if (errors.riders) return (
+    <div className="flex justify-center items-center min-h-screen">
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Error loading riders</CardTitle>
+          <CardDescription>{errors.riders.message}</CardDescription>
+        </CardHeader>
+      </Card>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-3xl font-bold text-primary">Countries</h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          {summaries.length} nations riding {event.shortName}
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {tracking.loading && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading results for {waveCodes.length} waves...
+            </p>
+          )}
+          {tracking.error && (
+            <p className="text-sm text-red-600 mb-4">
+              Some results could not be loaded: {tracking.error.message}
+            </p>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Country</TableHead>
+                <TableHead className="text-right">Riders</TableHead>
+                <TableHead className="text-right">Riding</TableHead>
+                <TableHead className="text-right">Finished</TableHead>
+                <TableHead className="text-right">DNF</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summaries.map(summary => (
+                <TableRow key={summary.code}>
+                  <TableCell>
+                    <Link
+                      to={eventPath(`/countries/${summary.code.toLowerCase()}`)}
+                      className="flex items-center gap-2 font-medium hover:text-primary"
+                    >
+                      <span aria-hidden="true">{summary.flag}</span>
+                      {summary.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right">{summary.riderCount}</TableCell>
+                  <TableCell className="text-right text-blue-600">{summary.inProgress}</TableCell>
+                  <TableCell className="text-right text-green-600">{summary.finished}</TableCell>
+                  <TableCell className="text-right text-red-600">{summary.dnf}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {unrecognisedCount > 0 && (
+            <p className="text-xs text-muted-foreground mt-4">
+              {unrecognisedCount} rider{unrecognisedCount === 1 ? ' has' : 's have'} no recognised country and {unrecognisedCount === 1 ? 'is' : 'are'} not listed.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
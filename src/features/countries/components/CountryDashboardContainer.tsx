@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useGlobalDataSelector } from '@/contexts/GlobalDataStore';
+import { selectEnhancedRiders } from '@/contexts/globalDataSelectors';
+import { useEventPath } from '@/contexts/EventContext';
+import { getCountry, getCountryFlag, normalizeCountryCode } from '@/config/countries';
+import { RidersTimelinePage } from '@/features/indian-riders/components/RidersTimelinePage';
+import { useTrackedRidersData } from '@/features/indian-riders/hooks/useTrackedRidersData';
+
+export const CountryDashboardContainer: React.FC = () => {
+  const { code = '' } = useParams<{ code: string }>();
+  const eventPath = useEventPath();
+  const enhancedRiders = useGlobalDataSelector(selectEnhancedRiders);
+
+  // Accept any spelling in the URL ("uk", "united-kingdom") and redirect to the ISO code
+  const countryCode = normalizeCountryCode(code.replace(/-/g, ' '));
+  const country = countryCode ? getCountry(countryCode) : null;
+
+  const riderNumbers = useMemo(() => {
+    return enhancedRiders
+      .filter(rider => rider.countryCode === countryCode)
+      .map(rider => rider.rider_no);
+  }, [enhancedRiders, countryCode]);
+
+  const data = useTrackedRidersData(riderNumbers);
+
+  if (country && code !== country.code.toLowerCase()) {
+    return <Navigate replace to={eventPath(`/countries/${country.code.toLowerCase()}`)} />;
+  }
+
+  if (!country) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Unknown country "{code}"</CardTitle>
+          <CardDescription>Pick a country from the list of nations in the event.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link to={eventPath('/countries')}>
+            <Button variant="outline">All countries</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <RidersTimelinePage
+      title={`${getCountryFlag(country.code)} ${country.name} Riders`}
+      participantsLabel={`${country.name} participants`}
+      riders={data.riders}
+      statistics={data.statistics}
+      loading={data.loading}
+      error={data.error}
+      lastUpdateTime={data.lastUpdateTime}
+      refreshData={data.refreshData}
+      actions={
+        <Link to={eventPath('/countries')}>
+          <Button variant="outline" className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            All countries
+          </Button>
+        </Link>
+      }
+    />
+  );
+};
@@ -0,0 +1,2 @@
+export { CountriesContainer } from './components/CountriesContainer';
+export { CountryDashboardContainer } from './components/CountryDashboardContainer';
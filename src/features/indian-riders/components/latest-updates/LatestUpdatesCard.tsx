@@ -1,16 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { TrendingUp, MapPin } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { useReplay } from '@/contexts/ReplayContext';
+import { useNow } from '@/contexts/ClockContext';
+import { getMinutesBetween } from '@/utils/eventTimestamp';
+import type { LatestUpdate } from '../../hooks/useLatestUpdates';
 
-interface LatestUpdate {
-  riderName: string;
-  riderNo: string;
-  checkpoint: string;
-  time: string;
-  timestamp: Date;
-  minutesAgo: number;
-}
+const UPDATE_LABELS: Partial<Record<LatestUpdate['type'], string>> = {
+  start: 'Started',
+  finish: 'Finished'
+};
 
 interface LatestUpdatesCardProps {
   updates: LatestUpdate[];
@@ -18,38 +18,14 @@ interface LatestUpdatesCardProps {
 }
 
 export const LatestUpdatesCard: React.FC<LatestUpdatesCardProps> = ({ updates, onSelectRider }) => {
-  const [currentTime, setCurrentTime] = useState(new Date());
-  
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setCurrentTime(new Date());
-    }, 60000); // Update every minute instead of every second
-    return () => clearInterval(timer);
-  }, []);
+  const currentTime = useNow(); // Update every minute instead of every second
+  const { isReplaying } = useReplay();
   
   if (updates.length === 0) return null;
   
   const getTimeAgo = (timestamp: Date) => {
-    // Get current UK time for accurate comparison
-    const ukTimeString = currentTime.toLocaleString('en-US', { 
-      timeZone: 'Europe/London',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false
-    });
-    
-    // Parse UK time string to get actual UK time as Date object
-    const [datePart, timePart] = ukTimeString.split(', ');
-    const [month, day, year] = datePart.split('/');
-    const [hours, minutes, seconds] = timePart.split(':');
-    const ukCurrentTime = new Date(parseInt(year), parseInt(month) - 1, parseInt(day), parseInt(hours), parseInt(minutes), parseInt(seconds));
-    
-    const diff = ukCurrentTime.getTime() - timestamp.getTime();
-    const totalMinutes = Math.floor(diff / 1000 / 60);
+    // Timestamps are absolute instants, so compare directly with the clock
+    const totalMinutes = getMinutesBetween(timestamp, currentTime);
     
     if (totalMinutes < 1) {
       return 'just now';
@@ -75,15 +51,15 @@ export const LatestUpdatesCard: React.FC<LatestUpdatesCardProps> = ({ updates, o
             <span className="sm:hidden">Updates</span>
           </CardTitle>
           <Badge variant="secondary" className="text-[10px] sm:text-xs">
-            Live
+            {isReplaying ? 'Replay' : 'Live'}
           </Badge>
         </div>
       </CardHeader>
       <CardContent className="pt-0">
         <div className="space-y-2 max-h-64 overflow-y-auto">
-          {updates.map((update, index) => (
+          {updates.map(update => (
             <div 
-              key={`${update.riderNo}-${update.checkpoint}-${index}`}
+              key={update.id}
               className={`flex items-center justify-between text-xs py-1.5 px-2 rounded transition-colors ${
                 onSelectRider ? 'hover:bg-gray-50 cursor-pointer' : ''
               }`}
@@ -102,7 +78,9 @@ export const LatestUpdatesCard: React.FC<LatestUpdatesCardProps> = ({ updates, o
               </div>
               <div className="flex items-center gap-1 sm:gap-2 shrink-0">
                 <MapPin className="h-3 w-3 text-muted-foreground hidden sm:inline" />
-                <span className="font-medium text-xs">{update.checkpoint}</span>
+                <span className="font-medium text-xs">
+                  {UPDATE_LABELS[update.type] ? `${UPDATE_LABELS[update.type]} · ` : ''}{update.checkpoint}
+                </span>
               </div>
             </div>
           ))}
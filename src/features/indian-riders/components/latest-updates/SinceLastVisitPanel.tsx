@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { History, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { RiderStatusChange, TrackingChanges } from '@/utils/dataProcessors/changeProcessors';
+import { getRelativeTime } from '@/utils/formatUtils';
+
+// Arrivals listed before "Show all"
+const ARRIVALS_PREVIEW = 8;
+
+interface SinceLastVisitPanelProps {
+  changes: TrackingChanges;
+  onDismiss: () => void;
+  onSelectRider?: (riderId: string) => void;
+}
+
+interface RiderChipsProps {
+  label: string;
+  riders: RiderStatusChange[];
+  className: string;
+  onSelectRider?: (riderId: string) => void;
+}
+
+const RiderChips: React.FC<RiderChipsProps> = ({ label, riders, className, onSelectRider }) => {
+  if (riders.length === 0) return null;
+
+  return (
+    <div>
+      <div className="text-xs font-medium text-muted-foreground mb-1">
+        {label} ({riders.length})
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {riders.map(rider => (
+          <button
+            key={rider.riderNo}
+            type="button"
+            onClick={() => onSelectRider?.(rider.riderNo)}
+            className={`rounded-full px-2 py-0.5 text-xs ${className}`}
+          >
+            {rider.riderName}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Summary of what happened to the page's riders since the last visit
+ */
+export const SinceLastVisitPanel: React.FC<SinceLastVisitPanelProps> = ({ changes, onDismiss, onSelectRider }) => {
+  const [showAllArrivals, setShowAllArrivals] = useState(false);
+
+  const arrivals = showAllArrivals ? changes.arrivals : changes.arrivals.slice(0, ARRIVALS_PREVIEW);
+
+  return (
+    <Card className="border-blue-200 bg-blue-50/50">
+      <CardHeader className="pb-2 sm:pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <History className="h-4 w-4 text-blue-600" />
+            Since your last visit
+            <span className="font-normal text-muted-foreground">({getRelativeTime(changes.since)})</span>
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={onDismiss} aria-label="Dismiss summary">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <RiderChips label="Started" riders={changes.started} className="bg-blue-100 text-blue-800" onSelectRider={onSelectRider} />
+        <RiderChips label="Finished" riders={changes.finished} className="bg-green-100 text-green-800" onSelectRider={onSelectRider} />
+        <RiderChips label="DNF" riders={changes.dnf} className="bg-red-100 text-red-800" onSelectRider={onSelectRider} />
+
+        {changes.arrivals.length > 0 && (
+          <div>
+            <div className="text-xs font-medium text-muted-foreground mb-1">
+              Checkpoint arrivals ({changes.arrivals.length})
+            </div>
+            <div className="space-y-1">
+              {arrivals.map(arrival => (
+                <div
+                  key={`${arrival.riderNo}-${arrival.checkpoint}-${arrival.time}`}
+                  className={`flex items-center gap-2 text-xs py-1 px-2 rounded ${onSelectRider ? 'hover:bg-white cursor-pointer' : ''}`}
+                  onClick={() => onSelectRider?.(arrival.riderNo)}
+                >
+                  <Badge variant="outline" className="text-xs px-1.5 py-0 shrink-0">{arrival.time}</Badge>
+                  <span className="font-medium truncate">{arrival.riderName}</span>
+                  <span className="text-muted-foreground shrink-0">reached {arrival.checkpoint}</span>
+                </div>
+              ))}
+            </div>
+            {changes.arrivals.length > ARRIVALS_PREVIEW && (
+              <Button variant="link" size="sm" className="px-2 h-auto" onClick={() => setShowAllArrivals(!showAllArrivals)}>
+                {showAllArrivals ? 'Show fewer' : `Show all ${changes.arrivals.length}`}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
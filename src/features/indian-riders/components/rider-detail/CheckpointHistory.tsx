@@ -1,8 +1,11 @@
 import React, { useMemo } from 'react';
 import { Badge } from '@/components/ui/badge';
 import type { Rider } from '../../types';
-import { getControlsForRider, getWaveStartTime, calculateElapsedTime, formatElapsedTime } from '@/config/lel-route';
+import { getCheckpointVisit, getWaveStartTime, getStartGap, calculateElapsedTime, formatElapsedTime } from '@/config/lel-route';
+import { formatEventTimestamp } from '@/utils/eventTimestamp';
 import { calculateTimeAgo } from '../../utils/riderCalculations';
+import { useEvent } from '@/contexts/EventContext';
+import { useClock } from '@/contexts/ClockContext';
 
 interface CheckpointHistoryProps {
   rider: Rider;
@@ -23,23 +26,24 @@ interface CheckpointWithStats {
 }
 
 export const CheckpointHistory: React.FC<CheckpointHistoryProps> = ({ rider }) => {
-  const controls = getControlsForRider(rider.rider_no);
-  const waveStartTime = getWaveStartTime(rider.rider_no);
+  const event = useEvent();
+  const clock = useClock();
+  const waveStartTime = getWaveStartTime(rider.rider_no, event);
+  const startGap = getStartGap(rider, event);
   
   const checkpointStats = useMemo(() => {
+    const now = clock.now();
     return rider.checkpoints.map((checkpoint, index): CheckpointWithStats => {
       // Check if this is a start checkpoint
-      const isStartCheckpoint = checkpoint.name === 'Start' || 
-                              checkpoint.name === 'Writtle' || 
-                              checkpoint.name === 'London' ||
-                              checkpoint.name.includes('Start');
+      const visit = getCheckpointVisit(checkpoint.name, rider.rider_no, event);
+      const isStartCheckpoint = visit?.isStart || false;
       
       // Calculate elapsed time
       let elapsedMinutes = 0;
       let elapsedFormatted = '';
       
       if (!isStartCheckpoint) {
-        const elapsed = calculateElapsedTime(rider.rider_no, checkpoint.time);
+        const elapsed = calculateElapsedTime(rider, checkpoint.time, event);
         if (elapsed !== null && elapsed > 0) {
           elapsedMinutes = elapsed;
           elapsedFormatted = formatElapsedTime(elapsed);
@@ -59,7 +63,7 @@ export const CheckpointHistory: React.FC<CheckpointHistoryProps> = ({ rider }) =
         if (index === 1) {
           prevElapsedMinutes = 0;
         } else {
-          const prevElapsed = calculateElapsedTime(rider.rider_no, prevCheckpoint.time);
+          const prevElapsed = calculateElapsedTime(rider, prevCheckpoint.time, event);
           if (prevElapsed !== null) {
             prevElapsedMinutes = prevElapsed;
           }
@@ -68,22 +72,8 @@ export const CheckpointHistory: React.FC<CheckpointHistoryProps> = ({ rider }) =
         const timeDiff = elapsedMinutes - prevElapsedMinutes;
         
         // Find distances for current and previous checkpoints
-        const cleanCheckpointName = checkpoint.name.replace(/\s+[NSEW]$/, '');
-        const cleanPrevCheckpointName = prevCheckpoint.name.replace(/\s+[NSEW]$/, '');
-        
-        const currentControl = controls.find(c => 
-          c.name === cleanCheckpointName ||
-          c.name === checkpoint.name ||
-          checkpoint.name.includes(c.name) ||
-          c.name.includes(cleanCheckpointName)
-        );
-        const prevControl = controls.find(c => 
-          c.name === cleanPrevCheckpointName ||
-          c.name === prevCheckpoint.name ||
-          prevCheckpoint.name.includes(c.name) ||
-          c.name.includes(cleanPrevCheckpointName) ||
-          (prevCheckpoint.name === 'Start' && c.km === 0)
-        );
+        const currentControl = visit;
+        const prevControl = getCheckpointVisit(prevCheckpoint.name, rider.rider_no, event);
         
         if (currentControl && prevControl) {
           legDistance = currentControl.km - prevControl.km;
@@ -97,7 +87,7 @@ export const CheckpointHistory: React.FC<CheckpointHistoryProps> = ({ rider }) =
       }
       
       // Calculate time ago
-      const timeAgo = calculateTimeAgo(checkpoint.time);
+      const timeAgo = calculateTimeAgo(checkpoint.time, event, now);
       
       return {
         checkpoint,
@@ -113,7 +103,7 @@ export const CheckpointHistory: React.FC<CheckpointHistoryProps> = ({ rider }) =
         timeAgo
       };
     });
-  }, [rider, controls]);
+  }, [rider, event, clock]);
   
   if (rider.checkpoints.length === 0) {
     return (
@@ -154,7 +144,17 @@ export const CheckpointHistory: React.FC<CheckpointHistoryProps> = ({ rider }) =
                 )}
                 {stats.isStartCheckpoint && (
                   <p className="text-xs text-muted-foreground mt-1">
-                    Wave start: {waveStartTime}
+                    Wave start: {waveStartTime || 'not scheduled'}
+                  </p>
+                )}
+                {stats.isStartCheckpoint && startGap.actual && (
+                  <p className="text-xs text-muted-foreground">
+                    Started {formatEventTimestamp(startGap.actual, event.timezone)}
+                    {startGap.gapMinutes !== null && startGap.gapMinutes !== 0 && (
+                      <span className={startGap.gapMinutes > 0 ? 'text-orange-600' : ''}>
+                        {' '}({startGap.gapMinutes > 0 ? '+' : '-'}{formatElapsedTime(Math.abs(startGap.gapMinutes))})
+                      </span>
+                    )}
                   </p>
                 )}
                 {stats.elapsedFormatted && (
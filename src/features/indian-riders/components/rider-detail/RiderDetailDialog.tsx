@@ -7,10 +7,12 @@ import {
   DialogTitle
 } from '@/components/ui/dialog';
 import type { Rider } from '../../types';
+import { useEvent } from '@/contexts/EventContext';
 import { formatRiderName } from '../../utils/formatters';
 import { getStatusBadge } from '../../utils/statusHelpers';
 import { RiderStats } from './RiderStats';
 import { CheckpointHistory } from './CheckpointHistory';
+import { RiderAffiliationText } from '../shared/RiderAffiliationText';
 
 interface RiderDetailDialogProps {
   rider: Rider | null;
@@ -23,6 +25,8 @@ export const RiderDetailDialog: React.FC<RiderDetailDialogProps> = ({
   onClose,
   allRiders
 }) => {
+  const event = useEvent();
+  
   if (!rider) return null;
   
   return (
@@ -30,13 +34,14 @@ export const RiderDetailDialog: React.FC<RiderDetailDialogProps> = ({
       <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-2xl">
-            {formatRiderName(rider.name, rider.rider_no)}
+            {formatRiderName(rider.name, rider.rider_no, event)}
           </DialogTitle>
           <DialogDescription>
             <div className="flex items-center gap-4 mt-2">
               <span>Rider No: {rider.rider_no}</span>
               {getStatusBadge(rider.status, rider)}
             </div>
+            <RiderAffiliationText riderNo={rider.rider_no} className="block mt-1 text-sm" />
           </DialogDescription>
         </DialogHeader>
 
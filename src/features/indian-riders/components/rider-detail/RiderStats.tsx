@@ -1,10 +1,18 @@
 import React, { useMemo } from 'react';
-import { MapPin, TrendingUp, Activity } from 'lucide-react';
+import { MapPin, TrendingUp, Activity, Clock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import type { Rider } from '../../types';
 import { calculateRiderDistance, calculateAverageSpeed, shouldBeMarkedDNF } from '../../utils/riderCalculations';
-import { formatElapsedTime, formatExpectedArrival } from '../../utils/timeFormatters';
-import { getControlsForRider, getTotalDistanceForRider } from '@/config/lel-route';
+import { formatControlEta, formatCutoffMargin, formatElapsedTime } from '../../utils/timeFormatters';
+import { getCutoffBadge } from '../../utils/statusHelpers';
+import { getTotalDistanceForRider } from '@/config/lel-route';
+import { useEvent } from '@/contexts/EventContext';
+import { useNow } from '@/contexts/ClockContext';
+import { useRiderEta } from '@/hooks/useRiderEta';
+import { formatEventTimestamp, getMinutesBetween, parseCheckpointSequence } from '@/utils/eventTimestamp';
+import { getCutoffStatus } from '@/utils/dataProcessors/cutoffProcessors';
+import { projectFinish } from '@/utils/dataProcessors/finishProcessors';
+import type { PaceBasis, RiderEta } from '@/utils/dataProcessors/etaProcessors';
 
 interface RiderStatsProps {
   rider: Rider;
@@ -16,12 +24,24 @@ interface RiderWithElapsed {
   elapsedMinutes: number;
 }
 
+const PACE_BASIS_TEXT: Record<PaceBasis, string> = {
+  rider: 'their recent legs',
+  field: "the field's pace, as they have not completed a leg yet",
+  default: 'a typical pace, as nobody has completed a leg yet'
+};
+
+const describePace = (eta: RiderEta): string =>
+  `Based on ${PACE_BASIS_TEXT[eta.basis]} (${eta.baseSpeed.toFixed(1)} km/h on an average leg by day), ` +
+  `slower at night and on harder legs, with ${formatElapsedTime(eta.dwellMinutes)} at each control.`;
+
 export const RiderStats: React.FC<RiderStatsProps> = ({ rider, allRiders }) => {
+  const event = useEvent();
+  
   // Calculate current stats
-  const currentDistance = calculateRiderDistance(rider);
-  const averageSpeed = calculateAverageSpeed(rider);
+  const currentDistance = calculateRiderDistance(rider, event);
+  const averageSpeed = calculateAverageSpeed(rider, event);
   const isDNF = shouldBeMarkedDNF(rider);
-  const totalDistance = getTotalDistanceForRider(rider.rider_no);
+  const totalDistance = getTotalDistanceForRider(rider.rider_no, event);
   const progressPercentage = (currentDistance / totalDistance) * 100;
   
   // Calculate overall rank
@@ -30,30 +50,20 @@ export const RiderStats: React.FC<RiderStatsProps> = ({ rider, allRiders }) => {
     
     // Get all riders who reached at least the same checkpoint
     const ridersAtSameOrBeyond = allRiders.filter((r: Rider) => {
-      const riderDistance = calculateRiderDistance(r);
-      const selectedRiderDistance = calculateRiderDistance(rider);
+      const riderDistance = calculateRiderDistance(r, event);
+      const selectedRiderDistance = calculateRiderDistance(rider, event);
       return riderDistance >= selectedRiderDistance && r.checkpoints.length > 1;
     });
     
     // Calculate elapsed time for each rider
     const ridersWithElapsedTime = ridersAtSameOrBeyond.map((r: Rider): RiderWithElapsed => {
-      const riderStartCheckpoint = r.checkpoints[0];
-      const riderLastCheckpoint = r.checkpoints[r.checkpoints.length - 1];
-      
-      const parseTime = (timeStr: string): number => {
-        const parts = timeStr.split(' ');
-        const time = parts[parts.length - 1];
-        const [hours, minutes] = time.split(':').map(Number);
-        return hours * 60 + minutes;
-      };
-      
-      const riderStartMinutes = parseTime(riderStartCheckpoint.time);
-      const riderLastMinutes = parseTime(riderLastCheckpoint.time);
-      let riderElapsedMinutes = riderLastMinutes - riderStartMinutes;
-      
-      if (riderElapsedMinutes < 0) {
-        riderElapsedMinutes += 24 * 60;
-      }
+      // Resolve times in order so riders past midnight or the week boundary compare correctly
+      const instants = parseCheckpointSequence(r.checkpoints.map(cp => cp.time), event);
+      const startInstant = instants[0];
+      const lastInstant = instants[instants.length - 1];
+      const riderElapsedMinutes = startInstant && lastInstant
+        ? getMinutesBetween(startInstant, lastInstant)
+        : 0;
       
       return {
         rider: r,
@@ -69,39 +79,20 @@ export const RiderStats: React.FC<RiderStatsProps> = ({ rider, allRiders }) => {
     ) + 1;
     
     return rank > 0 ? { rank, total: ridersWithElapsedTime.length } : null;
-  }, [rider, allRiders]);
+  }, [rider, allRiders, event]);
   
-  // Calculate expected arrival at next control
-  const nextControlInfo = useMemo(() => {
-    if (rider.status !== 'in_progress' || averageSpeed === 0) return null;
-    
-    const controls = getControlsForRider(rider.rider_no);
-    
-    // Find the next control
-    let nextControl = null;
-    for (const control of controls) {
-      if (control.km > currentDistance) {
-        nextControl = control;
-        break;
-      }
-    }
-    
-    if (!nextControl || rider.checkpoints.length === 0) return null;
-    
-    const distanceToNext = nextControl.km - currentDistance;
-    const hoursToNext = distanceToNext / averageSpeed;
-    
-    // Get the last checkpoint arrival time
-    const lastCheckpoint = rider.checkpoints[rider.checkpoints.length - 1];
-    const { ukTime, istTime } = formatExpectedArrival(lastCheckpoint.time, hoursToNext);
-    
-    return {
-      control: nextControl,
-      distanceToNext,
-      expectedTime: { ukTime, istTime },
-      hoursToNext
-    };
-  }, [rider, currentDistance, averageSpeed]);
+  // Predicted arrivals at the remaining controls
+  const now = useNow();
+  const eta = useRiderEta(isDNF ? null : rider);
+  const nextEta = eta?.controls[0] || null;
+  const finish = useMemo(() => eta ? projectFinish(eta, now, event) : null, [eta, now, event]);
+  
+  // Time in hand at the last control and projected margin at the next, from the arrival above
+  const cutoff = useMemo(
+    () => getCutoffStatus(rider, now, event, averageSpeed, nextEta),
+    [rider, now, averageSpeed, nextEta, event]
+  );
+  const showCutoffs = !isDNF && rider.status !== 'not_started' && (cutoff.lastControl || cutoff.nextControl);
 
   return (
     <div>
@@ -131,14 +122,79 @@ export const RiderStats: React.FC<RiderStatsProps> = ({ rider, allRiders }) => {
           </div>
         )}
         
-        {nextControlInfo && (
+        {eta && nextEta && (
           <div className="mt-4 p-4 bg-blue-50 rounded-lg">
-            <h4 className="font-semibold mb-2">Expected Next Arrival</h4>
+            <h4 className="font-semibold mb-2">Expected Arrivals</h4>
+            <div className="space-y-2 text-sm">
+              <p>Next Control: <strong>{nextEta.name}</strong> ({Math.max(0, Math.round(nextEta.km - currentDistance))} km away)</p>
+              <p>
+                Expected Arrival: <strong>{formatControlEta(nextEta, event.timezone).time}</strong>
+                <span className="text-xs text-gray-600"> (likely {formatControlEta(nextEta, event.timezone).range})</span>
+              </p>
+              <p className="text-xs text-gray-600">{formatEventTimestamp(new Date(nextEta.eta), 'Asia/Kolkata')} IST</p>
+            </div>
+            {eta.controls.length > 1 && (
+              <table className="w-full mt-3 text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-600">
+                    <th className="font-medium pb-1">Control</th>
+                    <th className="font-medium pb-1">km</th>
+                    <th className="font-medium pb-1">Expected</th>
+                    <th className="font-medium pb-1 hidden sm:table-cell">Likely</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {eta.controls.map(control => {
+                    const formatted = formatControlEta(control, event.timezone);
+                    return (
+                      <tr key={control.controlId} className={control.isFinish ? 'font-semibold' : ''}>
+                        <td className="py-0.5">{control.isFinish ? `${control.name} (finish)` : control.name}</td>
+                        <td className="py-0.5">{control.km}</td>
+                        <td className="py-0.5">{formatted.time}</td>
+                        <td className="py-0.5 text-xs text-gray-600 hidden sm:table-cell">{formatted.range}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+            {finish && (
+              <p className="mt-3 text-sm">
+                Finish limit {formatEventTimestamp(new Date(finish.limit), event.timezone)}:{' '}
+                <strong className={finish.marginMinutes < 0 ? 'text-red-600' : ''}>
+                  {formatCutoffMargin(finish.marginMinutes)}
+                </strong>
+                {' '}projected, <strong>{Math.round(finish.probability * 100)}%</strong> chance of finishing in time
+              </p>
+            )}
+            <p className="mt-3 text-xs text-gray-600">{describePace(eta)}</p>
+          </div>
+        )}
+        
+        {showCutoffs && (
+          <div className={`mt-4 p-4 rounded-lg ${
+            cutoff.state === 'missed' ? 'bg-red-50' : cutoff.state === 'warning' ? 'bg-amber-50' : 'bg-gray-50'
+          }`}>
+            <h4 className="font-semibold mb-2 flex items-center gap-2">
+              <Clock className="h-4 w-4 text-gray-600" />
+              Cutoffs
+              {getCutoffBadge(cutoff)}
+            </h4>
             <div className="space-y-2 text-sm">
-              <p>Next Control: <strong>{nextControlInfo.control.name}</strong> ({nextControlInfo.distanceToNext} km away)</p>
-              <p>Expected Arrival: <strong>{nextControlInfo.expectedTime.ukTime}</strong></p>
-              <p className="text-xs text-gray-600">{nextControlInfo.expectedTime.istTime}</p>
-              <p className="text-xs text-gray-600">Travel time: ~{formatElapsedTime(nextControlInfo.hoursToNext * 60)}</p>
+              {cutoff.lastControl && cutoff.timeInHandMinutes !== null && (
+                <p>
+                  Time in hand at {cutoff.lastControl.control.name}: <strong>{formatCutoffMargin(cutoff.timeInHandMinutes)}</strong>
+                  <span className="text-xs text-gray-600"> (closes {formatEventTimestamp(cutoff.lastControl.closes, event.timezone)})</span>
+                </p>
+              )}
+              {cutoff.nextControl && (
+                <p>
+                  {cutoff.nextControl.control.name} closes <strong>{formatEventTimestamp(cutoff.nextControl.closes, event.timezone)}</strong>
+                  {cutoff.projectedMarginMinutes !== null && (
+                    <span> (projected margin {formatCutoffMargin(cutoff.projectedMarginMinutes)})</span>
+                  )}
+                </p>
+              )}
             </div>
           </div>
         )}
@@ -1,14 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { AlertTriangle, Clock } from 'lucide-react';
+import { useClock } from '@/contexts/ClockContext';
 
 export const PauseBanner: React.FC = () => {
   const [isVisible, setIsVisible] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState('');
+  const clock = useClock();
 
   useEffect(() => {
     const checkPauseStatus = () => {
       // Get current UK time
-      const now = new Date();
+      const now = clock.now();
       const ukTimeString = now.toLocaleString('en-US', { 
         timeZone: 'Europe/London',
         year: 'numeric',
@@ -55,7 +57,7 @@ export const PauseBanner: React.FC = () => {
     checkPauseStatus();
     const interval = setInterval(checkPauseStatus, 1000);
     return () => clearInterval(interval);
-  }, []);
+  }, [clock]);
 
   if (!isVisible) return null;
 
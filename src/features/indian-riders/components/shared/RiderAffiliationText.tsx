@@ -0,0 +1,24 @@
+import React from 'react';
+import { useGlobalDataSelector } from '@/contexts/GlobalDataStore';
+import { formatAffiliation } from '@/utils/formatUtils';
+
+interface RiderAffiliationTextProps {
+  riderNo: string;
+  className?: string;
+}
+
+/**
+ * Club and home town of a rider, if the event publishes them
+ */
+export const RiderAffiliationText: React.FC<RiderAffiliationTextProps> = ({ riderNo, className = '' }) => {
+  const affiliation = useGlobalDataSelector(state => state.riderAffiliations[riderNo]);
+  const text = formatAffiliation(affiliation);
+
+  if (!text) return null;
+
+  return (
+    <span className={`text-xs text-muted-foreground ${className}`} title={text}>
+      {text}
+    </span>
+  );
+};
@@ -1,24 +1,23 @@
 import React from 'react';
 import { Users, Activity, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
 import { StatCard } from './StatCard';
+import type { RiderStatistics } from '../../types';
 
 interface StatisticsPanelProps {
-  statistics: {
-    total: number;
-    inProgress: number;
-    finished: number;
-    dnf: number;
-    notStarted: number;
-  };
+  statistics: RiderStatistics;
+  participantsLabel?: string;
 }
 
-export const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ statistics }) => {
+export const StatisticsPanel: React.FC<StatisticsPanelProps> = ({
+  statistics,
+  participantsLabel = 'Indian participants'
+}) => {
   return (
     <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 sm:gap-4">
       <StatCard
         title="Total Riders"
         value={statistics.total}
-        description="Indian participants"
+        description={participantsLabel}
         icon={Users}
         iconColor="text-primary"
         valueColor="text-primary"
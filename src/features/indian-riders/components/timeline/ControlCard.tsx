@@ -6,7 +6,11 @@ import type { Rider, Checkpoint } from '../../types';
 import type { Control } from '../../types/weather';
 import type { ControlWeatherData } from '../../services/weatherService';
 import { CompactWeatherDisplay } from '../shared/CompactWeatherDisplay';
-import { calculateTimeAgo } from '../../utils/riderCalculations';
+import { useEvent } from '@/contexts/EventContext';
+import { useClock } from '@/contexts/ClockContext';
+import { getBaseDistance } from '@/config/events';
+import { parseEventTimestamp } from '@/utils/eventTimestamp';
+import { calculateTimeAgo, findControlCheckpointIndex } from '../../utils/riderCalculations';
 import { RiderList } from './RiderList';
 import { WeatherModal } from '../shared/WeatherModal';
 
@@ -55,57 +59,29 @@ export const ControlCard: React.FC<ControlCardProps> = ({
   allRiders,
   weather
 }) => {
+  const event = useEvent();
+  const clock = useClock();
   const [showWeatherModal, setShowWeatherModal] = useState(false);
   const riderCount = ridersAtControl.length;
+  const baseDistance = getBaseDistance(event);
+  const longerStarts = event.startLocations.filter(location => location.totalDistance > baseDistance);
   const writtleDistance = control.km;
   
   // Get latest arrivals
   const latestArrivals = useMemo(() => {
     if (!ridersAtControl.length) return [];
     
+    const now = clock.now();
+    
     // Parse times and sort by arrival
     const ridersWithParsedTimes = ridersAtControl.map((rider: Rider): RiderWithTimestamp | null => {
-      const checkpoint = rider.checkpoints.find((cp: Checkpoint) => {
-        // Match checkpoints with proper direction
-        if (control.isReturn) {
-          return cp.name === `${control.name} S`;
-        }
-        return cp.name === `${control.name} N` || cp.name === control.name;
-      });
+      const checkpoint: Checkpoint | undefined =
+        rider.checkpoints[findControlCheckpointIndex(rider, control.id, event)];
       
       if (!checkpoint?.time) return null;
       
       // Parse checkpoint time to get proper timestamp
-      let timestamp: Date | null = null;
-      
-      if (checkpoint.time.includes('/')) {
-        // Format: "3/8 19:32"
-        const [date, time] = checkpoint.time.split(' ');
-        const [day, month] = date.split('/');
-        const [hours, minutes] = time.split(':');
-        timestamp = new Date(2025, parseInt(month) - 1, parseInt(day), parseInt(hours), parseInt(minutes));
-      } else {
-        // Format: "Sunday 08:46" or "Monday 02:29"
-        const parts = checkpoint.time.split(' ');
-        const dayName = parts[0];
-        const timeStr = parts[parts.length - 1];
-        const [hours, minutes] = timeStr.split(':').map(Number);
-        
-        // Event starts on Sunday August 3, 2025
-        const eventStartDate = new Date('2025-08-03');
-        const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-        const eventDayIndex = eventStartDate.getDay();
-        const checkpointDayIndex = dayNames.indexOf(dayName);
-        
-        if (checkpointDayIndex >= 0) {
-          let dayOffset = checkpointDayIndex - eventDayIndex;
-          if (dayOffset < 0) dayOffset += 7;
-          
-          timestamp = new Date(eventStartDate);
-          timestamp.setDate(timestamp.getDate() + dayOffset);
-          timestamp.setHours(hours, minutes, 0, 0);
-        }
-      }
+      const timestamp = parseEventTimestamp(checkpoint.time, event, { notAfter: now });
       
       return { rider, checkpoint, timestamp };
     }).filter((item): item is RiderWithTimestamp => item !== null && item.timestamp !== null);
@@ -114,7 +90,7 @@ export const ControlCard: React.FC<ControlCardProps> = ({
     return ridersWithParsedTimes
       .sort((a, b) => b.timestamp!.getTime() - a.timestamp!.getTime())
       .slice(0, 3);
-  }, [ridersAtControl, control.name]);
+  }, [ridersAtControl, control.id, clock, event]);
   
   return (
     <div className="flex gap-1 sm:gap-4 relative">
@@ -157,11 +133,11 @@ export const ControlCard: React.FC<ControlCardProps> = ({
                   {control.name}
                   {control.isReturn && <span className="text-sm font-normal text-orange-600 ml-2">(Return)</span>}
                 </CardTitle>
-                {!isStart && (
-                  <span className="hidden sm:inline text-[10px] sm:text-xs text-muted-foreground whitespace-nowrap">
-                    +20km for London start
+                {!isStart && longerStarts.map(location => (
+                  <span key={location.id} className="hidden sm:inline text-[10px] sm:text-xs text-muted-foreground whitespace-nowrap">
+                    +{location.totalDistance - baseDistance}km for {location.name} start
                   </span>
-                )}
+                ))}
               </div>
               <div className="flex flex-wrap items-center gap-2 sm:gap-3 text-xs sm:text-sm text-muted-foreground">
                 <span className="flex items-center gap-1">
@@ -212,7 +188,7 @@ export const ControlCard: React.FC<ControlCardProps> = ({
                   </div>
                   <div className="ml-3 sm:ml-5 mt-1 space-y-0.5">
                     {latestArrivals.map(({ rider, checkpoint }) => {
-                      const timeAgo = calculateTimeAgo(checkpoint.time);
+                      const timeAgo = calculateTimeAgo(checkpoint.time, event, clock.now());
                       return (
                         <div key={rider.rider_no} className="flex flex-wrap items-center gap-1 sm:gap-2">
                           <span className="font-medium">{rider.name.split(' ')[0]}</span>
@@ -5,11 +5,17 @@ import { Button } from '@/components/ui/button';
 import type { Rider, Checkpoint } from '../../types';
 import type { Control } from '../../types/weather';
 import { RiderListItem } from './RiderListItem';
+import { useEvent } from '@/contexts/EventContext';
 import { 
   calculateElapsedTime,
   formatElapsedTime,
 } from '@/config/lel-route';
-import { calculateRiderDistance, shouldBeMarkedDNF } from '../../utils/riderCalculations';
+import { isStartControl } from '@/config/events';
+import {
+  calculateRiderDistance,
+  findControlCheckpointIndex,
+  shouldBeMarkedDNF
+} from '../../utils/riderCalculations';
 
 interface RiderListProps {
   riders: Rider[];
@@ -41,41 +47,18 @@ export const RiderList: React.FC<RiderListProps> = ({
   onSelectRider,
   showAllRiders
 }) => {
+  const event = useEvent();
   const [sortBy, setSortBy] = useState<'arrival' | 'rank'>('rank');
   const [localSearchTerm, setLocalSearchTerm] = useState(searchTerm);
   
-  const isStart = control.name === 'Start' || control.name === 'Writtle' || control.name === 'London';
+  const isStart = isStartControl(control.id, event);
   
   // Process riders with elapsed time
   const processedRiders = useMemo(() => {
     const ridersWithElapsedTime = riders.map((rider: Rider): RiderWithElapsedTime => {
-      const checkpoint = rider.checkpoints.find(cp => {
-        if (isStart) {
-          return cp.name === 'Start' || 
-                 cp.name === 'Writtle' || 
-                 cp.name === 'London' ||
-                 cp.name.includes('Start');
-        }
-        // For return controls, match southbound checkpoints
-        if (control.isReturn) {
-          return cp.name === `${control.name} S`;
-        }
-        // For northbound controls
-        return cp.name === `${control.name} N` || cp.name === control.name;
-      });
-      
       // Check if rider has progressed beyond this control
-      const currentControlIndex = rider.checkpoints.findIndex(cp => {
-        if (isStart) {
-          return cp.name === 'Start' || cp.name === 'Writtle' || cp.name === 'London';
-        }
-        // For return controls, match southbound checkpoints
-        if (control.isReturn) {
-          return cp.name === `${control.name} S`;
-        }
-        // For northbound controls
-        return cp.name === `${control.name} N` || cp.name === control.name;
-      });
+      const currentControlIndex = findControlCheckpointIndex(rider, control.id, event);
+      const checkpoint: Checkpoint | undefined = rider.checkpoints[currentControlIndex];
       const hasProgressedBeyond = currentControlIndex >= 0 && currentControlIndex < rider.checkpoints.length - 1;
       
       // Calculate elapsed time directly
@@ -90,13 +73,13 @@ export const RiderList: React.FC<RiderListProps> = ({
           elapsedFormatted = '0m';
         } else {
           // Calculate elapsed time from wave start
-          const elapsed = calculateElapsedTime(rider.rider_no, checkpoint.time);
+          const elapsed = calculateElapsedTime(rider, checkpoint.time, event);
           if (elapsed !== null && elapsed > 0) {
             elapsedMinutes = elapsed;
             elapsedFormatted = formatElapsedTime(elapsed);
             
             // Calculate average speed
-            const distance = calculateRiderDistance(rider);
+            const distance = calculateRiderDistance(rider, event);
             if (distance > 0 && elapsedMinutes > 0) {
               averageSpeed = (distance / elapsedMinutes) * 60; // km/h
             }
@@ -157,22 +140,11 @@ export const RiderList: React.FC<RiderListProps> = ({
     }
     
     return displayRiders;
-  }, [riders, control, isStart, showAllRiders, localSearchTerm, sortBy]);
+  }, [riders, control, isStart, showAllRiders, localSearchTerm, sortBy, event]);
   
-  const hiddenCount = riders.filter(r => {
-    const hasCheckpoint = r.checkpoints.some(cp => {
-      if (isStart) {
-        return cp.name === 'Start' || cp.name === 'Writtle' || cp.name === 'London';
-      }
-      // For return controls, only count riders who reached the southbound checkpoint
-      if (control.isReturn) {
-        return cp.name === `${control.name} S`;
-      }
-      // For northbound controls
-      return cp.name === `${control.name} N` || cp.name === control.name;
-    });
-    return hasCheckpoint;
-  }).length - processedRiders.length;
+  const hiddenCount = riders.filter(r =>
+    findControlCheckpointIndex(r, control.id, event) >= 0
+  ).length - processedRiders.length;
   
   return (
     <div className="space-y-1.5 sm:space-y-3">
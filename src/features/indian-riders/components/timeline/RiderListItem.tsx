@@ -1,9 +1,16 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Instagram } from 'lucide-react';
 import type { Rider, Checkpoint } from '../../types';
+import { useEvent } from '@/contexts/EventContext';
+import { useClock } from '@/contexts/ClockContext';
+import { useRiderEta } from '@/hooks/useRiderEta';
 import { formatRiderName } from '../../utils/formatters';
 import { calculateTimeAgo } from '../../utils/riderCalculations';
+import { formatControlEta } from '../../utils/timeFormatters';
+import { getCutoffBadge } from '../../utils/statusHelpers';
+import { getCutoffStatus } from '@/utils/dataProcessors/cutoffProcessors';
+import { RiderAffiliationText } from '../shared/RiderAffiliationText';
 
 interface RiderListItemProps {
   rider: Rider;
@@ -32,6 +39,14 @@ export const RiderListItem: React.FC<RiderListItemProps> = ({
   onSelect,
   sortMode
 }) => {
+  const event = useEvent();
+  const clock = useClock();
+  const cutoff = useMemo(() => getCutoffStatus(rider, clock.now(), event), [rider, clock, event]);
+  const showCutoff = rider.status === 'in_progress' && !isDNF && !hasProgressedBeyond;
+  // Only riders last seen here are heading for the next control
+  const eta = useRiderEta(showCutoff ? rider : null);
+  const nextEta = eta?.controls[0] || null;
+  
   if (!checkpoint) return null;
 
   // Determine background color based on status
@@ -40,7 +55,12 @@ export const RiderListItem: React.FC<RiderListItemProps> = ({
   
   if (isDNF) {
     bgColor = 'bg-red-50';
-  } else if (averageSpeed && averageSpeed < 15 && rider.status === 'in_progress') {
+  } else if (showCutoff && cutoff.state === 'missed') {
+    bgColor = 'bg-red-50';
+  } else if (
+    (showCutoff && cutoff.state === 'warning') ||
+    (averageSpeed && averageSpeed < 15 && rider.status === 'in_progress')
+  ) {
     bgColor = 'bg-yellow-50';
   }
   
@@ -63,9 +83,10 @@ export const RiderListItem: React.FC<RiderListItemProps> = ({
           <span className="text-xs font-medium text-muted-foreground w-6 sm:w-8 flex-shrink-0">#{rank}</span>
         )}
         <span className={`font-medium truncate ${isDNF ? 'text-red-600' : ''}`}>
-          {formatRiderName(rider.name, rider.rider_no)}
+          {formatRiderName(rider.name, rider.rider_no, event)}
         </span>
         <span className="hidden sm:inline text-xs text-muted-foreground flex-shrink-0">({rider.rider_no})</span>
+        <RiderAffiliationText riderNo={rider.rider_no} className="hidden md:inline truncate" />
         {rider.instagram && (
           <a
             href={rider.instagram}
@@ -81,6 +102,7 @@ export const RiderListItem: React.FC<RiderListItemProps> = ({
         {isDNF && (
           <Badge className="bg-red-500 text-white text-[10px] sm:text-xs px-1 sm:px-1.5 py-0 flex-shrink-0" title="No update for 24+ hours">DNF</Badge>
         )}
+        {showCutoff && getCutoffBadge(cutoff, 'text-[10px] sm:text-xs px-1 sm:px-1.5 py-0 flex-shrink-0')}
         {hasProgressedBeyond && !isDNF && (
           <span className="text-xs text-muted-foreground flex-shrink-0" title="Rider has progressed to a later control">
             <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -93,7 +115,7 @@ export const RiderListItem: React.FC<RiderListItemProps> = ({
         <span className="text-muted-foreground">
           <span className="hidden sm:inline">{checkpoint.time}</span>
           {(() => {
-            const timeAgo = calculateTimeAgo(checkpoint.time);
+            const timeAgo = calculateTimeAgo(checkpoint.time, event, clock.now());
             if (timeAgo) {
               return (
                 <>
@@ -115,6 +137,17 @@ export const RiderListItem: React.FC<RiderListItemProps> = ({
             {elapsedFormatted}
           </Badge>
         )}
+        {nextEta && (() => {
+          const formatted = formatControlEta(nextEta, event.timezone);
+          return (
+            <span
+              className="hidden md:inline text-xs text-muted-foreground"
+              title={`Expected at ${nextEta.name} ${formatted.time}, likely ${formatted.range}`}
+            >
+              → {nextEta.name} ~{formatted.time.split(' ')[1]}
+            </span>
+          );
+        })()}
         {averageSpeed !== undefined && averageSpeed > 0 && !isDNF && (
           <span className={`hidden sm:inline text-[10px] sm:text-xs ${
             averageSpeed < 15 ? 'text-yellow-600 font-medium' : 'text-muted-foreground'
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { ChevronUp, ChevronDown } from 'lucide-react';
 import { Card, CardHeader } from '@/components/ui/card';
 import type { Rider } from '../../types';
@@ -6,6 +6,9 @@ import { ControlCard } from './ControlCard';
 import { useControlsData } from '../../hooks/useControlsData';
 import { useWeatherData } from '../../hooks/useWeatherData';
 import { isLondonStartRider } from '@/config/lel-route';
+import { useEvent } from '@/contexts/EventContext';
+import { useUrlViewState } from '@/hooks/useUrlViewState';
+import { findControlCheckpointIndex, isRiderAtControl } from '../../utils/riderCalculations';
 
 interface TimelineViewProps {
   riders: Rider[];
@@ -22,9 +25,12 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
   selectedRiderId,
   onSelectRider
 }) => {
+  const event = useEvent();
   const { controls } = useControlsData();
   const { getWeatherForControl } = useWeatherData();
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
+  // The last control opened is kept in the URL, so a link opens it too
+  const { state: urlViewState, update: updateUrlViewState } = useUrlViewState();
   const [showAllRiders, setShowAllRiders] = useState<Record<string, boolean>>({});
   const [showPassedControls, setShowPassedControls] = useState(false);
   const [showFutureControls, setShowFutureControls] = useState(false);
@@ -35,50 +41,18 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
     const controlsToShow = controls;
     
     const processedControls = controlsToShow.map((control, index) => {
-      const isStart = control.name === 'Start' || index === 0;
+      const isStart = index === 0;
       const isLast = index === controlsToShow.length - 1;
       
       // Get riders at this control
-      const ridersAtControl = riders.filter((rider: Rider) => {
-        if (control.name === 'Writtle' && control.km === 0) {
-          // This is the start control
-          return rider.checkpoints.some(cp => 
-            cp.name === 'Start' || 
-            cp.name === 'Writtle' || 
-            cp.name === 'London' ||
-            cp.name.includes('Start')
-          );
-        }
-        
-        // For other controls, match by name and direction
-        return rider.checkpoints.some(cp => {
-          // For return controls, only match southbound checkpoints (with "S" suffix)
-          if (control.isReturn) {
-            return cp.name === `${control.name} S`;
-          }
-          // For northbound controls, match northbound checkpoints (with "N" suffix) or exact name
-          return cp.name === `${control.name} N` || cp.name === control.name;
-        });
-      });
+      const ridersAtControl = riders.filter((rider: Rider) =>
+        findControlCheckpointIndex(rider, control.id, event) >= 0
+      );
       
       // Count riders currently at this control
-      const currentRiderCount = ridersAtControl.filter((rider: Rider) => {
-        const lastCheckpoint = rider.checkpoints[rider.checkpoints.length - 1];
-        if (!lastCheckpoint) return false;
-        
-        if (control.name === 'Writtle' && control.km === 0) {
-          // This is the start control
-          return lastCheckpoint.name === 'Start' || 
-            lastCheckpoint.name === 'Writtle' || 
-            lastCheckpoint.name === 'London';
-        }
-        
-        // For other controls, check if this is their current location with proper direction
-        if (control.isReturn) {
-          return lastCheckpoint.name === `${control.name} S`;
-        }
-        return lastCheckpoint.name === `${control.name} N` || lastCheckpoint.name === control.name;
-      }).length;
+      const currentRiderCount = ridersAtControl.filter((rider: Rider) =>
+        isRiderAtControl(rider, control.id, event)
+      ).length;
       
       // Check if we have both London and Writtle riders
       const hasLondonRiders = ridersAtControl.some((rider: Rider) => 
@@ -125,20 +99,46 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
     });
     
     return { activeControls: active, passedControls: passed, futureControls: future };
-  }, [controls, riders]);
+  }, [controls, riders, event]);
   
-  const toggleCardExpansion = (cardId: string) => {
+  const isCardExpanded = (cardId: string, controlId: string) =>
+    expandedCards.has(cardId) || controlId === urlViewState.control;
+
+  const toggleCardExpansion = (cardId: string, controlId: string) => {
+    const isExpanding = !isCardExpanded(cardId, controlId);
     setExpandedCards(prev => {
       const newSet = new Set(prev);
-      if (newSet.has(cardId)) {
-        newSet.delete(cardId);
-      } else {
+      if (isExpanding) {
         newSet.add(cardId);
+      } else {
+        newSet.delete(cardId);
       }
       return newSet;
     });
+
+    if (isExpanding) {
+      updateUrlViewState({ control: controlId });
+    } else if (controlId === urlViewState.control) {
+      updateUrlViewState({ control: null });
+    }
   };
   
+  // Reveal the hidden section holding a control opened from a link, once per control
+  const revealedControlRef = useRef<string | null>(null);
+  useEffect(() => {
+    const controlId = urlViewState.control;
+    if (!controlId || revealedControlRef.current === controlId) return;
+
+    if (passedControls.some(({ control }) => control.id === controlId)) {
+      setShowPassedControls(true);
+    } else if (futureControls.some(({ control }) => control.id === controlId)) {
+      setShowFutureControls(true);
+    } else if (!activeControls.some(({ control }) => control.id === controlId)) {
+      return;
+    }
+    revealedControlRef.current = controlId;
+  }, [urlViewState.control, activeControls, passedControls, futureControls]);
+  
   const toggleShowAllRiders = (cardId: string) => {
     setShowAllRiders(prev => ({
       ...prev,
@@ -207,8 +207,8 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                     hasWrittleRiders={hasWrittleRiders}
                     isStart={isStart}
                     isLast={isLast}
-                    isExpanded={expandedCards.has(cardId)}
-                    onToggleExpansion={() => toggleCardExpansion(cardId)}
+                    isExpanded={isCardExpanded(cardId, control.id)}
+                    onToggleExpansion={() => toggleCardExpansion(cardId, control.id)}
                     searchTerm={searchTerm}
                     onSearch={onSearch}
                     showAllRiders={showAllRiders[cardId] || false}
@@ -216,7 +216,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                     selectedRiderId={selectedRiderId}
                     onSelectRider={onSelectRider}
                     allRiders={riders}
-                    weather={isStart ? null : getWeatherForControl(control.name)}
+                    weather={isStart ? null : getWeatherForControl(control.id)}
                   />
                 </div>
               ))}
@@ -245,8 +245,8 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
           hasWrittleRiders={hasWrittleRiders}
           isStart={isStart}
           isLast={isLast}
-          isExpanded={expandedCards.has(cardId)}
-          onToggleExpansion={() => toggleCardExpansion(cardId)}
+          isExpanded={isCardExpanded(cardId, control.id)}
+          onToggleExpansion={() => toggleCardExpansion(cardId, control.id)}
           searchTerm={searchTerm}
           onSearch={onSearch}
           showAllRiders={showAllRiders[cardId] || false}
@@ -254,7 +254,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
           selectedRiderId={selectedRiderId}
           onSelectRider={onSelectRider}
           allRiders={riders}
-          weather={isStart ? null : getWeatherForControl(control.name)}
+          weather={isStart ? null : getWeatherForControl(control.id)}
         />
       ))}
       
@@ -317,8 +317,8 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                     hasWrittleRiders={hasWrittleRiders}
                     isStart={isStart}
                     isLast={isLast}
-                    isExpanded={expandedCards.has(cardId)}
-                    onToggleExpansion={() => toggleCardExpansion(cardId)}
+                    isExpanded={isCardExpanded(cardId, control.id)}
+                    onToggleExpansion={() => toggleCardExpansion(cardId, control.id)}
                     searchTerm={searchTerm}
                     onSearch={onSearch}
                     showAllRiders={showAllRiders[cardId] || false}
@@ -326,7 +326,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                     selectedRiderId={selectedRiderId}
                     onSelectRider={onSelectRider}
                     allRiders={riders}
-                    weather={isStart ? null : getWeatherForControl(control.name)}
+                    weather={isStart ? null : getWeatherForControl(control.id)}
                   />
                 </div>
               ))}
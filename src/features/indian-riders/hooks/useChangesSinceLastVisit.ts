@@ -0,0 +1,59 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useEvent } from '@/contexts/EventContext';
+import { useReplay } from '@/contexts/ReplayContext';
+import {
+  createTrackingSnapshot,
+  diffTrackingSnapshot,
+  hasTrackingChanges,
+  type TrackingChanges,
+  type TrackingSnapshot
+} from '@/utils/dataProcessors/changeProcessors';
+import type { Rider } from '../types';
+import { getVisitSnapshotKey, loadVisitSnapshot, saveVisitSnapshot } from '../utils/visitSnapshots';
+
+interface UseChangesSinceLastVisitReturn {
+  /** What happened since the last visit, or null if nothing did (or on a first visit) */
+  changes: TrackingChanges | null;
+  dismiss: () => void;
+}
+
+/**
+ * Compare the riders on a page with what was on it at the last visit
+ * Every tracking update on screen is saved as the new "last seen" state.
+ * @param scope - Page the snapshot belongs to (e.g., "indian-riders"); undefined turns this off
+ * @param riders - Riders on the page
+ * @param ready - Whether the riders are fully loaded; partial data is never saved
+ */
+export const useChangesSinceLastVisit = (
+  scope: string | undefined,
+  riders: Rider[],
+  ready: boolean
+): UseChangesSinceLastVisitReturn => {
+  const event = useEvent();
+  const { isReplaying } = useReplay();
+  const [baseline, setBaseline] = useState<TrackingSnapshot | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const loadedKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    // A replay shows the past; it must not become the last visit
+    if (!scope || !ready || isReplaying || riders.length === 0) return;
+
+    const key = getVisitSnapshotKey(event.id, scope);
+    // Read the last visit once, before this visit overwrites it
+    if (loadedKeyRef.current !== key) {
+      loadedKeyRef.current = key;
+      setBaseline(loadVisitSnapshot(key));
+      setDismissed(false);
+    }
+    saveVisitSnapshot(key, createTrackingSnapshot(riders));
+  }, [scope, ready, isReplaying, riders, event.id]);
+
+  const changes = useMemo(() => {
+    if (!baseline || dismissed || isReplaying) return null;
+    const diff = diffTrackingSnapshot(baseline, riders);
+    return hasTrackingChanges(diff) ? diff : null;
+  }, [baseline, dismissed, isReplaying, riders]);
+
+  return { changes, dismiss: () => setDismissed(true) };
+};
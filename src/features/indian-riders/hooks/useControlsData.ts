@@ -1,6 +1,8 @@
 import { useMemo } from 'react';
-import { useGlobalData } from '@/contexts/GlobalDataStore';
-import { getControlsForRider, WRITTLE_START_CONTROLS } from '@/config/lel-route';
+import { useGlobalDataSelector } from '@/contexts/GlobalDataStore';
+import { selectRawTrackingData } from '@/contexts/globalDataSelectors';
+import { useEvent } from '@/contexts/EventContext';
+import { getControlDefinition, getDefaultStartLocation } from '@/config/events';
 import type { Control } from '../types/weather';
 
 interface UseControlsDataReturn {
@@ -10,28 +12,31 @@ interface UseControlsDataReturn {
 }
 
 export const useControlsData = (riderId?: string): UseControlsDataReturn => {
-  const { rawTrackingData, rawRouteData, loading, errors } = useGlobalData();
+  const rawTrackingData = useGlobalDataSelector(selectRawTrackingData);
+  const rawRouteData = useGlobalDataSelector(state => state.rawRouteData);
+  const loading = useGlobalDataSelector(state => state.loading);
+  const errors = useGlobalDataSelector(state => state.errors);
+  const event = useEvent();
   
   const controls = useMemo(() => {
-    // Use the complete control list from the route configuration
-    // Keep original names for matching, but include metadata
-    const allControls = WRITTLE_START_CONTROLS.map((control, index) => {
-      // Determine if this is northbound or southbound leg
-      // Northbound goes up to Eskdalemuir, then return journey starts
-      const isNorthbound = !control.description?.includes('Return') && control.name !== 'Henham' && control.name !== 'Writtle' && control.km < 900;
+    // Use the complete control list from the event's main start location;
+    // ids are registry ids, so checkpoints are matched through the alias table
+    const startLocation = getDefaultStartLocation(event);
+    const allControls = startLocation.controls.map(control => {
+      const definition = getControlDefinition(control.id, event);
       
       return {
-        id: `${control.name}-${index}`,
+        id: control.id,
         name: control.name,
         km: control.km,
-        leg: isNorthbound ? 'North' : 'South' as 'North' | 'South',
+        leg: definition?.direction === 'south' ? 'South' : 'North' as 'North' | 'South',
         isReturn: control.description?.includes('Return') || false,
         description: control.description
       };
     });
     
     return allControls;
-  }, []);
+  }, [event]);
   
   return {
     controls,
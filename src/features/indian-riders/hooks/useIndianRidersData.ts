@@ -1,19 +1,12 @@
 import { useMemo } from 'react';
-import { useGlobalData } from '@/contexts/GlobalDataStore';
-import type { Rider } from '../types';
-import { shouldBeMarkedDNF } from '../utils/riderCalculations';
-
-interface IndianRidersStatistics {
-  total: number;
-  inProgress: number;
-  finished: number;
-  dnf: number;
-  notStarted: number;
-}
+import { useGlobalDataActions, useGlobalDataSelector } from '@/contexts/GlobalDataStore';
+import { selectRawTrackingData } from '@/contexts/globalDataSelectors';
+import type { Rider, RiderStatistics } from '../types';
+import { calculateRiderStatistics } from '../utils/riderCalculations';
 
 interface UseIndianRidersDataReturn {
   riders: Rider[];
-  statistics: IndianRidersStatistics;
+  statistics: RiderStatistics;
   loading: boolean;
   error: string | null;
   lastUpdateTime: Date | null;
@@ -21,15 +14,12 @@ interface UseIndianRidersDataReturn {
 }
 
 export const useIndianRidersData = (): UseIndianRidersDataReturn => {
-  const { 
-    rawTrackingData,
-    loading: globalLoading,
-    errors: globalError,
-    refreshTracking: originalRefreshTracking
-  } = useGlobalData();
+  const rawTrackingData = useGlobalDataSelector(selectRawTrackingData);
+  const loading = useGlobalDataSelector(state => state.loading.tracking);
+  const trackingError = useGlobalDataSelector(state => state.errors.tracking);
+  const { refreshTracking: originalRefreshTracking } = useGlobalDataActions();
   
-  const loading = globalLoading.tracking;
-  const error = globalError.tracking ? globalError.tracking.message : null;
+  const error = trackingError ? trackingError.message : null;
   
   // Extract riders from tracking data
   const riders = useMemo(() => {
@@ -38,16 +28,7 @@ export const useIndianRidersData = (): UseIndianRidersDataReturn => {
   }, [rawTrackingData]);
   
   // Calculate statistics
-  const statistics = useMemo((): IndianRidersStatistics => {
-    if (!riders.length) return { total: 0, inProgress: 0, finished: 0, dnf: 0, notStarted: 0 };
-    
-    const inProgress = riders.filter((r: Rider) => r.status === 'in_progress' && !shouldBeMarkedDNF(r)).length;
-    const finished = riders.filter((r: Rider) => r.status === 'finished').length;
-    const dnf = riders.filter((r: Rider) => r.status === 'dnf' || shouldBeMarkedDNF(r)).length;
-    const notStarted = riders.filter((r: Rider) => r.status === 'not_started').length;
-    
-    return { total: riders.length, inProgress, finished, dnf, notStarted };
-  }, [riders]);
+  const statistics = useMemo(() => calculateRiderStatistics(riders), [riders]);
   
   // Get last update time
   const lastUpdateTime = useMemo(() => {
@@ -1,38 +1,83 @@
-import { useState, useMemo } from 'react';
+import { useMemo } from 'react';
+import { useEvent } from '@/contexts/EventContext';
+import { useUrlViewState } from '@/hooks/useUrlViewState';
+import type { RiderSortBy } from '@/types/enhanced';
 import type { Rider } from '../types';
-import { calculateRiderDistance } from '../utils/riderCalculations';
+import { calculateAverageSpeed, calculateRiderDistance } from '../utils/riderCalculations';
+
+type RiderStatusFilter = Rider['status'] | null;
+
+// Orders the timeline offers; any other sort in the URL falls back to distance
+export type RiderSearchSort = Extract<RiderSortBy, 'distance' | 'speed' | 'name' | 'rider_no'>;
+
+const SEARCH_SORTS: readonly RiderSearchSort[] = ['distance', 'speed', 'name', 'rider_no'];
 
 interface UseRiderSearchReturn {
   searchTerm: string;
   setSearchTerm: (term: string) => void;
+  statusFilter: RiderStatusFilter;
+  setStatusFilter: (status: RiderStatusFilter) => void;
+  sortBy: RiderSearchSort;
+  setSortBy: (sortBy: RiderSearchSort) => void;
   filteredRiders: Rider[];
 }
 
+/**
+ * Search, status filter and order of a page's riders, kept in the URL
+ */
 export const useRiderSearch = (riders: Rider[]): UseRiderSearchReturn => {
-  const [searchTerm, setSearchTerm] = useState('');
-  
+  const event = useEvent();
+  const { state: urlViewState, update: updateUrlViewState } = useUrlViewState();
+  const { filters } = urlViewState;
+  const searchTerm = filters.searchTerm || '';
+  const statusFilter = filters.status || null;
+  const sortBy = SEARCH_SORTS.find(option => option === urlViewState.sortBy) || 'distance';
+
   const filteredRiders = useMemo(() => {
     let filtered = riders;
-    
+
     // Filter by search term
     if (searchTerm) {
-      filtered = filtered.filter((rider: Rider) => 
+      filtered = filtered.filter((rider: Rider) =>
         rider.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         rider.rider_no.toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
-    
-    // Sort riders by distance (descending)
-    filtered = [...filtered].sort((a: Rider, b: Rider) => {
-      return calculateRiderDistance(b) - calculateRiderDistance(a);
-    });
-    
-    return filtered;
-  }, [riders, searchTerm]);
-  
+
+    if (statusFilter) {
+      filtered = filtered.filter((rider: Rider) => rider.status === statusFilter);
+    }
+
+    switch (sortBy) {
+      case 'speed':
+        return [...filtered].sort((a: Rider, b: Rider) =>
+          calculateAverageSpeed(b, event) - calculateAverageSpeed(a, event)
+        );
+      case 'name':
+        return [...filtered].sort((a: Rider, b: Rider) => a.name.localeCompare(b.name));
+      case 'rider_no':
+        return [...filtered].sort((a: Rider, b: Rider) =>
+          a.rider_no.localeCompare(b.rider_no, undefined, { numeric: true })
+        );
+      default:
+        // Sort riders by distance (descending)
+        return [...filtered].sort((a: Rider, b: Rider) => {
+          return calculateRiderDistance(b, event) - calculateRiderDistance(a, event);
+        });
+    }
+  }, [riders, searchTerm, statusFilter, sortBy, event]);
+
   return {
     searchTerm,
-    setSearchTerm,
+    // Typing replaces the history entry instead of adding one per keystroke
+    setSearchTerm: (term: string) =>
+      updateUrlViewState({ filters: { ...filters, searchTerm: term } }, { replace: true }),
+    statusFilter,
+    setStatusFilter: (status: RiderStatusFilter) =>
+      updateUrlViewState({ filters: { ...filters, status: status || undefined } }),
+    sortBy,
+    setSortBy: (option: RiderSearchSort) =>
+      updateUrlViewState({ sortBy: option === 'distance' ? null : option }),
     filteredRiders
   };
-};
\ No newline at end of file
+};
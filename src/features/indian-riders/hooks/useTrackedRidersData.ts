@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { useGlobalDataActions, useGlobalDataSelector } from '@/contexts/GlobalDataStore';
+import { selectEnhancedRiders, selectRawTrackingByRider } from '@/contexts/globalDataSelectors';
+import { useWaveTracking } from '@/hooks/useWaveTracking';
+import { extractWaveCode } from '@/utils/dataProcessors';
+import type { Rider, RiderStatistics } from '../types';
+import { calculateRiderStatistics } from '../utils/riderCalculations';
+
+interface UseTrackedRidersDataReturn {
+  riders: Rider[];
+  statistics: RiderStatistics;
+  /** Bib numbers not in the rider list (typos, riders who withdrew) */
+  unknownRiderNumbers: string[];
+  loading: boolean;
+  error: string | null;
+  lastUpdateTime: Date | null;
+  refreshData: () => Promise<void>;
+}
+
+/**
+ * Tracking for any set of riders (a group, a country), loaded from their wave shards
+ * @param riderNumbers - Bib numbers to follow
+ */
+export const useTrackedRidersData = (riderNumbers: string[]): UseTrackedRidersDataReturn => {
+  const enhancedRiders = useGlobalDataSelector(selectEnhancedRiders);
+  const rawTrackingByRider = useGlobalDataSelector(selectRawTrackingByRider);
+  const globalLoading = useGlobalDataSelector(state => state.loading);
+  const globalErrors = useGlobalDataSelector(state => state.errors);
+  const { refreshTracking } = useGlobalDataActions();
+  
+  const waveCodes = useMemo(() => riderNumbers.map(extractWaveCode).filter(Boolean), [riderNumbers]);
+  const tracking = useWaveTracking(waveCodes);
+  
+  const registeredRiders = useMemo(() => {
+    return new Map(enhancedRiders.map(rider => [rider.rider_no, rider]));
+  }, [enhancedRiders]);
+  
+  const riders = useMemo(() => {
+    return riderNumbers.flatMap((riderNo): Rider[] => {
+      const tracked = rawTrackingByRider.get(riderNo);
+      if (tracked) return [tracked];
+      
+      // Registered but nothing in the feeds yet
+      const registered = registeredRiders.get(riderNo);
+      return registered ? [{
+        rider_no: registered.rider_no,
+        name: registered.name,
+        status: 'not_started',
+        checkpoints: [],
+        distance_km: 0,
+        last_checkpoint: null,
+        actual_start: registered.actual_start
+      }] : [];
+    });
+  }, [riderNumbers, rawTrackingByRider, registeredRiders]);
+  
+  const unknownRiderNumbers = useMemo(() => {
+    if (globalLoading.riders) return [];
+    return riderNumbers.filter(riderNo => !registeredRiders.has(riderNo) && !rawTrackingByRider.has(riderNo));
+  }, [riderNumbers, registeredRiders, rawTrackingByRider, globalLoading.riders]);
+  
+  const statistics = useMemo(() => calculateRiderStatistics(riders), [riders]);
+  
+  // Only the first load blocks the page; refreshes keep the current data on screen
+  const loading = globalLoading.riders || (tracking.loading && !tracking.lastUpdated && !tracking.error);
+  
+  let error: string | null = null;
+  if (globalErrors.riders) {
+    error = globalErrors.riders.message;
+  } else if (tracking.error && riders.every(rider => !rawTrackingByRider.has(rider.rider_no))) {
+    error = tracking.error.message;
+  }
+  
+  return {
+    riders,
+    statistics,
+    unknownRiderNumbers,
+    loading,
+    error,
+    lastUpdateTime: tracking.lastUpdated,
+    refreshData: refreshTracking
+  };
+};
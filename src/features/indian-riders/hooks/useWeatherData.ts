@@ -1,48 +1,47 @@
-import { useState, useEffect } from 'react';
-import { weatherService, type WeatherResponse, type ControlWeatherData } from '../services/weatherService';
+import { useState, useEffect, useCallback } from 'react';
+import { useEvent } from '@/contexts/EventContext';
+import { getEventDataUrl } from '@/config/events';
+import { useRefreshInterval } from '@/contexts/GlobalDataStore';
+import { useRefreshTask } from '@/hooks/useRefreshTask';
+import type { ApiError } from '@/types/index';
+import {
+  weatherService,
+  findControlWeather,
+  type WeatherResponse,
+  type ControlWeatherData
+} from '../services/weatherService';
 
 export const useWeatherData = () => {
+  const event = useEvent();
+  const refreshInterval = useRefreshInterval('weather');
   const [weatherData, setWeatherData] = useState<WeatherResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const fetchWeather = async () => {
-      try {
-        setLoading(true);
-        const data = await weatherService.fetchWeatherData();
-        setWeatherData(data);
-        setError(null);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch weather data');
-      } finally {
-        setLoading(false);
-      }
-    };
+  const fetchWeather = useCallback(async (): Promise<boolean> => {
+    try {
+      setLoading(true);
+      const data = await weatherService.fetchWeatherData(getEventDataUrl(event, 'weather'));
+      setWeatherData(data);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to fetch weather data');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, [event]);
 
+  useEffect(() => {
     fetchWeather();
-    
-    // Refresh weather data every 10 minutes
-    const interval = setInterval(fetchWeather, 10 * 60 * 1000);
-    
-    return () => clearInterval(interval);
-  }, []);
+  }, [fetchWeather]);
+
+  useRefreshTask('weather', fetchWeather, refreshInterval);
 
-  const getWeatherForControl = (controlName: string): ControlWeatherData | null => {
+  const getWeatherForControl = (controlId: string): ControlWeatherData | null => {
     if (!weatherData || !weatherData.weather) return null;
-    
-    // Clean control name (remove direction suffixes)
-    const cleanName = controlName.replace(/\s+[NSEW]$/, '');
-    
-    const found = weatherData.weather.find(
-      weather => 
-        weather.control_name === cleanName ||
-        weather.control_name === controlName ||
-        cleanName.includes(weather.control_name) ||
-        weather.control_name.includes(cleanName)
-    );
-    
-    return found || null;
+    return findControlWeather(weatherData.weather, controlId, event);
   };
 
   return {
@@ -1,4 +1,13 @@
-import { API_CONFIG } from '@/config/api';
+import { getApiUrl } from '@/config/api';
+import { dataClient, toApiError } from '@/services/dataClient';
+import {
+  DEFAULT_EVENT,
+  getControlWeatherName,
+  normalizeControlName,
+  type EventDefinition
+} from '@/config/events';
+import { reportValidationIssues } from '@/utils/dataProcessors/feedValidators';
+import { validateWeatherFeed } from './weatherValidator';
 
 export interface HourlyForecast {
   time: string; // ISO format timestamp
@@ -72,77 +81,58 @@ export interface WeatherResponse {
 
 class WeatherService {
   private weatherCache: WeatherResponse | null = null;
+  private cacheUrl: string | null = null;
   private lastFetchTime: number = 0;
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
-  async fetchWeatherData(): Promise<WeatherResponse> {
+  async fetchWeatherData(url: string = getApiUrl('weather')): Promise<WeatherResponse> {
     const now = Date.now();
     
     // Return cached data if still fresh
-    if (this.weatherCache && (now - this.lastFetchTime) < this.CACHE_DURATION) {
+    if (this.weatherCache && this.cacheUrl === url && (now - this.lastFetchTime) < this.CACHE_DURATION) {
       return this.weatherCache;
     }
 
     try {
-      // Add cache-busting parameter
-      const cacheBuster = `?t=${Date.now()}`;
-      const url = `${API_CONFIG.BASE_URL}/control-weather.json${cacheBuster}`;
-      
-      console.log('Fetching weather from:', url);
-      
-      const response = await fetch(url, {
-        cache: 'no-cache',
-        headers: {
-          'Cache-Control': 'no-cache',
-          'Pragma': 'no-cache'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch weather data: ${response.statusText}`);
-      }
+      const payload = await dataClient.getJson(url, { validate: validateWeatherFeed });
 
-      const data = await response.json();
-      
-      // Log sample data to verify what we're getting
-      if (data.weather && data.weather.length > 0 && data.weather[0].hourly_forecast) {
-        const sample = data.weather[0];
-        console.log('Weather data for:', sample.control_name);
-        console.log('Historical hours:', sample.hourly_forecast.filter((h: HourlyForecast) => h.is_historical).length);
-        console.log('Future hours:', sample.hourly_forecast.filter((h: HourlyForecast) => !h.is_historical).length);
-        console.log('First 3 hours:', sample.hourly_forecast.slice(0, 3).map((h: HourlyForecast) => ({
-          time: h.time,
-          is_historical: h.is_historical
-        })));
-      }
+      const { data, issues } = validateWeatherFeed(payload);
+      reportValidationIssues('control-weather.json', issues);
       
       this.weatherCache = data;
+      this.cacheUrl = url;
       this.lastFetchTime = now;
       return data;
     } catch (error) {
       console.error('Error fetching weather data:', error);
       // Return cached data if available, even if stale
-      if (this.weatherCache) {
+      if (this.weatherCache && this.cacheUrl === url) {
         return this.weatherCache;
       }
-      throw error;
+      throw toApiError(error, 'control-weather.json');
     }
   }
 
-  getWeatherForControl(controlName: string): ControlWeatherData | null {
+  getWeatherForControl(controlId: string, event: EventDefinition = DEFAULT_EVENT): ControlWeatherData | null {
     if (!this.weatherCache || !this.weatherCache.weather) return null;
-
-    // Clean control name (remove direction suffixes)
-    const cleanName = controlName.replace(/\s+[NSEW]$/, '');
-    
-    return this.weatherCache.weather.find(
-      weather => 
-        weather.control_name === cleanName ||
-        weather.control_name === controlName ||
-        cleanName.includes(weather.control_name) ||
-        weather.control_name.includes(cleanName)
-    ) || null;
+    return findControlWeather(this.weatherCache.weather, controlId, event);
   }
 }
 
+/**
+ * Find the weather entry for a registered control
+ * Northbound and southbound visits share the weather of their town.
+ */
+export const findControlWeather = (
+  weather: ControlWeatherData[],
+  controlId: string,
+  event: EventDefinition
+): ControlWeatherData | null => {
+  const weatherName = getControlWeatherName(controlId, event);
+  if (!weatherName) return null;
+
+  const key = normalizeControlName(weatherName);
+  return weather.find(entry => normalizeControlName(entry.control_name) === key) || null;
+};
+
 export const weatherService = new WeatherService();
\ No newline at end of file
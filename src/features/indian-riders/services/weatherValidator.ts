@@ -0,0 +1,221 @@
+import {
+  FeedValidationError,
+  asRecord,
+  readBoolean,
+  readNumber,
+  readOptionalNumber,
+  readString,
+  validateArray,
+  type FieldRecord,
+  type ValidationIssue,
+  type ValidationResult
+} from '@/utils/dataProcessors/feedValidators';
+import type { ControlWeatherData, HourlyForecast, WeatherResponse } from './weatherService';
+
+// Read a group of required fields of one type; undefined if any is broken
+const readFields = <T>(
+  record: FieldRecord,
+  keys: string[],
+  path: string,
+  issues: ValidationIssue[],
+  read: (record: FieldRecord, key: string, path: string, issues: ValidationIssue[]) => T | undefined
+): Record<string, T> | undefined => {
+  const values: Record<string, T> = {};
+  let valid = true;
+
+  keys.forEach(key => {
+    const value = read(record, key, path, issues);
+    if (value === undefined) {
+      valid = false;
+    } else {
+      values[key] = value;
+    }
+  });
+
+  return valid ? values : undefined;
+};
+
+const validateHour = (value: unknown, path: string, issues: ValidationIssue[]): HourlyForecast | undefined => {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const strings = readFields(record, ['time', 'condition', 'description'], path, issues, readString);
+  const numbers = readFields(record, [
+    'time_unix', 'temperature', 'feels_like', 'precipitation_probability',
+    'precipitation', 'wind_speed', 'wind_direction', 'weather_code'
+  ], path, issues, readNumber);
+  const isHistorical = readBoolean(record, 'is_historical', path, issues);
+  const hoursFromNow = readOptionalNumber(record, 'hours_from_now', path, issues);
+  if (!strings || !numbers || isHistorical === undefined) return undefined;
+
+  return {
+    time: strings.time,
+    time_unix: numbers.time_unix,
+    is_historical: isHistorical,
+    hours_from_now: hoursFromNow ?? null,
+    temperature: numbers.temperature,
+    feels_like: numbers.feels_like,
+    precipitation_probability: numbers.precipitation_probability,
+    precipitation: numbers.precipitation,
+    wind_speed: numbers.wind_speed,
+    wind_direction: numbers.wind_direction,
+    weather_code: numbers.weather_code,
+    condition: strings.condition,
+    description: strings.description
+  };
+};
+
+const validateMetadata = (
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): ControlWeatherData['metadata'] | undefined => {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const strings = readFields(record, [
+    'description', 'current_utc_time', 'current_local_time', 'timezone', 'note'
+  ], path, issues, readString);
+  const numbers = readFields(record, [
+    'total_hours', 'historical_hours', 'forecast_hours'
+  ], path, issues, readNumber);
+  if (!strings || !numbers) return undefined;
+
+  return {
+    description: strings.description,
+    current_utc_time: strings.current_utc_time,
+    current_local_time: strings.current_local_time,
+    total_hours: numbers.total_hours,
+    historical_hours: numbers.historical_hours,
+    forecast_hours: numbers.forecast_hours,
+    timezone: strings.timezone,
+    note: strings.note
+  };
+};
+
+const validateControlWeather = (value: unknown, path: string, issues: ValidationIssue[]): ControlWeatherData | undefined => {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const controlId = readString(record, 'control_id', path, issues);
+  const controlName = readString(record, 'control_name', path, issues);
+
+  const coordinatesRecord = asRecord(record.coordinates, `${path}.coordinates`, issues);
+  const coordinates = coordinatesRecord
+    ? readFields(coordinatesRecord, ['lat', 'lon'], `${path}.coordinates`, issues, readNumber)
+    : undefined;
+
+  const currentPath = `${path}.current`;
+  const currentRecord = asRecord(record.current, currentPath, issues);
+  const currentStrings = currentRecord
+    ? readFields(currentRecord, ['temperature_unit', 'condition', 'description'], currentPath, issues, readString)
+    : undefined;
+  const currentNumbers = currentRecord
+    ? readFields(currentRecord, [
+      'temperature', 'condition_code', 'wind_speed', 'wind_direction', 'humidity',
+      'pressure', 'uv_index', 'feels_like', 'precipitation'
+    ], currentPath, issues, readNumber)
+    : undefined;
+
+  const forecastRecord = asRecord(record.forecast_24h, `${path}.forecast_24h`, issues);
+  const forecast = forecastRecord
+    ? readFields(forecastRecord, ['rain_probability', 'max_temp', 'min_temp'], `${path}.forecast_24h`, issues, readNumber)
+    : undefined;
+
+  if (
+    controlId === undefined || controlName === undefined || !coordinates ||
+    !currentStrings || !currentNumbers || !forecast
+  ) {
+    return undefined;
+  }
+
+  const weather: ControlWeatherData = {
+    control_id: controlId,
+    control_name: controlName,
+    coordinates: { lat: coordinates.lat, lon: coordinates.lon },
+    current: {
+      temperature: currentNumbers.temperature,
+      temperature_unit: currentStrings.temperature_unit,
+      condition: currentStrings.condition,
+      condition_code: currentNumbers.condition_code,
+      description: currentStrings.description,
+      wind_speed: currentNumbers.wind_speed,
+      wind_direction: currentNumbers.wind_direction,
+      humidity: currentNumbers.humidity,
+      pressure: currentNumbers.pressure,
+      uv_index: currentNumbers.uv_index,
+      feels_like: currentNumbers.feels_like,
+      precipitation: currentNumbers.precipitation
+    },
+    forecast_24h: {
+      rain_probability: forecast.rain_probability,
+      max_temp: forecast.max_temp,
+      min_temp: forecast.min_temp
+    }
+  };
+
+  // Optional sections are dropped on their own without losing the control
+  if (record.hourly_forecast !== undefined && record.hourly_forecast !== null) {
+    const hours = validateArray(record.hourly_forecast, `${path}.hourly_forecast`, issues, (item, itemPath) =>
+      validateHour(item, itemPath, issues)
+    );
+    if (hours) weather.hourly_forecast = hours;
+  }
+
+  if (record.metadata !== undefined && record.metadata !== null) {
+    const metadata = validateMetadata(record.metadata, `${path}.metadata`, issues);
+    if (metadata) weather.metadata = metadata;
+  }
+
+  return weather;
+};
+
+const validateEventControl = (
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): WeatherResponse['event']['controls'][number] | undefined => {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const strings = readFields(record, ['id', 'name', 'leg'], path, issues, readString);
+  const km = readNumber(record, 'km', path, issues);
+  if (!strings || km === undefined) return undefined;
+
+  return { id: strings.id, name: strings.name, km, leg: strings.leg };
+};
+
+/**
+ * Validate control-weather.json
+ * @param payload - Parsed JSON
+ * @returns Valid weather data and issues
+ * @throws FeedValidationError if the payload has no weather array
+ */
+export const validateWeatherFeed = (payload: unknown): ValidationResult<WeatherResponse> => {
+  const issues: ValidationIssue[] = [];
+  const record = asRecord(payload, '$', issues);
+  const weather = record
+    ? validateArray(record.weather, '$.weather', issues, (item, path) => validateControlWeather(item, path, issues))
+    : undefined;
+
+  if (!record || !weather) throw new FeedValidationError('control-weather.json', issues);
+
+  // The event block only describes the controls; keep going without it
+  let event: WeatherResponse['event'] = { name: '', distance_km: 0, controls: [] };
+  const eventRecord = asRecord(record.event, '$.event', issues);
+  if (eventRecord) {
+    const name = readString(eventRecord, 'name', '$.event', issues);
+    const distance = readNumber(eventRecord, 'distance_km', '$.event', issues);
+    const controls = validateArray(eventRecord.controls, '$.event.controls', issues, (item, path) =>
+      validateEventControl(item, path, issues)
+    );
+    event = { name: name ?? '', distance_km: distance ?? 0, controls: controls ?? [] };
+  }
+
+  const lastUpdated = readString(record, 'last_updated', '$', issues);
+
+  return {
+    data: { event, weather, last_updated: lastUpdated ?? '' },
+    issues
+  };
+};
@@ -19,8 +19,18 @@ export interface TrackingRider {
   elapsed_time?: number;
   average_speed?: number;
   estimated_distance?: number;
+  actual_start?: string; // Start time if the rider left after their wave
   instagram?: string; // Instagram profile URL
 }
 
 // Alias for compatibility
-export type Rider = TrackingRider;
\ No newline at end of file
+export type Rider = TrackingRider;
+
+// Status counts shown in the statistics panel
+export interface RiderStatistics {
+  total: number;
+  inProgress: number;
+  finished: number;
+  dnf: number;
+  notStarted: number;
+}
@@ -1,12 +1,13 @@
 import React from 'react';
-import { isLondonStartRider } from '@/config/lel-route';
+import { getExtraDistanceForRider } from '@/config/lel-route';
+import { DEFAULT_EVENT, type EventDefinition } from '@/config/events';
 
-export const formatRiderName = (name: string, riderNo: string) => {
-  const isLondonStart = isLondonStartRider(riderNo);
+export const formatRiderName = (name: string, riderNo: string, event: EventDefinition = DEFAULT_EVENT) => {
+  const extraDistance = getExtraDistanceForRider(riderNo, event);
   return (
     <>
       {name}
-      {isLondonStart && <sup className="text-xs text-muted-foreground ml-1">+20km</sup>}
+      {extraDistance > 0 && <sup className="text-xs text-muted-foreground ml-1">+{extraDistance}km</sup>}
     </>
   );
 };
\ No newline at end of file
@@ -1,7 +1,10 @@
-import type { Rider } from '../types';
-import { isLondonStartRider, getControlsForRider } from '@/config/lel-route';
+import type { Rider, RiderStatistics } from '../types';
+import { getCheckpointVisit } from '@/config/lel-route';
+import { DEFAULT_EVENT, visitMatchesControl, type EventDefinition } from '@/config/events';
+import { parseCheckpointSequence, parseEventTimestamp } from '@/utils/eventTimestamp';
+import { systemClock } from '@/utils/clock';
 
-export const calculateRiderDistance = (rider: Rider): number => {
+export const calculateRiderDistance = (rider: Rider, event: EventDefinition = DEFAULT_EVENT): number => {
   if (!rider.checkpoints || rider.checkpoints.length === 0) {
     return 0;
   }
@@ -11,70 +14,44 @@ export const calculateRiderDistance = (rider: Rider): number => {
     return 0;
   }
   
-  // Get the controls for this rider
-  const controls = getControlsForRider(rider.rider_no);
-  
-  // Clean checkpoint name (remove direction suffixes like N, S, E, W)
-  const cleanCheckpointName = lastCheckpoint.name.replace(/\s+[NSEW]$/, '');
-  
-  // Find the matching control
-  const matchingControl = controls.find(control => 
-    control.name === cleanCheckpointName ||
-    control.name === lastCheckpoint.name ||
-    lastCheckpoint.name.includes(control.name) ||
-    control.name.includes(cleanCheckpointName)
+  const visit = getCheckpointVisit(lastCheckpoint.name, rider.rider_no, event);
+  return visit ? visit.km : 0;
+};
+
+// Index of the checkpoint where the rider reached a control (-1 if not reached)
+export const findControlCheckpointIndex = (
+  rider: Rider,
+  controlId: string,
+  event: EventDefinition = DEFAULT_EVENT
+): number => {
+  return rider.checkpoints.findIndex(cp =>
+    visitMatchesControl(getCheckpointVisit(cp.name, rider.rider_no, event), controlId, event)
   );
-  
-  if (matchingControl) {
-    return matchingControl.km;
-  }
-  
-  // If no match found, return 0
-  return 0;
 };
 
-export const calculateAverageSpeed = (rider: Rider): number => {
-  const currentDistance = calculateRiderDistance(rider);
+// Whether the rider's latest checkpoint is at a control
+export const isRiderAtControl = (
+  rider: Rider,
+  controlId: string,
+  event: EventDefinition = DEFAULT_EVENT
+): boolean => {
+  const lastCheckpoint = rider.checkpoints[rider.checkpoints.length - 1];
+  if (!lastCheckpoint) return false;
+  return visitMatchesControl(getCheckpointVisit(lastCheckpoint.name, rider.rider_no, event), controlId, event);
+};
+
+export const calculateAverageSpeed = (rider: Rider, event: EventDefinition = DEFAULT_EVENT): number => {
+  const currentDistance = calculateRiderDistance(rider, event);
   
   if (currentDistance === 0 || rider.checkpoints.length <= 1) {
     return 0;
   }
   
-  // Get actual start time from first checkpoint
-  const startCheckpoint = rider.checkpoints[0];
-  const lastCheckpoint = rider.checkpoints[rider.checkpoints.length - 1];
-  
-  // Calculate elapsed time using proper date parsing
-  const parseCheckpointDate = (timeStr: string): Date => {
-    const parts = timeStr.split(' ');
-    if (parts.length < 2) return new Date();
-    
-    const dayName = parts[0];
-    const time = parts[1];
-    const [hours, minutes] = time.split(':').map(Number);
-    
-    // Event starts on Sunday August 3, 2025
-    const eventStartDate = new Date('2025-08-03T00:00:00');
-    const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const dayIndex = daysOfWeek.indexOf(dayName);
-    
-    if (dayIndex !== -1) {
-      const checkpointDate = new Date(eventStartDate);
-      // Calculate days from start (Sunday = 0, Monday = 1, etc.)
-      let daysFromStart = dayIndex;
-      // Handle week wraparound if needed
-      if (daysFromStart < 0) daysFromStart += 7;
-      
-      checkpointDate.setDate(eventStartDate.getDate() + daysFromStart);
-      checkpointDate.setHours(hours, minutes, 0, 0);
-      return checkpointDate;
-    }
-    
-    return new Date();
-  };
-  
-  const startDate = parseCheckpointDate(startCheckpoint.time);
-  const lastDate = parseCheckpointDate(lastCheckpoint.time);
+  // Resolve checkpoint times in order so later days never land before the start
+  const instants = parseCheckpointSequence(rider.checkpoints.map(cp => cp.time), event);
+  const startDate = instants[0];
+  const lastDate = instants[instants.length - 1];
+  if (!startDate || !lastDate) return 0;
   
   const elapsedMs = lastDate.getTime() - startDate.getTime();
   const elapsedHours = elapsedMs / (1000 * 60 * 60);
@@ -91,72 +68,40 @@ export const shouldBeMarkedDNF = (rider: Rider): boolean => {
   return rider.status === 'dnf';
 };
 
-export const getHoursSinceCheckpoint = (checkpointTime: string): number => {
-  // ⚠️ CRITICAL: This function calculates hours since checkpoint in UK TIME ⚠️
-  // All checkpoint times are UK times, calculations must use UK time
+export const calculateRiderStatistics = (riders: Rider[]): RiderStatistics => {
+  const inProgress = riders.filter(r => r.status === 'in_progress' && !shouldBeMarkedDNF(r)).length;
+  const finished = riders.filter(r => r.status === 'finished').length;
+  const dnf = riders.filter(r => r.status === 'dnf' || shouldBeMarkedDNF(r)).length;
+  const notStarted = riders.filter(r => r.status === 'not_started').length;
   
-  if (!checkpointTime || checkpointTime === '-') return 0;
-  
-  try {
-    // Get current time and format it properly
-    const now = new Date();
-    
-    // Parse checkpoint time - format is "Sunday 13:45" or just "13:45"
-    const parts = checkpointTime.split(' ');
-    const timeStr = parts[parts.length - 1];
-    const [checkpointHours, checkpointMinutes] = timeStr.split(':').map(Number);
-    
-    if (isNaN(checkpointHours) || isNaN(checkpointMinutes)) return 0;
-    
-    // Create two dates in UK timezone to compare
-    // First, create a date for the checkpoint
-    const eventStartDate = new Date('2025-08-03T00:00:00'); // Sunday Aug 3, 2025
-    
-    let checkpointDate: Date;
-    
-    if (parts.length > 1 && parts[0]) {
-      // We have a day name like "Sunday 13:45"
-      const dayName = parts[0];
-      const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      const dayIndex = daysOfWeek.indexOf(dayName);
-      
-      if (dayIndex !== -1) {
-        // Calculate the actual date for this checkpoint
-        checkpointDate = new Date(eventStartDate);
-        checkpointDate.setDate(eventStartDate.getDate() + dayIndex);
-        checkpointDate.setHours(checkpointHours, checkpointMinutes, 0, 0);
-      } else {
-        // Shouldn't happen, but fallback
-        console.warn('Unknown day name in checkpoint time:', dayName);
-        return 0;
-      }
-    } else {
-      // No day name, just time - this shouldn't happen in LEL data
-      console.warn('Checkpoint time without day name:', checkpointTime);
-      return 0;
-    }
-    
-    // Calculate difference in milliseconds
-    const diffMs = now.getTime() - checkpointDate.getTime();
-    const hours = diffMs / (1000 * 60 * 60);
-    
-    // Return hours, but ensure it's not negative (shouldn't be possible, but just in case)
-    return Math.max(0, hours);
-  } catch (error) {
-    console.error('Error calculating hours since checkpoint:', error, checkpointTime);
-    return 0;
-  }
+  return { total: riders.length, inProgress, finished, dnf, notStarted };
 };
 
-export const calculateTimeAgo = (checkpointTime: string): string => {
-  // ⚠️ CRITICAL TIMEZONE INFORMATION ⚠️
-  // ALL checkpoint times in the JSON are in UK TIME (Europe/London)
-  // The LEL event is in the UK, so ALL times are UK times
-  
+export const getHoursSinceCheckpoint = (
+  checkpointTime: string,
+  event: EventDefinition = DEFAULT_EVENT,
+  now: Date = systemClock.now()
+): number => {
+  // Checkpoint times are wall-clock times in the event timezone; the parser
+  // turns them into absolute instants so they compare directly with `now`
+  const checkpointDate = parseEventTimestamp(checkpointTime, event, { notAfter: now });
+  if (!checkpointDate) return 0;
+  
+  const hours = (now.getTime() - checkpointDate.getTime()) / (1000 * 60 * 60);
+  
+  // Return hours, but ensure it's not negative (shouldn't be possible, but just in case)
+  return Math.max(0, hours);
+};
+
+export const calculateTimeAgo = (
+  checkpointTime: string,
+  event: EventDefinition = DEFAULT_EVENT,
+  now: Date = systemClock.now()
+): string => {
   if (!checkpointTime || checkpointTime === '-') return '';
   
   try {
-    const hours = getHoursSinceCheckpoint(checkpointTime);
+    const hours = getHoursSinceCheckpoint(checkpointTime, event, now);
     const minutesAgo = Math.floor(hours * 60);
     
     if (minutesAgo < 0) return ''; // Future time
@@ -2,7 +2,9 @@ import React from 'react';
 import { Activity, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import type { Rider } from '../types';
+import type { CutoffStatus } from '@/utils/dataProcessors/cutoffProcessors';
 import { shouldBeMarkedDNF } from './riderCalculations';
+import { formatCutoffMargin } from './timeFormatters';
 
 export const getStatusBadge = (status: string, rider?: Rider) => {
   // Check if rider should be marked as DNF due to 16+ hours without update
@@ -49,4 +51,18 @@ export const getStatusIcon = (status: string, rider?: Rider, averageSpeed?: numb
     default:
       return null;
   }
-};
\ No newline at end of file
+};
+
+export const getCutoffBadge = (cutoff: CutoffStatus, className: string = '') => {
+  const margin = cutoff.projectedMarginMinutes ?? cutoff.timeInHandMinutes;
+  const title = margin !== null ? `${formatCutoffMargin(margin)} against the cutoff` : undefined;
+  
+  switch (cutoff.state) {
+    case 'missed':
+      return <Badge className={`bg-red-600 text-white ${className}`} title={title}>Past cutoff</Badge>;
+    case 'warning':
+      return <Badge className={`bg-amber-500 text-white ${className}`} title={title}>Near cutoff</Badge>;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,35 @@
+import type { TrackingSnapshot } from '@/utils/dataProcessors/changeProcessors';
+
+// One snapshot per event and page ("indian-riders", "group:<id>", ...)
+export const getVisitSnapshotKey = (eventId: string, scope: string): string => `last-visit:${eventId}:${scope}`;
+
+const isTrackingSnapshot = (value: unknown): value is TrackingSnapshot => {
+  if (!value || typeof value !== 'object') return false;
+  const snapshot = value as Record<string, unknown>;
+  return typeof snapshot.savedAt === 'string' &&
+    !isNaN(Date.parse(snapshot.savedAt)) &&
+    !!snapshot.riders &&
+    typeof snapshot.riders === 'object';
+};
+
+export const loadVisitSnapshot = (key: string): TrackingSnapshot | null => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    if (!stored) return null;
+
+    const parsed: unknown = JSON.parse(stored);
+    return isTrackingSnapshot(parsed) ? parsed : null;
+  } catch (error) {
+    console.warn('[LastVisit] Could not read the last visit:', error);
+    return null;
+  }
+};
+
+export const saveVisitSnapshot = (key: string, snapshot: TrackingSnapshot): void => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(snapshot));
+  } catch (error) {
+    // Private browsing or a full quota; the next visit just shows no summary
+    console.warn('[LastVisit] Could not save this visit:', error);
+  }
+};
@@ -0,0 +1,127 @@
+import React, { useState, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useGlobalDataSelector } from '@/contexts/GlobalDataStore';
+import { selectEnhancedRiders } from '@/contexts/globalDataSelectors';
+import type { RiderGroup } from '../types';
+import { createGroupId, parseRiderNumbers } from '../utils/groupStorage';
+
+interface GroupEditorProps {
+  /** Group being edited; omit to create a new one */
+  group?: RiderGroup;
+  onSave: (group: RiderGroup) => void;
+  onCancel?: () => void;
+}
+
+export const GroupEditor: React.FC<GroupEditorProps> = ({ group, onSave, onCancel }) => {
+  const enhancedRiders = useGlobalDataSelector(selectEnhancedRiders);
+  const loading = useGlobalDataSelector(state => state.loading);
+  const [name, setName] = useState(group?.name || '');
+  const [riderText, setRiderText] = useState(group?.riderNumbers.join(', ') || '');
+
+  const ridersByNumber = useMemo(() => {
+    return new Map(enhancedRiders.map(rider => [rider.rider_no, rider]));
+  }, [enhancedRiders]);
+
+  const riderNumbers = useMemo(() => parseRiderNumbers(riderText), [riderText]);
+
+  // Until the rider list is in, accept every number as typed
+  const unknownNumbers = loading.riders
+    ? []
+    : riderNumbers.filter(riderNo => !ridersByNumber.has(riderNo));
+  const knownNumbers = riderNumbers.filter(riderNo => !unknownNumbers.includes(riderNo));
+
+  const canSave = name.trim().length > 0 && knownNumbers.length > 0;
+
+  const removeRider = (riderNo: string) => {
+    setRiderText(riderNumbers.filter(number => number !== riderNo).join(', '));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    onSave({
+      id: group?.id || createGroupId(name),
+      name: name.trim(),
+      riderNumbers: knownNumbers,
+      createdAt: group?.createdAt || '',
+      updatedAt: group?.updatedAt || ''
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="group-name" className="block text-sm font-medium mb-1">Group name</label>
+        <Input
+          id="group-name"
+          type="text"
+          placeholder="e.g. Bangalore Randonneurs"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="group-riders" className="block text-sm font-medium mb-1">Rider numbers</label>
+        <textarea
+          id="group-riders"
+          rows={3}
+          placeholder="e.g. A12, LB3, AD45"
+          value={riderText}
+          onChange={(e) => setRiderText(e.target.value)}
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        />
+        <p className="text-xs text-muted-foreground mt-1">Separate numbers with commas or spaces</p>
+      </div>
+
+      {riderNumbers.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {riderNumbers.map(riderNo => {
+            const rider = ridersByNumber.get(riderNo);
+            const isUnknown = unknownNumbers.includes(riderNo);
+
+            return (
+              <li
+                key={riderNo}
+                className={`flex items-center gap-1 rounded-full px-3 py-1 text-xs ${
+                  isUnknown ? 'bg-red-50 text-red-700' : 'bg-secondary'
+                }`}
+              >
+                <span className="font-medium">{riderNo}</span>
+                <span>{rider ? rider.name : isUnknown ? 'Unknown rider' : ''}</span>
+                <button
+                  type="button"
+                  onClick={() => removeRider(riderNo)}
+                  className="ml-1 text-muted-foreground hover:text-foreground"
+                  aria-label={`Remove ${riderNo}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {unknownNumbers.length > 0 && (
+        <p className="text-xs text-red-600">
+          Unknown rider numbers are left out when the group is saved.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={!canSave}>
+          {group ? 'Save changes' : 'Create group'}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useState, useMemo } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Check, Pencil, Save, Share2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useEventPath } from '@/contexts/EventContext';
+import { RidersTimelinePage } from '@/features/indian-riders/components/RidersTimelinePage';
+import { useTrackedRidersData } from '@/features/indian-riders/hooks/useTrackedRidersData';
+import { GroupEditor } from './GroupEditor';
+import { useRiderGroups } from '../hooks/useRiderGroups';
+import type { RiderGroup } from '../types';
+import { getGroupShareSearch, isSameGroup, parseSharedGroup } from '../utils/groupStorage';
+
+const NO_RIDERS: string[] = [];
+
+export const GroupTimelineContainer: React.FC = () => {
+  const { groupId = '' } = useParams<{ groupId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const eventPath = useEventPath();
+  const { getGroup, saveGroup } = useRiderGroups();
+  const [isEditing, setIsEditing] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // A shared link carries the group itself and wins over the saved copy
+  const savedGroup = getGroup(groupId);
+  const sharedGroup = useMemo(() => parseSharedGroup(groupId, searchParams), [groupId, searchParams]);
+  const group = sharedGroup || savedGroup;
+  const isUnsaved = !!sharedGroup && (!savedGroup || !isSameGroup(sharedGroup, savedGroup));
+
+  const data = useTrackedRidersData(group?.riderNumbers || NO_RIDERS);
+
+  const handleSave = (updated: RiderGroup) => {
+    saveGroup(updated);
+    setIsEditing(false);
+    // Drop the shared query so the page follows the saved group from now on
+    navigate(eventPath(`/groups/${updated.id}`), { replace: true });
+  };
+
+  const handleShare = async () => {
+    if (!group) return;
+    const url = `${window.location.origin}${eventPath(`/groups/${group.id}`)}${getGroupShareSearch(group)}`;
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      // Clipboard access can be blocked; fall back to a prompt the user can copy from
+      window.prompt('Copy this link to share the group', url);
+    }
+  };
+
+  if (!group) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Group not found</CardTitle>
+          <CardDescription>
+            This group is not saved in this browser. Ask for its share link, or create it again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link to={eventPath('/groups')}>
+            <Button variant="outline">Go to groups</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isEditing) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Edit {group.name}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <GroupEditor group={group} onSave={handleSave} onCancel={() => setIsEditing(false)} />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {data.unknownRiderNumbers.length > 0 && (
+        <p className="text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-md px-4 py-2">
+          Not found in the rider list: {data.unknownRiderNumbers.join(', ')}
+        </p>
+      )}
+
+      <RidersTimelinePage
+        title={group.name}
+        participantsLabel="In this group"
+        riders={data.riders}
+        statistics={data.statistics}
+        loading={data.loading}
+        error={data.error}
+        lastUpdateTime={data.lastUpdateTime}
+        refreshData={data.refreshData}
+        changesScope={`group:${group.id}`}
+        actions={
+          <>
+            <Link to={eventPath('/groups')}>
+              <Button variant="outline" className="flex items-center gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                All groups
+              </Button>
+            </Link>
+            {isUnsaved && (
+              <Button onClick={() => handleSave(group)} className="flex items-center gap-2">
+                <Save className="h-4 w-4" />
+                {savedGroup ? 'Update saved group' : 'Save group'}
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setIsEditing(true)} className="flex items-center gap-2">
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+            <Button variant="outline" onClick={handleShare} className="flex items-center gap-2">
+              {linkCopied ? <Check className="h-4 w-4" /> : <Share2 className="h-4 w-4" />}
+              {linkCopied ? 'Link copied' : 'Share'}
+            </Button>
+          </>
+        }
+      />
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Trash2, UsersRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useEventPath } from '@/contexts/EventContext';
+import { GroupEditor } from './GroupEditor';
+import { useRiderGroups } from '../hooks/useRiderGroups';
+import type { RiderGroup } from '../types';
+
+export const GroupsContainer: React.FC = () => {
+  const eventPath = useEventPath();
+  const navigate = useNavigate();
+  const { groups, saveGroup, deleteGroup } = useRiderGroups();
+
+  const handleCreate = (group: RiderGroup) => {
+    const saved = saveGroup(group);
+    navigate(eventPath(`/groups/${saved.id}`));
+  };
+
+  const handleDelete = (group: RiderGroup) => {
+    if (window.confirm(`Delete the group "${group.name}"?`)) {
+      deleteGroup(group.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-3xl font-bold text-primary">Rider Groups</h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          Follow your club or friends on their own timeline. Groups are saved in this browser; share a group's link to send it to others.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Your groups</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No groups yet. Create one below.</p>
+          ) : (
+            <ul className="divide-y">
+              {groups.map(group => (
+                <li key={group.id} className="flex items-center justify-between py-3">
+                  <Link
+                    to={eventPath(`/groups/${group.id}`)}
+                    className="flex items-center gap-3 hover:text-primary"
+                  >
+                    <UsersRound className="h-5 w-5 text-muted-foreground" />
+                    <span className="font-medium">{group.name}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {group.riderNumbers.length} rider{group.riderNumbers.length === 1 ? '' : 's'}
+                    </span>
+                  </Link>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(group)}
+                    aria-label={`Delete ${group.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">New group</CardTitle>
+          <CardDescription>Pick riders by their rider numbers</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <GroupEditor onSave={handleCreate} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
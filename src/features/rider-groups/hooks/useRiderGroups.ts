@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useEvent } from '@/contexts/EventContext';
+import type { RiderGroup } from '../types';
+import { getGroupsStorageKey, loadGroups, saveGroups } from '../utils/groupStorage';
+
+interface UseRiderGroupsReturn {
+  groups: RiderGroup[];
+  getGroup: (groupId: string) => RiderGroup | null;
+  saveGroup: (group: RiderGroup) => RiderGroup;
+  deleteGroup: (groupId: string) => void;
+}
+
+export const useRiderGroups = (): UseRiderGroupsReturn => {
+  const event = useEvent();
+  const [groups, setGroups] = useState<RiderGroup[]>(() => loadGroups(event.id));
+  
+  // Pick up groups saved in another tab
+  useEffect(() => {
+    const handleStorage = (storageEvent: StorageEvent) => {
+      if (storageEvent.key === getGroupsStorageKey(event.id)) {
+        setGroups(loadGroups(event.id));
+      }
+    };
+    
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [event.id]);
+  
+  const getGroup = useCallback((groupId: string) => {
+    return groups.find(group => group.id === groupId) || null;
+  }, [groups]);
+  
+  const saveGroup = useCallback((group: RiderGroup) => {
+    const now = new Date().toISOString();
+    const existing = groups.find(g => g.id === group.id);
+    const saved: RiderGroup = {
+      ...group,
+      createdAt: existing?.createdAt || group.createdAt || now,
+      updatedAt: now
+    };
+    
+    // Replace in place so the list keeps its order
+    const next = existing
+      ? groups.map(g => (g.id === group.id ? saved : g))
+      : [...groups, saved];
+    setGroups(next);
+    saveGroups(event.id, next);
+    return saved;
+  }, [groups, event.id]);
+  
+  const deleteGroup = useCallback((groupId: string) => {
+    const next = groups.filter(group => group.id !== groupId);
+    setGroups(next);
+    saveGroups(event.id, next);
+  }, [groups, event.id]);
+  
+  return {
+    groups,
+    getGroup,
+    saveGroup,
+    deleteGroup
+  };
+};
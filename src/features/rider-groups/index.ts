@@ -0,0 +1,2 @@
+export { GroupsContainer } from './components/GroupsContainer';
+export { GroupTimelineContainer } from './components/GroupTimelineContainer';
@@ -0,0 +1,8 @@
+// A named set of riders followed together (a club, friends, ...)
+export interface RiderGroup {
+  id: string;
+  name: string;
+  riderNumbers: string[]; // Bib numbers in the order they were added
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
@@ -0,0 +1,82 @@
+import type { RiderGroup } from '../types';
+
+// Groups are saved per event, since bib numbers only mean something within one event
+export const getGroupsStorageKey = (eventId: string): string => `rider-groups:${eventId}`;
+
+const isRiderGroup = (value: unknown): value is RiderGroup => {
+  if (!value || typeof value !== 'object') return false;
+  const group = value as Record<string, unknown>;
+  return typeof group.id === 'string' &&
+    typeof group.name === 'string' &&
+    Array.isArray(group.riderNumbers) &&
+    group.riderNumbers.every(riderNo => typeof riderNo === 'string') &&
+    typeof group.createdAt === 'string' &&
+    typeof group.updatedAt === 'string';
+};
+
+export const loadGroups = (eventId: string): RiderGroup[] => {
+  try {
+    const stored = window.localStorage.getItem(getGroupsStorageKey(eventId));
+    if (!stored) return [];
+    
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isRiderGroup) : [];
+  } catch (error) {
+    console.warn('[RiderGroups] Could not read saved groups:', error);
+    return [];
+  }
+};
+
+export const saveGroups = (eventId: string, groups: RiderGroup[]): void => {
+  try {
+    window.localStorage.setItem(getGroupsStorageKey(eventId), JSON.stringify(groups));
+  } catch (error) {
+    // Private browsing or a full quota; the group still works for this visit
+    console.warn('[RiderGroups] Could not save groups:', error);
+  }
+};
+
+// Bib numbers from free text ("A12, lb3 B7"), uppercased and without duplicates
+export const parseRiderNumbers = (text: string): string[] => {
+  const numbers = text
+    .split(/[\s,;]+/)
+    .map(token => token.trim().toUpperCase())
+    .filter(token => token.length > 0);
+  return Array.from(new Set(numbers));
+};
+
+// Readable id with a random suffix so two people's "our-club" never collide
+export const createGroupId = (name: string): string => {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  const suffix = Math.random().toString(36).slice(2, 6);
+  return slug ? `${slug}-${suffix}` : `group-${suffix}`;
+};
+
+// Query string that carries a whole group, so a link works without localStorage
+export const getGroupShareSearch = (group: RiderGroup): string => {
+  const params = new URLSearchParams({
+    name: group.name,
+    riders: group.riderNumbers.join(',')
+  });
+  return `?${params.toString()}`;
+};
+
+export const parseSharedGroup = (groupId: string, searchParams: URLSearchParams): RiderGroup | null => {
+  const name = searchParams.get('name')?.trim();
+  const riders = searchParams.get('riders');
+  if (!name || !riders) return null;
+  
+  const riderNumbers = parseRiderNumbers(riders);
+  if (riderNumbers.length === 0) return null;
+  
+  // Shared links carry no history; the timestamps are set when the group is saved
+  return { id: groupId, name, riderNumbers, createdAt: '', updatedAt: '' };
+};
+
+export const isSameGroup = (a: RiderGroup, b: RiderGroup): boolean => {
+  return a.name === b.name && a.riderNumbers.join(',') === b.riderNumbers.join(',');
+};
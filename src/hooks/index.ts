@@ -1,5 +1,11 @@
 // Export all custom hooks
 export { useRiders, useRidersByWave, useRiderSearch } from './useRiders';
-export { useIndianRiders } from './useIndianRiders';
 export { useRoute } from './useRoute';
+export { useWaveTracking } from './useWaveTracking';
+export { useRefreshTask } from './useRefreshTask';
+export { useOfflineStatus } from './useOfflineStatus';
+export { useRaceEvents, useRaceEventListener } from './useRaceEvents';
+export { useUrlViewState } from './useUrlViewState';
+export { useFeedFreshness } from './useFeedFreshness';
+export { useRiderEta } from './useRiderEta';
 export { usePageTracking, trackEvent, trackSearch, trackRiderView, trackWaveView, trackMapInteraction } from './useAnalytics';
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { useGlobalDataActions } from '../contexts/GlobalDataStore';
+import { FeedFreshness, classifyFeedFreshness } from '../utils/dataProcessors';
+
+/**
+ * Freshness of every tracking feed fetched so far, re-judged as time passes
+ * @param intervalMs - How often to re-judge between fetches
+ */
+export const useFeedFreshness = (intervalMs: number = 60 * 1000): FeedFreshness[] => {
+  const { getFeedObservations, subscribeToFeedObservations } = useGlobalDataActions();
+  const observations = useSyncExternalStore(subscribeToFeedObservations, getFeedObservations);
+  // Wall clock: freshness is about fetches, not race time
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return useMemo(
+    () => observations.map(observation => classifyFeedFreshness(observation, new Date(now))),
+    [observations, now]
+  );
+};
@@ -0,0 +1,36 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { getSnapshotFeeds, subscribeSnapshotFeeds } from '../services/offlineStore';
+
+interface UseOfflineStatusReturn {
+  isOnline: boolean;
+  /** Feeds shown from an offline snapshot, with the time each was saved */
+  snapshotFeeds: ReadonlyMap<string, Date>;
+  /** Save time of the oldest snapshot on screen, or null when all data is live */
+  oldestSnapshot: Date | null;
+}
+
+/**
+ * Connection state and whether any data on screen comes from offline snapshots
+ */
+export const useOfflineStatus = (): UseOfflineStatusReturn => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const snapshotFeeds = useSyncExternalStore(subscribeSnapshotFeeds, getSnapshotFeeds);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const oldestSnapshot = useMemo(() => {
+    const times = Array.from(snapshotFeeds.values()).map(date => date.getTime());
+    return times.length > 0 ? new Date(Math.min(...times)) : null;
+  }, [snapshotFeeds]);
+
+  return { isOnline, snapshotFeeds, oldestSnapshot };
+};
@@ -0,0 +1,26 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { useGlobalDataActions } from '../contexts/GlobalDataStore';
+import type { RaceEvent } from '../types/enhanced';
+import type { RaceEventListener } from '../services/raceEventLog';
+
+/**
+ * Every race event logged so far, oldest first; re-renders when events are added
+ */
+export const useRaceEvents = (): readonly RaceEvent[] => {
+  const { getRaceEvents, subscribeToRaceEvents } = useGlobalDataActions();
+  return useSyncExternalStore(subscribeToRaceEvents, getRaceEvents);
+};
+
+/**
+ * Call a function with each batch of new race events, without re-rendering
+ * @param listener - Receives the events added by one tracking update
+ */
+export const useRaceEventListener = (listener: RaceEventListener): void => {
+  const { subscribeToRaceEvents } = useGlobalDataActions();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    return subscribeToRaceEvents(added => listenerRef.current(added));
+  }, [subscribeToRaceEvents]);
+};
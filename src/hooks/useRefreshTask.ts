@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react';
+import { refreshScheduler } from '../services/refreshScheduler';
+
+/**
+ * Refresh a source automatically through the shared scheduler
+ * @param id - Source name, unique across the app
+ * @param run - Refresh; resolves false when it failed
+ * @param intervalMs - Interval, or null to leave the source on manual refresh
+ */
+export const useRefreshTask = (id: string, run: () => Promise<boolean>, intervalMs: number | null): void => {
+  // Latest callback without re-registering, which would restart the interval
+  const runRef = useRef(run);
+  useEffect(() => {
+    runRef.current = run;
+  }, [run]);
+
+  useEffect(() => {
+    if (intervalMs === null) return;
+    return refreshScheduler.register({ id, intervalMs, run: () => runRef.current() });
+  }, [id, intervalMs]);
+};
@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import { useEvent } from '../contexts/EventContext';
+import { useNow } from '../contexts/ClockContext';
+import { useGlobalDataSelector } from '../contexts/GlobalDataStore';
+import { selectPaceModel } from '../contexts/globalDataSelectors';
+import { EtaRiderInput, RiderEta, predictRiderEta } from '../utils/dataProcessors';
+
+/**
+ * Arrival predictions for a rider, refreshed as time passes
+ * Works on raw tracking, so feature views can predict riders they fetched themselves.
+ * @param rider - Rider with raw checkpoints, or null
+ * @returns Predictions, or null if the rider is not on the road
+ */
+export const useRiderEta = (rider: EtaRiderInput | null): RiderEta | null => {
+  const event = useEvent();
+  const now = useNow();
+  const paceModel = useGlobalDataSelector(selectPaceModel);
+
+  return useMemo(
+    () => rider ? predictRiderEta(rider, now, event, paceModel) : null,
+    [rider, now, event, paceModel]
+  );
+};
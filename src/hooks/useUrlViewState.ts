@@ -0,0 +1,52 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { UrlViewState, applyUrlViewState, parseUrlViewState } from '../utils/urlState';
+import { shallowEqual } from '../utils/createSelector';
+import type { RiderFilters } from '../types/enhanced';
+
+interface UrlViewStateUpdateOptions {
+  /** Replace the history entry instead of adding one (e.g., while typing a search) */
+  replace?: boolean;
+}
+
+interface UseUrlViewStateReturn {
+  state: UrlViewState;
+  /** Write changes to the URL; never changes identity */
+  update: (changes: Partial<UrlViewState>, options?: UrlViewStateUpdateOptions) => void;
+}
+
+/**
+ * Filters, sort, search and selection read from and written to the query string
+ */
+export const useUrlViewState = (): UseUrlViewStateReturn => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // Parsed once per query string, so the state only changes when the URL does.
+  // Opening a rider or wave changes the URL too; the filters object is kept so filtered lists are not rebuilt.
+  const filtersRef = useRef<RiderFilters | null>(null);
+  const state = useMemo(() => {
+    const parsed = parseUrlViewState(location.search);
+    if (filtersRef.current && shallowEqual(filtersRef.current, parsed.filters)) {
+      parsed.filters = filtersRef.current;
+    }
+    filtersRef.current = parsed.filters;
+    return parsed;
+  }, [location.search]);
+
+  const latestRef = useRef({ search: location.search, navigate });
+  latestRef.current = { search: location.search, navigate };
+
+  const update = useCallback((changes: Partial<UrlViewState>, options: UrlViewStateUpdateOptions = {}) => {
+    const latest = latestRef.current;
+    const current = latest.search.replace(/^\?/, '');
+    const next = applyUrlViewState(current, changes);
+    if (next === current) return;
+
+    // Later updates in the same tick build on this one, not on the rendered URL
+    latest.search = next ? `?${next}` : '';
+    latest.navigate({ search: latest.search }, { replace: options.replace });
+  }, []);
+
+  return { state, update };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useMemo } from 'react';
+import { useGlobalDataActions, useGlobalDataSelector } from '../contexts/GlobalDataStore';
+
+interface UseWaveTrackingReturn {
+  loading: boolean;
+  error: Error | null;
+  lastUpdated: Date | null;
+}
+
+/**
+ * Load tracking for the waves on screen, one shard per wave
+ * Shards already loaded are not fetched again; use refreshTracking for that.
+ * @param waveCodes - Wave codes of the riders being shown
+ */
+export const useWaveTracking = (waveCodes: string[]): UseWaveTrackingReturn => {
+  const trackingShards = useGlobalDataSelector(state => state.trackingShards);
+  const { loadWaveTracking } = useGlobalDataActions();
+
+  // Stable key so a new array with the same waves does not refetch
+  const wavesKey = useMemo(() => Array.from(new Set(waveCodes)).sort().join(','), [waveCodes]);
+
+  useEffect(() => {
+    if (wavesKey) {
+      loadWaveTracking(wavesKey.split(','));
+    }
+  }, [wavesKey, loadWaveTracking]);
+
+  return useMemo(() => {
+    const shards = wavesKey ? wavesKey.split(',').map(code => trackingShards[code]) : [];
+
+    // Oldest shard on screen decides how fresh the view is
+    const updates = shards
+      .map(shard => shard?.lastUpdated)
+      .filter((date): date is Date => !!date);
+
+    return {
+      loading: shards.some(shard => !shard || shard.loading),
+      error: shards.find(shard => shard?.error)?.error || null,
+      lastUpdated: updates.length === shards.length && updates.length > 0
+        ? new Date(Math.min(...updates.map(date => date.getTime())))
+        : null
+    };
+  }, [wavesKey, trackingShards]);
+};
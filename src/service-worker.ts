@@ -0,0 +1,79 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+/**
+ * Service worker: keeps the app shell available offline
+ *
+ * The production build injects the list of app files into
+ * `self.__WB_MANIFEST`; they are precached on install. Page loads go to the
+ * network first and fall back to the cached index.html, static files come
+ * from the cache. Feed data is not cached here: the data client keeps the
+ * last good copy of each feed in IndexedDB.
+ */
+
+export {};
+
+interface PrecacheEntry {
+  url: string;
+  revision: string | null;
+}
+
+declare const self: ServiceWorkerGlobalScope & { __WB_MANIFEST: Array<PrecacheEntry | string> };
+
+const PRECACHE = self.__WB_MANIFEST.map(entry => (typeof entry === 'string' ? { url: entry, revision: null } : entry));
+
+/**
+ * Short hash of the precache list, so every build gets its own cache
+ */
+function hashManifest(entries: PrecacheEntry[]): string {
+  const text = entries.map(entry => `${entry.url}@${entry.revision || ''}`).join('|');
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+const CACHE_PREFIX = 'app-shell-';
+const SHELL_CACHE = `${CACHE_PREFIX}${hashManifest(PRECACHE)}`;
+const INDEX_URL = `${process.env.PUBLIC_URL}/index.html`;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(PRECACHE.map(entry => new Request(entry.url, { cache: 'reload' }))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  // Drop the shells of earlier builds
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith(CACHE_PREFIX) && key !== SHELL_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(async () => {
+        const cached = await caches.match(INDEX_URL, { cacheName: SHELL_CACHE });
+        return cached || Response.error();
+      })
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: SHELL_CACHE }).then(cached => cached || fetch(request))
+  );
+});
@@ -0,0 +1,13 @@
+/**
+ * Register the service worker that keeps the app shell available offline
+ * Only production builds have one; see src/service-worker.ts.
+ */
+export function registerServiceWorker(): void {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .catch(error => console.warn('[offline] Service worker registration failed:', error));
+  });
+}
@@ -0,0 +1,112 @@
+import {
+  clearConditionalCache,
+  getConditionalHeaders,
+  getHeldPayload,
+  holdPayload
+} from './conditionalRequests';
+import { dataClient } from './dataClient';
+
+// Snapshots need IndexedDB, which the test environment lacks
+jest.mock('./offlineStore', () => ({
+  loadSnapshot: jest.fn(async () => null),
+  saveSnapshot: jest.fn(async () => {}),
+  markServedFromSnapshot: jest.fn(),
+  markServedLive: jest.fn()
+}));
+
+const URL = 'https://example.com/tracking.json';
+const ETAG = '"5d41402abc4b2a76b9719d911017c592"';
+const LAST_MODIFIED = 'Sun, 03 Aug 2025 10:00:00 GMT';
+
+const response = (status: number, body: string | null, headers: Record<string, string> = {}) =>
+  new Response(body, { status, headers });
+
+afterEach(() => {
+  clearConditionalCache();
+  jest.restoreAllMocks();
+});
+
+describe('conditional headers', () => {
+  test('makes the first request unconditional', () => {
+    expect(getConditionalHeaders(URL)).toEqual({});
+    expect(getHeldPayload(URL)).toBeUndefined();
+  });
+
+  test('echoes the validators of the held copy', () => {
+    const payload = { riders: [] };
+    holdPayload(URL, response(200, '{}', { ETag: ETAG, 'Last-Modified': LAST_MODIFIED }), payload);
+    expect(getConditionalHeaders(URL)).toEqual({ 'If-None-Match': ETAG, 'If-Modified-Since': LAST_MODIFIED });
+    expect(getHeldPayload(URL)).toBe(payload);
+    expect(getConditionalHeaders('https://example.com/riders.json')).toEqual({});
+  });
+
+  test('sends only the validators S3 gave', () => {
+    holdPayload(URL, response(200, '{}', { 'Last-Modified': LAST_MODIFIED }), {});
+    expect(getConditionalHeaders(URL)).toEqual({ 'If-Modified-Since': LAST_MODIFIED });
+  });
+
+  test('forgets one feed or all of them', () => {
+    holdPayload(URL, response(200, '{}', { ETag: ETAG }), {});
+    holdPayload('https://example.com/riders.json', response(200, '[]', { ETag: ETAG }), []);
+    clearConditionalCache(URL);
+    expect(getHeldPayload(URL)).toBeUndefined();
+    expect(getHeldPayload('https://example.com/riders.json')).toEqual([]);
+    clearConditionalCache();
+    expect(getHeldPayload('https://example.com/riders.json')).toBeUndefined();
+  });
+});
+
+describe('conditional GET through the data client', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  test('reuses the held payload when S3 answers 304', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(response(200, '{"riders":[]}', { ETag: ETAG }))
+      .mockResolvedValueOnce(response(304, null, { ETag: ETAG }));
+    global.fetch = fetchMock;
+
+    const first = await dataClient.getJson(URL);
+    const second = await dataClient.getJson(URL);
+    expect(second).toBe(first);
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({});
+    expect(fetchMock.mock.calls[1][1].headers).toEqual({ 'If-None-Match': ETAG });
+  });
+
+  test('holds the new copy when the feed has changed', async () => {
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce(response(200, '{"version":1}', { ETag: '"v1"' }))
+      .mockResolvedValueOnce(response(200, '{"version":2}', { ETag: '"v2"' }));
+
+    await dataClient.getJson(URL);
+    expect(await dataClient.getJson(URL)).toEqual({ version: 2 });
+    expect(getConditionalHeaders(URL)).toEqual({ 'If-None-Match': '"v2"' });
+  });
+
+  test('does not hold a payload that fails validation', async () => {
+    global.fetch = jest.fn().mockResolvedValue(response(200, '{"riders":{}}', { ETag: ETAG }));
+    const validate = () => {
+      throw new Error('wrong shape');
+    };
+
+    await expect(dataClient.getJson(URL, { validate })).rejects.toThrow('wrong shape');
+    expect(getConditionalHeaders(URL)).toEqual({});
+  });
+
+  test('treats a 304 without a held copy as an error', async () => {
+    global.fetch = jest.fn().mockResolvedValue(response(304, null));
+    await expect(dataClient.getJson(URL)).rejects.toMatchObject({ code: 'HTTP_ERROR', status: 304 });
+  });
+
+  test('sends no validators when conditional GET is off', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(response(200, '{}', { ETag: ETAG }))
+      .mockResolvedValueOnce(response(200, '{}', { ETag: ETAG }));
+    global.fetch = fetchMock;
+
+    await dataClient.getJson(URL);
+    await dataClient.getJson(URL, { conditional: false });
+    expect(fetchMock.mock.calls[1][1].headers).toEqual({});
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Conditional GET for S3 feeds
+ *
+ * S3 sends an ETag and Last-Modified with every object. Echoing them back as
+ * If-None-Match / If-Modified-Since lets S3 answer 304 Not Modified with no
+ * body while a feed is unchanged, so a poll costs a round trip instead of a
+ * download. The bucket's CORS rules must allow both request headers and
+ * expose ETag and Last-Modified.
+ */
+
+interface HeldFeed {
+  etag: string | null;
+  lastModified: string | null;
+  payload: unknown;
+}
+
+// Last good payload of every feed URL, with the validators S3 sent for it
+const heldFeeds = new Map<string, HeldFeed>();
+
+/**
+ * Headers that make a request conditional on the copy already held
+ * @param url - Feed URL
+ * @returns If-None-Match / If-Modified-Since, or no headers on the first request
+ */
+export function getConditionalHeaders(url: string): Record<string, string> {
+  const held = heldFeeds.get(url);
+  const headers: Record<string, string> = {};
+  if (held?.etag) headers['If-None-Match'] = held.etag;
+  if (held?.lastModified) headers['If-Modified-Since'] = held.lastModified;
+  return headers;
+}
+
+/**
+ * Copy of a feed to reuse when S3 answers 304 Not Modified
+ * @param url - Feed URL
+ * @returns Parsed JSON of the last full response, or undefined if none is held
+ */
+export function getHeldPayload(url: string): unknown {
+  return heldFeeds.get(url)?.payload;
+}
+
+/**
+ * Hold a feed with the validators S3 sent for it
+ * @param url - Feed URL
+ * @param response - Full (2xx) response the payload was read from
+ * @param payload - Parsed JSON
+ */
+export function holdPayload(url: string, response: Response, payload: unknown): void {
+  heldFeeds.set(url, {
+    etag: response.headers.get('ETag'),
+    lastModified: response.headers.get('Last-Modified'),
+    payload
+  });
+}
+
+/**
+ * Forget held feeds so the next request downloads them in full
+ * @param url - Feed URL; omit to forget every feed
+ */
+export function clearConditionalCache(url?: string): void {
+  if (url) {
+    heldFeeds.delete(url);
+  } else {
+    heldFeeds.clear();
+  }
+}
@@ -0,0 +1,168 @@
+import { DataClientError, dataClient, toApiError } from './dataClient';
+import { clearConditionalCache } from './conditionalRequests';
+import { FeedValidationError } from '../utils/dataProcessors/feedValidators';
+
+// Snapshots need IndexedDB, which the test environment lacks
+jest.mock('./offlineStore', () => ({
+  loadSnapshot: jest.fn(async () => null),
+  saveSnapshot: jest.fn(async () => {}),
+  markServedFromSnapshot: jest.fn(),
+  markServedLive: jest.fn()
+}));
+
+const URL = 'https://example.com/riders.json';
+
+let fetchMock: jest.Mock;
+
+const ok = (body: string) => new Response(body, { status: 200 });
+const status = (code: number) => new Response('', { status: code });
+const networkDown = () => Promise.reject(new TypeError('Failed to fetch'));
+
+// A fetch that only ends when it is aborted, like a request that never answers
+const hanging = (_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+  init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+});
+
+// Let the client's promise chain catch up before the clock moves on
+const settle = async () => {
+  for (let i = 0; i < 20; i++) await Promise.resolve();
+};
+
+beforeEach(() => {
+  fetchMock = jest.fn();
+  global.fetch = fetchMock;
+  jest.spyOn(console, 'debug').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  clearConditionalCache();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('dataClient.getJson', () => {
+  test('resolves feed paths against the base URL', async () => {
+    fetchMock.mockResolvedValue(ok('[]'));
+    await dataClient.getJson('/riders.json');
+    expect(fetchMock.mock.calls[0][0]).toBe(`${dataClient.getBaseUrl()}/riders.json`);
+  });
+
+  test('retries a network failure and a server error, then returns the payload', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    fetchMock
+      .mockImplementationOnce(networkDown)
+      .mockResolvedValueOnce(status(503))
+      .mockResolvedValueOnce(ok('[{"rider_no":"LB12"}]'));
+
+    const result = dataClient.getJson(URL);
+    await settle();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // With no jitter the waits are half of 1 s and 2 s
+    jest.advanceTimersByTime(499);
+    await settle();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    await settle();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(1000);
+    await settle();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await expect(result).resolves.toEqual([{ rider_no: 'LB12' }]);
+  });
+
+  test('jitters each wait between half and all of its ceiling', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    fetchMock.mockImplementationOnce(networkDown).mockResolvedValueOnce(ok('{}'));
+
+    const result = dataClient.getJson(URL);
+    await settle();
+    // Halfway between 500 ms and 1 s
+    jest.advanceTimersByTime(749);
+    await settle();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    await settle();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await expect(result).resolves.toEqual({});
+  });
+
+  test('gives up after the configured retries', async () => {
+    jest.useFakeTimers();
+    fetchMock.mockImplementation(networkDown);
+
+    const failure = dataClient.getJson(URL, { retries: 2 }).catch(error => error);
+    for (let i = 0; i < 3; i++) {
+      await settle();
+      jest.advanceTimersByTime(4000);
+    }
+    expect(await failure).toMatchObject({ code: 'NETWORK_ERROR', message: 'Failed to fetch' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  test('times out a request that never answers', async () => {
+    jest.useFakeTimers();
+    fetchMock.mockImplementation(hanging);
+
+    const failure = dataClient.getJson(URL, { timeoutMs: 5000, retries: 0 }).catch(error => error);
+    await settle();
+    jest.advanceTimersByTime(5000);
+    expect(await failure).toMatchObject({ code: 'TIMEOUT', message: 'Request timed out after 5s' });
+  });
+
+  test('stops without retrying when the caller aborts', async () => {
+    fetchMock.mockImplementation(hanging);
+    const controller = new AbortController();
+
+    const result = dataClient.getJson(URL, { signal: controller.signal });
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Already aborted: nothing is sent
+    await expect(dataClient.getJson(URL, { signal: controller.signal })).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not retry a client error or a broken body', async () => {
+    fetchMock.mockResolvedValueOnce(status(404)).mockResolvedValueOnce(ok('<html>'));
+
+    await expect(dataClient.getJson(URL)).rejects.toMatchObject({ code: 'HTTP_ERROR', status: 404 });
+    await expect(dataClient.getJson(URL)).rejects.toMatchObject({ code: 'INVALID_JSON', status: 200 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('DataClientError.retryable', () => {
+  test('retries the network, timeouts and server errors only', () => {
+    const error = (code: DataClientError['code'], httpStatus?: number) => new DataClientError('', code, URL, httpStatus);
+    expect(error('NETWORK_ERROR').retryable).toBe(true);
+    expect(error('TIMEOUT').retryable).toBe(true);
+    expect(error('HTTP_ERROR', 502).retryable).toBe(true);
+    expect(error('HTTP_ERROR', 403).retryable).toBe(false);
+    expect(error('INVALID_JSON', 200).retryable).toBe(false);
+    expect(error('REQUEST_ABORTED').retryable).toBe(false);
+  });
+});
+
+describe('toApiError', () => {
+  test('keeps the code and status of a failed request', () => {
+    expect(toApiError(new DataClientError('HTTP error! status: 403', 'HTTP_ERROR', URL, 403), 'riders.json'))
+      .toEqual({ message: 'HTTP error! status: 403', code: 'HTTP_ERROR', status: 403 });
+  });
+
+  test('reports a payload of the wrong shape as an invalid feed', () => {
+    const error = new FeedValidationError('riders.json', [{ path: '$', message: 'expected array, got object' }]);
+    expect(toApiError(error, 'riders.json'))
+      .toEqual({ message: 'Invalid riders.json feed: $ expected array, got object', code: 'INVALID_FEED' });
+  });
+
+  test('falls back to an unknown error naming the feed', () => {
+    expect(toApiError(new Error('boom'), 'riders.json')).toEqual({ message: 'boom', code: 'UNKNOWN_ERROR' });
+    expect(toApiError('boom', 'riders.json')).toEqual({ message: 'Failed to fetch riders.json', code: 'UNKNOWN_ERROR' });
+  });
+});
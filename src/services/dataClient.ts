@@ -0,0 +1,264 @@
+/**
+ * Shared HTTP client for every data feed
+ *
+ * All feeds are static JSON on S3. The client gives every request the same
+ * timeout, abort handling, retries with jittered back-off, conditional GET
+ * (see conditionalRequests) and typed errors, and logs the size of what came
+ * over the wire. With offline support on, every full response that passes
+ * validation is saved to IndexedDB and served from there when the network
+ * is down (see offlineStore).
+ */
+
+import { API_CONFIG } from '../config/api';
+import { APP_CONFIG } from '../config/constants';
+import { ApiError } from '../types/index';
+import { FeedValidationError } from '../utils/dataProcessors/feedValidators';
+import { getConditionalHeaders, getHeldPayload, holdPayload } from './conditionalRequests';
+import { loadSnapshot, markServedFromSnapshot, markServedLive, saveSnapshot } from './offlineStore';
+
+export type DataErrorCode =
+  | 'REQUEST_ABORTED'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'HTTP_ERROR'
+  | 'INVALID_JSON';
+
+/**
+ * A feed request that failed in transport
+ */
+export class DataClientError extends Error {
+  constructor(
+    message: string,
+    public readonly code: DataErrorCode,
+    public readonly url: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'DataClientError';
+  }
+
+  /** Worth another attempt: the network, a timeout or a server-side error */
+  get retryable(): boolean {
+    return this.code === 'NETWORK_ERROR'
+      || this.code === 'TIMEOUT'
+      || (this.code === 'HTTP_ERROR' && (this.status === undefined || this.status >= 500));
+  }
+}
+
+export interface DataRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  /** Send If-None-Match / If-Modified-Since and reuse the held copy on 304 (default true) */
+  conditional?: boolean;
+  /** Throws for a payload of the wrong shape; only payloads that pass are held or saved offline */
+  validate?: (payload: unknown) => unknown;
+}
+
+/**
+ * Format a byte count for the request log
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+/**
+ * Wait before a retry: exponential back-off with full jitter
+ */
+function waitBeforeRetry(attempt: number, signal?: AbortSignal): Promise<void> {
+  const ceiling = API_CONFIG.request.retryDelay * 2 ** attempt;
+  const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, delay);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+class DataClient {
+  private baseUrl: string;
+  private inFlight: Set<AbortController> = new Set();
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Point relative feed paths at another host (e.g., a local mock of the bucket)
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Resolve a feed path against the base URL; absolute URLs are kept
+   */
+  resolveUrl(pathOrUrl: string): string {
+    if (/^https?:\/\//.test(pathOrUrl)) return pathOrUrl;
+    return `${this.baseUrl}/${pathOrUrl.replace(/^\/+/, '')}`;
+  }
+
+  /**
+   * Fetch and parse a JSON feed
+   * @param pathOrUrl - Path relative to the base URL, or an absolute URL
+   * @param options - Abort signal, timeout, retries and conditional GET
+   * @returns Parsed JSON; the same object as before when S3 answers 304
+   * @throws DataClientError when the request fails after its retries
+   */
+  async getJson<T = unknown>(pathOrUrl: string, options: DataRequestOptions = {}): Promise<T> {
+    const url = this.resolveUrl(pathOrUrl);
+    const retries = options.retries ?? API_CONFIG.request.retries;
+
+    // Known to be offline: start from the snapshot instead of waiting out the retries
+    if (APP_CONFIG.features.enableOfflineSupport && !navigator.onLine) {
+      const snapshot = await this.fromSnapshot<T>(url);
+      if (snapshot !== undefined) return snapshot;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const payload = await this.request<T>(url, options);
+        markServedLive(url);
+        return payload;
+      } catch (error) {
+        const canRetry = error instanceof DataClientError && error.retryable && !options.signal?.aborted;
+        if (!canRetry || attempt >= retries) {
+          if (canRetry && APP_CONFIG.features.enableOfflineSupport) {
+            const snapshot = await this.fromSnapshot<T>(url);
+            if (snapshot !== undefined) return snapshot;
+          }
+          throw error;
+        }
+
+        console.warn(`[data] ${url}: ${(error as Error).message}, retry ${attempt + 1} of ${retries}`);
+        await waitBeforeRetry(attempt, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Saved copy of a feed, recorded as shown from a snapshot
+   * @returns Payload, or undefined if no snapshot is saved
+   */
+  private async fromSnapshot<T>(url: string): Promise<T | undefined> {
+    const snapshot = await loadSnapshot(url);
+    if (!snapshot) return undefined;
+
+    console.warn(`[data] ${url}: offline, using the copy saved ${snapshot.savedAt.toISOString()}`);
+    markServedFromSnapshot(url, snapshot.savedAt);
+    return snapshot.payload as T;
+  }
+
+  /**
+   * Abort every request in flight
+   */
+  cancelAll(): void {
+    this.inFlight.forEach(controller => controller.abort());
+    this.inFlight.clear();
+  }
+
+  private async request<T>(url: string, options: DataRequestOptions): Promise<T> {
+    const { signal, timeoutMs = API_CONFIG.request.timeout, conditional = true } = options;
+    if (signal?.aborted) throw new DataClientError('Request aborted', 'REQUEST_ABORTED', url);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller);
+    this.inFlight.add(controller);
+
+    const startedAt = Date.now();
+
+    try {
+      let response: Response;
+      try {
+        // The browser cache is bypassed; freshness comes from conditional GET
+        response = await fetch(url, {
+          signal: controller.signal,
+          cache: 'no-store',
+          headers: conditional ? getConditionalHeaders(url) : {}
+        });
+      } catch (error) {
+        if (timedOut) throw new DataClientError(`Request timed out after ${timeoutMs / 1000}s`, 'TIMEOUT', url);
+        if (controller.signal.aborted) throw new DataClientError('Request aborted', 'REQUEST_ABORTED', url);
+        throw new DataClientError(error instanceof Error ? error.message : 'Network error', 'NETWORK_ERROR', url);
+      }
+
+      if (response.status === 304 && conditional) {
+        const held = getHeldPayload(url);
+        if (held !== undefined) {
+          console.debug(`[data] ${url}: not modified (${Date.now() - startedAt} ms)`);
+          return held as T;
+        }
+      }
+
+      if (!response.ok) {
+        throw new DataClientError(`HTTP error! status: ${response.status}`, 'HTTP_ERROR', url, response.status);
+      }
+
+      let text: string;
+      try {
+        text = await response.text();
+      } catch (error) {
+        if (timedOut) throw new DataClientError(`Request timed out after ${timeoutMs / 1000}s`, 'TIMEOUT', url);
+        if (controller.signal.aborted) throw new DataClientError('Request aborted', 'REQUEST_ABORTED', url);
+        throw new DataClientError('Connection lost while downloading', 'NETWORK_ERROR', url);
+      }
+
+      const bytes = Number(response.headers.get('Content-Length')) || new Blob([text]).size;
+      console.debug(`[data] ${url}: ${formatBytes(bytes)} in ${Date.now() - startedAt} ms`);
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(text);
+      } catch (error) {
+        throw new DataClientError('Response is not valid JSON', 'INVALID_JSON', url, response.status);
+      }
+
+      // A bad payload must not replace the last good copy
+      options.validate?.(payload);
+      if (conditional) holdPayload(url, response, payload);
+      if (APP_CONFIG.features.enableOfflineSupport) saveSnapshot(url, payload);
+      return payload as T;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromCaller);
+      this.inFlight.delete(controller);
+    }
+  }
+}
+
+/**
+ * Turn any failure of a feed request into the ApiError the app shows
+ * @param error - Error thrown while fetching or validating a feed
+ * @param feedName - Feed file name for the fallback message (e.g., "riders.json")
+ * @returns ApiError with a client code, or INVALID_FEED for a payload of the wrong shape
+ */
+export function toApiError(error: unknown, feedName: string): ApiError {
+  if (error instanceof FeedValidationError) {
+    return { message: error.message, code: 'INVALID_FEED' };
+  }
+  if (error instanceof DataClientError) {
+    return { message: error.message, code: error.code, status: error.status };
+  }
+  return {
+    message: error instanceof Error ? error.message : `Failed to fetch ${feedName}`,
+    code: 'UNKNOWN_ERROR'
+  };
+}
+
+// Export singleton instance
+export const dataClient = new DataClient(API_CONFIG.BASE_URL);
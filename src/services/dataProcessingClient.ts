@@ -0,0 +1,141 @@
+/**
+ * Runs the processing pipeline in a Web Worker
+ *
+ * One job is processed at a time. Payloads that arrive meanwhile are not
+ * queued: only the latest is kept, and the ones it replaces resolve to null
+ * so callers can ignore them. Where workers are unavailable, or the worker
+ * fails to load, the pipeline runs on the main thread instead.
+ */
+
+import type { EventDefinition } from '../config/events';
+import {
+  ProcessedRaceData,
+  RaceDataInput,
+  decodeProcessedRaceData,
+  processRaceData
+} from '../utils/dataProcessors';
+import type { DataProcessingRequest, DataProcessingResponse } from '../workers/dataProcessingProtocol';
+
+interface ProcessingJob {
+  id: number;
+  input: RaceDataInput;
+  event: EventDefinition;
+  resolve: (data: ProcessedRaceData | null) => void;
+  reject: (error: Error) => void;
+}
+
+export class DataProcessingClient {
+  private worker: Worker | null = null;
+  // Set once the worker could not be created or crashed; later jobs stay on the main thread
+  private workerFailed = typeof Worker === 'undefined';
+  private nextId = 1;
+  private inFlight: ProcessingJob | null = null;
+  private pending: ProcessingJob | null = null;
+
+  /**
+   * Process a snapshot of the data
+   * @param input - Fetched data and the time to process at
+   * @param event - Event the data belongs to
+   * @returns The processed data, or null if a newer snapshot replaced this one first
+   */
+  process = (input: RaceDataInput, event: EventDefinition): Promise<ProcessedRaceData | null> => {
+    return new Promise((resolve, reject) => {
+      const job: ProcessingJob = { id: this.nextId++, input, event, resolve, reject };
+
+      if (!this.getWorker()) {
+        this.runOnMainThread(job);
+        return;
+      }
+
+      if (this.inFlight) {
+        this.pending?.resolve(null);
+        this.pending = job;
+        return;
+      }
+
+      this.start(job);
+    });
+  };
+
+  /**
+   * Stop the worker; jobs not yet finished resolve to null. A later job starts a new worker.
+   */
+  dispose = (): void => {
+    this.worker?.terminate();
+    this.worker = null;
+    this.inFlight?.resolve(null);
+    this.pending?.resolve(null);
+    this.inFlight = null;
+    this.pending = null;
+  };
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+
+    try {
+      this.worker = new Worker(new URL('../workers/dataProcessing.worker.ts', import.meta.url));
+      this.worker.onmessage = this.handleResponse;
+      this.worker.onerror = this.handleWorkerError;
+    } catch (error: any) {
+      console.warn('[DataProcessingClient] Worker unavailable, processing on the main thread:', error?.message);
+      this.workerFailed = true;
+    }
+    return this.worker;
+  }
+
+  private start(job: ProcessingJob): void {
+    this.inFlight = job;
+    const request: DataProcessingRequest = {
+      type: 'process',
+      id: job.id,
+      eventId: job.event.id,
+      input: job.input
+    };
+    this.worker!.postMessage(request);
+  }
+
+  private startPending(): void {
+    const next = this.pending;
+    this.pending = null;
+    if (next) this.start(next);
+  }
+
+  private runOnMainThread(job: ProcessingJob): void {
+    try {
+      job.resolve(processRaceData(job.input, job.event));
+    } catch (error: any) {
+      job.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private handleResponse = ({ data: response }: MessageEvent<DataProcessingResponse>): void => {
+    const job = this.inFlight;
+    if (!job || job.id !== response.id) return;
+    this.inFlight = null;
+
+    if (response.type === 'processed') {
+      job.resolve(decodeProcessedRaceData(response.buffer));
+    } else {
+      job.reject(new Error(response.message));
+    }
+
+    this.startPending();
+  };
+
+  // The worker script failed to load or crashed; finish its jobs here and stop using it
+  private handleWorkerError = (event: ErrorEvent): void => {
+    console.warn('[DataProcessingClient] Worker failed, processing on the main thread:', event.message);
+    event.preventDefault();
+
+    const jobs = [this.inFlight, this.pending].filter((job): job is ProcessingJob => job !== null);
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+    this.inFlight = null;
+    this.pending = null;
+
+    // Only the latest snapshot is worth processing
+    jobs.slice(0, -1).forEach(job => job.resolve(null));
+    jobs.slice(-1).forEach(job => this.runOnMainThread(job));
+  };
+}
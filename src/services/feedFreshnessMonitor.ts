@@ -0,0 +1,46 @@
+/**
+ * Source timestamps of one event's feeds, tracked across fetches
+ *
+ * The store records every successful fetch; banners and pages read the
+ * observations and classify them against the current time, so telling "we
+ * have not refreshed" from "the source stopped" needs no extra requests.
+ */
+
+import { FeedObservation, observeFeed } from '../utils/dataProcessors';
+
+export class FeedFreshnessMonitor {
+  private observations: Map<string, FeedObservation> = new Map();
+  private snapshot: readonly FeedObservation[] = [];
+  private listeners: Set<() => void> = new Set();
+
+  /**
+   * Record a successful fetch of a feed
+   * @param feed - Feed name (e.g., "tracking", "wave-A")
+   * @param sourceTimestamp - The payload's own timestamp (e.g., last_updated)
+   * @param fetchedAt - When the payload arrived
+   */
+  record = (feed: string, sourceTimestamp: string | null | undefined, fetchedAt: Date = new Date()): void => {
+    this.observations.set(feed, observeFeed(this.observations.get(feed), feed, sourceTimestamp, fetchedAt));
+    // A new array on every change, so it can back useSyncExternalStore
+    this.snapshot = Array.from(this.observations.values());
+    this.listeners.forEach(listener => listener());
+  };
+
+  /**
+   * Every feed fetched so far, in the order first fetched
+   */
+  getObservations = (): readonly FeedObservation[] => {
+    return this.snapshot;
+  };
+
+  /**
+   * Listen for new fetches
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
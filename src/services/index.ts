@@ -1,6 +1,12 @@
 // Export all services
 export { riderService } from './riderService';
 export { routeService } from './routeService';
+export { refreshScheduler } from './refreshScheduler';
+export { RaceEventLog } from './raceEventLog';
+export type { RaceEventListener } from './raceEventLog';
+export { FeedFreshnessMonitor } from './feedFreshnessMonitor';
+export { StateStore } from './stateStore';
+export { DataProcessingClient } from './dataProcessingClient';
 
 // Re-export types for convenience
 export type { ApiError, ApiResponse } from '../types/index';
\ No newline at end of file
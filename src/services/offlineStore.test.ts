@@ -0,0 +1,129 @@
+import type * as OfflineStore from './offlineStore';
+
+// Just enough of IndexedDB for one object store keyed by url; callbacks fire asynchronously as in a browser
+const createFakeIndexedDB = (records: Map<string, unknown>) => {
+  const later = (callback: () => void) => setTimeout(callback, 0);
+
+  const database = {
+    createObjectStore: jest.fn(),
+    transaction: () => {
+      const transaction = {
+        oncomplete: null as (() => void) | null,
+        onerror: null as (() => void) | null,
+        objectStore: () => ({
+          put: (record: { url: string }) => {
+            records.set(record.url, record);
+            later(() => transaction.oncomplete?.());
+          },
+          get: (url: string) => {
+            const request = { result: records.get(url), onsuccess: null as (() => void) | null, onerror: null };
+            later(() => request.onsuccess?.());
+            return request;
+          }
+        })
+      };
+      return transaction;
+    }
+  };
+
+  return {
+    database,
+    open: jest.fn(() => {
+      const request = {
+        result: database,
+        onupgradeneeded: null as (() => void) | null,
+        onsuccess: null as (() => void) | null,
+        onerror: null
+      };
+      later(() => {
+        request.onupgradeneeded?.();
+        request.onsuccess?.();
+      });
+      return request;
+    })
+  };
+};
+
+// The database is opened once per module, so every test loads a fresh copy
+const loadStore = async (): Promise<typeof OfflineStore> => {
+  jest.resetModules();
+  return import('./offlineStore');
+};
+
+afterEach(() => {
+  delete (window as { indexedDB?: unknown }).indexedDB;
+  jest.restoreAllMocks();
+});
+
+describe('snapshots', () => {
+  test('saves a payload and loads it back with the time it was saved', async () => {
+    const records = new Map<string, unknown>();
+    const fake = createFakeIndexedDB(records);
+    Object.defineProperty(window, 'indexedDB', { configurable: true, value: fake });
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-08-03T10:00:00Z'));
+    const store = await loadStore();
+
+    await store.saveSnapshot('https://example.com/riders.json', [{ rider_no: 'LB12' }]);
+    const snapshot = await store.loadSnapshot('https://example.com/riders.json');
+    expect(snapshot).toEqual({
+      url: 'https://example.com/riders.json',
+      payload: [{ rider_no: 'LB12' }],
+      savedAt: new Date('2025-08-03T10:00:00Z')
+    });
+    expect(await store.loadSnapshot('https://example.com/routes.json')).toBeNull();
+
+    // Opened once, creating the store on first use
+    expect(fake.open).toHaveBeenCalledTimes(1);
+    expect(fake.database.createObjectStore).toHaveBeenCalledWith('snapshots', { keyPath: 'url' });
+  });
+
+  test('keeps only the latest payload of a feed', async () => {
+    Object.defineProperty(window, 'indexedDB', { configurable: true, value: createFakeIndexedDB(new Map()) });
+    const store = await loadStore();
+
+    await store.saveSnapshot('https://example.com/riders.json', ['first']);
+    await store.saveSnapshot('https://example.com/riders.json', ['second']);
+    expect((await store.loadSnapshot('https://example.com/riders.json'))?.payload).toEqual(['second']);
+  });
+
+  test('carries on without IndexedDB', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = await loadStore();
+
+    await expect(store.saveSnapshot('https://example.com/riders.json', [])).resolves.toBeUndefined();
+    await expect(store.loadSnapshot('https://example.com/riders.json')).resolves.toBeNull();
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[0][1]).toEqual(new Error('IndexedDB is not available'));
+  });
+});
+
+describe('feeds served from a snapshot', () => {
+  test('records feeds switching between snapshot and live data', async () => {
+    const store = await loadStore();
+    const listener = jest.fn();
+    const unsubscribe = store.subscribeSnapshotFeeds(listener);
+    const savedAt = new Date('2025-08-03T10:00:00Z');
+
+    store.markServedFromSnapshot('https://example.com/riders.json', savedAt);
+    const served = store.getSnapshotFeeds();
+    expect(Array.from(served)).toEqual([['https://example.com/riders.json', savedAt]]);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // The same snapshot again changes nothing
+    store.markServedFromSnapshot('https://example.com/riders.json', new Date(savedAt));
+    expect(store.getSnapshotFeeds()).toBe(served);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    store.markServedLive('https://example.com/riders.json');
+    expect(store.getSnapshotFeeds().size).toBe(0);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    // A feed that was live already changes nothing either
+    store.markServedLive('https://example.com/routes.json');
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    store.markServedFromSnapshot('https://example.com/riders.json', savedAt);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Offline snapshots of the data feeds
+ *
+ * The last good payload of every feed is kept in IndexedDB, keyed by URL.
+ * When the network is down the data client serves these snapshots instead,
+ * and records which feeds are being shown from one so the UI can say how old
+ * the data is.
+ */
+
+export interface FeedSnapshot {
+  url: string;
+  payload: unknown;
+  savedAt: Date;
+}
+
+const DB_NAME = 'lel-tracker-offline';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (once) the snapshot database
+ * @throws Error if IndexedDB is unavailable (e.g., some private browsing modes)
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'url' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Save the latest good payload of a feed
+ * Failures are logged and ignored; offline copies are best effort.
+ * @param url - Feed URL
+ * @param payload - Parsed JSON
+ */
+export async function saveSnapshot(url: string, payload: unknown): Promise<void> {
+  try {
+    const database = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(SNAPSHOT_STORE, 'readwrite');
+      transaction.objectStore(SNAPSHOT_STORE).put({ url, payload, savedAt: Date.now() });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.warn(`[offline] Could not save ${url}:`, error);
+  }
+}
+
+/**
+ * Load the saved payload of a feed
+ * @param url - Feed URL
+ * @returns Snapshot, or null if none is saved or IndexedDB is unavailable
+ */
+export async function loadSnapshot(url: string): Promise<FeedSnapshot | null> {
+  try {
+    const database = await openDatabase();
+    const record = await new Promise<{ url: string; payload: unknown; savedAt: number } | undefined>((resolve, reject) => {
+      const request = database.transaction(SNAPSHOT_STORE, 'readonly').objectStore(SNAPSHOT_STORE).get(url);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return record ? { url: record.url, payload: record.payload, savedAt: new Date(record.savedAt) } : null;
+  } catch (error) {
+    console.warn(`[offline] Could not load ${url}:`, error);
+    return null;
+  }
+}
+
+// Feeds currently shown from a snapshot, with the time each was saved
+let snapshotFeeds: ReadonlyMap<string, Date> = new Map();
+const listeners = new Set<() => void>();
+
+function setSnapshotFeeds(next: Map<string, Date>): void {
+  snapshotFeeds = next;
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Record that a feed is being shown from its snapshot
+ */
+export function markServedFromSnapshot(url: string, savedAt: Date): void {
+  if (snapshotFeeds.get(url)?.getTime() === savedAt.getTime()) return;
+  setSnapshotFeeds(new Map(snapshotFeeds).set(url, savedAt));
+}
+
+/**
+ * Record that a feed has been fetched from the network again
+ */
+export function markServedLive(url: string): void {
+  if (!snapshotFeeds.has(url)) return;
+  const next = new Map(snapshotFeeds);
+  next.delete(url);
+  setSnapshotFeeds(next);
+}
+
+/**
+ * Feeds currently shown from a snapshot; a new map after every change
+ */
+export function getSnapshotFeeds(): ReadonlyMap<string, Date> {
+  return snapshotFeeds;
+}
+
+/**
+ * Listen for feeds switching between snapshot and live data
+ * @returns Function that removes the listener
+ */
+export function subscribeSnapshotFeeds(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
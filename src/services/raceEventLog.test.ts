@@ -0,0 +1,44 @@
+import { RaceEventLog } from './raceEventLog';
+import { RaceEvent } from '../utils/dataProcessors';
+
+const raceEvent = (id: string, iso: string) => ({ id, riderNo: id.split(':')[0], timestamp: new Date(iso) } as RaceEvent);
+
+describe('RaceEventLog', () => {
+  test('keeps every event once, oldest first', () => {
+    const log = new RaceEventLog();
+    log.append([raceEvent('LB12:arrival:1', '2025-08-03T05:20:00Z')]);
+    log.append([raceEvent('LB12:start:0', '2025-08-03T04:15:00Z'), raceEvent('LB12:arrival:1', '2025-08-03T05:20:00Z')]);
+    expect(log.getEvents().map(entry => entry.id)).toEqual(['LB12:start:0', 'LB12:arrival:1']);
+  });
+
+  test('tells subscribers what each append added', () => {
+    const log = new RaceEventLog();
+    const listener = jest.fn();
+    const unsubscribe = log.subscribe(listener);
+
+    const start = raceEvent('LB12:start:0', '2025-08-03T04:15:00Z');
+    log.append([start]);
+    expect(listener).toHaveBeenLastCalledWith([start]);
+
+    // Nothing new, no call
+    log.append([start]);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    log.append([raceEvent('LC7:start:0', '2025-08-03T04:30:00Z')]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('replaces the list on every change and only then', () => {
+    const log = new RaceEventLog();
+    const empty = log.getEvents();
+    log.append([]);
+    expect(log.getEvents()).toBe(empty);
+
+    log.append([raceEvent('LB12:start:0', '2025-08-03T04:15:00Z')]);
+    const first = log.getEvents();
+    expect(first).not.toBe(empty);
+    log.append([raceEvent('LB12:start:0', '2025-08-03T04:15:00Z')]);
+    expect(log.getEvents()).toBe(first);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Ordered log of race events for one event's data store
+ *
+ * The store appends what it derives from each tracking payload; components,
+ * notifications and the latest-updates feed subscribe instead of rescanning
+ * the riders themselves.
+ */
+
+import { RaceEvent, sortRaceEvents } from '../utils/dataProcessors';
+
+/** Receives the events added by one append, oldest first */
+export type RaceEventListener = (added: RaceEvent[]) => void;
+
+export class RaceEventLog {
+  private events: RaceEvent[] = [];
+  private ids: Set<string> = new Set();
+  private listeners: Set<RaceEventListener> = new Set();
+
+  /**
+   * Add events; ones already in the log are ignored
+   * @param events - Newly derived events
+   */
+  append = (events: RaceEvent[]): void => {
+    const added = events.filter(raceEvent => !this.ids.has(raceEvent.id));
+    if (added.length === 0) return;
+
+    added.forEach(raceEvent => this.ids.add(raceEvent.id));
+    // A new array on every change, so it can back useSyncExternalStore
+    this.events = sortRaceEvents([...this.events, ...added]);
+    this.listeners.forEach(listener => listener(added));
+  };
+
+  /**
+   * Every event so far, oldest first
+   */
+  getEvents = (): readonly RaceEvent[] => {
+    return this.events;
+  };
+
+  /**
+   * Listen for new events
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: RaceEventListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
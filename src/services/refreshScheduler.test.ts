@@ -0,0 +1,159 @@
+import { refreshScheduler } from './refreshScheduler';
+
+const MINUTE = 60 * 1000;
+
+let hidden = false;
+let stops: Array<() => void> = [];
+
+// Let a run that has been started settle before the clock moves on
+const settle = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+const advance = async (ms: number) => {
+  jest.advanceTimersByTime(ms);
+  await settle();
+};
+
+const setHidden = (value: boolean) => {
+  hidden = value;
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+// A task whose runs succeed or fail in the order given, then keep succeeding
+const register = (id: string, intervalMs: number, results: Array<boolean | Error> = []) => {
+  const run = jest.fn(async () => {
+    const result = results.shift() ?? true;
+    if (result instanceof Error) throw result;
+    return result;
+  });
+  stops.push(refreshScheduler.register({ id, intervalMs, run }));
+  return run;
+};
+
+beforeAll(() => {
+  Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  hidden = false;
+});
+
+afterEach(() => {
+  stops.forEach(stop => stop());
+  stops = [];
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('refreshScheduler', () => {
+  test('runs a task once per interval, starting one interval after it is registered', async () => {
+    const run = register('tracking', 2 * MINUTE);
+    await advance(2 * MINUTE - 1);
+    expect(run).not.toHaveBeenCalled();
+    await advance(1);
+    expect(run).toHaveBeenCalledTimes(1);
+    await advance(2 * MINUTE);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test('raises an interval below a minute to a minute', async () => {
+    const run = register('tracking', 1000);
+    await advance(59 * 1000);
+    expect(run).not.toHaveBeenCalled();
+    await advance(1000);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  test('doubles the delay for every failure in a row and resets after a success', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    // Fails, fails (rejecting), then succeeds
+    const run = register('weather', MINUTE, [false, new Error('offline'), true]);
+
+    await advance(MINUTE);
+    expect(run).toHaveBeenCalledTimes(1);
+    await advance(2 * MINUTE - 1);
+    expect(run).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    await advance(4 * MINUTE - 1);
+    expect(run).toHaveBeenCalledTimes(2);
+    await advance(1);
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+
+    await advance(MINUTE);
+    expect(run).toHaveBeenCalledTimes(4);
+  });
+
+  test('backs off no further than an hour', async () => {
+    const run = register('routes', 20 * MINUTE, [false, false, false, false]);
+    await advance(20 * MINUTE);
+    await advance(40 * MINUTE);
+    await advance(60 * MINUTE);
+    expect(run).toHaveBeenCalledTimes(3);
+    await advance(60 * MINUTE);
+    expect(run).toHaveBeenCalledTimes(4);
+  });
+
+  test('pauses while the tab is hidden and runs an overdue task when it is back', async () => {
+    const run = register('tracking', MINUTE);
+    setHidden(true);
+    await advance(10 * MINUTE);
+    expect(run).not.toHaveBeenCalled();
+
+    setHidden(false);
+    await advance(0);
+    expect(run).toHaveBeenCalledTimes(1);
+    await advance(MINUTE);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test('waits for the tab to show when registered while hidden', async () => {
+    hidden = true;
+    const run = register('tracking', MINUTE);
+    await advance(5 * MINUTE);
+    expect(run).not.toHaveBeenCalled();
+
+    setHidden(false);
+    await advance(0);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not start a run while the previous one is still going', async () => {
+    let finish: (succeeded: boolean) => void = () => {};
+    const run = jest.fn(() => new Promise<boolean>(resolve => { finish = resolve; }));
+    stops.push(refreshScheduler.register({ id: 'tracking', intervalMs: MINUTE, run }));
+
+    await advance(MINUTE);
+    // Showing the tab again must not start a second run alongside the first
+    setHidden(true);
+    setHidden(false);
+    await advance(5 * MINUTE);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    // The next interval counts from when the run finished
+    finish(true);
+    await settle();
+    await advance(MINUTE);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test('stops a task, and replaces one registered again under the same id', async () => {
+    const first = register('weather', MINUTE);
+    const second = register('weather', 2 * MINUTE);
+    await advance(2 * MINUTE);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    // The first registration's stop no longer touches the replacement
+    stops[0]();
+    await advance(2 * MINUTE);
+    expect(second).toHaveBeenCalledTimes(2);
+
+    stops[1]();
+    await advance(10 * MINUTE);
+    expect(second).toHaveBeenCalledTimes(2);
+  });
+});
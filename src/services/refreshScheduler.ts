@@ -0,0 +1,141 @@
+/**
+ * Central scheduler for automatic feed refreshes
+ *
+ * Each polled source registers one task with its own interval. Tasks only run
+ * while the tab is visible, never overlap themselves, and back off
+ * exponentially while they keep failing.
+ */
+
+export interface RefreshTask {
+  /** Source name, unique across the app (e.g., "tracking") */
+  id: string;
+  intervalMs: number;
+  /** Refresh the source; resolves false (or rejects) when it failed */
+  run: () => Promise<boolean>;
+}
+
+interface ScheduledTask {
+  task: RefreshTask;
+  timer: ReturnType<typeof setTimeout> | null;
+  running: boolean;
+  failures: number;
+  nextRunAt: number;
+}
+
+// Floor for any interval, so a mistyped config cannot hammer S3
+const MIN_INTERVAL_MS = 60 * 1000;
+// Ceiling for the back-off of a failing source
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+class RefreshScheduler {
+  private tasks: Map<string, ScheduledTask> = new Map();
+  private listening = false;
+
+  /**
+   * Start refreshing a source; a task already registered under the id is replaced
+   * @param task - Task to run
+   * @returns Function that stops the task
+   */
+  register(task: RefreshTask): () => void {
+    this.unregister(task.id);
+
+    const intervalMs = Math.max(task.intervalMs, MIN_INTERVAL_MS);
+    const scheduled: ScheduledTask = {
+      task: { ...task, intervalMs },
+      timer: null,
+      running: false,
+      failures: 0,
+      nextRunAt: Date.now() + intervalMs
+    };
+    this.tasks.set(task.id, scheduled);
+    this.startListening();
+    this.schedule(scheduled);
+
+    return () => {
+      if (this.tasks.get(task.id) === scheduled) {
+        this.unregister(task.id);
+      }
+    };
+  }
+
+  /**
+   * Stop refreshing a source
+   */
+  unregister(id: string): void {
+    const scheduled = this.tasks.get(id);
+    if (!scheduled) return;
+
+    if (scheduled.timer) clearTimeout(scheduled.timer);
+    this.tasks.delete(id);
+    if (this.tasks.size === 0) this.stopListening();
+  }
+
+  /**
+   * Delay before the next run: the interval, doubled for every failure in a row
+   */
+  private getDelay(scheduled: ScheduledTask): number {
+    const { intervalMs } = scheduled.task;
+    if (scheduled.failures === 0) return intervalMs;
+    return Math.min(intervalMs * 2 ** scheduled.failures, Math.max(MAX_BACKOFF_MS, intervalMs));
+  }
+
+  private schedule(scheduled: ScheduledTask): void {
+    if (scheduled.timer) clearTimeout(scheduled.timer);
+    scheduled.timer = null;
+
+    // Hidden tabs wait for visibilitychange
+    if (document.hidden) return;
+
+    const delay = Math.max(0, scheduled.nextRunAt - Date.now());
+    scheduled.timer = setTimeout(() => this.run(scheduled), delay);
+  }
+
+  private async run(scheduled: ScheduledTask): Promise<void> {
+    scheduled.timer = null;
+    if (scheduled.running || document.hidden) return;
+
+    scheduled.running = true;
+    let succeeded = false;
+    try {
+      succeeded = await scheduled.task.run();
+    } catch (error) {
+      console.warn(`[refresh] ${scheduled.task.id} failed:`, error);
+    }
+    scheduled.running = false;
+
+    scheduled.failures = succeeded ? 0 : scheduled.failures + 1;
+    scheduled.nextRunAt = Date.now() + this.getDelay(scheduled);
+
+    // The task may have been stopped while it ran
+    if (this.tasks.get(scheduled.task.id) === scheduled) {
+      this.schedule(scheduled);
+    }
+  }
+
+  // Pause every task while hidden; overdue tasks run as soon as the tab is back
+  private handleVisibilityChange = (): void => {
+    this.tasks.forEach(scheduled => {
+      if (document.hidden) {
+        if (scheduled.timer) clearTimeout(scheduled.timer);
+        scheduled.timer = null;
+      } else if (!scheduled.running) {
+        this.schedule(scheduled);
+      }
+    });
+  };
+
+  private startListening(): void {
+    if (this.listening) return;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.listening = true;
+  }
+
+  private stopListening(): void {
+    if (!this.listening) return;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.listening = false;
+  }
+}
+
+// Export singleton instance
+export const refreshScheduler = new RefreshScheduler();
@@ -1,132 +1,84 @@
-import { API_CONFIG, getApiUrl } from '../config/api';
-import { Rider, IndianRider, ApiResponse, ApiError } from '../types/index';
+import { getApiUrl } from '../config/api';
+import { normalizeCountryCode } from '../config/countries';
+import { Rider, RiderAffiliation } from '../types/index';
+import {
+  reportValidationIssues,
+  validateRidersFeed,
+  validateTrackingFeed,
+  validateAffiliationsFeed,
+  TrackingFeed,
+  ValidationResult
+} from '../utils/dataProcessors/feedValidators';
+import { dataClient, toApiError } from './dataClient';
 
 class RiderService {
-  private abortControllers: Map<string, AbortController> = new Map();
+  private validatedFeeds: WeakMap<object, unknown> = new WeakMap();
 
   /**
-   * Generic fetch wrapper with error handling and retry logic
+   * Validate a feed payload once
+   * An unchanged feed (304) returns the same payload, so it gets the same
+   * data back and its issues are not reported again.
    */
-  private async fetchWithRetry<T>(
-    url: string,
-    options: RequestInit = {},
-    retries: number = API_CONFIG.request.retries,
-    externalSignal?: AbortSignal
-  ): Promise<T> {
-    const controller = new AbortController();
-    const key = url;
-    
-    // Cancel any existing request to the same URL
-    this.cancelRequest(key);
-    this.abortControllers.set(key, controller);
-
-    // Combine external signal with timeout signal
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-    }, API_CONFIG.request.timeout);
-
-    // Listen to external abort signal
-    if (externalSignal) {
-      externalSignal.addEventListener('abort', () => {
-        controller.abort();
-      });
+  private validateFeed<T>(
+    payload: unknown,
+    feedName: string,
+    validate: (payload: unknown) => ValidationResult<T>
+  ): T {
+    const isObject = typeof payload === 'object' && payload !== null;
+    if (isObject && this.validatedFeeds.has(payload)) {
+      return this.validatedFeeds.get(payload) as T;
     }
 
-    try {
-      // Add cache-busting headers and timestamp
-      const urlWithTimestamp = url.includes('?') ? `${url}&t=${Date.now()}` : `${url}?t=${Date.now()}`;
-      
-      const response = await fetch(urlWithTimestamp, {
-        ...options,
-        signal: controller.signal,
-        cache: 'no-cache',
-        headers: {
-          ...options.headers,
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache',
-          'Expires': '0'
-        }
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      this.abortControllers.delete(key);
-      return data;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      this.abortControllers.delete(key);
-
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error('Request aborted');
-        }
-
-        if (retries > 0 && error.message !== 'Request aborted') {
-          // Wait before retrying
-          await new Promise(resolve => setTimeout(resolve, API_CONFIG.request.retryDelay));
-          return this.fetchWithRetry<T>(url, options, retries - 1, externalSignal);
-        }
-      }
-
-      throw error;
-    }
+    const { data, issues } = validate(payload);
+    reportValidationIssues(feedName, issues);
+    if (isObject) this.validatedFeeds.set(payload, data);
+    return data;
   }
 
   /**
-   * Cancel a specific request
+   * Cancel all ongoing requests
    */
-  private cancelRequest(key: string): void {
-    const controller = this.abortControllers.get(key);
-    if (controller) {
-      controller.abort();
-      this.abortControllers.delete(key);
-    }
+  cancelAllRequests(): void {
+    dataClient.cancelAll();
   }
 
   /**
-   * Cancel all ongoing requests
+   * Fetch all riders
    */
-  cancelAllRequests(): void {
-    this.abortControllers.forEach(controller => controller.abort());
-    this.abortControllers.clear();
+  async fetchRiders(signal?: AbortSignal, url: string = getApiUrl('riders')): Promise<Rider[]> {
+    try {
+      const validate = (payload: unknown) => this.validateFeed(payload, 'riders.json', validateRidersFeed);
+      return validate(await dataClient.getJson(url, { signal, validate }));
+    } catch (error) {
+      throw toApiError(error, 'riders.json');
+    }
   }
 
   /**
-   * Fetch all riders
+   * Fetch a tracking feed: the Indian riders feed or the shard of one wave
    */
-  async fetchRiders(signal?: AbortSignal): Promise<Rider[]> {
+  async fetchTrackingFeed(url: string, signal?: AbortSignal): Promise<TrackingFeed> {
+    const feedName = url.substring(url.lastIndexOf('/') + 1);
     try {
-      const data = await this.fetchWithRetry<Rider[]>(getApiUrl('riders'), {}, API_CONFIG.request.retries, signal);
-      return data;
+      const validate = (payload: unknown) =>
+        this.validateFeed(payload, feedName, feed => validateTrackingFeed(feed, feedName));
+      return validate(await dataClient.getJson(url, { signal, validate }));
     } catch (error) {
-      const apiError: ApiError = {
-        message: error instanceof Error ? error.message : 'Failed to fetch riders',
-        code: error instanceof Error && error.message === 'Request aborted' ? 'REQUEST_ABORTED' : 'FETCH_RIDERS_ERROR',
-      };
-      throw apiError;
+      throw toApiError(error, feedName);
     }
   }
 
   /**
-   * Fetch Indian riders tracking data
+   * Fetch the club and city of riders from an event's affiliations side file
    */
-  async fetchIndianRiders(): Promise<ApiResponse<IndianRider[]>> {
+  async fetchAffiliations(url: string, signal?: AbortSignal): Promise<Record<string, RiderAffiliation>> {
+    const feedName = url.substring(url.lastIndexOf('/') + 1);
     try {
-      const data = await this.fetchWithRetry<ApiResponse<IndianRider[]>>(
-        getApiUrl('indianRiders')
-      );
-      return data;
+      const validate = (payload: unknown) =>
+        this.validateFeed(payload, feedName, feed => validateAffiliationsFeed(feed, feedName));
+      return validate(await dataClient.getJson(url, { signal, validate }));
     } catch (error) {
-      const apiError: ApiError = {
-        message: error instanceof Error ? error.message : 'Failed to fetch Indian riders',
-        code: 'FETCH_INDIAN_RIDERS_ERROR',
-      };
-      throw apiError;
+      throw toApiError(error, feedName);
     }
   }
 
@@ -154,12 +106,14 @@ class RiderService {
   }
 
   /**
-   * Get riders by country
+   * Get riders by country (any spelling, e.g. "UK" or "GB")
    */
   async getRidersByCountry(country: string): Promise<Rider[]> {
     const allRiders = await this.fetchRiders();
+    const countryCode = normalizeCountryCode(country);
+    if (!countryCode) return [];
     return allRiders.filter(rider => 
-      rider.country?.toLowerCase() === country.toLowerCase()
+      normalizeCountryCode(rider.country) === countryCode
     );
   }
 
@@ -178,7 +132,7 @@ class RiderService {
     
     riders.forEach(rider => {
       // Count by country
-      const country = rider.country || 'Unknown';
+      const country = normalizeCountryCode(rider.country) || rider.country || 'Unknown';
       byCountry.set(country, (byCountry.get(country) || 0) + 1);
       
       // Count by wave
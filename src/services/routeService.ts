@@ -1,41 +1,37 @@
 import { API_CONFIG, getApiUrl } from '../config/api';
-import { RouteData, ApiError, RouteSegment } from '../types/index';
+import { RouteData } from '../types/index';
+import { reportValidationIssues, validateRouteFeed } from '../utils/dataProcessors/feedValidators';
+import { dataClient, toApiError } from './dataClient';
 
 class RouteService {
   private cache: RouteData | null = null;
+  private cacheUrl: string | null = null;
   private cacheTimestamp: number = 0;
 
   /**
    * Fetch route data with caching
    */
-  async fetchRouteData(): Promise<RouteData> {
+  async fetchRouteData(url: string = getApiUrl('routes'), signal?: AbortSignal): Promise<RouteData> {
     const now = Date.now();
     
     // Return cached data if still valid
-    if (this.cache && (now - this.cacheTimestamp) < API_CONFIG.cache.cacheTime) {
+    if (this.cache && this.cacheUrl === url && (now - this.cacheTimestamp) < API_CONFIG.cache.cacheTime) {
       return this.cache;
     }
 
     try {
-      const response = await fetch(getApiUrl('routes'));
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const payload = await dataClient.getJson(url, { signal, validate: validateRouteFeed });
+      const { data, issues } = validateRouteFeed(payload);
+      reportValidationIssues('routes.json', issues);
       
       // Cache the data
       this.cache = data;
+      this.cacheUrl = url;
       this.cacheTimestamp = now;
       
       return data;
     } catch (error) {
-      const apiError: ApiError = {
-        message: error instanceof Error ? error.message : 'Failed to fetch route data',
-        code: 'FETCH_ROUTE_ERROR',
-      };
-      throw apiError;
+      throw toApiError(error, 'routes.json');
     }
   }
 
@@ -44,6 +40,7 @@ class RouteService {
    */
   clearCache(): void {
     this.cache = null;
+    this.cacheUrl = null;
     this.cacheTimestamp = 0;
   }
 
@@ -55,19 +52,20 @@ class RouteService {
     endCheckpoint: string
   ): Promise<number> {
     const routeData = await this.fetchRouteData();
+    const checkpoints = routeData.flatMap(route => route.coords.filter(point => point.checkpoint));
     
-    const startControl = routeData.controls.find(c => 
-      c.name.toLowerCase() === startCheckpoint.toLowerCase()
+    const startControl = checkpoints.find(point => 
+      point.checkpoint!.toLowerCase() === startCheckpoint.toLowerCase()
     );
-    const endControl = routeData.controls.find(c => 
-      c.name.toLowerCase() === endCheckpoint.toLowerCase()
+    const endControl = checkpoints.find(point => 
+      point.checkpoint!.toLowerCase() === endCheckpoint.toLowerCase()
     );
     
     if (!startControl || !endControl) {
       throw new Error('Invalid checkpoint names');
     }
     
-    return Math.abs(endControl.distance - startControl.distance);
+    return Math.abs(endControl.dist - startControl.dist);
   }
 
 }
@@ -0,0 +1,59 @@
+import { StateStore } from './stateStore';
+
+describe('StateStore', () => {
+  test('holds the initial state until it is replaced', () => {
+    const initial = { selectedRider: null as string | null };
+    const store = new StateStore(initial);
+    expect(store.getState()).toBe(initial);
+
+    const next = { selectedRider: 'LB12' };
+    store.setState(next);
+    expect(store.getState()).toBe(next);
+  });
+
+  test('notifies every subscriber when the state is replaced', () => {
+    const store = new StateStore({ count: 0 });
+    const first = jest.fn();
+    const second = jest.fn(() => expect(store.getState()).toEqual({ count: 1 }));
+    store.subscribe(first);
+    store.subscribe(second);
+
+    store.setState({ count: 1 });
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  test('ignores the same state object', () => {
+    const state = { count: 0 };
+    const store = new StateStore(state);
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.setState(state);
+    expect(listener).not.toHaveBeenCalled();
+    // An equal but new object is a change
+    store.setState({ count: 0 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('stops notifying after unsubscribe', () => {
+    const store = new StateStore({ count: 0 });
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.setState({ count: 1 });
+    unsubscribe();
+    store.setState({ count: 2 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('keeps its methods bound for useSyncExternalStore', () => {
+    const store = new StateStore({ count: 0 });
+    const { getState, setState, subscribe } = store;
+    const listener = jest.fn();
+    subscribe(listener);
+    setState({ count: 1 });
+    expect(getState()).toEqual({ count: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
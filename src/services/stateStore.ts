@@ -0,0 +1,44 @@
+/**
+ * Minimal observable state container
+ *
+ * Holds one immutable state value and tells subscribers when it is replaced,
+ * so components can read slices of it through useSyncExternalStore instead
+ * of re-rendering with a whole context value.
+ */
+
+export class StateStore<T> {
+  private state: T;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(initialState: T) {
+    this.state = initialState;
+  }
+
+  /**
+   * Current state; the same object until it is replaced
+   */
+  getState = (): T => {
+    return this.state;
+  };
+
+  /**
+   * Replace the state and notify subscribers; the same object is ignored
+   * @param state - Next state
+   */
+  setState = (state: T): void => {
+    if (state === this.state) return;
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  };
+
+  /**
+   * Listen for state changes
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
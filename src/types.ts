@@ -2,4 +2,12 @@ export interface Rider {
   rider_no: string;
   name: string;
   country?: string;
+  actual_start?: string; // Start time if the rider left after their wave
+}
+
+// Club and home town, from the event's optional affiliations side file
+export interface RiderAffiliation {
+  club?: string;
+  city?: string;
+  state?: string;
 }
\ No newline at end of file
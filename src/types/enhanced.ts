@@ -3,15 +3,26 @@
  * These types extend the base types with computed properties
  */
 
-import { Rider } from '../types';
+import { Rider, RiderAffiliation } from '../types';
 import { 
   EnhancedRider as ProcessedEnhancedRider,
   TrackingRider as ProcessedTrackingRider,
   ProcessedWave,
   TrackedWave,
   ControlProgress,
-  RiderStatus
+  RiderStatus,
+  RawTrackingRider,
+  TrackingFeed,
+  RouteTrack,
+  RouteTrackPoint,
+  ValidationIssue,
+  RaceEvent,
+  ProcessedRaceData,
+  FeedObservation
 } from '../utils/dataProcessors';
+import type { RaceEventListener } from '../services/raceEventLog';
+import type { EventDefinition } from '../config/events';
+import type { Clock } from '../utils/clock';
 
 // Re-export processed types for convenience
 export type { 
@@ -20,7 +31,12 @@ export type {
   ProcessedWave,
   TrackedWave,
   ControlProgress,
-  RiderStatus
+  RiderStatus,
+  TrackingFeed,
+  RouteTrack,
+  RouteTrackPoint,
+  ValidationIssue,
+  RaceEvent
 };
 
 /**
@@ -36,13 +52,11 @@ export interface GlobalStatistics {
     finished: number;
     dnf: number;
   };
-  byRoute: {
-    london: number;
-    writtle: number;
-  };
+  byRoute: Record<string, number>; // Keyed by start location id
   averageDistance: number;
   averageSpeed: number;
   completionRate: number;
+  projectedFinishers: number; // Finished plus each rider on the road weighted by their chance
   lastUpdated: Date;
 }
 
@@ -51,8 +65,8 @@ export interface GlobalStatistics {
  */
 export interface WaveStatisticsExtended {
   code: string;
-  startTime: string;
-  route: 'london' | 'writtle' | 'mixed';
+  startTime: string | null; // HH:MM, or null if the wave is not scheduled
+  route: string; // Start location id, or 'mixed'
   riderCount: number;
   countries: string[];
   status: {
@@ -90,7 +104,7 @@ export interface ControlPointExtended {
 export interface RiderFilters {
   wave?: string;
   status?: RiderStatus;
-  country?: string;
+  country?: string; // Any spelling; matched by ISO code
   minDistance?: number;
   maxDistance?: number;
   searchTerm?: string;
@@ -99,7 +113,7 @@ export interface RiderFilters {
 /**
  * Sort options for riders
  */
-export type RiderSortBy = 'name' | 'rider_no' | 'distance' | 'speed' | 'status' | 'wave';
+export type RiderSortBy = 'name' | 'rider_no' | 'distance' | 'speed' | 'status' | 'wave' | 'finish_chance';
 
 /**
  * Loading state for different data sources
@@ -129,31 +143,64 @@ export interface UpdateTimestamps {
 }
 
 /**
- * Route data structure
- */
-export interface RouteData {
-  totalDistance: number;
-  controls: Array<{
-    id: string;
-    name: string;
-    km: number;
-    leg: 'North' | 'South';
-  }>;
-  segments: Array<{
-    from: string;
-    to: string;
-    distance: number;
-    coordinates: Array<[number, number]>;
-  }>;
+ * Tracking shard of one wave, loaded on demand
+ */
+export interface TrackingShardState {
+  riders: RawTrackingRider[];
+  loading: boolean;
+  error: Error | null;
+  lastUpdated: Date | null;
 }
 
+/**
+ * Route data structure (routes.json: one track per start location)
+ */
+export type RouteData = RouteTrack[];
+
 /**
  * Combined data store state
  */
+/**
+ * What the global data store holds; everything else in GlobalDataState is
+ * derived from it on demand by the selectors in contexts/globalDataSelectors
+ */
+export interface GlobalDataSources {
+  event: EventDefinition;
+  clock: Clock; // Stopped at the "as of" time during a replay
+  now: number; // The clock's time, moved on once a minute so predictions follow it (epoch ms)
+  asOf: Date | null; // Replay time; null when live
+  
+  // Raw data, as fetched
+  rawRiders: Rider[];
+  riderAffiliations: Record<string, RiderAffiliation>;
+  liveTrackingData: TrackingFeed | null;
+  trackingShards: Record<string, TrackingShardState>;
+  rawRouteData: RouteData | null;
+  
+  // Latest output of the processing worker; the previous one while a new payload is processed
+  processed: ProcessedRaceData | null;
+  
+  // State management
+  loading: LoadingState; // First load only
+  refreshing: LoadingState; // Reloads while the current data stays on screen
+  errors: ErrorState;
+  lastUpdated: UpdateTimestamps;
+  
+  // Filters, sorting and selection, as given by the URL
+  activeFilters: RiderFilters;
+  activeSortBy: RiderSortBy;
+  selectedRiderNo: string | null;
+  selectedWave: string | null;
+  selectedControl: string | null;
+}
+
 export interface GlobalDataState {
   // Raw data
   rawRiders: Rider[];
-  rawTrackingData: any | null;
+  riderAffiliations: Record<string, RiderAffiliation>; // From the optional side file, by rider number
+  rawTrackingData: TrackingFeed | null; // Rewound to the "as of" time during a replay
+  trackingShards: Record<string, TrackingShardState>; // By wave code
+  rawTrackingByRider: Map<string, RawTrackingRider>; // Main feed and shards merged; rewound during a replay
   rawRouteData: RouteData | null;
   
   // Processed data
@@ -169,6 +216,7 @@ export interface GlobalDataState {
   
   // State management
   loading: LoadingState;
+  refreshing: LoadingState;
   errors: ErrorState;
   lastUpdated: UpdateTimestamps;
   
@@ -191,12 +239,21 @@ export interface GlobalDataActions {
   refreshRiders: () => Promise<void>;
   refreshTracking: () => Promise<void>;
   refreshRoutes: () => Promise<void>;
+  loadWaveTracking: (waveCodes: string[]) => Promise<void>;
   
   // Data access
   getRiderById: (riderNo: string) => ProcessedTrackingRider | ProcessedEnhancedRider | null;
   getWaveByCode: (code: string) => TrackedWave | ProcessedWave | null;
   getControlById: (id: string) => ControlProgress | null;
   
+  // Race events derived from consecutive tracking payloads
+  getRaceEvents: () => readonly RaceEvent[];
+  subscribeToRaceEvents: (listener: RaceEventListener) => () => void;
+  
+  // Source timestamps of the tracking feeds across fetches
+  getFeedObservations: () => readonly FeedObservation[];
+  subscribeToFeedObservations: (listener: () => void) => () => void;
+  
   // Filtering and sorting
   setFilters: (filters: RiderFilters) => void;
   setSortBy: (sortBy: RiderSortBy) => void;
@@ -1,6 +1,6 @@
 // Import and re-export base Rider type
-import type { Rider } from '../types';
-export type { Rider };
+import type { Rider, RiderAffiliation } from '../types';
+export type { Rider, RiderAffiliation };
 
 // API Response types
 export interface ApiResponse<T> {
@@ -24,10 +24,7 @@ export interface RiderWithStatus extends Rider {
   elapsedTime?: string;
 }
 
-export interface IndianRider extends RiderWithStatus {
-  city?: string;
-  state?: string;
-  club?: string;
+export interface IndianRider extends RiderWithStatus, RiderAffiliation {
   emergencyContact?: string;
 }
 
@@ -50,17 +47,9 @@ export interface Control {
   name: string;
   distance: number;
   location: RoutePoint;
-  cutoffTime?: string;
   services?: string[];
 }
 
-export interface RouteData {
-  controls: Control[];
-  segments: RouteSegment[];
-  totalDistance: number;
-  totalElevationGain: number;
-}
-
 // Wave types
 export interface Wave {
   code: string;
@@ -0,0 +1,87 @@
+import {
+  Clock,
+  createAcceleratedClock,
+  createFixedClock,
+  createOffsetClock,
+  getClockFromSearch,
+  systemClock
+} from './clock';
+
+const RACE_DAY = new Date('2025-08-04T10:00:00Z');
+
+// A base clock the test moves by hand
+const createManualClock = (start: Date) => {
+  let time = start.getTime();
+  const clock: Clock = { now: () => new Date(time) };
+  return { clock, advance: (ms: number) => { time += ms; } };
+};
+
+describe('clocks', () => {
+  test('a fixed clock always reads the same moment, as a fresh Date', () => {
+    const clock = createFixedClock(RACE_DAY);
+    const first = clock.now();
+    first.setFullYear(2000);
+    expect(clock.now()).toEqual(RACE_DAY);
+  });
+
+  test('an offset clock follows its base, shifted', () => {
+    const base = createManualClock(new Date('2026-01-01T00:00:00Z'));
+    const clock = createOffsetClock(-3600000, base.clock);
+    expect(clock.now()).toEqual(new Date('2025-12-31T23:00:00Z'));
+    base.advance(60000);
+    expect(clock.now()).toEqual(new Date('2025-12-31T23:01:00Z'));
+  });
+
+  test('an accelerated clock starts at its origin and runs at its speed', () => {
+    const base = createManualClock(new Date('2026-01-01T00:00:00Z'));
+    const clock = createAcceleratedClock(RACE_DAY, 60, base.clock);
+    expect(clock.now()).toEqual(RACE_DAY);
+    base.advance(60000);
+    expect(clock.now()).toEqual(new Date('2025-08-04T11:00:00Z'));
+  });
+});
+
+describe('getClockFromSearch', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('leaves the real time alone without now=', () => {
+    expect(getClockFromSearch('?speed=60')).toBeNull();
+    expect(systemClock.now()).toEqual(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  test('ignores a now= that is not a time', () => {
+    expect(getClockFromSearch('?now=tuesday')).toBeNull();
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  test('starts at now= and runs at normal speed', () => {
+    const clock = getClockFromSearch('?now=2025-08-04T10:00:00Z')!;
+    expect(clock.now()).toEqual(RACE_DAY);
+    jest.advanceTimersByTime(60000);
+    expect(clock.now()).toEqual(new Date('2025-08-04T10:01:00Z'));
+  });
+
+  test('runs speed= times faster, and stops at speed=0', () => {
+    const fast = getClockFromSearch('?now=2025-08-04T10:00:00Z&speed=60')!;
+    const stopped = getClockFromSearch('?now=2025-08-04T10:00:00Z&speed=0')!;
+    jest.advanceTimersByTime(60000);
+    expect(fast.now()).toEqual(new Date('2025-08-04T11:00:00Z'));
+    expect(stopped.now()).toEqual(RACE_DAY);
+  });
+
+  test('falls back to normal speed for a bad speed=', () => {
+    const clock = getClockFromSearch('?now=2025-08-04T10:00:00Z&speed=-2')!;
+    jest.advanceTimersByTime(60000);
+    expect(clock.now()).toEqual(new Date('2025-08-04T10:01:00Z'));
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Clocks for time-dependent race logic
+ *
+ * Anything that asks "what time is it in the race" (cutoffs, "x mins ago",
+ * positions on the map) reads a Clock instead of calling `new Date()`, so a
+ * fixed, shifted or sped-up clock can stand in for the real one in tests,
+ * replays and simulated race days. Network timings, cache ages and fetch
+ * freshness stay on the wall clock: they describe this browser, not the race.
+ */
+
+export interface Clock {
+  /** Current moment on this clock */
+  now: () => Date;
+}
+
+/**
+ * The real time
+ */
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+/**
+ * A clock stopped at one moment
+ * @param at - Moment the clock always reads
+ */
+export function createFixedClock(at: Date): Clock {
+  const time = at.getTime();
+  return { now: () => new Date(time) };
+}
+
+/**
+ * A clock running at normal speed but shifted from another
+ * @param offsetMs - Milliseconds added to the base clock (negative to go back)
+ * @param base - Clock to shift; defaults to the real time
+ */
+export function createOffsetClock(offsetMs: number, base: Clock = systemClock): Clock {
+  return { now: () => new Date(base.now().getTime() + offsetMs) };
+}
+
+/**
+ * A clock that starts at a given moment and runs faster (or slower) than another
+ * @param origin - Moment the clock reads when created
+ * @param speed - Clock milliseconds per base millisecond (60 runs an hour a minute)
+ * @param base - Clock it is driven by; defaults to the real time
+ */
+export function createAcceleratedClock(origin: Date, speed: number, base: Clock = systemClock): Clock {
+  const startedAt = base.now().getTime();
+  const originTime = origin.getTime();
+  return { now: () => new Date(originTime + (base.now().getTime() - startedAt) * speed) };
+}
+
+/**
+ * Clock requested by the page URL, for checking a race day outside race week
+ *
+ * `?now=2025-08-04T10:00:00Z` starts the clock at that moment; `&speed=60`
+ * runs it sixty times faster and `&speed=0` stops it there.
+ * @param search - Query string (e.g., window.location.search)
+ * @returns The requested clock, or null if the URL does not ask for one
+ */
+export function getClockFromSearch(search: string): Clock | null {
+  const params = new URLSearchParams(search);
+  const nowParam = params.get('now');
+  if (!nowParam) return null;
+
+  const origin = new Date(nowParam);
+  if (isNaN(origin.getTime())) {
+    console.warn(`[Clock] Ignoring invalid now=${nowParam}`);
+    return null;
+  }
+
+  let speed = Number(params.get('speed') ?? 1);
+  if (!Number.isFinite(speed) || speed < 0) {
+    console.warn(`[Clock] Ignoring invalid speed=${params.get('speed')}`);
+    speed = 1;
+  }
+
+  if (speed === 0) return createFixedClock(origin);
+  if (speed === 1) return createOffsetClock(origin.getTime() - systemClock.now().getTime());
+  return createAcceleratedClock(origin, speed);
+}
@@ -0,0 +1,77 @@
+import { createSelector, shallowEqual } from './createSelector';
+
+interface State {
+  riders: string[];
+  search: string;
+  selectedRider: string | null;
+}
+
+const initial: State = { riders: ['LB12', 'LC7', 'LB130'], search: 'LB', selectedRider: null };
+
+const makeSelector = () => {
+  const combiner = jest.fn((riders: string[], search: string) => riders.filter(rider => rider.startsWith(search)));
+  const selector = createSelector([(state: State) => state.riders, (state: State) => state.search], combiner);
+  return { selector, combiner };
+};
+
+describe('createSelector', () => {
+  test('returns the cached result while its inputs are unchanged', () => {
+    const { selector, combiner } = makeSelector();
+    const first = selector(initial);
+    expect(first).toEqual(['LB12', 'LB130']);
+
+    // A new state object whose inputs are the same objects
+    expect(selector({ ...initial, selectedRider: 'LB12' })).toBe(first);
+    expect(combiner).toHaveBeenCalledTimes(1);
+  });
+
+  test('recomputes when any input changes', () => {
+    const { selector, combiner } = makeSelector();
+    const first = selector(initial);
+
+    const searched = selector({ ...initial, search: 'LC' });
+    expect(searched).toEqual(['LC7']);
+    expect(combiner).toHaveBeenCalledTimes(2);
+
+    const reloaded = selector({ ...initial, search: 'LC', riders: [...initial.riders] });
+    expect(reloaded).not.toBe(searched);
+    expect(combiner).toHaveBeenCalledTimes(3);
+
+    // Only the last inputs are remembered
+    expect(selector(initial)).not.toBe(first);
+    expect(combiner).toHaveBeenCalledTimes(4);
+  });
+
+  test('compares inputs by identity, not by value', () => {
+    const { selector, combiner } = makeSelector();
+    selector(initial);
+    selector({ ...initial, riders: ['LB12', 'LC7', 'LB130'] });
+    expect(combiner).toHaveBeenCalledTimes(2);
+  });
+
+  test('caches a selector built on other selectors', () => {
+    const { selector: selectMatches } = makeSelector();
+    const count = jest.fn((matches: string[]) => matches.length);
+    const selectCount = createSelector([selectMatches], count);
+
+    expect(selectCount(initial)).toBe(2);
+    expect(selectCount({ ...initial, selectedRider: 'LC7' })).toBe(2);
+    expect(count).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('shallowEqual', () => {
+  test('compares objects key by key', () => {
+    const riders = ['LB12'];
+    expect(shallowEqual({ riders, search: 'LB' }, { riders, search: 'LB' })).toBe(true);
+    expect(shallowEqual({ riders, search: 'LB' }, { riders: ['LB12'], search: 'LB' })).toBe(false);
+    expect(shallowEqual<Record<string, unknown>>({ search: 'LB' }, { search: 'LB', page: 1 })).toBe(false);
+  });
+
+  test('handles identical values and non-objects', () => {
+    expect(shallowEqual(initial, initial)).toBe(true);
+    expect(shallowEqual(NaN, NaN)).toBe(true);
+    expect(shallowEqual<unknown>(null, {})).toBe(false);
+    expect(shallowEqual<unknown>('LB12', 'LB12 ')).toBe(false);
+  });
+});
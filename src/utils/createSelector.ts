@@ -0,0 +1,56 @@
+/**
+ * Memoized selectors
+ *
+ * A selector built from input selectors only recomputes when one of its
+ * inputs returns something new (compared by identity), so derived data is
+ * worked out once per change of what it depends on, however many components
+ * read it.
+ */
+
+export type Selector<S, R> = (state: S) => R;
+
+type AnySelector = Selector<never, unknown>;
+
+type SelectorState<T extends AnySelector[]> = Parameters<T[0]>[0];
+
+type SelectorResults<T extends AnySelector[]> = {
+  [K in keyof T]: T[K] extends Selector<never, infer R> ? R : never;
+};
+
+/**
+ * Build a selector that caches its last result
+ * @param inputs - Selectors picking what the result depends on
+ * @param combiner - Computes the result from the inputs' values
+ * @returns Selector returning the cached result while the inputs are unchanged
+ */
+export function createSelector<T extends [AnySelector, ...AnySelector[]], R>(
+  inputs: [...T],
+  combiner: (...values: SelectorResults<T>) => R
+): Selector<SelectorState<T>, R> {
+  let lastValues: unknown[] | null = null;
+  let lastResult: R;
+
+  return (state: SelectorState<T>): R => {
+    const values = inputs.map(input => (input as Selector<SelectorState<T>, unknown>)(state));
+    if (lastValues && values.every((value, index) => value === lastValues![index])) {
+      return lastResult;
+    }
+
+    lastValues = values;
+    lastResult = combiner(...(values as SelectorResults<T>));
+    return lastResult;
+  };
+}
+
+/**
+ * Compare two objects key by key, for selectors that pick several fields
+ * @returns True if both have the same keys with identical values
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+
+  const keysA = Object.keys(a) as (keyof T)[];
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => Object.is(a[key], b[key]));
+}
@@ -0,0 +1,70 @@
+import { createTrackingSnapshot, diffTrackingSnapshot, hasTrackingChanges, DiffableRider } from './changeProcessors';
+import { RiderStatus } from './trackingProcessors';
+import { createFixedClock } from '../clock';
+
+const SAVED_AT = createFixedClock(new Date('2025-08-03T10:00:00Z')).now();
+
+const rider = (riderNo: string, status: RiderStatus, checkpoints: string[] = []): DiffableRider => ({
+  rider_no: riderNo,
+  name: `Rider ${riderNo}`,
+  status,
+  checkpoints: checkpoints.map((name, index) => ({ name, time: `Sunday ${String(5 + index).padStart(2, '0')}:15` }))
+});
+
+describe('createTrackingSnapshot', () => {
+  test('keeps only the status and checkpoint count of each rider', () => {
+    expect(createTrackingSnapshot([rider('LB12', 'in_progress', ['London', 'Writtle']), rider('LC7', 'not_started')], SAVED_AT))
+      .toEqual({
+        savedAt: '2025-08-03T10:00:00.000Z',
+        riders: {
+          LB12: { status: 'in_progress', checkpointCount: 2 },
+          LC7: { status: 'not_started', checkpointCount: 0 }
+        }
+      });
+  });
+});
+
+describe('diffTrackingSnapshot', () => {
+  const snapshot = createTrackingSnapshot([
+    rider('LB12', 'in_progress', ['London', 'Writtle']),
+    rider('LC7', 'not_started'),
+    rider('LD3', 'in_progress', ['London', 'Writtle', 'Northstowe']),
+    rider('LE9', 'in_progress', ['London'])
+  ], SAVED_AT);
+
+  test('has nothing to show when nothing moved', () => {
+    const changes = diffTrackingSnapshot(snapshot, [rider('LB12', 'in_progress', ['London', 'Writtle'])]);
+    expect(changes.since).toEqual(SAVED_AT);
+    expect(hasTrackingChanges(changes)).toBe(false);
+  });
+
+  test('lists the controls reached since, in feed order', () => {
+    const changes = diffTrackingSnapshot(snapshot, [rider('LB12', 'in_progress', ['London', 'Writtle', 'Northstowe', 'Boston'])]);
+    expect(changes.arrivals).toEqual([
+      { riderNo: 'LB12', riderName: 'Rider LB12', checkpoint: 'Northstowe', time: 'Sunday 07:15' },
+      { riderNo: 'LB12', riderName: 'Rider LB12', checkpoint: 'Boston', time: 'Sunday 08:15' }
+    ]);
+    expect(hasTrackingChanges(changes)).toBe(true);
+  });
+
+  test('reports a start under started, not as an arrival', () => {
+    const changes = diffTrackingSnapshot(snapshot, [rider('LC7', 'in_progress', ['London', 'Writtle'])]);
+    expect(changes.started).toEqual([{ riderNo: 'LC7', riderName: 'Rider LC7', from: 'not_started', to: 'in_progress' }]);
+    expect(changes.arrivals.map(arrival => arrival.checkpoint)).toEqual(['Writtle']);
+  });
+
+  test('reports finishers and DNFs', () => {
+    const changes = diffTrackingSnapshot(snapshot, [
+      rider('LD3', 'finished', ['London', 'Writtle', 'Northstowe']),
+      rider('LE9', 'dnf', ['London'])
+    ]);
+    expect(changes.finished).toEqual([{ riderNo: 'LD3', riderName: 'Rider LD3', from: 'in_progress', to: 'finished' }]);
+    expect(changes.dnf).toEqual([{ riderNo: 'LE9', riderName: 'Rider LE9', from: 'in_progress', to: 'dnf' }]);
+    expect(changes.arrivals).toEqual([]);
+  });
+
+  test('leaves out riders the snapshot did not have', () => {
+    const changes = diffTrackingSnapshot(snapshot, [rider('LF1', 'finished', ['London', 'Writtle'])]);
+    expect(hasTrackingChanges(changes)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import type { RawCheckpoint, RiderStatus } from './trackingProcessors';
+import { systemClock } from '../clock';
+
+/**
+ * What a visitor last saw of one rider
+ */
+export interface SeenRider {
+  status: RiderStatus;
+  checkpointCount: number;
+}
+
+/**
+ * Compact record of the tracking a visitor last saw, by bib number
+ */
+export interface TrackingSnapshot {
+  savedAt: string; // ISO timestamp
+  riders: Record<string, SeenRider>;
+}
+
+/**
+ * The fields of a tracking rider a diff looks at
+ */
+export interface DiffableRider {
+  rider_no: string;
+  name: string;
+  status: RiderStatus;
+  checkpoints: RawCheckpoint[];
+}
+
+export interface CheckpointArrival {
+  riderNo: string;
+  riderName: string;
+  checkpoint: string;
+  time: string;
+}
+
+export interface RiderStatusChange {
+  riderNo: string;
+  riderName: string;
+  from: RiderStatus;
+  to: RiderStatus;
+}
+
+/**
+ * Changes between a snapshot and the current tracking
+ */
+export interface TrackingChanges {
+  since: Date;
+  /** Riders who left the start */
+  started: RiderStatusChange[];
+  /** Controls reached after the start, in feed order per rider */
+  arrivals: CheckpointArrival[];
+  finished: RiderStatusChange[];
+  dnf: RiderStatusChange[];
+}
+
+/**
+ * Record what is on screen now
+ * @param riders - Tracking riders being shown
+ * @param savedAt - Time of the snapshot
+ * @returns Snapshot to compare the next visit against
+ */
+export function createTrackingSnapshot(riders: DiffableRider[], savedAt: Date = systemClock.now()): TrackingSnapshot {
+  const seen: Record<string, SeenRider> = {};
+  riders.forEach(rider => {
+    seen[rider.rider_no] = { status: rider.status, checkpointCount: rider.checkpoints.length };
+  });
+  return { savedAt: savedAt.toISOString(), riders: seen };
+}
+
+/**
+ * Work out what happened since a snapshot
+ * Riders missing from the snapshot (e.g., just added to a group) are left out.
+ * @param snapshot - What the visitor last saw
+ * @param riders - Current tracking riders
+ * @returns Started riders, checkpoint arrivals, finishers and DNFs
+ */
+export function diffTrackingSnapshot(snapshot: TrackingSnapshot, riders: DiffableRider[]): TrackingChanges {
+  const changes: TrackingChanges = {
+    since: new Date(snapshot.savedAt),
+    started: [],
+    arrivals: [],
+    finished: [],
+    dnf: []
+  };
+  
+  riders.forEach(rider => {
+    const seen = snapshot.riders[rider.rider_no];
+    if (!seen) return;
+    
+    const change = { riderNo: rider.rider_no, riderName: rider.name, from: seen.status, to: rider.status };
+    if (seen.status === 'not_started' && rider.status !== 'not_started') changes.started.push(change);
+    if (seen.status !== 'finished' && rider.status === 'finished') changes.finished.push(change);
+    if (seen.status !== 'dnf' && rider.status === 'dnf') changes.dnf.push(change);
+    
+    // The first checkpoint is the start, already reported under started
+    rider.checkpoints.forEach((checkpoint, index) => {
+      if (index === 0 || index < seen.checkpointCount) return;
+      changes.arrivals.push({
+        riderNo: rider.rider_no,
+        riderName: rider.name,
+        checkpoint: checkpoint.name,
+        time: checkpoint.time
+      });
+    });
+  });
+  
+  return changes;
+}
+
+/**
+ * Whether a diff has anything to show
+ */
+export function hasTrackingChanges(changes: TrackingChanges): boolean {
+  return changes.started.length > 0 ||
+    changes.arrivals.length > 0 ||
+    changes.finished.length > 0 ||
+    changes.dnf.length > 0;
+}
@@ -0,0 +1,99 @@
+import { normalizeClubKey, sortClubStandings, summarizeClubs, ClubStanding } from './clubProcessors';
+import { EnhancedRider } from './riderProcessors';
+import { RiderStatus, TrackingRider } from './trackingProcessors';
+import { LEL_2025 } from '../../config/events';
+
+// L-series riders start in London, with Writtle as their first control; A riders start at Writtle
+const rider = (riderNo: string, club?: string) => ({ rider_no: riderNo, name: riderNo, club } as EnhancedRider);
+
+const tracked = (riderNo: string, status: RiderStatus, checkpoints: Array<[string, number | undefined]> = []) =>
+  [riderNo, {
+    rider_no: riderNo,
+    status,
+    checkpoints: checkpoints.map(([name, elapsed_minutes]) => ({ name, time: '', distance_km: 0, elapsed_minutes }))
+  } as TrackingRider] as const;
+
+const standing = (name: string, counts: Partial<ClubStanding>): ClubStanding => ({
+  key: normalizeClubKey(name),
+  name,
+  riderNumbers: [],
+  riderCount: 0,
+  started: 0,
+  riding: 0,
+  finished: 0,
+  dnf: 0,
+  controls: [],
+  ...counts
+});
+
+describe('summarizeClubs', () => {
+  const riders = [
+    rider('LB12', 'Bangalore Randonneurs'),
+    rider('LB13', ' bangalore  randonneurs '),
+    rider('LC7', 'Bangalore Randonneurs'),
+    rider('A5', 'Bangalore Randonneurs'),
+    rider('LB20', 'Audax Club Mumbai'),
+    rider('LB21', 'Audax Club Mumbai'),
+    rider('LB30')
+  ];
+  const tracking = new Map([
+    tracked('LB12', 'in_progress', [['London', 0], ['Writtle', 60], ['Northstowe', 300]]),
+    tracked('LB13', 'dnf', [['London', 0], ['Writtle', 90]]),
+    tracked('LC7', 'finished', [['Start', 0], ['Writtle N', 80], ['Northstowe', undefined]]),
+    tracked('A5', 'in_progress', [['Writtle', 0], ['Northstowe N', 280]]),
+    tracked('LB20', 'not_started'),
+    tracked('LB30', 'in_progress', [['London', 0], ['Writtle', 70]])
+  ]);
+  const standings = summarizeClubs(riders, tracking, LEL_2025);
+
+  test('groups spellings of one club and leaves out riders without a club', () => {
+    expect(standings.map(club => club.name)).toEqual(['Bangalore Randonneurs', 'Audax Club Mumbai']);
+    expect(standings[0].key).toBe('bangalore randonneurs');
+    expect(standings[0].riderNumbers).toEqual(['LB12', 'LB13', 'LC7', 'A5']);
+  });
+
+  test('counts riders by status, and untracked riders only as members', () => {
+    expect(standings[0]).toMatchObject({ riderCount: 4, started: 4, riding: 2, finished: 1, dnf: 1 });
+    expect(standings[1]).toMatchObject({ riderCount: 2, started: 0, riding: 0, finished: 0, dnf: 0 });
+  });
+
+  test('takes the median time to each control in route order, skipping starts', () => {
+    // Writtle is the start for A5, so it only counts for the London riders
+    expect(standings[0].controls).toEqual([
+      { controlId: 'writtle', name: 'Writtle', riderCount: 3, medianElapsedMinutes: 80 },
+      { controlId: 'northstowe-north', name: 'Northstowe', riderCount: 2, medianElapsedMinutes: 290 }
+    ]);
+    expect(standings[1].controls).toEqual([]);
+  });
+});
+
+describe('normalizeClubKey', () => {
+  test('ignores case and spacing', () => {
+    expect(normalizeClubKey('  Audax   Club\tMumbai ')).toBe('audax club mumbai');
+  });
+});
+
+describe('sortClubStandings', () => {
+  const standings = [
+    standing('Pune Cyclists', { started: 3, finished: 1, riding: 2 }),
+    standing('Audax Club Mumbai', { started: 3, finished: 2, riding: 0 }),
+    standing('Bangalore Randonneurs', { started: 5, finished: 0, riding: 5 }),
+    standing('Chennai Randonneurs', { started: 3, finished: 1, riding: 2 })
+  ];
+
+  test('ranks by the chosen count, breaking ties by the others and then by name', () => {
+    expect(sortClubStandings(standings, 'started').map(club => club.name)).toEqual([
+      'Bangalore Randonneurs', 'Audax Club Mumbai', 'Chennai Randonneurs', 'Pune Cyclists'
+    ]);
+    expect(sortClubStandings(standings, 'finished').map(club => club.name)).toEqual([
+      'Audax Club Mumbai', 'Chennai Randonneurs', 'Pune Cyclists', 'Bangalore Randonneurs'
+    ]);
+    expect(sortClubStandings(standings, 'riding')[0].name).toBe('Bangalore Randonneurs');
+  });
+
+  test('leaves the given list as it was', () => {
+    const names = standings.map(club => club.name);
+    sortClubStandings(standings, 'finished');
+    expect(standings.map(club => club.name)).toEqual(names);
+  });
+});
@@ -0,0 +1,147 @@
+import { EnhancedRider } from './riderProcessors';
+import type { TrackingRider } from './trackingProcessors';
+import { getCheckpointVisit } from '../../config/lel-route';
+import { DEFAULT_EVENT, EventDefinition } from '../../config/events';
+
+/**
+ * Median time a club's riders took to reach one control
+ */
+export interface ClubControlMedian {
+  controlId: string;
+  name: string;
+  /** Riders of the club who have reached the control */
+  riderCount: number;
+  medianElapsedMinutes: number;
+}
+
+/**
+ * Standing of one club in the field
+ */
+export interface ClubStanding {
+  /** Normalised club name, stable across spellings (e.g., "bangalore randonneurs") */
+  key: string;
+  name: string;
+  riderNumbers: string[];
+  riderCount: number;
+  started: number;
+  riding: number;
+  finished: number;
+  dnf: number;
+  /** In route order */
+  controls: ClubControlMedian[];
+}
+
+export type ClubSortBy = 'started' | 'finished' | 'riding';
+
+/**
+ * Normalise a club name so spellings differing only in case or spacing match
+ * @param club - Club name as entered
+ * @returns Lowercase name with single spaces
+ */
+export function normalizeClubKey(club: string): string {
+  return club.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Median of a list of numbers
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Build the standing of every club in the field
+ * Riders without a club are left out; riders whose tracking has not been
+ * loaded count towards riderCount only.
+ * @param riders - Enhanced riders
+ * @param tracking - Processed tracking riders by bib number
+ * @param event - Event definition
+ * @returns Standings sorted by riders started, most first
+ */
+export function summarizeClubs(
+  riders: EnhancedRider[],
+  tracking: Map<string, TrackingRider>,
+  event: EventDefinition = DEFAULT_EVENT
+): ClubStanding[] {
+  const standings = new Map<string, ClubStanding>();
+  // Elapsed minutes per control, with the control's position for ordering
+  const controlTimes = new Map<string, Map<string, { name: string; ordinal: number; minutes: number[] }>>();
+  
+  riders.forEach(rider => {
+    if (!rider.club) return;
+    const key = normalizeClubKey(rider.club);
+    
+    if (!standings.has(key)) {
+      standings.set(key, {
+        key,
+        name: rider.club.trim(),
+        riderNumbers: [],
+        riderCount: 0,
+        started: 0,
+        riding: 0,
+        finished: 0,
+        dnf: 0,
+        controls: []
+      });
+      controlTimes.set(key, new Map());
+    }
+    
+    const standing = standings.get(key)!;
+    standing.riderNumbers.push(rider.rider_no);
+    standing.riderCount++;
+    
+    const tracked = tracking.get(rider.rider_no);
+    if (!tracked) return;
+    if (tracked.status !== 'not_started') standing.started++;
+    if (tracked.status === 'in_progress') standing.riding++;
+    if (tracked.status === 'finished') standing.finished++;
+    if (tracked.status === 'dnf') standing.dnf++;
+    
+    const times = controlTimes.get(key)!;
+    tracked.checkpoints.forEach(checkpoint => {
+      if (checkpoint.elapsed_minutes === undefined) return;
+      const visit = getCheckpointVisit(checkpoint.name, rider.rider_no, event);
+      if (!visit || visit.isStart) return;
+      
+      if (!times.has(visit.id)) {
+        times.set(visit.id, { name: visit.name, ordinal: visit.ordinal, minutes: [] });
+      }
+      const control = times.get(visit.id)!;
+      control.ordinal = Math.min(control.ordinal, visit.ordinal);
+      control.minutes.push(checkpoint.elapsed_minutes);
+    });
+  });
+  
+  standings.forEach((standing, key) => {
+    standing.controls = Array.from(controlTimes.get(key)!.entries())
+      .sort(([, a], [, b]) => a.ordinal - b.ordinal)
+      .map(([controlId, control]) => ({
+        controlId,
+        name: control.name,
+        riderCount: control.minutes.length,
+        medianElapsedMinutes: Math.round(median(control.minutes))
+      }));
+  });
+  
+  return sortClubStandings(Array.from(standings.values()), 'started');
+}
+
+/**
+ * Rank club standings
+ * Ties are broken by the other counts, then by name.
+ * @param standings - Club standings
+ * @param sortBy - Count to rank by
+ * @returns New array, highest count first
+ */
+export function sortClubStandings(standings: ClubStanding[], sortBy: ClubSortBy): ClubStanding[] {
+  const order: ClubSortBy[] = [sortBy, ...(['started', 'finished', 'riding'] as ClubSortBy[]).filter(key => key !== sortBy)];
+  
+  return [...standings].sort((a, b) => {
+    for (const key of order) {
+      if (a[key] !== b[key]) return b[key] - a[key];
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
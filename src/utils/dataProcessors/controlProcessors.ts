@@ -1,5 +1,12 @@
 import { TrackingRider } from './trackingProcessors';
-import { getControlsForRider } from '../../config/lel-route';
+import { getCheckpointVisit, getControlVisitsForRider } from '../../config/lel-route';
+import {
+  DEFAULT_EVENT,
+  EventDefinition,
+  getDefaultStartLocation,
+  resolveControlId,
+  visitMatchesControl
+} from '../../config/events';
 
 /**
  * Control point data from route
@@ -33,60 +40,68 @@ export interface ControlStatistics {
   averageSpeed: number;
 }
 
+/**
+ * Resolve a control listed in the tracking feed to a registered control id
+ * The feed lists controls by town and leg, so the leg picks the visit.
+ * @param control - Feed control
+ * @param event - Event definition
+ * @returns Control id or null if unregistered
+ */
+export function resolveFeedControlId(control: Control, event: EventDefinition = DEFAULT_EVENT): string | null {
+  const legSuffix = control.leg === 'South' ? 'S' : 'N';
+  return resolveControlId(`${control.name} ${legSuffix}`, event) || resolveControlId(control.name, event);
+}
+
+/**
+ * Find the checkpoint at which a rider reached a control
+ * @param rider - Tracking rider
+ * @param controlId - Registered control id
+ * @param event - Event definition
+ * @returns Checkpoint index or -1
+ */
+function findControlCheckpoint(rider: TrackingRider, controlId: string, event: EventDefinition): number {
+  return rider.checkpoints.findIndex(cp =>
+    visitMatchesControl(getCheckpointVisit(cp.name, rider.rider_no, event), controlId, event)
+  );
+}
+
 /**
  * Check if a rider has reached a specific control
  * @param rider - Tracking rider
- * @param controlName - Control point name
+ * @param controlId - Registered control id
+ * @param event - Event definition
  * @returns True if rider has reached the control
  */
-export function hasReachedControl(rider: TrackingRider, controlName: string): boolean {
-  // Special handling for start points
-  if (controlName === 'Start' || controlName === 'Writtle' || controlName === 'London') {
-    return rider.checkpoints.some(cp => 
-      cp.name === 'Start' || 
-      cp.name === 'Writtle' || 
-      cp.name === 'London' ||
-      cp.name.toLowerCase().includes('start')
-    );
-  }
-  
-  return rider.checkpoints.some(cp => 
-    cp.name === controlName || 
-    cp.name.includes(controlName)
-  );
+export function hasReachedControl(
+  rider: TrackingRider,
+  controlId: string,
+  event: EventDefinition = DEFAULT_EVENT
+): boolean {
+  return findControlCheckpoint(rider, controlId, event) >= 0;
 }
 
 /**
  * Get time taken to reach a control
  * @param rider - Tracking rider
- * @param controlName - Control point name
+ * @param controlId - Registered control id
+ * @param event - Event definition
  * @returns Time in minutes or null
  */
-export function getTimeToControl(rider: TrackingRider, controlName: string): number | null {
-  const checkpoint = rider.checkpoints.find(cp => {
-    if (controlName === 'Start' || controlName === 'Writtle' || controlName === 'London') {
-      return cp.name === 'Start' || 
-             cp.name === 'Writtle' || 
-             cp.name === 'London' ||
-             cp.name.toLowerCase().includes('start');
-    }
-    return cp.name === controlName || cp.name.includes(controlName);
-  });
-  
-  if (!checkpoint) return null;
+export function getTimeToControl(
+  rider: TrackingRider,
+  controlId: string,
+  event: EventDefinition = DEFAULT_EVENT
+): number | null {
+  const checkpointIndex = findControlCheckpoint(rider, controlId, event);
+  if (checkpointIndex < 0) return null;
   
   // For start checkpoint, time is 0
-  if (controlName === 'Start' || checkpoint.name === 'Start') return 0;
+  const visit = getCheckpointVisit(rider.checkpoints[checkpointIndex].name, rider.rider_no, event);
+  if (visit?.isStart) return 0;
   
-  // Calculate time from start
-  if (rider.checkpoints.length > 0) {
-    const startCheckpoint = rider.checkpoints[0];
-    const checkpointIndex = rider.checkpoints.indexOf(checkpoint);
-    
-    // Rough estimation: use elapsed time proportionally
-    if (rider.elapsedMinutes > 0 && checkpointIndex > 0) {
-      return Math.floor(rider.elapsedMinutes * (checkpointIndex / rider.checkpoints.length));
-    }
+  // Rough estimation: use elapsed time proportionally
+  if (rider.elapsedMinutes > 0 && checkpointIndex > 0) {
+    return Math.floor(rider.elapsedMinutes * (checkpointIndex / rider.checkpoints.length));
   }
   
   return null;
@@ -97,15 +112,18 @@ export function getTimeToControl(rider: TrackingRider, controlName: string): num
  * @param rider - Tracking rider
  * @param control - Control point
  * @param thresholdKm - Distance threshold in km (default 50km)
+ * @param event - Event definition
  * @returns True if rider is approaching
  */
 export function isApproachingControl(
   rider: TrackingRider, 
   control: Control, 
-  thresholdKm: number = 50
+  thresholdKm: number = 50,
+  event: EventDefinition = DEFAULT_EVENT
 ): boolean {
   // Can't be approaching if already reached
-  if (hasReachedControl(rider, control.name)) return false;
+  const controlId = resolveFeedControlId(control, event);
+  if (controlId && hasReachedControl(rider, controlId, event)) return false;
   
   // Not approaching if not started
   if (rider.status === 'not_started') return false;
@@ -119,36 +137,41 @@ export function isApproachingControl(
  * Process control progress for all riders
  * @param controls - List of control points
  * @param riders - List of tracking riders
+ * @param event - Event definition
  * @returns Map of control progress
  */
 export function processControlProgress(
   controls: Control[],
-  riders: TrackingRider[]
+  riders: TrackingRider[],
+  event: EventDefinition = DEFAULT_EVENT
 ): Map<string, ControlProgress> {
   const progressMap = new Map<string, ControlProgress>();
+  const startControlIds = event.startLocations.map(location => location.controls[0]?.id);
+  const defaultStartId = getDefaultStartLocation(event).controls[0]?.id;
   
-  // Merge Writtle and London into Start for processing
+  // Merge the start controls of every route into a single Start
   const processedControls = controls.reduce((acc, control) => {
-    if (control.name === 'London') return acc;
-    if (control.name === 'Writtle') {
-      return [...acc, { ...control, name: 'Start', id: 'start', km: 0 }];
+    const controlId = resolveFeedControlId(control, event);
+    if (controlId !== defaultStartId && startControlIds.includes(controlId || '')) return acc;
+    if (controlId === defaultStartId) {
+      return [...acc, { control: { ...control, name: 'Start', id: 'start', km: 0 }, controlId }];
     }
-    return [...acc, control];
-  }, [] as Control[]);
+    return [...acc, { control, controlId }];
+  }, [] as Array<{ control: Control; controlId: string | null }>);
   
-  processedControls.forEach(control => {
+  processedControls.forEach(({ control, controlId }) => {
     const ridersReached: TrackingRider[] = [];
     const ridersApproaching: TrackingRider[] = [];
     const timesToReach: number[] = [];
     
     riders.forEach(rider => {
-      if (hasReachedControl(rider, control.name)) {
+      if (controlId && hasReachedControl(rider, controlId, event)) {
         ridersReached.push(rider);
-        const time = getTimeToControl(rider, control.name);
+        const time = getTimeToControl(rider, controlId, event);
         if (time !== null) {
           timesToReach.push(time);
         }
-      } else if (isApproachingControl(rider, control)) {
+      } else if (isApproachingControl(rider, control, 50, event)) {
         ridersApproaching.push(rider);
       }
     });
@@ -215,25 +238,27 @@ export function getControlStatistics(
  * Get next control for a rider
  * @param rider - Tracking rider
  * @param controls - List of controls for rider's route
+ * @param event - Event definition
  * @returns Next control or null
  */
-export function getNextControl(rider: TrackingRider, controls: Control[]): Control | null {
+export function getNextControl(
+  rider: TrackingRider,
+  controls: Control[],
+  event: EventDefinition = DEFAULT_EVENT
+): Control | null {
   // Get controls for this rider's route
-  const riderControls = getControlsForRider(rider.rider_no);
+  const riderControls = getControlVisitsForRider(rider.rider_no, event);
   
-  // Find the last reached control
-  let lastReachedIndex = -1;
-  for (let i = riderControls.length - 1; i >= 0; i--) {
-    if (hasReachedControl(rider, riderControls[i].name)) {
-      lastReachedIndex = i;
-      break;
-    }
-  }
+  // Find the furthest control reached along the route
+  const lastReachedIndex = rider.checkpoints.reduce((furthest, cp) => {
+    const visit = getCheckpointVisit(cp.name, rider.rider_no, event);
+    return visit ? Math.max(furthest, visit.ordinal) : furthest;
+  }, -1);
   
   // Return next control if available
   if (lastReachedIndex < riderControls.length - 1) {
-    const nextControlName = riderControls[lastReachedIndex + 1].name;
-    return controls.find(c => c.name === nextControlName) || null;
+    const nextControlId = riderControls[lastReachedIndex + 1].id;
+    return controls.find(c => resolveFeedControlId(c, event) === nextControlId) || null;
   }
   
   return null;
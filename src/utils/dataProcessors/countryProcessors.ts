@@ -0,0 +1,78 @@
+import { EnhancedRider } from './riderProcessors';
+import type { RawTrackingRider } from './trackingProcessors';
+import { getCountry, getCountryFlag } from '../../config/countries';
+
+/**
+ * Rider and result counts for one country
+ */
+export interface CountrySummary {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  flag: string;
+  riderCount: number;
+  /** Riders with data in a loaded tracking feed */
+  trackedCount: number;
+  inProgress: number;
+  finished: number;
+  dnf: number;
+}
+
+/**
+ * Group riders by their normalised country
+ * @param riders - Enhanced riders
+ * @returns Map of ISO code to riders; unrecognised countries are left out
+ */
+export function groupRidersByCountry<T extends EnhancedRider>(riders: T[]): Map<string, T[]> {
+  const countryMap = new Map<string, T[]>();
+  
+  riders.forEach(rider => {
+    if (!rider.countryCode) return;
+    if (!countryMap.has(rider.countryCode)) {
+      countryMap.set(rider.countryCode, []);
+    }
+    countryMap.get(rider.countryCode)!.push(rider);
+  });
+  
+  return countryMap;
+}
+
+/**
+ * Summarise every country in the field
+ * Riders whose tracking has not been loaded count towards riderCount only.
+ * @param riders - Enhanced riders
+ * @param tracking - Raw tracking by bib number
+ * @returns Summaries sorted by rider count, largest first
+ */
+export function summarizeCountries(
+  riders: EnhancedRider[],
+  tracking: Map<string, RawTrackingRider>
+): CountrySummary[] {
+  const summaries: CountrySummary[] = [];
+  
+  groupRidersByCountry(riders).forEach((countryRiders, code) => {
+    const summary: CountrySummary = {
+      code,
+      name: getCountry(code)?.name || code,
+      flag: getCountryFlag(code),
+      riderCount: countryRiders.length,
+      trackedCount: 0,
+      inProgress: 0,
+      finished: 0,
+      dnf: 0
+    };
+    
+    countryRiders.forEach(rider => {
+      const tracked = tracking.get(rider.rider_no);
+      if (!tracked) return;
+      
+      summary.trackedCount++;
+      if (tracked.status === 'in_progress') summary.inProgress++;
+      if (tracked.status === 'finished') summary.finished++;
+      if (tracked.status === 'dnf') summary.dnf++;
+    });
+    
+    summaries.push(summary);
+  });
+  
+  return summaries.sort((a, b) => b.riderCount - a.riderCount || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,128 @@
+import { getControlWindows, getCutoffStatus, CutoffRiderInput } from './cutoffProcessors';
+import { LEL_2025 } from '../../config/events';
+import { createFixedClock } from '../clock';
+
+// LB12 starts from London in wave B, Sunday 05:15 BST (04:15 UTC), on the 1557 km route
+const utc = (iso: string) => new Date(`${iso}Z`);
+const at = (iso: string) => createFixedClock(utc(iso)).now();
+
+const rider = (checkpoints: Array<[string, string]>, status: CutoffRiderInput['status'] = 'in_progress'): CutoffRiderInput => ({
+  rider_no: 'LB12',
+  status,
+  checkpoints: checkpoints.map(([name, time]) => ({ name, time }))
+});
+
+describe('getControlWindows', () => {
+  const windows = getControlWindows('LB12', LEL_2025);
+
+  test('opens each control at the maximum speed and closes it pro rata of the time limit', () => {
+    const [start, writtle, northstowe] = windows;
+    expect(start.control.id).toBe('london');
+    expect(start.opens).toEqual(utc('2025-08-03T04:15:00'));
+    // The start closes a set time after the wave
+    expect(start.closes).toEqual(utc('2025-08-03T05:15:00'));
+    // 20 km at 30 km/h; 20 / 1557 of 125 h
+    expect(writtle.opens).toEqual(utc('2025-08-03T04:55:00'));
+    expect(writtle.closes).toEqual(utc('2025-08-03T05:51:00'));
+    // 110 / 1557 of 125 h is 530 minutes
+    expect(northstowe.closes).toEqual(utc('2025-08-03T13:05:00'));
+  });
+
+  test('closes the finish at the time limit', () => {
+    const finish = windows[windows.length - 1];
+    expect(finish.control.isFinish).toBe(true);
+    expect(finish.closes).toEqual(utc('2025-08-08T09:15:00'));
+  });
+
+  test('is empty for a rider whose wave is not scheduled', () => {
+    expect(getControlWindows('ZZ99', LEL_2025)).toEqual([]);
+  });
+});
+
+describe('getCutoffStatus', () => {
+  test('has nothing to say before the start', () => {
+    const status = getCutoffStatus(rider([], 'not_started'), at('2025-08-03T03:00:00'), LEL_2025);
+    expect(status.state).toBe('ok');
+    expect(status.nextControl).toBeNull();
+  });
+
+  test('is ok with plenty in hand', () => {
+    const status = getCutoffStatus(
+      rider([['London', 'Sunday 05:15'], ['Writtle', 'Sunday 06:00'], ['Northstowe', 'Sunday 10:00']]),
+      at('2025-08-03T10:00:00'),
+      LEL_2025
+    );
+    expect(status.lastControl?.control.id).toBe('northstowe-north');
+    expect(status.timeInHandMinutes).toBe(245);
+    expect(status.nextControl?.control.id).toBe('boston-north');
+    expect(status.projectedMarginMinutes).toBeGreaterThan(LEL_2025.cutoffRules.warningMinutes);
+    expect(status.state).toBe('ok');
+  });
+
+  test('is missed when the rider reached a control after it closed', () => {
+    const status = getCutoffStatus(
+      rider([['London', 'Sunday 05:15'], ['Northstowe', 'Sunday 14:30']]),
+      at('2025-08-03T14:00:00'),
+      LEL_2025
+    );
+    expect(status.timeInHandMinutes).toBe(-25);
+    expect(status.state).toBe('missed');
+  });
+
+  test('is missed once the next control has closed', () => {
+    const status = getCutoffStatus(
+      rider([['London', 'Sunday 05:15'], ['Writtle', 'Sunday 06:00']]),
+      at('2025-08-03T13:06:00'),
+      LEL_2025
+    );
+    expect(status.nextControl?.control.id).toBe('northstowe-north');
+    expect(status.state).toBe('missed');
+  });
+
+  test('projects no earlier than now and warns when the margin is thin', () => {
+    const now = at('2025-08-03T20:00:00');
+    const status = getCutoffStatus(
+      rider([['London', 'Sunday 05:15'], ['Writtle', 'Sunday 06:00'], ['Northstowe', 'Sunday 10:00']]),
+      now,
+      LEL_2025
+    );
+    // Boston closes 1026 minutes after the wave, at 21:21 UTC
+    expect(status.projectedArrival).toEqual(now);
+    expect(status.projectedMarginMinutes).toBe(81);
+    expect(status.state).toBe('warning');
+  });
+
+  test('uses the given speed for the projection', () => {
+    const status = getCutoffStatus(
+      rider([['London', 'Sunday 05:15'], ['Northstowe', 'Sunday 10:00']]),
+      at('2025-08-03T09:00:00'),
+      LEL_2025,
+      20.6
+    );
+    // 103 km at 20.6 km/h is 5 hours
+    expect(status.projectedArrival).toEqual(utc('2025-08-03T14:00:00'));
+  });
+
+  test('takes the projection from the predicted arrival at the next control', () => {
+    const checkpoints = rider([['London', 'Sunday 05:15'], ['Northstowe', 'Sunday 10:00']]);
+    const boston = {
+      controlId: 'boston-north',
+      name: 'Boston',
+      km: 213,
+      ordinal: 3,
+      isFinish: false,
+      eta: utc('2025-08-03T20:00:00').getTime(),
+      earliest: utc('2025-08-03T19:00:00').getTime(),
+      latest: utc('2025-08-03T21:00:00').getTime()
+    };
+    const status = getCutoffStatus(checkpoints, at('2025-08-03T10:00:00'), LEL_2025, 20.6, boston);
+    // Boston closes at 21:21 UTC
+    expect(status.projectedArrival).toEqual(utc('2025-08-03T20:00:00'));
+    expect(status.projectedMarginMinutes).toBe(81);
+    expect(status.state).toBe('warning');
+
+    // A prediction for another control says nothing about this one
+    const elsewhere = getCutoffStatus(checkpoints, at('2025-08-03T10:00:00'), LEL_2025, 20.6, { ...boston, controlId: 'louth' });
+    expect(elsewhere.projectedArrival).toEqual(utc('2025-08-03T14:00:00'));
+  });
+});
@@ -0,0 +1,194 @@
+import type { RiderStatus } from './trackingProcessors';
+import type { ControlEta } from './etaProcessors';
+import {
+  getCheckpointVisit,
+  getControlVisitsForRider,
+  getRiderStartInstant,
+  getTotalDistanceForRider,
+  getWaveStartInstant,
+  RiderStart
+} from '../../config/lel-route';
+import { DEFAULT_EVENT, ControlVisit, EventDefinition } from '../../config/events';
+import { getMinutesBetween, parseCheckpointSequence } from '../eventTimestamp';
+
+/**
+ * Opening and closing time of a control for one rider
+ */
+export interface ControlWindow {
+  control: ControlVisit;
+  opens: Date;
+  closes: Date;
+}
+
+/**
+ * How a rider stands against the cutoffs
+ * - ok: comfortably inside the time limits
+ * - warning: within the event's warning margin at the last or next control
+ * - missed: arrived after a control closed, or the next control has closed
+ */
+export type CutoffState = 'ok' | 'warning' | 'missed';
+
+/**
+ * Cutoff position of a rider
+ */
+export interface CutoffStatus {
+  state: CutoffState;
+  lastControl: ControlWindow | null;
+  lastArrival: Date | null;
+  /** Minutes between arriving at the last control and its closing time */
+  timeInHandMinutes: number | null;
+  nextControl: ControlWindow | null;
+  projectedArrival: Date | null;
+  /** Minutes between the projected arrival at the next control and its closing time */
+  projectedMarginMinutes: number | null;
+}
+
+/**
+ * Minimal rider shape the cutoff engine needs
+ */
+export interface CutoffRiderInput extends RiderStart {
+  status: RiderStatus;
+  checkpoints: Array<{ name: string; time: string }>;
+}
+
+const NO_CUTOFF_STATUS: CutoffStatus = {
+  state: 'ok',
+  lastControl: null,
+  lastArrival: null,
+  timeInHandMinutes: null,
+  nextControl: null,
+  projectedArrival: null,
+  projectedMarginMinutes: null
+};
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + Math.round(minutes) * 60000);
+}
+
+/**
+ * Compute opening and closing times of every control on a rider's route
+ * Windows follow the scheduled wave start; a late start does not move them.
+ * @param riderNo - The rider's bib number
+ * @param event - Event definition
+ * @returns Windows in route order (empty if the wave start is unknown)
+ */
+export function getControlWindows(
+  riderNo: string,
+  event: EventDefinition = DEFAULT_EVENT
+): ControlWindow[] {
+  const waveStart = getWaveStartInstant(riderNo, event);
+  if (!waveStart) return [];
+
+  const totalDistance = getTotalDistanceForRider(riderNo, event);
+  const { maxSpeed, startClosesAfter, closingOverrides = {} } = event.cutoffRules;
+
+  return getControlVisitsForRider(riderNo, event).map(control => {
+    const override = closingOverrides[control.id];
+    let closesAfter: number;
+    if (override !== undefined) {
+      closesAfter = override * 60;
+    } else if (control.isStart) {
+      closesAfter = startClosesAfter;
+    } else {
+      closesAfter = totalDistance > 0 ? (control.km / totalDistance) * event.timeLimit * 60 : 0;
+    }
+
+    return {
+      control,
+      opens: addMinutes(waveStart, (control.km / maxSpeed) * 60),
+      closes: addMinutes(waveStart, closesAfter)
+    };
+  });
+}
+
+/**
+ * Work out a rider's time in hand and projected margin
+ * @param rider - Rider with raw checkpoints
+ * @param currentTime - Current instant
+ * @param event - Event definition
+ * @param averageSpeed - Speed used for the projection in km/h (defaults to the pace since the rider's start)
+ * @param nextEta - Predicted arrival at the next control (see predictRiderEta); used instead of a flat speed when given
+ * @returns Cutoff status
+ */
+export function getCutoffStatus(
+  rider: CutoffRiderInput,
+  currentTime: Date,
+  event: EventDefinition = DEFAULT_EVENT,
+  averageSpeed?: number,
+  nextEta?: ControlEta | null
+): CutoffStatus {
+  if (rider.status === 'not_started') return NO_CUTOFF_STATUS;
+
+  const windows = getControlWindows(rider.rider_no, event);
+  const riderStart = getRiderStartInstant(rider, event);
+  if (windows.length === 0 || !riderStart) return NO_CUTOFF_STATUS;
+
+  const instants = parseCheckpointSequence(rider.checkpoints.map(cp => cp.time), event, riderStart);
+
+  // Latest checkpoint that is a control on the rider's route
+  let lastControl: ControlWindow | null = null;
+  let lastArrival: Date | null = null;
+  for (let i = rider.checkpoints.length - 1; i >= 0; i--) {
+    const visit = getCheckpointVisit(rider.checkpoints[i].name, rider.rider_no, event);
+    if (visit && instants[i]) {
+      lastControl = windows[visit.ordinal];
+      lastArrival = instants[i];
+      break;
+    }
+  }
+
+  const timeInHandMinutes = lastControl && lastArrival
+    ? getMinutesBetween(lastArrival, lastControl.closes)
+    : null;
+
+  let nextControl: ControlWindow | null = null;
+  if (rider.status === 'in_progress') {
+    nextControl = lastControl ? windows[lastControl.control.ordinal + 1] || null : windows[0];
+  }
+
+  // Project the arrival at the next control from the predictions, else from the rider's pace so far
+  let projectedArrival: Date | null = null;
+  if (nextControl && nextEta?.controlId === nextControl.control.id) {
+    projectedArrival = new Date(Math.max(nextEta.eta, currentTime.getTime()));
+  } else if (nextControl && lastControl && lastArrival) {
+    const hoursSoFar = (lastArrival.getTime() - riderStart.getTime()) / 3600000;
+    const speed = averageSpeed && averageSpeed > 0
+      ? averageSpeed
+      : hoursSoFar > 0 ? lastControl.control.km / hoursSoFar : 0;
+
+    if (speed > 0) {
+      const legHours = (nextControl.control.km - lastControl.control.km) / speed;
+      projectedArrival = addMinutes(lastArrival, legHours * 60);
+      // Still not there, so at best the rider arrives now
+      if (projectedArrival < currentTime) projectedArrival = currentTime;
+    }
+  }
+
+  const projectedMarginMinutes = nextControl && projectedArrival
+    ? getMinutesBetween(projectedArrival, nextControl.closes)
+    : null;
+
+  const { warningMinutes } = event.cutoffRules;
+  let state: CutoffState = 'ok';
+  if (timeInHandMinutes !== null && timeInHandMinutes < 0) {
+    state = 'missed';
+  } else if (nextControl && currentTime > nextControl.closes) {
+    state = 'missed';
+  } else if (
+    // Everyone leaves the start with little in hand; only later controls count
+    (timeInHandMinutes !== null && !lastControl?.control.isStart && timeInHandMinutes < warningMinutes) ||
+    (projectedMarginMinutes !== null && projectedMarginMinutes < warningMinutes)
+  ) {
+    state = 'warning';
+  }
+
+  return {
+    state,
+    lastControl,
+    lastArrival,
+    timeInHandMinutes,
+    nextControl,
+    projectedArrival,
+    projectedMarginMinutes
+  };
+}
@@ -0,0 +1,107 @@
+import { runDiagnostics, DiagnosticsTrackingFeed } from './diagnosticsProcessors';
+import { RawCheckpoint, RawTrackingRider } from './trackingProcessors';
+import { LEL_2025 } from '../../config/events';
+
+// LB riders start in London; AB riders start at Writtle and never visit London
+const GENERATED_AT = new Date('2025-08-04T12:00:00Z');
+
+const tracked = (riderNo: string, checkpoints: RawCheckpoint[]): RawTrackingRider => ({
+  rider_no: riderNo,
+  name: `Rider ${riderNo}`,
+  status: 'in_progress',
+  checkpoints,
+  distance_km: 0,
+  last_checkpoint: checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].name : null
+});
+
+const clean = tracked('LB12', [
+  { name: 'London', time: 'Sunday 05:15' },
+  { name: 'Writtle N', time: 'Sunday 06:20', departure: 'Sunday 06:40' },
+  { name: 'Northstowe', time: 'Sunday 11:10', departure: '-' }
+]);
+
+const diagnose = (trackingRiders: RawTrackingRider[], riders = trackingRiders.map(({ rider_no, name }) => ({ rider_no, name }))) => {
+  const feeds: DiagnosticsTrackingFeed[] = [{ feed: 'tracking', riders: trackingRiders }];
+  return runDiagnostics(riders, feeds, LEL_2025, GENERATED_AT);
+};
+
+describe('runDiagnostics', () => {
+  test('finds nothing wrong with clean feeds', () => {
+    const report = diagnose([clean]);
+    expect(report.eventId).toBe('lel-2025');
+    expect(report.generatedAt).toBe('2025-08-04T12:00:00.000Z');
+    expect(report.feeds).toEqual([{ feed: 'riders', riders: 1 }, { feed: 'tracking', riders: 1 }]);
+    expect(report.anomalies).toEqual([]);
+    expect(Object.values(report.summary).every(count => count === 0)).toBe(true);
+  });
+
+  test('suggests the control a misspelt checkpoint probably meant', () => {
+    const report = diagnose([tracked('LB12', [{ name: 'London', time: 'Sunday 05:15' }, { name: 'Writtle Nth', time: 'Sunday 06:20' }])]);
+    expect(report.anomalies).toEqual([{
+      check: 'unknown_checkpoint',
+      severity: 'error',
+      feed: 'tracking',
+      riderNo: 'LB12',
+      riderName: 'Rider LB12',
+      field: 'checkpoints[1].name',
+      value: 'Writtle Nth',
+      message: '"Writtle Nth" does not match any control; its distance reads as 0',
+      suggestedFix: 'Add "Writtle Nth" to the aliases of control writtle in the lel-2025 event config'
+    }]);
+  });
+
+  test('asks for a correction when no control looks like the name', () => {
+    const [anomaly] = diagnose([tracked('LB12', [{ name: 'Edinburgh', time: 'Sunday 05:15' }])]).anomalies;
+    expect(anomaly.suggestedFix).toMatch(/aliases of the right control .* or correct it in the feed$/);
+  });
+
+  test('flags a known control that is not on the rider\'s route', () => {
+    const [anomaly] = diagnose([tracked('AB5', [{ name: 'Writtle', time: 'Sunday 05:00' }, { name: 'London', time: 'Sunday 06:00' }])]).anomalies;
+    expect(anomaly).toMatchObject({ check: 'checkpoint_off_route', field: 'checkpoints[1].name', value: 'London' });
+    expect(anomaly.message).toBe('"London" is control london, which is not on the Writtle route; its distance reads as 0');
+  });
+
+  test('flags times that cannot be read, run backwards or leave before arriving', () => {
+    const report = diagnose([tracked('LB12', [
+      { name: 'London', time: 'Sunday 05:15' },
+      { name: 'Writtle', time: 'Sunday 06:20', departure: 'Sunday 06:00' },
+      { name: 'Northstowe', time: 'Sunday 06:10' },
+      { name: 'Boston', time: 'soon' },
+      { name: 'Louth', time: '' }
+    ])]);
+    // A blank time is left alone; the warning comes after both errors
+    expect(report.anomalies.map(anomaly => [anomaly.check, anomaly.field])).toEqual([
+      ['time_backwards', 'checkpoints[2].time'],
+      ['unparseable_time', 'checkpoints[3].time'],
+      ['departure_before_arrival', 'checkpoints[1].departure']
+    ]);
+    const backwards = report.anomalies.find(anomaly => anomaly.check === 'time_backwards')!;
+    expect(backwards.message).toBe('Northstowe at Sunday 06:10 is before Writtle at Sunday 06:20');
+  });
+
+  test('flags tracked riders missing from riders.json and bibs outside the known waves', () => {
+    const report = runDiagnostics(
+      [{ rider_no: 'LB12', name: 'Rider LB12' }, { rider_no: 'ZZ1', name: 'Rider ZZ1' }],
+      [{ feed: 'wave-LB', riders: [clean, tracked('LB99', []), tracked('QQ3', [])] }],
+      LEL_2025,
+      GENERATED_AT
+    );
+    expect(report.anomalies.map(anomaly => [anomaly.check, anomaly.feed, anomaly.riderNo])).toEqual([
+      ['not_registered', 'wave-LB', 'LB99'],
+      ['not_registered', 'wave-LB', 'QQ3'],
+      ['unknown_wave', 'wave-LB', 'QQ3'],
+      ['unknown_wave', 'riders', 'ZZ1']
+    ]);
+    expect(report.summary).toMatchObject({ not_registered: 2, unknown_wave: 2, unknown_checkpoint: 0 });
+  });
+
+  test('lists errors before warnings, then by bib number', () => {
+    const report = diagnose([
+      tracked('LB12', [{ name: 'London', time: 'Sunday 05:15', departure: 'Sunday 05:00' }]),
+      tracked('LB9', [{ name: 'Nowhere', time: 'Sunday 05:15' }]),
+      tracked('LB10', [{ name: 'Nowhere', time: 'Sunday 05:15' }])
+    ]);
+    expect(report.anomalies.map(anomaly => `${anomaly.severity}:${anomaly.riderNo}`))
+      .toEqual(['error:LB9', 'error:LB10', 'warning:LB12']);
+  });
+});
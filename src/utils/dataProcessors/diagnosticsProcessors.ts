@@ -0,0 +1,268 @@
+/**
+ * Consistency checks over the loaded feeds
+ *
+ * The validators drop what cannot be used at all; these checks look for data
+ * that passes validation but is quietly wrong, such as a checkpoint name no
+ * control answers to (its distance reads as 0) or times that run backwards.
+ * Each anomaly names the rider, the field and a suggested fix, so the report
+ * can be handed to whoever maintains the feed or the event config.
+ */
+
+import type { Rider } from '../../types';
+import type { RawTrackingRider } from './trackingProcessors';
+import { getCheckpointVisit, getRiderStartInstant, getStartLocationForRider } from '../../config/lel-route';
+import { DEFAULT_EVENT, EventDefinition, normalizeControlName, resolveControlId } from '../../config/events';
+import { parseCheckpointSequence, parseEventTimestamp, formatEventTimestamp } from '../eventTimestamp';
+import { isValidWaveCode } from '../waveUtils';
+import { extractWaveCode } from './riderProcessors';
+
+export type DiagnosticCheck =
+  | 'unknown_checkpoint'
+  | 'checkpoint_off_route'
+  | 'unparseable_time'
+  | 'time_backwards'
+  | 'departure_before_arrival'
+  | 'unknown_wave'
+  | 'not_registered';
+
+/** Errors make a rider show wrongly; warnings are worth a look */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * One suspicious value in a feed
+ */
+export interface DataAnomaly {
+  check: DiagnosticCheck;
+  severity: DiagnosticSeverity;
+  /** Feed the value is in (e.g., "riders", "tracking", "wave-A") */
+  feed: string;
+  riderNo: string;
+  riderName: string | null;
+  /** Path of the value in the rider's record (e.g., "checkpoints[3].name") */
+  field: string;
+  value: string | null;
+  message: string;
+  suggestedFix: string;
+}
+
+/**
+ * Tracking riders of one loaded feed
+ */
+export interface DiagnosticsTrackingFeed {
+  feed: string;
+  riders: RawTrackingRider[];
+}
+
+/**
+ * Everything the checks found, ready to export as JSON
+ */
+export interface DiagnosticsReport {
+  eventId: string;
+  generatedAt: string;
+  /** Riders checked per feed */
+  feeds: { feed: string; riders: number }[];
+  /** Anomalies per check */
+  summary: Record<DiagnosticCheck, number>;
+  anomalies: DataAnomaly[];
+}
+
+export const DIAGNOSTIC_SEVERITY: Record<DiagnosticCheck, DiagnosticSeverity> = {
+  unknown_checkpoint: 'error',
+  checkpoint_off_route: 'error',
+  unparseable_time: 'error',
+  time_backwards: 'error',
+  departure_before_arrival: 'warning',
+  unknown_wave: 'warning',
+  not_registered: 'warning'
+};
+
+type AnomalyDetails = Omit<DataAnomaly, 'severity' | 'feed' | 'riderNo' | 'riderName'>;
+
+// A time the feed leaves blank on purpose
+const isBlankTime = (time: string | undefined): boolean => !time || !time.trim() || time.trim() === '-';
+
+/**
+ * Guess the control a misspelt checkpoint name meant, from control names it starts with
+ */
+function guessControl(rawName: string, event: EventDefinition): string | null {
+  const key = normalizeControlName(rawName);
+  const match = event.controls.find(control => {
+    const name = normalizeControlName(control.name);
+    return key.startsWith(name) || name.startsWith(key);
+  });
+  return match ? match.id : null;
+}
+
+/**
+ * Check one tracking rider's checkpoints
+ */
+function checkCheckpoints(rider: RawTrackingRider, event: EventDefinition): AnomalyDetails[] {
+  const anomalies: AnomalyDetails[] = [];
+  const timeZone = event.timezone;
+
+  rider.checkpoints.forEach((checkpoint, index) => {
+    if (getCheckpointVisit(checkpoint.name, rider.rider_no, event)) return;
+
+    const field = `checkpoints[${index}].name`;
+    const controlId = resolveControlId(checkpoint.name, event);
+    if (controlId) {
+      const location = getStartLocationForRider(rider.rider_no, event);
+      anomalies.push({
+        check: 'checkpoint_off_route',
+        field,
+        value: checkpoint.name,
+        message: `"${checkpoint.name}" is control ${controlId}, which is not on the ${location.name} route; its distance reads as 0`,
+        suggestedFix: `Check the bib number (it picks the route), or add ${controlId} to the ${location.id} route in the event config`
+      });
+      return;
+    }
+
+    const guess = guessControl(checkpoint.name, event);
+    anomalies.push({
+      check: 'unknown_checkpoint',
+      field,
+      value: checkpoint.name,
+      message: `"${checkpoint.name}" does not match any control; its distance reads as 0`,
+      suggestedFix: guess
+        ? `Add "${checkpoint.name}" to the aliases of control ${guess} in the ${event.id} event config`
+        : `Add "${checkpoint.name}" to the aliases of the right control in the ${event.id} event config, or correct it in the feed`
+    });
+  });
+
+  // Times are resolved in order, so one earlier than the latest so far went backwards
+  const instants = parseCheckpointSequence(
+    rider.checkpoints.map(checkpoint => checkpoint.time),
+    event,
+    getRiderStartInstant(rider, event)
+  );
+  let latest: { instant: Date; name: string } | null = null;
+
+  rider.checkpoints.forEach((checkpoint, index) => {
+    const instant = instants[index];
+    const field = `checkpoints[${index}].time`;
+
+    if (!instant) {
+      if (!isBlankTime(checkpoint.time)) {
+        anomalies.push({
+          check: 'unparseable_time',
+          field,
+          value: checkpoint.time,
+          message: `"${checkpoint.time}" at ${checkpoint.name} is not a time the app can read`,
+          suggestedFix: 'Use "Weekday HH:MM", "D/M HH:MM" or an ISO 8601 time in the feed'
+        });
+      }
+      return;
+    }
+
+    if (latest && instant < latest.instant) {
+      anomalies.push({
+        check: 'time_backwards',
+        field,
+        value: checkpoint.time,
+        message: `${checkpoint.name} at ${formatEventTimestamp(instant, timeZone)} is before ${latest.name} at ${formatEventTimestamp(latest.instant, timeZone)}`,
+        suggestedFix: `Correct the time at ${checkpoint.name} or ${latest.name}, or their order in the feed`
+      });
+    } else {
+      latest = { instant, name: checkpoint.name };
+    }
+
+    if (!isBlankTime(checkpoint.departure)) {
+      const departure = parseEventTimestamp(checkpoint.departure, event, { notBefore: instant });
+      if (departure && departure < instant) {
+        anomalies.push({
+          check: 'departure_before_arrival',
+          field: `checkpoints[${index}].departure`,
+          value: checkpoint.departure || null,
+          message: `Departure from ${checkpoint.name} at ${formatEventTimestamp(departure, timeZone)} is before the arrival at ${formatEventTimestamp(instant, timeZone)}`,
+          suggestedFix: `Correct the arrival or departure time at ${checkpoint.name} in the feed`
+        });
+      }
+    }
+  });
+
+  return anomalies;
+}
+
+/**
+ * Run every check over the loaded feeds
+ * @param riders - Registered riders (riders.json)
+ * @param trackingFeeds - Main tracking feed and each loaded wave shard
+ * @param event - Event the feeds belong to
+ * @param generatedAt - Time stamped on the report
+ * @returns Report with every anomaly, errors first
+ */
+export function runDiagnostics(
+  riders: Rider[],
+  trackingFeeds: DiagnosticsTrackingFeed[],
+  event: EventDefinition = DEFAULT_EVENT,
+  generatedAt: Date = new Date()
+): DiagnosticsReport {
+  const anomalies: DataAnomaly[] = [];
+  const add = (feed: string, rider: { rider_no: string; name?: string }, details: AnomalyDetails) => {
+    anomalies.push({
+      ...details,
+      severity: DIAGNOSTIC_SEVERITY[details.check],
+      feed,
+      riderNo: rider.rider_no,
+      riderName: rider.name || null
+    });
+  };
+
+  const unknownWave = (riderNo: string): AnomalyDetails => {
+    const waveCode = extractWaveCode(riderNo);
+    return {
+      check: 'unknown_wave',
+      field: 'rider_no',
+      value: riderNo,
+      message: waveCode
+        ? `Wave ${waveCode} is not in the list of known waves`
+        : `"${riderNo}" has no wave letters`,
+      suggestedFix: waveCode
+        ? `Correct the bib number, or add ${waveCode} to WAVE_CONFIG.knownWaves (and the wave schedule) if it is a new wave`
+        : 'Correct the bib number in the feed'
+    };
+  };
+
+  const registered = new Set(riders.map(rider => rider.rider_no));
+  riders.forEach(rider => {
+    if (!isValidWaveCode(extractWaveCode(rider.rider_no))) add('riders', rider, unknownWave(rider.rider_no));
+  });
+
+  trackingFeeds.forEach(({ feed, riders: trackingRiders }) => {
+    trackingRiders.forEach(rider => {
+      if (!registered.has(rider.rider_no)) {
+        add(feed, rider, {
+          check: 'not_registered',
+          field: 'rider_no',
+          value: rider.rider_no,
+          message: `${rider.rider_no} is tracked but not in riders.json, so pages listing registered riders leave them out`,
+          suggestedFix: 'Add the rider to riders.json, or correct a mistyped bib number in the tracking feed'
+        });
+        // Registered riders had their wave checked above
+        if (!isValidWaveCode(extractWaveCode(rider.rider_no))) add(feed, rider, unknownWave(rider.rider_no));
+      }
+
+      checkCheckpoints(rider, event).forEach(details => add(feed, rider, details));
+    });
+  });
+
+  const summary = Object.keys(DIAGNOSTIC_SEVERITY).reduce((counts, check) => {
+    counts[check as DiagnosticCheck] = anomalies.filter(anomaly => anomaly.check === check).length;
+    return counts;
+  }, {} as Record<DiagnosticCheck, number>);
+
+  const severityOrder: DiagnosticSeverity[] = ['error', 'warning'];
+  return {
+    eventId: event.id,
+    generatedAt: generatedAt.toISOString(),
+    feeds: [
+      { feed: 'riders', riders: riders.length },
+      ...trackingFeeds.map(({ feed, riders: trackingRiders }) => ({ feed, riders: trackingRiders.length }))
+    ],
+    summary,
+    anomalies: anomalies.sort((a, b) =>
+      severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity) ||
+      a.riderNo.localeCompare(b.riderNo, undefined, { numeric: true })
+    )
+  };
+}
@@ -0,0 +1,115 @@
+import { buildFieldPaceModel, predictRiderEta, EMPTY_PACE_MODEL, EtaRiderInput } from './etaProcessors';
+import { LEL_2025 } from '../../config/events';
+import { createFixedClock } from '../clock';
+
+// Wave B riders start from London on Sunday 05:15 BST (04:15 UTC), riding the first hour in the dark.
+// Writtle is at 20 km, Northstowe at 110 km and Boston at 213 km.
+const MINUTE = 60 * 1000;
+const utc = (iso: string) => new Date(`${iso}Z`);
+const at = (iso: string) => createFixedClock(utc(iso)).now();
+
+const rider = (
+  riderNo: string,
+  checkpoints: Array<[string, string, string?]>,
+  status: EtaRiderInput['status'] = 'in_progress'
+): EtaRiderInput => ({
+  rider_no: riderNo,
+  status,
+  checkpoints: checkpoints.map(([name, time, departure]) => ({ name, time, departure }))
+});
+
+// From Writtle at 08:00, 5 hours to Northstowe, then 4 hours to Boston after the given stop
+const fieldRider = (riderNo: string, stopMinutes: number): EtaRiderInput => {
+  const leftNorthstowe = utc('2025-08-03T12:00:00').getTime() + stopMinutes * MINUTE;
+  const local = (ms: number) => `Sunday ${new Date(ms + 60 * MINUTE).toISOString().slice(11, 16)}`;
+  return rider(riderNo, [
+    ['Writtle', 'Sunday 07:30', 'Sunday 08:00'],
+    ['Northstowe', 'Sunday 13:00', local(leftNorthstowe)],
+    ['Boston', local(leftNorthstowe + 4 * 60 * MINUTE)]
+  ]);
+};
+
+// Reached Northstowe at 20 km/h and left at the given event-local time
+const northstoweRider = (leftAt: string) => rider('LB12', [
+  ['Writtle', 'Sunday 07:30', 'Sunday 08:00'],
+  ['Northstowe', 'Sunday 12:30', leftAt]
+]);
+
+describe('buildFieldPaceModel', () => {
+  test('knows nothing without completed legs', () => {
+    const model = buildFieldPaceModel([rider('LB1', [])], LEL_2025);
+    expect(model.medianSpeed).toBeNull();
+    expect(model.dwellMinutes).toBeNull();
+    expect(model.riders).toBe(0);
+    expect(model.nightSpeedFactor).toBe(EMPTY_PACE_MODEL.nightSpeedFactor);
+  });
+
+  test('learns leg difficulty, pace and stops from the field', () => {
+    const model = buildFieldPaceModel(
+      [fieldRider('LB1', 30), fieldRider('LB2', 30), fieldRider('LB3', 30), fieldRider('LB4', 30), fieldRider('LB5', 90)],
+      LEL_2025
+    );
+    // 193 km in 9 hours of riding, slower than that to Northstowe and faster after
+    const riderSpeed = 193 / 9;
+    expect(model.riders).toBe(5);
+    expect(model.segmentFactors['writtle>northstowe-north']).toBeCloseTo(18 / riderSpeed);
+    expect(model.segmentFactors['northstowe-north>boston-north']).toBeCloseTo(103 / 4 / riderSpeed);
+    expect(model.medianSpeed).toBeCloseTo(riderSpeed);
+    // Nine stops of 30 minutes and one of 90
+    expect(model.dwellMinutes).toBe(30);
+    expect(model.longStopMinutes).toBeCloseTo(6);
+    expect(model.stopDeviationMinutes).toBeCloseTo(Math.sqrt(360));
+    // All in daylight, so the night slowdown is not learned
+    expect(model.nightSpeedFactor).toBe(EMPTY_PACE_MODEL.nightSpeedFactor);
+  });
+});
+
+describe('predictRiderEta', () => {
+  test('falls back to the default speed from the wave start', () => {
+    const eta = predictRiderEta(rider('LB12', []), at('2025-08-03T04:30:00'), LEL_2025)!;
+    expect(eta.basis).toBe('default');
+    expect(eta.lastControlId).toBe('london');
+    // 20 km at 18 km/h, slowed for the part before dawn
+    const [writtle] = eta.controls;
+    const start = utc('2025-08-03T04:15:00').getTime();
+    expect(writtle.controlId).toBe('writtle');
+    expect(writtle.eta).toBeGreaterThan(start + 20 / 18 * 60 * MINUTE);
+    expect(writtle.eta).toBeLessThan(start + 20 / (18 * EMPTY_PACE_MODEL.nightSpeedFactor) * 60 * MINUTE);
+    expect(writtle.earliest).toBeLessThan(writtle.eta);
+    expect(writtle.latest).toBeGreaterThan(writtle.eta);
+    expect(eta.controls[eta.controls.length - 1].isFinish).toBe(true);
+  });
+
+  test('rides a day leg at the rider\'s own pace', () => {
+    const eta = predictRiderEta(northstoweRider('Sunday 13:00'), at('2025-08-03T12:30:00'), LEL_2025)!;
+    expect(eta.basis).toBe('rider');
+    expect(eta.baseSpeed).toBeCloseTo(20);
+    expect(eta.departedAt).toBe(utc('2025-08-03T12:00:00').getTime());
+    // 103 km at 20 km/h
+    expect(eta.controls[0].controlId).toBe('boston-north');
+    expect(eta.controls[0].eta).toBeCloseTo(utc('2025-08-03T12:00:00').getTime() + 103 / 20 * 60 * MINUTE);
+    expect(eta.estimatedKm).toBeCloseTo(110 + 103 * 30 / 309);
+  });
+
+  test('rides a night leg slower', () => {
+    const eta = predictRiderEta(northstoweRider('Sunday 23:00'), at('2025-08-03T22:30:00'), LEL_2025)!;
+    // 103 km at 20 km/h slowed by the night, all of it before 06:00
+    const nightSpeed = 20 * EMPTY_PACE_MODEL.nightSpeedFactor;
+    expect(eta.controls[0].eta).toBeCloseTo(utc('2025-08-03T22:00:00').getTime() + 103 / nightSpeed * 60 * MINUTE);
+  });
+
+  test('expects an overdue rider now, not in the past', () => {
+    const now = at('2025-08-03T18:00:00');
+    const eta = predictRiderEta(northstoweRider('Sunday 13:00'), now, LEL_2025)!;
+    const [boston, louth] = eta.controls;
+    expect(boston.eta).toBe(now.getTime());
+    expect(boston.earliest).toBe(now.getTime());
+    expect(louth.eta).toBeGreaterThan(now.getTime());
+    expect(eta.estimatedKm).toBe(213);
+  });
+
+  test('has nothing to predict for riders off the road or without a start', () => {
+    expect(predictRiderEta(rider('LB12', [], 'not_started'), at('2025-08-03T04:30:00'), LEL_2025)).toBeNull();
+    expect(predictRiderEta(rider('ZZ99', []), at('2025-08-03T04:30:00'), LEL_2025)).toBeNull();
+  });
+});
@@ -0,0 +1,498 @@
+/**
+ * Arrival predictions for riders still on the road
+ *
+ * A flat speed is wrong after day one: riders slow down, stop longer and ride
+ * through the night. Each rider's recent legs are normalised for how hard the
+ * field found that leg and how much of it was ridden at night, giving a flat
+ * daytime pace; the remaining route is then replayed at that pace with the
+ * same adjustments and a typical stop at every control. Times are epoch ms so
+ * predictions cross from the processing worker unchanged.
+ */
+
+import {
+  getCheckpointVisit,
+  getControlVisitsForRider,
+  getRiderStartInstant
+} from '../../config/lel-route';
+import { DEFAULT_EVENT, ControlVisit, EventDefinition } from '../../config/events';
+import { getZonedDateTime, parseCheckpointSequence, parseEventTimestamp } from '../eventTimestamp';
+import type { CutoffRiderInput } from './cutoffProcessors';
+
+/**
+ * Minimal rider shape the predictions need
+ */
+export interface EtaRiderInput extends CutoffRiderInput {
+  checkpoints: Array<{ name: string; time: string; departure?: string }>;
+}
+
+export interface EtaSettings {
+  /** Night in event-local hours; legs ridden then are slower */
+  nightStartHour: number;
+  nightEndHour: number;
+  /** Speed at night relative to daytime, until the field has ridden enough legs to tell */
+  nightSpeedFactor: number;
+  /** Stop at a control when neither the rider nor the field has recorded departures */
+  defaultDwellMinutes: number;
+  /** Speed in km/h when nobody has completed a leg yet */
+  fallbackSpeed: number;
+  /** Latest legs the rider's own pace is taken from */
+  recentLegs: number;
+  /** Riders needed on a leg before the field's view of it is used */
+  minSegmentSamples: number;
+  /** Bounds of the interval's spread (see RiderEta.spread) */
+  minSpread: number;
+  maxSpread: number;
+  /** Spread when the pace is not the rider's own or rests on a single leg */
+  unknownPaceSpread: number;
+}
+
+export const DEFAULT_ETA_SETTINGS: EtaSettings = {
+  nightStartHour: 22,
+  nightEndHour: 6,
+  nightSpeedFactor: 0.85,
+  defaultDwellMinutes: 45,
+  fallbackSpeed: 18,
+  recentLegs: 3,
+  minSegmentSamples: 5,
+  minSpread: 0.1,
+  maxSpread: 0.5,
+  unknownPaceSpread: 0.35
+};
+
+// z for the two-sided 80% interval every prediction carries
+export const ETA_INTERVAL_Z = 1.28;
+
+// Legs outside these speeds are feed glitches or include a sleep, and say nothing about pace
+const MIN_LEG_SPEED = 3;
+const MAX_LEG_SPEED = 60;
+
+// Legs at least this much in the dark count as night legs when learning the night slowdown
+const NIGHT_LEG_SHARE = 0.5;
+const MIN_NIGHT_FACTOR = 0.5;
+const MAX_NIGHT_FACTOR = 1.1;
+
+/**
+ * What the whole field's completed legs say
+ */
+export interface FieldPaceModel {
+  /** Speed on each leg relative to riders' own pace, by "fromId>toId"; below 1 is harder */
+  segmentFactors: Record<string, number>;
+  /** Median flat daytime speed of riders with completed legs, in km/h */
+  medianSpeed: number | null;
+  /** Median recorded stop at a control, in minutes */
+  dwellMinutes: number | null;
+  /** Mean stop beyond the median: sleeps and long breaks, spread over every control */
+  longStopMinutes: number;
+  /** Standard deviation of recorded stops, in minutes */
+  stopDeviationMinutes: number;
+  /** Speed at night relative to daytime */
+  nightSpeedFactor: number;
+  /** Riders whose legs went into the model */
+  riders: number;
+}
+
+export const EMPTY_PACE_MODEL: FieldPaceModel = {
+  segmentFactors: {},
+  medianSpeed: null,
+  dwellMinutes: null,
+  longStopMinutes: 0,
+  stopDeviationMinutes: 0,
+  nightSpeedFactor: DEFAULT_ETA_SETTINGS.nightSpeedFactor,
+  riders: 0
+};
+
+/**
+ * Where a rider's pace came from
+ * - rider: their own completed legs
+ * - field: the field's median, as the rider has no completed leg
+ * - default: the fallback speed, as nobody has completed a leg
+ */
+export type PaceBasis = 'rider' | 'field' | 'default';
+
+/**
+ * Predicted arrival at one control (epoch ms)
+ */
+export interface ControlEta {
+  controlId: string;
+  name: string;
+  km: number;
+  ordinal: number;
+  isFinish: boolean;
+  eta: number;
+  /** Roughly 80% interval around eta */
+  earliest: number;
+  latest: number;
+}
+
+/**
+ * Predictions for one rider
+ */
+export interface RiderEta {
+  riderNo: string;
+  basis: PaceBasis;
+  /** Flat daytime riding speed the predictions use, in km/h */
+  baseSpeed: number;
+  /** Stop assumed at each control, in minutes */
+  dwellMinutes: number;
+  /** Riding part of the interval half-width, as a share of the time since leaving the last control */
+  spread: number;
+  lastControlId: string;
+  /** When the rider left the last control (estimated if the feed has no departure) */
+  departedAt: number;
+  /** Distance now, assuming the predicted pace since leaving the last control */
+  estimatedKm: number;
+  /** Every remaining control in route order: the first is the next, the last the finish */
+  controls: ControlEta[];
+}
+
+interface ControlArrival {
+  visit: ControlVisit;
+  arrival: number;
+  departure: number | null;
+}
+
+interface RiderLeg {
+  key: string;
+  km: number;
+  rideMinutes: number;
+  nightShare: number;
+}
+
+const legKey = (from: ControlVisit, to: ControlVisit): string => `${from.id}>${to.id}`;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Offset of event-local time from UTC at an instant, in ms
+ * Looked up once per rider: a clock change mid-ride moves the night by an hour at most.
+ */
+function getUtcOffset(instantMs: number, timeZone: string): number {
+  const zoned = getZonedDateTime(new Date(instantMs), timeZone);
+  const localAsUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  return localAsUtc - Math.floor(instantMs / 1000) * 1000;
+}
+
+/**
+ * Share of a ride that falls in the night, in event-local time
+ */
+function getNightShare(startMs: number, minutes: number, utcOffset: number, settings: EtaSettings): number {
+  if (minutes <= 0) return 0;
+  const start = (((startMs + utcOffset) / 3600000) % 24 + 24) % 24;
+  const end = start + minutes / 60;
+  const { nightStartHour, nightEndHour } = settings;
+
+  // Nights run from nightStartHour on one day to nightEndHour on the next
+  let nightHours = 0;
+  for (let day = -1; nightStartHour + 24 * day < end; day++) {
+    const from = nightStartHour + 24 * day;
+    const to = nightEndHour + 24 * (day + 1);
+    nightHours += Math.max(0, Math.min(to, end) - Math.max(from, start));
+  }
+  return nightHours / (end - start);
+}
+
+const getNightAdjustment = (nightShare: number, nightSpeedFactor: number): number =>
+  1 - nightShare * (1 - nightSpeedFactor);
+
+// The field model and the predictions read the same riders; parse each once
+const arrivalsCache = new WeakMap<EtaRiderInput['checkpoints'], { event: EventDefinition; start: number; arrivals: ControlArrival[] }>();
+
+/**
+ * Controls a rider has reached, in route order, with parsed times
+ */
+function getControlArrivals(rider: EtaRiderInput, riderStart: Date, event: EventDefinition): ControlArrival[] {
+  const cached = arrivalsCache.get(rider.checkpoints);
+  if (cached && cached.event === event && cached.start === riderStart.getTime()) return cached.arrivals;
+
+  const instants = parseCheckpointSequence(rider.checkpoints.map(cp => cp.time), event, riderStart);
+  const arrivals: ControlArrival[] = [];
+
+  rider.checkpoints.forEach((checkpoint, index) => {
+    const visit = getCheckpointVisit(checkpoint.name, rider.rider_no, event);
+    const instant = instants[index];
+    // Repeated or out-of-order scans add nothing
+    if (!visit || !instant || (arrivals.length > 0 && visit.ordinal <= arrivals[arrivals.length - 1].visit.ordinal)) return;
+
+    const departure = parseEventTimestamp(checkpoint.departure, event, { notBefore: instant });
+    arrivals.push({
+      visit,
+      arrival: instant.getTime(),
+      departure: departure ? departure.getTime() : null
+    });
+  });
+
+  arrivalsCache.set(rider.checkpoints, { event, start: riderStart.getTime(), arrivals });
+  return arrivals;
+}
+
+// Recorded stops, leaving out the start where riders do not stop
+const getRecordedDwells = (arrivals: ControlArrival[]): number[] => arrivals
+  .filter(({ visit, departure }) => !visit.isStart && departure !== null)
+  .map(({ arrival, departure }) => (departure! - arrival) / 60000);
+
+// When the rider left a control, assuming a typical stop if the feed has no departure
+function getDepartedAt({ visit, arrival, departure }: ControlArrival, dwellMinutes: number): number {
+  if (departure !== null) return departure;
+  return visit.isStart ? arrival : arrival + dwellMinutes * 60000;
+}
+
+// A feed that has recorded the rider's departures would have recorded this one too
+const isStillAtControl = (last: ControlArrival, arrivals: ControlArrival[]): boolean =>
+  last.departure === null && !last.visit.isStart && getRecordedDwells(arrivals).length > 0;
+
+function getLegs(arrivals: ControlArrival[], dwellMinutes: number, event: EventDefinition, settings: EtaSettings): RiderLeg[] {
+  const legs: RiderLeg[] = [];
+  if (arrivals.length < 2) return legs;
+  const utcOffset = getUtcOffset(arrivals[0].arrival, event.timezone);
+
+  for (let i = 1; i < arrivals.length; i++) {
+    const from = arrivals[i - 1];
+    const to = arrivals[i];
+    const km = to.visit.km - from.visit.km;
+    // Never assume a stop longer than half the gap to the next arrival
+    const departedAt = from.departure !== null
+      ? from.departure
+      : Math.min(getDepartedAt(from, dwellMinutes), (from.arrival + to.arrival) / 2);
+    // Controls the feed missed in between were stops too
+    const missedStops = to.visit.ordinal - from.visit.ordinal - 1;
+    const rideMinutes = (to.arrival - departedAt) / 60000 - missedStops * dwellMinutes;
+    if (km <= 0 || rideMinutes <= 0) continue;
+
+    const speed = km / (rideMinutes / 60);
+    if (speed < MIN_LEG_SPEED || speed > MAX_LEG_SPEED) continue;
+
+    legs.push({
+      key: legKey(from.visit, to.visit),
+      km,
+      rideMinutes,
+      nightShare: getNightShare(departedAt, rideMinutes, utcOffset, settings)
+    });
+  }
+
+  return legs;
+}
+
+// A leg's speed with the field's difficulty and the night taken out
+const getNormalisedSpeed = (leg: RiderLeg, model: FieldPaceModel): number =>
+  leg.km / (leg.rideMinutes / 60) /
+    ((model.segmentFactors[leg.key] ?? 1) * getNightAdjustment(leg.nightShare, model.nightSpeedFactor));
+
+/**
+ * Learn leg difficulty, night slowdown, speed and stops from every rider's completed legs
+ * @param riders - Raw tracking of the whole field
+ * @param event - Event the riders belong to
+ * @param settings - Prediction settings
+ * @returns Field pace model
+ */
+export function buildFieldPaceModel(
+  riders: EtaRiderInput[],
+  event: EventDefinition = DEFAULT_EVENT,
+  settings: EtaSettings = DEFAULT_ETA_SETTINGS
+): FieldPaceModel {
+  const riderArrivals = riders
+    .map(rider => {
+      const riderStart = getRiderStartInstant(rider, event);
+      return riderStart ? getControlArrivals(rider, riderStart, event) : [];
+    })
+    .filter(arrivals => arrivals.length > 1);
+
+  const fieldDwells = riderArrivals.flatMap(getRecordedDwells);
+  const fieldDwell = median(fieldDwells);
+  const riderLegs = riderArrivals
+    .map(arrivals => {
+      const dwell = median(getRecordedDwells(arrivals)) ?? fieldDwell ?? settings.defaultDwellMinutes;
+      return getLegs(arrivals, dwell, event, settings);
+    })
+    .filter(legs => legs.length > 0);
+
+  // How each rider did on a leg compared with their own average; one leg has nothing to compare with
+  const comparisons = riderLegs.filter(legs => legs.length > 1).flatMap(legs => {
+    const totalKm = legs.reduce((sum, leg) => sum + leg.km, 0);
+    const totalHours = legs.reduce((sum, leg) => sum + leg.rideMinutes / 60, 0);
+    const riderSpeed = totalKm / totalHours;
+    return legs.map(leg => ({ leg, ratio: leg.km / (leg.rideMinutes / 60) / riderSpeed }));
+  });
+
+  // Night legs against day legs, scaled up to a whole leg in the dark
+  const nightLegs = comparisons.filter(({ leg }) => leg.nightShare >= NIGHT_LEG_SHARE);
+  const dayLegs = comparisons.filter(({ leg }) => leg.nightShare === 0);
+  let nightSpeedFactor = settings.nightSpeedFactor;
+  if (nightLegs.length >= settings.minSegmentSamples && dayLegs.length >= settings.minSegmentSamples) {
+    const relative = median(nightLegs.map(({ ratio }) => ratio))! / median(dayLegs.map(({ ratio }) => ratio))!;
+    const nightShare = nightLegs.reduce((sum, { leg }) => sum + leg.nightShare, 0) / nightLegs.length;
+    nightSpeedFactor = Math.min(MAX_NIGHT_FACTOR, Math.max(MIN_NIGHT_FACTOR, 1 - (1 - relative) / nightShare));
+  }
+
+  const ratiosByLeg = new Map<string, number[]>();
+  comparisons.forEach(({ leg, ratio }) => {
+    const ratios = ratiosByLeg.get(leg.key) || [];
+    ratios.push(ratio / getNightAdjustment(leg.nightShare, nightSpeedFactor));
+    ratiosByLeg.set(leg.key, ratios);
+  });
+
+  const segmentFactors: Record<string, number> = {};
+  ratiosByLeg.forEach((ratios, key) => {
+    if (ratios.length >= settings.minSegmentSamples) segmentFactors[key] = median(ratios)!;
+  });
+
+  const partialModel: FieldPaceModel = { ...EMPTY_PACE_MODEL, segmentFactors, nightSpeedFactor };
+  const riderSpeeds = riderLegs.map(legs =>
+    legs.reduce((sum, leg) => sum + getNormalisedSpeed(leg, partialModel), 0) / legs.length
+  );
+
+  const meanDwell = fieldDwells.reduce((sum, dwell) => sum + dwell, 0) / Math.max(1, fieldDwells.length);
+  const dwellVariance = fieldDwells.length > 1
+    ? fieldDwells.reduce((sum, dwell) => sum + (dwell - meanDwell) ** 2, 0) / (fieldDwells.length - 1)
+    : 0;
+
+  return {
+    segmentFactors,
+    medianSpeed: median(riderSpeeds),
+    dwellMinutes: fieldDwell,
+    longStopMinutes: fieldDwell !== null ? Math.max(0, meanDwell - fieldDwell) : 0,
+    stopDeviationMinutes: Math.sqrt(dwellVariance),
+    nightSpeedFactor,
+    riders: riderLegs.length
+  };
+}
+
+/**
+ * Predict riding minutes for a leg starting at a given time
+ */
+function predictLegMinutes(
+  km: number,
+  key: string,
+  startMs: number,
+  baseSpeed: number,
+  model: FieldPaceModel,
+  utcOffset: number,
+  settings: EtaSettings
+): number {
+  const speed = baseSpeed * (model.segmentFactors[key] ?? 1);
+  let minutes = km / speed * 60;
+  // The night slows the leg, which moves more of it into the night; a second pass settles it
+  for (let pass = 0; pass < 2; pass++) {
+    const nightShare = getNightShare(startMs, minutes, utcOffset, settings);
+    minutes = km / (speed * getNightAdjustment(nightShare, model.nightSpeedFactor)) * 60;
+  }
+  return minutes;
+}
+
+/**
+ * Predict a rider's arrival at every remaining control
+ * @param rider - Rider with raw checkpoints
+ * @param currentTime - Current instant
+ * @param event - Event definition
+ * @param model - What the field's legs say (see buildFieldPaceModel)
+ * @param settings - Prediction settings
+ * @returns Predictions, or null if the rider is not on the road or their start is unknown
+ */
+export function predictRiderEta(
+  rider: EtaRiderInput,
+  currentTime: Date,
+  event: EventDefinition = DEFAULT_EVENT,
+  model: FieldPaceModel = EMPTY_PACE_MODEL,
+  settings: EtaSettings = DEFAULT_ETA_SETTINGS
+): RiderEta | null {
+  if (rider.status !== 'in_progress') return null;
+
+  const route = getControlVisitsForRider(rider.rider_no, event);
+  const riderStart = getRiderStartInstant(rider, event);
+  if (route.length < 2 || !riderStart) return null;
+
+  const arrivals = getControlArrivals(rider, riderStart, event);
+  const last: ControlArrival = arrivals[arrivals.length - 1] || {
+    visit: route[0],
+    arrival: riderStart.getTime(),
+    departure: riderStart.getTime()
+  };
+  if (last.visit.isFinish) return null;
+
+  const dwellMinutes = median(getRecordedDwells(arrivals)) ?? model.dwellMinutes ?? settings.defaultDwellMinutes;
+  const speeds = getLegs(arrivals, dwellMinutes, event, settings).map(leg => getNormalisedSpeed(leg, model));
+
+  // Recent legs count most: by the third day, day one says little
+  let basis: PaceBasis;
+  let baseSpeed: number;
+  if (speeds.length > 0) {
+    const recent = speeds.slice(-settings.recentLegs);
+    const weights = recent.map((_, index) => index + 1);
+    basis = 'rider';
+    baseSpeed = recent.reduce((sum, speed, index) => sum + speed * weights[index], 0) /
+      weights.reduce((sum, weight) => sum + weight, 0);
+  } else if (model.medianSpeed !== null) {
+    basis = 'field';
+    baseSpeed = model.medianSpeed;
+  } else {
+    basis = 'default';
+    baseSpeed = settings.fallbackSpeed;
+  }
+
+  // How steady the rider's pace has been
+  let spread = settings.unknownPaceSpread;
+  if (speeds.length > 1) {
+    const mean = speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length;
+    const variance = speeds.reduce((sum, speed) => sum + (speed - mean) ** 2, 0) / (speeds.length - 1);
+    spread = Math.min(settings.maxSpread, Math.max(settings.minSpread, ETA_INTERVAL_Z * Math.sqrt(variance) / mean));
+  }
+
+  const now = currentTime.getTime();
+  // Still at the control (perhaps asleep), so they leave no earlier than now
+  const departedAt = isStillAtControl(last, arrivals)
+    ? Math.max(now, getDepartedAt(last, dwellMinutes))
+    : getDepartedAt(last, dwellMinutes);
+  const utcOffset = getUtcOffset(departedAt, event.timezone);
+  const controls: ControlEta[] = [];
+  let previous = last.visit;
+  let legStart = departedAt;
+
+  route.slice(last.visit.ordinal + 1).forEach(visit => {
+    let eta = legStart + predictLegMinutes(
+      visit.km - previous.km, legKey(previous, visit), legStart, baseSpeed, model, utcOffset, settings
+    ) * 60000;
+    // Still not there, so at best the rider arrives now
+    if (controls.length === 0 && eta < now) eta = now;
+
+    // Riding pace and every stop on the way vary independently
+    const margin = Math.sqrt(
+      (spread * Math.max(0, eta - departedAt)) ** 2 +
+      controls.length * (ETA_INTERVAL_Z * model.stopDeviationMinutes * 60000) ** 2
+    );
+    controls.push({
+      controlId: visit.id,
+      name: visit.name,
+      km: visit.km,
+      ordinal: visit.ordinal,
+      isFinish: visit.isFinish,
+      eta,
+      earliest: Math.max(now, eta - margin),
+      latest: eta + margin
+    });
+
+    previous = visit;
+    // Somewhere along the way most riders sleep; over several controls the mean stop is the better guess
+    legStart = eta + (dwellMinutes + model.longStopMinutes) * 60000;
+  });
+
+  const next = controls[0];
+  const progress = next.eta > departedAt
+    ? Math.min(1, Math.max(0, (now - departedAt) / (next.eta - departedAt)))
+    : 0;
+
+  return {
+    riderNo: rider.rider_no,
+    basis,
+    baseSpeed,
+    dwellMinutes,
+    spread,
+    lastControlId: last.visit.id,
+    departedAt,
+    estimatedKm: last.visit.km + progress * (next.km - last.visit.km),
+    controls
+  };
+}
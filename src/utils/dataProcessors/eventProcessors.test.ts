@@ -0,0 +1,112 @@
+import { deriveRaceEvents, sortRaceEvents, RaceEvent } from './eventProcessors';
+import { RawTrackingRider, RiderStatus } from './trackingProcessors';
+import { LEL_2025 } from '../../config/events';
+import { createFixedClock } from '../clock';
+
+// Feed times are BST: Sunday 05:15 is 04:15 UTC on 3 August
+const utc = (iso: string) => new Date(`${iso}Z`);
+const OBSERVED_AT = createFixedClock(utc('2025-08-03T12:00:00')).now();
+
+const rider = (
+  riderNo: string,
+  status: RiderStatus,
+  checkpoints: Array<[string, string]> = [],
+  actualStart?: string
+): RawTrackingRider => ({
+  rider_no: riderNo,
+  name: `Rider ${riderNo}`,
+  status,
+  checkpoints: checkpoints.map(([name, time]) => ({ name, time })),
+  distance_km: 0,
+  last_checkpoint: checkpoints.length > 0 ? checkpoints[checkpoints.length - 1][0] : null,
+  actual_start: actualStart
+});
+
+const byRider = (...riders: RawTrackingRider[]) => new Map(riders.map(entry => [entry.rider_no, entry]));
+
+const derive = (previous: Map<string, RawTrackingRider>, current: Map<string, RawTrackingRider>) =>
+  deriveRaceEvents(previous, current, LEL_2025, OBSERVED_AT);
+
+const summary = (events: RaceEvent[]) => events.map(raceEvent => `${raceEvent.id}@${raceEvent.timestamp.toISOString()}`);
+
+const LB12_ROUTE: Array<[string, string]> = [['London', 'Sunday 05:15'], ['Writtle', 'Sunday 06:20'], ['Northstowe', 'Sunday 10:05']];
+
+describe('deriveRaceEvents', () => {
+  test('turns the history of riders not seen before into events, in time order', () => {
+    const events = derive(new Map(), byRider(
+      rider('LB12', 'in_progress', LB12_ROUTE.slice(0, 2)),
+      rider('LC7', 'in_progress', [['London', 'Sunday 05:30']])
+    ));
+    expect(summary(events)).toEqual([
+      'LB12:start:0@2025-08-03T04:15:00.000Z',
+      'LC7:start:0@2025-08-03T04:30:00.000Z',
+      'LB12:arrival:1@2025-08-03T05:20:00.000Z'
+    ]);
+    expect(events[2]).toMatchObject({
+      type: 'arrival',
+      riderName: 'Rider LB12',
+      checkpoint: 'Writtle',
+      time: 'Sunday 06:20',
+      observedAt: OBSERVED_AT,
+      from: null,
+      to: 'in_progress'
+    });
+  });
+
+  test('reports only the checkpoints added since the previous payload', () => {
+    const previous = byRider(rider('LB12', 'in_progress', LB12_ROUTE.slice(0, 2)));
+    const events = derive(previous, byRider(rider('LB12', 'in_progress', LB12_ROUTE)));
+    expect(summary(events)).toEqual(['LB12:arrival:2@2025-08-03T09:05:00.000Z']);
+  });
+
+  test('skips riders whose record is the same object', () => {
+    const previous = byRider(rider('LB12', 'in_progress', LB12_ROUTE));
+    expect(derive(previous, new Map(previous))).toEqual([]);
+  });
+
+  test('reads the last checkpoint of a finisher as the finish', () => {
+    const previous = byRider(rider('LB12', 'in_progress', LB12_ROUTE.slice(0, 2)));
+    const events = derive(previous, byRider(rider('LB12', 'finished', LB12_ROUTE)));
+    expect(events.map(raceEvent => raceEvent.id)).toEqual(['LB12:finish:2']);
+    expect(events[0]).toMatchObject({ type: 'finish', checkpoint: 'Northstowe', to: 'finished' });
+  });
+
+  test('reports a start or finish with no new checkpoint when it is noticed', () => {
+    const previous = byRider(rider('LB12', 'not_started'), rider('LC7', 'in_progress', LB12_ROUTE));
+    const events = derive(previous, byRider(
+      rider('LB12', 'in_progress', [], '05:40'),
+      rider('LC7', 'finished', LB12_ROUTE)
+    ));
+    expect(events).toEqual([
+      expect.objectContaining({ id: 'LB12:start:0', type: 'start', checkpoint: null, time: '05:40', timestamp: OBSERVED_AT }),
+      expect.objectContaining({ id: 'LC7:finish:2', type: 'finish', checkpoint: 'Northstowe', time: 'Sunday 10:05', timestamp: OBSERVED_AT })
+    ]);
+  });
+
+  test('reports other status changes, such as a DNF', () => {
+    const previous = byRider(rider('LB12', 'in_progress', LB12_ROUTE));
+    const [dnf] = derive(previous, byRider(rider('LB12', 'dnf', LB12_ROUTE)));
+    expect(dnf).toMatchObject({
+      id: `LB12:status:in_progress:dnf:${OBSERVED_AT.getTime()}`,
+      type: 'status',
+      checkpoint: null,
+      time: null,
+      from: 'in_progress',
+      to: 'dnf'
+    });
+  });
+
+  test('has no status change for a rider seen for the first time', () => {
+    const events = derive(new Map(), byRider(rider('LB12', 'dnf', LB12_ROUTE.slice(0, 1))));
+    expect(events.map(raceEvent => raceEvent.type)).toEqual(['start']);
+  });
+});
+
+describe('sortRaceEvents', () => {
+  test('orders by time, then rider number, without touching the input', () => {
+    const at = (riderNo: string, iso: string) => ({ id: riderNo, riderNo, timestamp: utc(iso) } as RaceEvent);
+    const events = [at('LC7', '2025-08-03T05:00:00'), at('LB12', '2025-08-03T05:00:00'), at('LA1', '2025-08-03T04:00:00')];
+    expect(sortRaceEvents(events).map(raceEvent => raceEvent.id)).toEqual(['LA1', 'LB12', 'LC7']);
+    expect(events[0].id).toBe('LC7');
+  });
+});
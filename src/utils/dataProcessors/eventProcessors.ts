@@ -0,0 +1,129 @@
+import type { RawTrackingRider, RiderStatus } from './trackingProcessors';
+import { DEFAULT_EVENT, EventDefinition } from '../../config/events';
+import { parseCheckpointSequence } from '../eventTimestamp';
+import { systemClock } from '../clock';
+
+export type RaceEventType = 'start' | 'arrival' | 'finish' | 'status';
+
+/**
+ * Something that happened to one rider, as seen in the tracking feeds
+ */
+export interface RaceEvent {
+  /** Stable across payloads, so the same event is only logged once */
+  id: string;
+  type: RaceEventType;
+  riderNo: string;
+  riderName: string;
+  /** Control of a start, arrival or finish; null for status changes */
+  checkpoint: string | null;
+  /** Time as the feed gives it (e.g., "Sunday 08:46"), if it has one */
+  time: string | null;
+  /** When it happened; the time it was noticed if the feed has no time for it */
+  timestamp: Date;
+  /** When the payload that revealed it came in */
+  observedAt: Date;
+  /** Status before a status change; null on the other types */
+  from: RiderStatus | null;
+  to: RiderStatus;
+}
+
+/**
+ * Work out the events between two tracking payloads
+ * Riders missing from the previous payload (the first load, a wave shard
+ * loaded later) have their checkpoint history turned into events. Status
+ * changes are only reported once both payloads have seen the rider.
+ * @param previous - Raw tracking by rider number from the previous payload
+ * @param current - Raw tracking by rider number from the new payload
+ * @param event - Event the checkpoint times belong to
+ * @param observedAt - When the new payload came in
+ * @returns New events in time order
+ */
+export function deriveRaceEvents(
+  previous: ReadonlyMap<string, RawTrackingRider>,
+  current: ReadonlyMap<string, RawTrackingRider>,
+  event: EventDefinition = DEFAULT_EVENT,
+  observedAt: Date = systemClock.now()
+): RaceEvent[] {
+  const events: RaceEvent[] = [];
+
+  current.forEach((rider, riderNo) => {
+    const seen = previous.get(riderNo);
+    // Unchanged payloads keep the same rider objects
+    if (seen === rider) return;
+
+    const base = { riderNo, riderName: rider.name, observedAt, from: null, to: rider.status };
+    const seenCount = seen ? seen.checkpoints.length : 0;
+    const lastIndex = rider.checkpoints.length - 1;
+
+    if (lastIndex >= seenCount) {
+      const instants = parseCheckpointSequence(rider.checkpoints.map(checkpoint => checkpoint.time), event);
+
+      for (let index = seenCount; index <= lastIndex; index++) {
+        const checkpoint = rider.checkpoints[index];
+        const type: RaceEventType = index === 0
+          ? 'start'
+          : index === lastIndex && rider.status === 'finished' ? 'finish' : 'arrival';
+
+        events.push({
+          ...base,
+          id: `${riderNo}:${type}:${index}`,
+          type,
+          checkpoint: checkpoint.name,
+          time: checkpoint.time,
+          timestamp: instants[index] || observedAt
+        });
+      }
+    }
+
+    if (!seen || seen.status === rider.status) return;
+
+    const lastCheckpoint = rider.checkpoints[lastIndex];
+    const startedNow = seen.status === 'not_started' && rider.status === 'in_progress';
+    const finishedNow = rider.status === 'finished';
+
+    // Started or finished with no new checkpoint to show it
+    if (startedNow && lastIndex < seenCount) {
+      events.push({
+        ...base,
+        id: `${riderNo}:start:0`,
+        type: 'start',
+        checkpoint: rider.checkpoints[0]?.name || null,
+        time: rider.actual_start || null,
+        timestamp: observedAt
+      });
+    } else if (finishedNow && lastIndex < seenCount && lastCheckpoint) {
+      events.push({
+        ...base,
+        id: `${riderNo}:finish:${lastIndex}`,
+        type: 'finish',
+        checkpoint: lastCheckpoint.name,
+        time: lastCheckpoint.time,
+        timestamp: observedAt
+      });
+    } else if (!startedNow && !finishedNow) {
+      // DNF, or a correction by the organisers
+      events.push({
+        ...base,
+        id: `${riderNo}:status:${seen.status}:${rider.status}:${observedAt.getTime()}`,
+        type: 'status',
+        checkpoint: null,
+        time: null,
+        timestamp: observedAt,
+        from: seen.status
+      });
+    }
+  });
+
+  return sortRaceEvents(events);
+}
+
+/**
+ * Sort events oldest first
+ * @param events - Events to sort
+ * @returns New array ordered by time, then rider number
+ */
+export function sortRaceEvents(events: RaceEvent[]): RaceEvent[] {
+  return [...events].sort((a, b) =>
+    a.timestamp.getTime() - b.timestamp.getTime() || a.riderNo.localeCompare(b.riderNo)
+  );
+}
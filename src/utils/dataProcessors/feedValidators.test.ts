@@ -0,0 +1,139 @@
+import {
+  FeedValidationError,
+  validateAffiliationsFeed,
+  validateRidersFeed,
+  validateRouteFeed,
+  validateTrackingFeed
+} from './feedValidators';
+
+const trackingRider = (overrides: Record<string, unknown> = {}) => ({
+  rider_no: 'LB12',
+  name: 'Anna Rider',
+  status: 'in_progress',
+  distance_km: 110,
+  last_checkpoint: 'Northstowe',
+  checkpoints: [
+    { name: 'London', time: 'Sunday 05:15' },
+    { name: 'Northstowe', time: 'Sunday 10:00', departure: 'Sunday 10:30' }
+  ],
+  ...overrides
+});
+
+describe('validateRidersFeed', () => {
+  test('keeps every valid rider and its optional fields', () => {
+    const { data, issues } = validateRidersFeed([
+      { rider_no: 'LB12', name: 'Anna Rider', country: 'India', actual_start: '05:20' },
+      { rider_no: 'LC7', name: 'Ben Rider' }
+    ]);
+    expect(data).toEqual([
+      { rider_no: 'LB12', name: 'Anna Rider', country: 'India', actual_start: '05:20' },
+      { rider_no: 'LC7', name: 'Ben Rider' }
+    ]);
+    expect(issues).toEqual([]);
+  });
+
+  test('drops broken riders and reports each with its path', () => {
+    const { data, issues } = validateRidersFeed([
+      { rider_no: 'LB12', name: 'Anna Rider' },
+      { rider_no: 12, name: 'Number' },
+      { rider_no: '  ', name: 'Blank' },
+      'not a rider',
+      { rider_no: 'LC7', name: 'Ben Rider', country: 44 }
+    ]);
+    expect(data.map(rider => rider.rider_no)).toEqual(['LB12', 'LC7']);
+    // A wrong optional field is dropped, not the rider
+    expect(data[1]).toEqual({ rider_no: 'LC7', name: 'Ben Rider' });
+    expect(issues.map(issue => issue.path)).toEqual(['$[1].rider_no', '$[2].rider_no', '$[3]', '$[4].country']);
+  });
+
+  test('rejects a payload that is not a list', () => {
+    expect(() => validateRidersFeed({ riders: [] })).toThrow(FeedValidationError);
+    expect(() => validateRidersFeed(null)).toThrow('Invalid riders.json feed: $ expected array, got null');
+  });
+});
+
+describe('validateTrackingFeed', () => {
+  test('keeps a valid feed with its controls and timestamp', () => {
+    const { data, issues } = validateTrackingFeed({
+      last_updated: '2025-08-03T10:00:00Z',
+      riders: [trackingRider(), trackingRider({ rider_no: 'LC7', status: 'not_started', distance_km: null, checkpoints: [] })],
+      event: { controls: [{ id: 'writtle', name: 'Writtle', km: 20, leg: 'North' }] }
+    });
+    expect(issues).toEqual([]);
+    expect(data.last_updated).toBe('2025-08-03T10:00:00Z');
+    expect(data.riders).toHaveLength(2);
+    expect(data.riders[0].checkpoints[1]).toEqual({ name: 'Northstowe', time: 'Sunday 10:00', departure: 'Sunday 10:30' });
+    // Riders who have not started come without a distance
+    expect(data.riders[1].distance_km).toBe(0);
+    expect(data.event?.controls).toEqual([{ id: 'writtle', name: 'Writtle', km: 20, leg: 'North' }]);
+  });
+
+  test('drops broken riders, checkpoints and controls, counting each', () => {
+    const { data, issues } = validateTrackingFeed({
+      riders: [
+        trackingRider(),
+        trackingRider({ rider_no: 'LB13', status: 'resting' }),
+        trackingRider({ rider_no: 'LB14', checkpoints: 'none' }),
+        trackingRider({ rider_no: 'LB15', checkpoints: [{ name: 'London', time: 515 }, { name: 'Writtle', time: 'Sunday 06:15' }] })
+      ],
+      event: { controls: [{ id: 'writtle', name: 'Writtle', km: 20, leg: 'East' }] }
+    }, 'wave-B.json');
+
+    expect(data.riders.map(rider => rider.rider_no)).toEqual(['LB12', 'LB15']);
+    expect(data.riders[1].checkpoints).toEqual([{ name: 'Writtle', time: 'Sunday 06:15' }]);
+    expect(data.event?.controls).toEqual([]);
+    expect(issues.map(issue => issue.path)).toEqual([
+      '$.riders[1].status',
+      '$.riders[2].checkpoints',
+      '$.riders[3].checkpoints[0].time',
+      '$.event.controls[0].leg'
+    ]);
+  });
+
+  test('rejects a payload without a riders list, naming the feed', () => {
+    expect(() => validateTrackingFeed({ riders: {} }, 'wave-B.json'))
+      .toThrow('Invalid wave-B.json feed: $.riders expected array, got object');
+    expect(() => validateTrackingFeed('<html>')).toThrow(FeedValidationError);
+  });
+});
+
+describe('validateRouteFeed', () => {
+  const point = (id: number, overrides: Record<string, unknown> = {}) =>
+    ({ id, lat: 51.5, lon: -0.1, dist: id, elev: 10, ...overrides });
+
+  test('keeps valid tracks and drops broken points', () => {
+    const { data, issues } = validateRouteFeed([
+      { id: 1, name: 'London', colour: '#f00', coords: [point(0, { checkpoint: 'London' }), point(1, { lat: 'north' })] },
+      { id: 2, name: 'No colour', coords: [] }
+    ]);
+    expect(data).toHaveLength(1);
+    expect(data[0].coords).toEqual([point(0, { checkpoint: 'London' })]);
+    expect(issues.map(issue => issue.path)).toEqual(['$[0].coords[1].lat', '$[1].colour']);
+  });
+
+  test('rejects a payload that is not a list', () => {
+    expect(() => validateRouteFeed({})).toThrow(FeedValidationError);
+  });
+});
+
+describe('validateAffiliationsFeed', () => {
+  test('keeps trimmed affiliations and skips empty or broken ones', () => {
+    const { data, issues } = validateAffiliationsFeed({
+      riders: {
+        ' LB12 ': { club: ' Audax Club ', city: 'Pune' },
+        LB13: { club: '' },
+        LB14: 'Audax Club',
+        LB15: { club: 7, city: 'Leeds' }
+      }
+    });
+    expect(data).toEqual({
+      LB12: { club: 'Audax Club', city: 'Pune' },
+      LB15: { city: 'Leeds' }
+    });
+    expect(issues.map(issue => issue.path)).toEqual(['$.riders.LB14', '$.riders.LB15.club']);
+  });
+
+  test('rejects a payload without a riders object', () => {
+    expect(() => validateAffiliationsFeed([])).toThrow('Invalid rider-affiliations.json feed: $ expected object, got array');
+  });
+});
@@ -0,0 +1,460 @@
+/**
+ * Runtime validation for S3 feeds
+ *
+ * Payloads are checked field by field and turned into strict types. A record
+ * with a broken required field is skipped and reported with its path (e.g.
+ * "$.riders[12].checkpoints[3].time"), so one bad rider never blanks a page.
+ * Only a payload whose root has the wrong shape is rejected outright.
+ */
+
+import { Rider, RiderAffiliation } from '../../types';
+import { RawCheckpoint, RawTrackingRider, RiderStatus } from './trackingProcessors';
+import { Control } from './controlProcessors';
+
+/**
+ * A single problem found in a feed
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Validated payload plus everything that was dropped along the way
+ */
+export interface ValidationResult<T> {
+  data: T;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Thrown when a payload is unusable as a whole
+ */
+export class FeedValidationError extends Error {
+  constructor(public feed: string, public issues: ValidationIssue[]) {
+    super(`Invalid ${feed} feed: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'FeedValidationError';
+  }
+}
+
+/**
+ * indian-riders-tracking.json
+ */
+export interface TrackingFeed {
+  riders: RawTrackingRider[];
+  last_updated?: string;
+  event?: {
+    controls: Control[];
+  };
+}
+
+/**
+ * Point on a route track (routes.json)
+ */
+export interface RouteTrackPoint {
+  id: number;
+  lat: number;
+  lon: number;
+  dist: number;
+  elev: number;
+  checkpoint?: string;
+}
+
+/**
+ * One route in routes.json
+ */
+export interface RouteTrack {
+  id: number;
+  name: string;
+  colour: string;
+  coords: RouteTrackPoint[];
+}
+
+export type FieldRecord = Record<string, unknown>;
+
+const RIDER_STATUSES: RiderStatus[] = ['not_started', 'in_progress', 'finished', 'dnf'];
+
+/**
+ * Describe a value's type for issue messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Record an issue and return undefined so callers can bail out in one line
+ */
+export function addIssue(issues: ValidationIssue[], path: string, message: string): undefined {
+  issues.push({ path, message });
+  return undefined;
+}
+
+/**
+ * Check that a value is a plain object
+ */
+export function asRecord(value: unknown, path: string, issues: ValidationIssue[]): FieldRecord | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return addIssue(issues, path, `expected object, got ${describe(value)}`);
+  }
+  return value as FieldRecord;
+}
+
+/**
+ * Read a required string field
+ */
+export function readString(record: FieldRecord, key: string, path: string, issues: ValidationIssue[]): string | undefined {
+  const value = record[key];
+  if (typeof value !== 'string') {
+    return addIssue(issues, `${path}.${key}`, `expected string, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Read an optional string field; a wrong type is reported and dropped
+ */
+export function readOptionalString(record: FieldRecord, key: string, path: string, issues: ValidationIssue[]): string | undefined {
+  const value = record[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    return addIssue(issues, `${path}.${key}`, `expected string, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Read a required finite number field
+ */
+export function readNumber(record: FieldRecord, key: string, path: string, issues: ValidationIssue[]): number | undefined {
+  const value = record[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return addIssue(issues, `${path}.${key}`, `expected number, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Read an optional finite number field; a wrong type is reported and dropped
+ */
+export function readOptionalNumber(record: FieldRecord, key: string, path: string, issues: ValidationIssue[]): number | undefined {
+  const value = record[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return addIssue(issues, `${path}.${key}`, `expected number, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Read a required boolean field
+ */
+export function readBoolean(record: FieldRecord, key: string, path: string, issues: ValidationIssue[]): boolean | undefined {
+  const value = record[key];
+  if (typeof value !== 'boolean') {
+    return addIssue(issues, `${path}.${key}`, `expected boolean, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Validate every item of an array, keeping the ones that pass
+ * @param value - Candidate array
+ * @param path - Path of the array in the payload
+ * @param issues - Issue list to append to
+ * @param validateItem - Returns the typed item, or undefined to skip it
+ * @returns Valid items, or undefined if value is not an array
+ */
+export function validateArray<T>(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  validateItem: (item: unknown, itemPath: string) => T | undefined
+): T[] | undefined {
+  if (!Array.isArray(value)) {
+    return addIssue(issues, path, `expected array, got ${describe(value)}`);
+  }
+
+  const items: T[] = [];
+  value.forEach((item, index) => {
+    const validated = validateItem(item, `${path}[${index}]`);
+    if (validated !== undefined) items.push(validated);
+  });
+  return items;
+}
+
+/**
+ * Log a feed's issues in one collapsed group
+ * @param feed - Feed name (e.g., "riders.json")
+ * @param issues - Issues to report
+ */
+export function reportValidationIssues(feed: string, issues: ValidationIssue[]): void {
+  if (issues.length === 0) return;
+
+  console.groupCollapsed(`[feeds] ${feed}: ${issues.length} malformed field(s) skipped`);
+  issues.forEach(issue => console.warn(`${issue.path}: ${issue.message}`));
+  console.groupEnd();
+}
+
+/**
+ * Validate a riders.json record
+ */
+function validateRider(value: unknown, path: string, issues: ValidationIssue[]): Rider | undefined {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const riderNo = readString(record, 'rider_no', path, issues);
+  const name = readString(record, 'name', path, issues);
+  if (riderNo === undefined || name === undefined) return undefined;
+  if (!riderNo.trim()) return addIssue(issues, `${path}.rider_no`, 'expected non-empty string');
+
+  const rider: Rider = { rider_no: riderNo, name };
+  const country = readOptionalString(record, 'country', path, issues);
+  if (country !== undefined) rider.country = country;
+  const actualStart = readOptionalString(record, 'actual_start', path, issues);
+  if (actualStart !== undefined) rider.actual_start = actualStart;
+
+  return rider;
+}
+
+/**
+ * Validate riders.json
+ * @param payload - Parsed JSON
+ * @returns Valid riders and issues
+ * @throws FeedValidationError if the payload is not an array
+ */
+export function validateRidersFeed(payload: unknown): ValidationResult<Rider[]> {
+  const issues: ValidationIssue[] = [];
+  const riders = validateArray(payload, '$', issues, (item, path) => validateRider(item, path, issues));
+
+  if (!riders) throw new FeedValidationError('riders.json', issues);
+  return { data: riders, issues };
+}
+
+/**
+ * Validate a checkpoint record of a tracking rider
+ */
+function validateCheckpoint(value: unknown, path: string, issues: ValidationIssue[]): RawCheckpoint | undefined {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const name = readString(record, 'name', path, issues);
+  const time = readString(record, 'time', path, issues);
+  if (name === undefined || time === undefined) return undefined;
+
+  const checkpoint: RawCheckpoint = { name, time };
+  const departure = readOptionalString(record, 'departure', path, issues);
+  if (departure !== undefined) checkpoint.departure = departure;
+
+  return checkpoint;
+}
+
+/**
+ * Validate a tracking rider
+ */
+function validateTrackingRider(value: unknown, path: string, issues: ValidationIssue[]): RawTrackingRider | undefined {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const riderNo = readString(record, 'rider_no', path, issues);
+  const name = readString(record, 'name', path, issues);
+  const status = readString(record, 'status', path, issues);
+  const checkpoints = validateArray(record.checkpoints, `${path}.checkpoints`, issues, (item, itemPath) =>
+    validateCheckpoint(item, itemPath, issues)
+  );
+  if (riderNo === undefined || name === undefined || status === undefined || checkpoints === undefined) {
+    return undefined;
+  }
+
+  if (!RIDER_STATUSES.includes(status as RiderStatus)) {
+    return addIssue(issues, `${path}.status`, `unknown status "${status}"`);
+  }
+
+  // Riders who have not started yet are published without a distance
+  const distance = record.distance_km === undefined || record.distance_km === null
+    ? 0
+    : readNumber(record, 'distance_km', path, issues);
+  if (distance === undefined) return undefined;
+
+  const lastCheckpoint = readOptionalString(record, 'last_checkpoint', path, issues);
+
+  const rider: RawTrackingRider = {
+    rider_no: riderNo,
+    name,
+    status: status as RiderStatus,
+    checkpoints,
+    distance_km: distance,
+    last_checkpoint: lastCheckpoint ?? null
+  };
+
+  const currentCheckpoint = readOptionalString(record, 'current_checkpoint', path, issues);
+  if (currentCheckpoint !== undefined) rider.current_checkpoint = currentCheckpoint;
+  const elapsedTime = readOptionalNumber(record, 'elapsed_time', path, issues);
+  if (elapsedTime !== undefined) rider.elapsed_time = elapsedTime;
+  const averageSpeed = readOptionalNumber(record, 'average_speed', path, issues);
+  if (averageSpeed !== undefined) rider.average_speed = averageSpeed;
+  const estimatedDistance = readOptionalNumber(record, 'estimated_distance', path, issues);
+  if (estimatedDistance !== undefined) rider.estimated_distance = estimatedDistance;
+  const actualStart = readOptionalString(record, 'actual_start', path, issues);
+  if (actualStart !== undefined) rider.actual_start = actualStart;
+  const instagram = readOptionalString(record, 'instagram', path, issues);
+  if (instagram !== undefined) rider.instagram = instagram;
+
+  return rider;
+}
+
+/**
+ * Validate a control listed in the tracking feed
+ */
+function validateFeedControl(value: unknown, path: string, issues: ValidationIssue[]): Control | undefined {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const id = readString(record, 'id', path, issues);
+  const name = readString(record, 'name', path, issues);
+  const km = readNumber(record, 'km', path, issues);
+  const leg = readString(record, 'leg', path, issues);
+  if (id === undefined || name === undefined || km === undefined || leg === undefined) return undefined;
+
+  if (leg !== 'North' && leg !== 'South') {
+    return addIssue(issues, `${path}.leg`, `expected "North" or "South", got "${leg}"`);
+  }
+
+  return { id, name, km, leg };
+}
+
+/**
+ * Validate indian-riders-tracking.json or a per-wave tracking shard
+ * @param payload - Parsed JSON
+ * @param feedName - Feed name used in error reports
+ * @returns Valid tracking data and issues
+ * @throws FeedValidationError if the payload has no riders array
+ */
+export function validateTrackingFeed(
+  payload: unknown,
+  feedName: string = 'indian-riders-tracking.json'
+): ValidationResult<TrackingFeed> {
+  const issues: ValidationIssue[] = [];
+  const record = asRecord(payload, '$', issues);
+  const riders = record
+    ? validateArray(record.riders, '$.riders', issues, (item, path) => validateTrackingRider(item, path, issues))
+    : undefined;
+
+  if (!record || !riders) throw new FeedValidationError(feedName, issues);
+
+  const feed: TrackingFeed = { riders };
+
+  const lastUpdated = readOptionalString(record, 'last_updated', '$', issues);
+  if (lastUpdated !== undefined) feed.last_updated = lastUpdated;
+
+  if (record.event !== undefined && record.event !== null) {
+    const eventRecord = asRecord(record.event, '$.event', issues);
+    const controls = eventRecord
+      ? validateArray(eventRecord.controls, '$.event.controls', issues, (item, path) => validateFeedControl(item, path, issues))
+      : undefined;
+    if (controls) feed.event = { controls };
+  }
+
+  return { data: feed, issues };
+}
+
+/**
+ * Validate a point of a route track
+ */
+function validateRoutePoint(value: unknown, path: string, issues: ValidationIssue[]): RouteTrackPoint | undefined {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const id = readNumber(record, 'id', path, issues);
+  const lat = readNumber(record, 'lat', path, issues);
+  const lon = readNumber(record, 'lon', path, issues);
+  const dist = readNumber(record, 'dist', path, issues);
+  const elev = readNumber(record, 'elev', path, issues);
+  if (id === undefined || lat === undefined || lon === undefined || dist === undefined || elev === undefined) {
+    return undefined;
+  }
+
+  const point: RouteTrackPoint = { id, lat, lon, dist, elev };
+  const checkpoint = readOptionalString(record, 'checkpoint', path, issues);
+  if (checkpoint) point.checkpoint = checkpoint;
+
+  return point;
+}
+
+/**
+ * Validate a route track
+ */
+function validateRouteTrack(value: unknown, path: string, issues: ValidationIssue[]): RouteTrack | undefined {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const id = readNumber(record, 'id', path, issues);
+  const name = readString(record, 'name', path, issues);
+  const colour = readString(record, 'colour', path, issues);
+  const coords = validateArray(record.coords, `${path}.coords`, issues, (item, itemPath) =>
+    validateRoutePoint(item, itemPath, issues)
+  );
+  if (id === undefined || name === undefined || colour === undefined || coords === undefined) return undefined;
+
+  return { id, name, colour, coords };
+}
+
+/**
+ * Validate routes.json
+ * @param payload - Parsed JSON
+ * @returns Valid route tracks and issues
+ * @throws FeedValidationError if the payload is not an array
+ */
+export function validateRouteFeed(payload: unknown): ValidationResult<RouteTrack[]> {
+  const issues: ValidationIssue[] = [];
+  const routes = validateArray(payload, '$', issues, (item, path) => validateRouteTrack(item, path, issues));
+
+  if (!routes) throw new FeedValidationError('routes.json', issues);
+  return { data: routes, issues };
+}
+
+/**
+ * Validate the club and city of one rider in the affiliations side file
+ */
+function validateAffiliation(value: unknown, path: string, issues: ValidationIssue[]): RiderAffiliation | undefined {
+  const record = asRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const affiliation: RiderAffiliation = {};
+  (['club', 'city', 'state'] as const).forEach(key => {
+    const field = readOptionalString(record, key, path, issues)?.trim();
+    if (field) affiliation[key] = field;
+  });
+
+  return affiliation;
+}
+
+/**
+ * Validate the affiliations side file
+ *
+ * Expected shape: `{ "riders": { "<rider_no>": { "club", "city", "state" } } }`
+ * @param payload - Parsed JSON
+ * @param feedName - File name used in error messages
+ * @returns Affiliations by rider number and issues
+ * @throws FeedValidationError if the payload has no riders object
+ */
+export function validateAffiliationsFeed(
+  payload: unknown,
+  feedName = 'rider-affiliations.json'
+): ValidationResult<Record<string, RiderAffiliation>> {
+  const issues: ValidationIssue[] = [];
+  const root = asRecord(payload, '$', issues);
+  const riders = root ? asRecord(root.riders, '$.riders', issues) : undefined;
+  if (!riders) throw new FeedValidationError(feedName, issues);
+
+  const affiliations: Record<string, RiderAffiliation> = {};
+  Object.entries(riders).forEach(([riderNo, value]) => {
+    const affiliation = validateAffiliation(value, `$.riders.${riderNo}`, issues);
+    if (affiliation && Object.keys(affiliation).length > 0) {
+      affiliations[riderNo.trim()] = affiliation;
+    }
+  });
+
+  return { data: affiliations, issues };
+}
@@ -0,0 +1,85 @@
+import { countProjectedFinishers, projectFinish, FinishProjection } from './finishProcessors';
+import { ETA_INTERVAL_Z, RiderEta } from './etaProcessors';
+import { LEL_2025 } from '../../config/events';
+import { createFixedClock } from '../clock';
+
+// LB12 rides the 1557 km London route; the finish closes 125 hours after wave B, at 09:15 UTC on Friday
+const MINUTE = 60 * 1000;
+const utc = (iso: string) => new Date(`${iso}Z`);
+const LIMIT = utc('2025-08-08T09:15:00').getTime();
+const NOW = createFixedClock(utc('2025-08-06T12:00:00')).now();
+
+// Predictions whose finish is at `eta` with `marginMinutes` either side
+const riderEta = (eta: number, marginMinutes: number, isFinish: boolean = true): RiderEta => ({
+  riderNo: 'LB12',
+  basis: 'rider',
+  baseSpeed: 20,
+  dwellMinutes: 30,
+  spread: 0.2,
+  lastControlId: 'richmond',
+  departedAt: NOW.getTime(),
+  estimatedKm: 487,
+  controls: [{
+    controlId: 'london-finish',
+    name: 'London',
+    km: 1557,
+    ordinal: 20,
+    isFinish,
+    eta,
+    earliest: eta - marginMinutes * MINUTE,
+    latest: eta + marginMinutes * MINUTE
+  }]
+});
+
+describe('projectFinish', () => {
+  test('is an even chance for a finish projected at the limit', () => {
+    const projection = projectFinish(riderEta(LIMIT, 120), NOW, LEL_2025)!;
+    expect(projection.limit).toBe(LIMIT);
+    expect(projection.marginMinutes).toBe(0);
+    expect(projection.probability).toBeCloseTo(0.5, 6);
+  });
+
+  test('reads the interval as roughly 80% either side of the limit', () => {
+    // Latest exactly at the limit: only the top 10% are late
+    expect(projectFinish(riderEta(LIMIT - 120 * MINUTE, 120), NOW, LEL_2025)!.probability).toBeCloseTo(0.9, 2);
+    // Earliest exactly at the limit: only the bottom 10% make it
+    const late = projectFinish(riderEta(LIMIT + 120 * MINUTE, 120), NOW, LEL_2025)!;
+    expect(late.probability).toBeCloseTo(0.1, 2);
+    expect(late.marginMinutes).toBe(-120);
+  });
+
+  test('takes sigma from the interval', () => {
+    const sigmaMinutes = 120 / ETA_INTERVAL_Z;
+    const projection = projectFinish(riderEta(LIMIT + sigmaMinutes * MINUTE, 120), NOW, LEL_2025)!;
+    expect(projection.probability).toBeCloseTo(0.1587, 4);
+  });
+
+  test('is certain either way without an interval', () => {
+    expect(projectFinish(riderEta(LIMIT, 0), NOW, LEL_2025)!.probability).toBe(1);
+    expect(projectFinish(riderEta(LIMIT + MINUTE, 0), NOW, LEL_2025)!.probability).toBe(0);
+  });
+
+  test('is no chance once the limit has passed', () => {
+    const now = createFixedClock(new Date(LIMIT + MINUTE)).now();
+    expect(projectFinish(riderEta(LIMIT - 60 * MINUTE, 120), now, LEL_2025)!.probability).toBe(0);
+  });
+
+  test('has nothing to project without a finish prediction', () => {
+    expect(projectFinish(riderEta(LIMIT, 120, false), NOW, LEL_2025)).toBeNull();
+    expect(projectFinish({ ...riderEta(LIMIT, 120), riderNo: 'ZZ99' }, NOW, LEL_2025)).toBeNull();
+  });
+});
+
+describe('countProjectedFinishers', () => {
+  test('counts riders home once and riders on the road by their chance', () => {
+    const projection = (probability: number) => ({ probability } as FinishProjection);
+    expect(countProjectedFinishers([
+      { status: 'finished', finishProjection: null },
+      { status: 'in_progress', finishProjection: projection(0.75) },
+      { status: 'in_progress', finishProjection: projection(0.5) },
+      { status: 'in_progress', finishProjection: null },
+      { status: 'dnf', finishProjection: projection(1) },
+      { status: 'not_started', finishProjection: null }
+    ])).toBeCloseTo(2.25);
+  });
+});
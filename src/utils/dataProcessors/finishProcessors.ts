@@ -0,0 +1,95 @@
+/**
+ * Finish projections for riders still on the road
+ *
+ * The predicted finish is the last of a rider's control predictions; its
+ * interval is read as a normal distribution to give the chance of finishing
+ * before the finish control closes for the rider's route. Only the finish
+ * limit counts here: intermediate closures are the cutoff engine's job.
+ */
+
+import type { RiderStatus } from './trackingProcessors';
+import { DEFAULT_EVENT, EventDefinition } from '../../config/events';
+import { getControlWindows } from './cutoffProcessors';
+import { ETA_INTERVAL_Z, RiderEta } from './etaProcessors';
+
+/**
+ * Projected finish of one rider (times in epoch ms)
+ */
+export interface FinishProjection {
+  projectedFinish: number;
+  /** Roughly 80% interval around projectedFinish */
+  earliest: number;
+  latest: number;
+  /** When the finish closes for the rider's route and wave */
+  limit: number;
+  /** Minutes between the projected finish and the limit; negative when late */
+  marginMinutes: number;
+  /** Chance of finishing inside the limit, 0 to 1 */
+  probability: number;
+}
+
+/**
+ * Standard normal cumulative distribution
+ * Abramowitz and Stegun 7.1.26, good to 1e-7.
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Project a rider's finish against the time limit of their route
+ * @param eta - The rider's arrival predictions (see predictRiderEta)
+ * @param currentTime - Current instant
+ * @param event - Event definition
+ * @returns Projection, or null if the finish or its closing time is unknown
+ */
+export function projectFinish(
+  eta: RiderEta,
+  currentTime: Date,
+  event: EventDefinition = DEFAULT_EVENT
+): FinishProjection | null {
+  const finish = eta.controls[eta.controls.length - 1];
+  const windows = getControlWindows(eta.riderNo, event);
+  const finishWindow = windows[windows.length - 1];
+  if (!finish?.isFinish || !finishWindow?.control.isFinish) return null;
+
+  const limit = finishWindow.closes.getTime();
+  const sigma = (finish.latest - finish.eta) / ETA_INTERVAL_Z;
+  let probability: number;
+  if (currentTime.getTime() > limit) {
+    probability = 0;
+  } else if (sigma > 0) {
+    probability = normalCdf((limit - finish.eta) / sigma);
+  } else {
+    probability = finish.eta <= limit ? 1 : 0;
+  }
+
+  return {
+    projectedFinish: finish.eta,
+    earliest: finish.earliest,
+    latest: finish.latest,
+    limit,
+    marginMinutes: Math.round((limit - finish.eta) / 60000),
+    probability
+  };
+}
+
+/**
+ * Expected number of finishers among tracked riders
+ * Riders already home count once; each rider on the road counts by their chance.
+ * @param riders - Riders with status and projection
+ * @returns Expected finishers, not rounded
+ */
+export function countProjectedFinishers(
+  riders: Array<{ status: RiderStatus; finishProjection: FinishProjection | null }>
+): number {
+  return riders.reduce((sum, rider) => {
+    if (rider.status === 'finished') return sum + 1;
+    if (rider.status === 'in_progress' && rider.finishProjection) return sum + rider.finishProjection.probability;
+    return sum;
+  }, 0);
+}
@@ -0,0 +1,82 @@
+import { classifyFeedFreshness, observeFeed, FreshnessThresholds } from './freshnessProcessors';
+
+const MINUTE = 60 * 1000;
+const T0 = new Date('2025-08-04T10:00:00Z');
+const after = (minutes: number) => new Date(T0.getTime() + minutes * MINUTE);
+const stamp = (minutes: number) => after(minutes).toISOString();
+
+const thresholds: FreshnessThresholds = { notRefreshedMs: 15 * MINUTE, sourceStalledMs: 10 * MINUTE };
+
+describe('observeFeed', () => {
+  test('remembers when the newest source timestamp was first fetched', () => {
+    const first = observeFeed(undefined, 'tracking', stamp(0), after(1));
+    const same = observeFeed(first, 'tracking', stamp(0), after(6));
+    expect(same).toEqual({
+      feed: 'tracking',
+      latestSourceTime: T0.getTime(),
+      newestSourceTime: T0.getTime(),
+      newestSeenAt: after(1).getTime(),
+      fetchedAt: after(6).getTime()
+    });
+
+    const moved = observeFeed(same, 'tracking', stamp(5), after(11));
+    expect(moved.newestSourceTime).toBe(after(5).getTime());
+    expect(moved.newestSeenAt).toBe(after(11).getTime());
+  });
+
+  test('keeps the newest timestamp when a payload is older or has none', () => {
+    const first = observeFeed(undefined, 'wave-A', stamp(10), after(10));
+    const older = observeFeed(first, 'wave-A', stamp(0), after(12));
+    expect(older.latestSourceTime).toBe(T0.getTime());
+    expect(older.newestSourceTime).toBe(after(10).getTime());
+
+    const missing = observeFeed(first, 'wave-A', 'not a time', after(12));
+    expect(missing.latestSourceTime).toBeNull();
+    expect(missing.newestSourceTime).toBe(after(10).getTime());
+  });
+});
+
+describe('classifyFeedFreshness', () => {
+  test('is fresh while the source keeps moving', () => {
+    const observation = observeFeed(undefined, 'tracking', stamp(0), after(1));
+    const freshness = classifyFeedFreshness(observation, after(5), thresholds);
+    expect(freshness.state).toBe('fresh');
+    expect(freshness.sourceUpdatedAt).toEqual(T0);
+  });
+
+  test('is stalled when fetches work but the source timestamp stays put', () => {
+    let observation = observeFeed(undefined, 'tracking', stamp(0), after(0));
+    observation = observeFeed(observation, 'tracking', stamp(0), after(11));
+    expect(classifyFeedFreshness(observation, after(12), thresholds).state).toBe('source_stalled');
+  });
+
+  test('counts a timestamp already old when first fetched from itself', () => {
+    const observation = observeFeed(undefined, 'tracking', stamp(0), after(30));
+    expect(classifyFeedFreshness(observation, after(31), thresholds).state).toBe('source_stalled');
+  });
+
+  test('counts a timestamp ahead of this clock from when it was first seen', () => {
+    const observation = observeFeed(undefined, 'tracking', stamp(60), after(0));
+    expect(classifyFeedFreshness(observation, after(5), thresholds).state).toBe('fresh');
+    expect(classifyFeedFreshness(observation, after(11), thresholds).state).toBe('source_stalled');
+  });
+
+  test('reports a payload older than one already seen', () => {
+    const first = observeFeed(undefined, 'tracking', stamp(10), after(10));
+    const older = observeFeed(first, 'tracking', stamp(0), after(12));
+    const freshness = classifyFeedFreshness(older, after(13), thresholds);
+    expect(freshness.state).toBe('went_backwards');
+    expect(freshness.latestSourceUpdatedAt).toEqual(T0);
+  });
+
+  test('reports our own missed refreshes before anything upstream', () => {
+    const first = observeFeed(undefined, 'tracking', stamp(10), after(10));
+    const older = observeFeed(first, 'tracking', stamp(0), after(12));
+    expect(classifyFeedFreshness(older, after(28), thresholds).state).toBe('not_refreshed');
+  });
+
+  test('is fresh for a feed without a source timestamp while it is fetched', () => {
+    const observation = observeFeed(undefined, 'routes', undefined, after(0));
+    expect(classifyFeedFreshness(observation, after(14), thresholds).state).toBe('fresh');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Freshness of the feeds, judged from their own timestamps across fetches
+ *
+ * When we fetched and when the source last changed are different questions:
+ * a feed can be fetched every five minutes and still carry the same
+ * `last_updated` for an hour because the scraper upstream stopped. Each
+ * successful fetch is recorded as an observation, and the observation is
+ * classified against the wall clock (this is about fetches, not race time).
+ */
+
+export type FeedFreshnessState =
+  | 'fresh'
+  | 'not_refreshed' // We have not fetched the feed for a while (offline, errors, refresh off)
+  | 'source_stalled' // Fetches work but the source timestamp stopped moving
+  | 'went_backwards'; // The latest payload is older than one already seen
+
+/**
+ * What the fetches of one feed have shown so far
+ */
+export interface FeedObservation {
+  /** Feed name (e.g., "tracking", "wave-A") */
+  feed: string;
+  /** Source timestamp of the latest payload (epoch ms); null if it had none */
+  latestSourceTime: number | null;
+  /** Newest source timestamp seen in any payload (epoch ms) */
+  newestSourceTime: number | null;
+  /** When the newest source timestamp was first fetched (epoch ms) */
+  newestSeenAt: number | null;
+  /** Last successful fetch (epoch ms) */
+  fetchedAt: number;
+}
+
+/**
+ * A feed's freshness at one moment
+ */
+export interface FeedFreshness {
+  feed: string;
+  state: FeedFreshnessState;
+  fetchedAt: Date;
+  /** Newest source timestamp seen */
+  sourceUpdatedAt: Date | null;
+  /** Source timestamp of the latest payload; older than sourceUpdatedAt when it went backwards */
+  latestSourceUpdatedAt: Date | null;
+}
+
+export interface FreshnessThresholds {
+  /** Time since the last successful fetch before it counts as not refreshed */
+  notRefreshedMs: number;
+  /** Time the source timestamp may stay the same before it counts as stalled */
+  sourceStalledMs: number;
+}
+
+export const DEFAULT_FRESHNESS_THRESHOLDS: FreshnessThresholds = {
+  notRefreshedMs: 15 * 60 * 1000, // Three missed tracking polls
+  sourceStalledMs: 10 * 60 * 1000
+};
+
+const toTime = (timestamp: string | null | undefined): number | null => {
+  if (!timestamp) return null;
+  const time = new Date(timestamp).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Add a successful fetch to a feed's observation
+ * @param previous - Observation so far, or undefined for the first fetch
+ * @param feed - Feed name
+ * @param sourceTimestamp - The payload's own timestamp (e.g., last_updated)
+ * @param fetchedAt - When the payload arrived
+ * @returns Updated observation
+ */
+export function observeFeed(
+  previous: FeedObservation | undefined,
+  feed: string,
+  sourceTimestamp: string | null | undefined,
+  fetchedAt: Date = new Date()
+): FeedObservation {
+  const sourceTime = toTime(sourceTimestamp);
+  const advanced = sourceTime !== null && (previous?.newestSourceTime == null || sourceTime > previous.newestSourceTime);
+
+  return {
+    feed,
+    latestSourceTime: sourceTime,
+    newestSourceTime: advanced ? sourceTime : previous?.newestSourceTime ?? null,
+    newestSeenAt: advanced ? fetchedAt.getTime() : previous?.newestSeenAt ?? null,
+    fetchedAt: fetchedAt.getTime()
+  };
+}
+
+/**
+ * Classify a feed's observation
+ * @param observation - What its fetches have shown
+ * @param now - Wall-clock time to judge at
+ * @param thresholds - When a feed stops counting as fresh
+ * @returns Freshness; our own missed refreshes are reported before anything upstream
+ */
+export function classifyFeedFreshness(
+  observation: FeedObservation,
+  now: Date = new Date(),
+  thresholds: FreshnessThresholds = DEFAULT_FRESHNESS_THRESHOLDS
+): FeedFreshness {
+  const { latestSourceTime, newestSourceTime, newestSeenAt, fetchedAt } = observation;
+  const nowMs = now.getTime();
+
+  let state: FeedFreshnessState = 'fresh';
+  if (nowMs - fetchedAt > thresholds.notRefreshedMs) {
+    // Nothing upstream can be judged from data we have not fetched
+    state = 'not_refreshed';
+  } else if (latestSourceTime !== null && newestSourceTime !== null && latestSourceTime < newestSourceTime) {
+    state = 'went_backwards';
+  } else if (newestSourceTime !== null && newestSeenAt !== null) {
+    // Age from whichever is earlier: a timestamp already old when first fetched counts
+    // from itself, one ahead of this browser's clock from when we first saw it
+    const sourceAge = nowMs - Math.min(newestSeenAt, newestSourceTime);
+    if (sourceAge > thresholds.sourceStalledMs) state = 'source_stalled';
+  }
+
+  return {
+    feed: observation.feed,
+    state,
+    fetchedAt: new Date(fetchedAt),
+    sourceUpdatedAt: newestSourceTime !== null ? new Date(newestSourceTime) : null,
+    latestSourceUpdatedAt: latestSourceTime !== null ? new Date(latestSourceTime) : null
+  };
+}
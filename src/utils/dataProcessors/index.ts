@@ -11,8 +11,44 @@ export * from './trackingProcessors';
 // Wave processors
 export * from './waveProcessors';
 
+// Country processors
+export * from './countryProcessors';
+
+// Club processors
+export * from './clubProcessors';
+
 // Control processors
 export * from './controlProcessors';
 
+// Change processors
+export * from './changeProcessors';
+
+// Event processors
+export * from './eventProcessors';
+
+// Replay processors
+export * from './replayProcessors';
+
+// Pipeline processors
+export * from './pipelineProcessors';
+
+// Freshness processors
+export * from './freshnessProcessors';
+
+// Diagnostics processors
+export * from './diagnosticsProcessors';
+
+// Cutoff processors
+export * from './cutoffProcessors';
+
+// ETA processors
+export * from './etaProcessors';
+
+// Finish processors
+export * from './finishProcessors';
+
 // Time processors
-export * from './timeProcessors';
\ No newline at end of file
+export * from './timeProcessors';
+
+// Feed validators
+export * from './feedValidators';
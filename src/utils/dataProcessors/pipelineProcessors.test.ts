@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import { decodeProcessedRaceData, encodeProcessedRaceData, processRaceData, RaceDataInput } from './pipelineProcessors';
+import { RawTrackingRider } from './trackingProcessors';
+import { LEL_2025 } from '../../config/events';
+
+// Wave B left London at 04:15 UTC on Sunday; by 14:00 LB12 is past Northstowe and LB14 past Writtle
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+const tracking = (riderNo: string, checkpoints: Array<[string, string, string?]>): RawTrackingRider => ({
+  rider_no: riderNo,
+  name: riderNo,
+  status: 'in_progress',
+  checkpoints: checkpoints.map(([name, time, departure]) => ({ name, time, departure })),
+  distance_km: 0,
+  last_checkpoint: checkpoints[checkpoints.length - 1][0]
+});
+
+const input: RaceDataInput = {
+  rawRiders: [
+    { rider_no: 'LB12', name: 'Anna Rider', country: 'India' },
+    { rider_no: 'LB14', name: 'Ben Rider', country: 'United Kingdom' },
+    { rider_no: 'LC7', name: 'Cat Rider' }
+  ],
+  riderAffiliations: { LB12: { club: 'Audax Club', city: 'Pune' } },
+  trackingRiders: [
+    tracking('LB12', [['London', 'Sunday 05:15'], ['Writtle', 'Sunday 06:20', 'Sunday 06:40'], ['Northstowe', 'Sunday 11:10', 'Sunday 11:40']]),
+    tracking('LB14', [['London', 'Sunday 05:15'], ['Writtle', 'Sunday 06:45', 'Sunday 07:10']])
+  ],
+  hasTracking: true,
+  controls: [
+    { id: 'writtle', name: 'Writtle', km: 20, leg: 'North' },
+    { id: 'northstowe-north', name: 'Northstowe', km: 110, leg: 'North' }
+  ],
+  currentTime: utc('2025-08-03T14:00:00').getTime()
+};
+
+const roundTrip = (data: ReturnType<typeof processRaceData>) =>
+  decodeProcessedRaceData(encodeProcessedRaceData(data));
+
+describe('encodeProcessedRaceData / decodeProcessedRaceData', () => {
+  const processed = processRaceData(input, LEL_2025);
+  const decoded = roundTrip(processed);
+
+  test('gives back what the pipeline produced', () => {
+    expect(decoded).toEqual(processed);
+    expect(decoded.controlProgress).toBeInstanceOf(Map);
+    expect(Array.from(decoded.controlProgress.keys())).toEqual(Array.from(processed.controlProgress.keys()));
+  });
+
+  test('keeps predicted times as the same instants', () => {
+    const lb12 = processed.trackingRiders.find(rider => rider.rider_no === 'LB12')!;
+    const decodedLb12 = decoded.trackingRiders.find(rider => rider.rider_no === 'LB12')!;
+    expect(lb12.eta).not.toBeNull();
+    expect(decodedLb12.eta!.departedAt).toBe(utc('2025-08-03T10:40:00').getTime());
+    expect(decodedLb12.eta!.controls.map(control => control.eta)).toEqual(lb12.eta!.controls.map(control => control.eta));
+    expect(decodedLb12.finishProjection!.limit).toBe(utc('2025-08-08T09:15:00').getTime());
+  });
+
+  test('restores one object per rider wherever the rider is listed', () => {
+    const enhanced = new Set(decoded.enhancedRiders);
+    const tracked = new Set(decoded.trackingRiders);
+
+    const waveRiders = decoded.waves.flatMap(wave => wave.riders);
+    expect(waveRiders).toHaveLength(3);
+    waveRiders.forEach(rider => expect(enhanced.has(rider)).toBe(true));
+
+    decoded.trackedWaves.forEach(wave => {
+      expect(wave.riders).toEqual(wave.trackingRiders);
+      wave.trackingRiders.forEach(rider => expect(tracked.has(rider)).toBe(true));
+    });
+
+    const northstowe = decoded.controlProgress.get('northstowe-north')!;
+    expect(northstowe.ridersReached.map(rider => rider.rider_no)).toEqual(['LB12']);
+    decoded.controlProgress.forEach(progress => {
+      [...progress.ridersReached, ...progress.ridersApproaching].forEach(rider => expect(tracked.has(rider)).toBe(true));
+    });
+  });
+
+  test('round-trips data processed before any tracking has loaded', () => {
+    const empty = processRaceData({ ...input, trackingRiders: [], hasTracking: false, controls: null }, LEL_2025);
+    const decodedEmpty = roundTrip(empty);
+    expect(decodedEmpty).toEqual(empty);
+    expect(decodedEmpty.controlProgress.size).toBe(0);
+  });
+});
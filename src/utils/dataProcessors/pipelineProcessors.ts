@@ -0,0 +1,188 @@
+/**
+ * The processing pipeline, run as one step
+ *
+ * Turns the fetched riders and tracking into everything the pages show:
+ * enhanced riders, tracking riders with arrival predictions, waves and
+ * control progress. It is the
+ * unit of work the data processing worker runs off the main thread, and its
+ * results cross back as one transferable buffer.
+ */
+
+import { DEFAULT_EVENT, EventDefinition } from '../../config/events';
+import type { Rider, RiderAffiliation } from '../../types';
+import { EnhancedRider, enhanceRiders } from './riderProcessors';
+import { RawTrackingRider, TrackingRider, processTrackingRider } from './trackingProcessors';
+import { ProcessedWave, TrackedWave, processWaves, processTrackedWaves } from './waveProcessors';
+import { Control, ControlProgress, processControlProgress } from './controlProcessors';
+import { EMPTY_PACE_MODEL, FieldPaceModel, buildFieldPaceModel } from './etaProcessors';
+
+/**
+ * Everything the pipeline reads
+ */
+export interface RaceDataInput {
+  rawRiders: Rider[];
+  riderAffiliations: Record<string, RiderAffiliation>;
+  /** Main feed and shards merged (rewound during a replay) */
+  trackingRiders: RawTrackingRider[];
+  /** Whether any tracking has loaded; until then riders are not given tracking */
+  hasTracking: boolean;
+  /** Controls listed by the tracking feed, if loaded */
+  controls: Control[] | null;
+  /** Moment cutoffs and projections are worked out at (epoch ms) */
+  currentTime: number;
+}
+
+/**
+ * Everything the pipeline produces
+ */
+export interface ProcessedRaceData {
+  enhancedRiders: EnhancedRider[];
+  /** Every registered rider with their tracking, in the order of enhancedRiders */
+  trackingRiders: TrackingRider[];
+  waves: ProcessedWave[];
+  trackedWaves: TrackedWave[];
+  controlProgress: Map<string, ControlProgress>;
+  /** What the field's completed legs say, for predicting riders outside the processed list */
+  paceModel: FieldPaceModel;
+}
+
+/**
+ * Tracking rider for someone with nothing in the feeds yet
+ */
+function createUntrackedRider(enhancedRider: EnhancedRider): TrackingRider {
+  return {
+    ...enhancedRider,
+    status: 'not_started',
+    checkpoints: [],
+    currentLocation: 'Not Started',
+    lastCheckpoint: null,
+    distanceCovered: 0,
+    estimatedDistance: 0,
+    elapsedMinutes: 0,
+    averageSpeed: 0,
+    progress: 0,
+    startGapMinutes: null,
+    timeInHandMinutes: null,
+    nextControlMarginMinutes: null,
+    cutoffState: 'ok',
+    eta: null,
+    finishProjection: null
+  };
+}
+
+/**
+ * Run the whole pipeline
+ * @param input - Fetched data and the time to process at
+ * @param event - Event the data belongs to
+ * @returns Processed riders, waves and control progress
+ */
+export function processRaceData(input: RaceDataInput, event: EventDefinition = DEFAULT_EVENT): ProcessedRaceData {
+  const enhancedRiders = enhanceRiders(input.rawRiders, event, input.riderAffiliations);
+  const waves = processWaves(enhancedRiders);
+
+  let trackingRiders: TrackingRider[] = [];
+  let paceModel = EMPTY_PACE_MODEL;
+  if (input.hasTracking) {
+    const currentTime = new Date(input.currentTime);
+    const trackingByRider = new Map(input.trackingRiders.map(rider => [rider.rider_no, rider]));
+    paceModel = buildFieldPaceModel(input.trackingRiders, event);
+
+    trackingRiders = enhancedRiders.map(enhancedRider => {
+      const tracking = trackingByRider.get(enhancedRider.rider_no);
+      return tracking
+        ? processTrackingRider(tracking, enhancedRider, currentTime, event, paceModel)
+        : createUntrackedRider(enhancedRider);
+    });
+  }
+
+  return {
+    enhancedRiders,
+    trackingRiders,
+    waves,
+    trackedWaves: trackingRiders.length === 0 ? [] : processTrackedWaves(trackingRiders),
+    controlProgress: input.controls
+      ? processControlProgress(input.controls, trackingRiders, event)
+      : new Map(),
+    paceModel
+  };
+}
+
+/*
+ * Wire format: riders are sent once and every wave and control refers to
+ * them by position, so the same rider is not serialised several times.
+ */
+
+type WireWave = Omit<ProcessedWave, 'riders'> & { riders: number[] };
+type WireTrackedWave = Omit<TrackedWave, 'riders' | 'trackingRiders'> & { riders: number[]; trackingRiders: number[] };
+type WireControlProgress = Omit<ControlProgress, 'ridersReached' | 'ridersApproaching'> & {
+  ridersReached: number[];
+  ridersApproaching: number[];
+};
+
+interface WireRaceData {
+  enhancedRiders: EnhancedRider[];
+  trackingRiders: TrackingRider[];
+  waves: WireWave[];
+  trackedWaves: WireTrackedWave[];
+  controlProgress: [string, WireControlProgress][];
+  paceModel: FieldPaceModel;
+}
+
+/**
+ * Pack processed data into a buffer that can be transferred, not copied
+ * @param data - Pipeline output
+ * @returns UTF-8 JSON of the wire format
+ */
+export function encodeProcessedRaceData(data: ProcessedRaceData): ArrayBuffer {
+  const enhancedIndex = new Map(data.enhancedRiders.map((rider, index) => [rider, index]));
+  const trackingIndex = new Map(data.trackingRiders.map((rider, index) => [rider, index]));
+  const toEnhanced = (riders: EnhancedRider[]) => riders.map(rider => enhancedIndex.get(rider)!);
+  const toTracking = (riders: TrackingRider[]) => riders.map(rider => trackingIndex.get(rider)!);
+
+  const wire: WireRaceData = {
+    enhancedRiders: data.enhancedRiders,
+    trackingRiders: data.trackingRiders,
+    waves: data.waves.map(wave => ({ ...wave, riders: toEnhanced(wave.riders) })),
+    trackedWaves: data.trackedWaves.map(wave => ({
+      ...wave,
+      riders: toTracking(wave.riders as TrackingRider[]),
+      trackingRiders: toTracking(wave.trackingRiders)
+    })),
+    controlProgress: Array.from(data.controlProgress, ([id, progress]) => [id, {
+      ...progress,
+      ridersReached: toTracking(progress.ridersReached),
+      ridersApproaching: toTracking(progress.ridersApproaching)
+    }]),
+    paceModel: data.paceModel
+  };
+
+  return new TextEncoder().encode(JSON.stringify(wire)).buffer;
+}
+
+/**
+ * Unpack a buffer made by encodeProcessedRaceData
+ * @param buffer - Transferred buffer
+ * @returns Processed data with shared rider objects restored
+ */
+export function decodeProcessedRaceData(buffer: ArrayBuffer): ProcessedRaceData {
+  const wire: WireRaceData = JSON.parse(new TextDecoder().decode(buffer));
+  const toEnhanced = (indices: number[]) => indices.map(index => wire.enhancedRiders[index]);
+  const toTracking = (indices: number[]) => indices.map(index => wire.trackingRiders[index]);
+
+  return {
+    enhancedRiders: wire.enhancedRiders,
+    trackingRiders: wire.trackingRiders,
+    waves: wire.waves.map(wave => ({ ...wave, riders: toEnhanced(wave.riders) })),
+    trackedWaves: wire.trackedWaves.map(wave => ({
+      ...wave,
+      riders: toTracking(wave.riders),
+      trackingRiders: toTracking(wave.trackingRiders)
+    })),
+    controlProgress: new Map(wire.controlProgress.map(([id, progress]) => [id, {
+      ...progress,
+      ridersReached: toTracking(progress.ridersReached),
+      ridersApproaching: toTracking(progress.ridersApproaching)
+    }])),
+    paceModel: wire.paceModel
+  };
+}
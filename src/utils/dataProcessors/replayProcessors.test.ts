@@ -0,0 +1,100 @@
+import { getReplayStart, indexCheckpointInstants, rewindTracking, rewindTrackingRider } from './replayProcessors';
+import { enhanceRiders } from './riderProcessors';
+import { processTrackingRider, RawTrackingRider, RiderStatus } from './trackingProcessors';
+import { LEL_2025 } from '../../config/events';
+
+// Wave B leaves London at 04:15 UTC; feed times are BST
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+const rider = (riderNo: string, status: RiderStatus, distanceKm: number, actualStart?: string): RawTrackingRider => ({
+  rider_no: riderNo,
+  name: `Rider ${riderNo}`,
+  status,
+  checkpoints: [
+    { name: 'London', time: 'Sunday 05:20' },
+    { name: 'Writtle', time: 'Sunday 06:20', departure: 'Sunday 06:40' },
+    { name: 'Northstowe', time: 'Sunday 11:10' }
+  ],
+  distance_km: distanceKm,
+  last_checkpoint: 'Northstowe',
+  actual_start: actualStart,
+  instagram: 'https://instagram.com/lb12'
+});
+
+const rewind = (tracked: RawTrackingRider, iso: string) => {
+  const instants = indexCheckpointInstants(new Map([[tracked.rider_no, tracked]]), LEL_2025).get(tracked.rider_no)!;
+  return rewindTrackingRider(tracked, instants, utc(iso));
+};
+
+describe('rewindTrackingRider', () => {
+  const lb12 = rider('LB12', 'in_progress', 110, '05:20');
+
+  test('keeps the checkpoints reached partway through a leg and drops the feed totals', () => {
+    // Between Writtle (05:20 UTC) and Northstowe (10:10 UTC)
+    expect(rewind(lb12, '2025-08-03T08:00:00')).toEqual({
+      rider_no: 'LB12',
+      name: 'Rider LB12',
+      status: 'in_progress',
+      checkpoints: lb12.checkpoints.slice(0, 2),
+      distance_km: 0,
+      last_checkpoint: 'Writtle',
+      actual_start: '05:20',
+      instagram: 'https://instagram.com/lb12'
+    });
+  });
+
+  test('puts a rider rewound mid-leg on the road between the two controls', () => {
+    const [enhanced] = enhanceRiders([{ rider_no: 'LB12', name: 'Rider LB12' }], LEL_2025);
+    const asOf = utc('2025-08-03T08:00:00');
+    const processed = processTrackingRider(rewind(lb12, '2025-08-03T08:00:00'), enhanced, asOf, LEL_2025);
+    expect(processed.distanceCovered).toBe(20);
+    expect(processed.estimatedDistance).toBeGreaterThan(20);
+    expect(processed.estimatedDistance).toBeLessThan(110);
+    expect(processed.eta?.controls[0].controlId).toBe('northstowe-north');
+  });
+
+  test('counts a checkpoint recorded exactly at the moment', () => {
+    expect(rewind(lb12, '2025-08-03T10:10:00')).toBe(lb12);
+    expect(rewind(lb12, '2025-08-03T10:09:59').last_checkpoint).toBe('Writtle');
+  });
+
+  test('has a rider not started before their first checkpoint', () => {
+    const rewound = rewind(lb12, '2025-08-03T04:00:00');
+    expect(rewound.status).toBe('not_started');
+    expect(rewound.checkpoints).toEqual([]);
+    expect(rewound.last_checkpoint).toBeNull();
+    expect(rewound.actual_start).toBeUndefined();
+  });
+
+  test('does not reveal a DNF before the rider\'s last checkpoint', () => {
+    const dnf = rider('LB13', 'dnf', 110);
+    expect(rewind(dnf, '2025-08-03T10:00:00').status).toBe('in_progress');
+    // From the last checkpoint on, the feed's own record stands
+    expect(rewind(dnf, '2025-08-03T10:10:00')).toBe(dnf);
+    expect(rewind(dnf, '2025-08-04T12:00:00').status).toBe('dnf');
+  });
+
+  test('stops at a checkpoint whose time cannot be read', () => {
+    const garbled = { ...lb12, checkpoints: [lb12.checkpoints[0], { name: 'Writtle', time: 'soon' }, lb12.checkpoints[2]] };
+    expect(rewind(garbled, '2025-08-04T12:00:00').checkpoints.map(checkpoint => checkpoint.name)).toEqual(['London']);
+  });
+});
+
+describe('rewindTracking', () => {
+  test('rewinds every rider, keeping the ones with nothing to drop', () => {
+    const early = { ...rider('LB12', 'in_progress', 110), checkpoints: [{ name: 'London', time: 'Sunday 05:20' }] };
+    const late = rider('LB14', 'in_progress', 110);
+    const riders = new Map([[early.rider_no, early], [late.rider_no, late]]);
+
+    const rewound = rewindTracking(riders, indexCheckpointInstants(riders, LEL_2025), utc('2025-08-03T06:00:00'));
+    expect(rewound.get('LB12')).toBe(early);
+    expect(rewound.get('LB14')!.last_checkpoint).toBe('Writtle');
+    expect(rewound).not.toBe(riders);
+  });
+});
+
+describe('getReplayStart', () => {
+  test('begins with the first wave at 04:00 BST', () => {
+    expect(getReplayStart(LEL_2025)).toEqual(utc('2025-08-03T03:00:00'));
+  });
+});
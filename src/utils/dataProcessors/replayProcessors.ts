@@ -0,0 +1,101 @@
+import type { RawTrackingRider } from './trackingProcessors';
+import { getRiderStartInstant } from '../../config/lel-route';
+import { DEFAULT_EVENT, EventDefinition } from '../../config/events';
+import { getEventLocalTime, parseCheckpointSequence } from '../eventTimestamp';
+
+/**
+ * Parsed checkpoint times of each rider, by rider number
+ */
+export type CheckpointInstants = Map<string, Array<Date | null>>;
+
+/**
+ * Earliest scheduled wave start, where a replay begins
+ * @param event - Event definition
+ * @returns First wave start, or null if the event has no wave schedule
+ */
+export function getReplayStart(event: EventDefinition = DEFAULT_EVENT): Date | null {
+  const starts = event.waveSchedule
+    .map(rule => getEventLocalTime(event, rule.dayOffset || 0, rule.firstStart))
+    .filter((start): start is Date => start !== null);
+  
+  if (starts.length === 0) return null;
+  return new Date(Math.min(...starts.map(start => start.getTime())));
+}
+
+/**
+ * Parse every rider's checkpoint times once, so a replay can rewind cheaply
+ * @param riders - Raw tracking by rider number
+ * @param event - Event the times belong to
+ * @returns Checkpoint instants by rider number
+ */
+export function indexCheckpointInstants(
+  riders: ReadonlyMap<string, RawTrackingRider>,
+  event: EventDefinition = DEFAULT_EVENT
+): CheckpointInstants {
+  const instants: CheckpointInstants = new Map();
+  riders.forEach((rider, riderNo) => {
+    instants.set(riderNo, parseCheckpointSequence(
+      rider.checkpoints.map(checkpoint => checkpoint.time),
+      event,
+      getRiderStartInstant(rider, event)
+    ));
+  });
+  return instants;
+}
+
+/**
+ * A rider as the feed would have shown them at an earlier moment
+ * Only checkpoints up to `asOf` are kept, and the feed's running totals
+ * (distance, speed, elapsed time) are dropped so they are worked out again
+ * from those checkpoints. A DNF is only known once the rider's last
+ * checkpoint is reached; before that they show as riding.
+ * @param rider - Raw tracking rider as in the latest feed
+ * @param instants - The rider's parsed checkpoint times, in feed order
+ * @param asOf - Moment to rewind to
+ * @returns The same rider if nothing after `asOf` was recorded, otherwise a rewound copy
+ */
+export function rewindTrackingRider(
+  rider: RawTrackingRider,
+  instants: Array<Date | null>,
+  asOf: Date
+): RawTrackingRider {
+  let count = 0;
+  while (count < rider.checkpoints.length) {
+    const instant = instants[count];
+    if (!instant || instant.getTime() > asOf.getTime()) break;
+    count++;
+  }
+  
+  if (count === rider.checkpoints.length) return rider;
+  
+  const checkpoints = rider.checkpoints.slice(0, count);
+  return {
+    rider_no: rider.rider_no,
+    name: rider.name,
+    status: count === 0 ? 'not_started' : 'in_progress',
+    checkpoints,
+    distance_km: 0,
+    last_checkpoint: count > 0 ? checkpoints[count - 1].name : null,
+    actual_start: count > 0 ? rider.actual_start : undefined,
+    instagram: rider.instagram
+  };
+}
+
+/**
+ * Rewind every rider to an earlier moment
+ * @param riders - Raw tracking by rider number
+ * @param instants - Parsed checkpoint times from `indexCheckpointInstants`
+ * @param asOf - Moment to rewind to
+ * @returns New map of rewound riders
+ */
+export function rewindTracking(
+  riders: ReadonlyMap<string, RawTrackingRider>,
+  instants: CheckpointInstants,
+  asOf: Date
+): Map<string, RawTrackingRider> {
+  const rewound = new Map<string, RawTrackingRider>();
+  riders.forEach((rider, riderNo) => {
+    rewound.set(riderNo, rewindTrackingRider(rider, instants.get(riderNo) || [], asOf));
+  });
+  return rewound;
+}
@@ -1,14 +1,17 @@
-import { Rider } from '../../types';
-import { isLondonStartRider, getTotalDistanceForRider, getWaveStartTime } from '../../config/lel-route';
+import { Rider, RiderAffiliation } from '../../types';
+import { getStartLocationForRider, getTotalDistanceForRider, getWaveStartTime } from '../../config/lel-route';
+import { DEFAULT_EVENT, EventDefinition } from '../../config/events';
+import { normalizeCountryCode } from '../../config/countries';
 
 /**
  * Enhanced rider type with computed properties
  */
-export interface EnhancedRider extends Rider {
+export interface EnhancedRider extends Rider, RiderAffiliation {
   wave: string;
-  waveStartTime: string;
-  route: 'london' | 'writtle';
+  waveStartTime: string | null; // Scheduled HH:MM, or null if the wave is not scheduled
+  route: string; // Start location id (e.g., 'london', 'writtle')
   totalDistance: number;
+  countryCode: string | null; // ISO 3166-1 alpha-2, or null if the country is not recognised
 }
 
 /**
@@ -24,39 +27,49 @@ export function extractWaveCode(riderNo: string): string {
 /**
  * Determine rider's starting route based on rider number
  * @param riderNo - Rider number
- * @returns 'london' or 'writtle'
+ * @param event - Event definition
+ * @returns Start location id (e.g., 'london' or 'writtle')
  */
-export function determineRoute(riderNo: string): 'london' | 'writtle' {
-  return isLondonStartRider(riderNo) ? 'london' : 'writtle';
+export function determineRoute(riderNo: string, event: EventDefinition = DEFAULT_EVENT): string {
+  return getStartLocationForRider(riderNo, event).id;
 }
 
 /**
  * Enhance a rider with computed properties
  * @param rider - Base rider data
- * @returns Enhanced rider with wave, route, and distance info
+ * @param event - Event definition
+ * @returns Enhanced rider with wave, route, distance and country info
  */
-export function enhanceRider(rider: Rider): EnhancedRider {
+export function enhanceRider(rider: Rider, event: EventDefinition = DEFAULT_EVENT): EnhancedRider {
   const wave = extractWaveCode(rider.rider_no);
-  const route = determineRoute(rider.rider_no);
-  const totalDistance = getTotalDistanceForRider(rider.rider_no);
-  const waveStartTime = getWaveStartTime(rider.rider_no);
+  const route = determineRoute(rider.rider_no, event);
+  const totalDistance = getTotalDistanceForRider(rider.rider_no, event);
+  const waveStartTime = getWaveStartTime(rider.rider_no, event);
+  const countryCode = normalizeCountryCode(rider.country);
 
   return {
     ...rider,
     wave,
     waveStartTime,
     route,
-    totalDistance
+    totalDistance,
+    countryCode
   };
 }
 
 /**
  * Enhance multiple riders
  * @param riders - Array of base riders
+ * @param event - Event definition
+ * @param affiliations - Club and city by rider number, from the side file
  * @returns Array of enhanced riders
  */
-export function enhanceRiders(riders: Rider[]): EnhancedRider[] {
-  return riders.map(enhanceRider);
+export function enhanceRiders(
+  riders: Rider[],
+  event: EventDefinition = DEFAULT_EVENT,
+  affiliations: Record<string, RiderAffiliation> = {}
+): EnhancedRider[] {
+  return riders.map(rider => enhanceRider({ ...rider, ...affiliations[rider.rider_no] }, event));
 }
 
 /**
@@ -125,19 +138,22 @@ export function getUniqueWaves(riders: Rider[]): string[] {
 /**
  * Count riders by route
  * @param riders - Array of riders
- * @returns Object with london and writtle counts
+ * @param event - Event definition
+ * @returns Map of start location id to rider count
  */
-export function countRidersByRoute(riders: Rider[]): { london: number; writtle: number } {
-  let london = 0;
-  let writtle = 0;
+export function countRidersByRoute(
+  riders: Rider[],
+  event: EventDefinition = DEFAULT_EVENT
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  event.startLocations.forEach(location => {
+    counts[location.id] = 0;
+  });
   
   riders.forEach(rider => {
-    if (isLondonStartRider(rider.rider_no)) {
-      london++;
-    } else {
-      writtle++;
-    }
+    const route = determineRoute(rider.rider_no, event);
+    counts[route] = (counts[route] || 0) + 1;
   });
   
-  return { london, writtle };
+  return counts;
 }
\ No newline at end of file
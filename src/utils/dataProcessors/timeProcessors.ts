@@ -3,13 +3,17 @@
  * Handles UK timezone conversions and time formatting
  */
 
+import { DEFAULT_EVENT, EventDefinition } from '../../config/events';
+import { formatEventTimestamp, getEventDayCount, getEventLocalTime } from '../eventTimestamp';
+import { systemClock } from '../clock';
+
 /**
  * Get current UK time
+ * @param now - Moment to convert; defaults to the real time
  * @returns Current time in UK timezone
  */
-export function getCurrentUKTime(): Date {
+export function getCurrentUKTime(now: Date = systemClock.now()): Date {
   // Create a date in UK timezone context
-  const now = new Date();
   const ukFormatter = new Intl.DateTimeFormat('en-GB', {
     timeZone: 'Europe/London',
     year: 'numeric',
@@ -100,84 +104,37 @@ export function getMinutesDifference(start: Date, end: Date): number {
   return Math.floor(diffMs / 1000 / 60);
 }
 
-/**
- * Parse checkpoint time string
- * @param timeStr - Time string like "Sunday 04:40"
- * @param eventStartDate - Event start date for context
- * @returns Parsed date or null
- */
-export function parseCheckpointTimeString(timeStr: string, eventStartDate: Date): Date | null {
-  const parts = timeStr.split(' ');
-  if (parts.length < 2) return null;
-  
-  const dayName = parts[0];
-  const timePart = parts[parts.length - 1];
-  const [hours, minutes] = timePart.split(':').map(Number);
-  
-  if (isNaN(hours) || isNaN(minutes)) return null;
-  
-  // Map day names to day offsets from Sunday (event start)
-  const dayOffsets: Record<string, number> = {
-    'Sunday': 0,
-    'Monday': 1,
-    'Tuesday': 2,
-    'Wednesday': 3,
-    'Thursday': 4,
-    'Friday': 5,
-    'Saturday': 6
-  };
-  
-  const dayOffset = dayOffsets[dayName] || 0;
-  
-  // Create date based on event start date
-  const checkpointDate = new Date(eventStartDate);
-  checkpointDate.setDate(checkpointDate.getDate() + dayOffset);
-  checkpointDate.setHours(hours, minutes, 0, 0);
-  
-  return checkpointDate;
-}
-
 /**
  * Format a date as checkpoint time string
  * @param date - Date to format
+ * @param event - Event whose timezone to use
  * @returns String like "Sunday 04:40"
  */
-export function formatCheckpointTime(date: Date): string {
-  const dayName = date.toLocaleDateString('en-GB', { 
-    weekday: 'long',
-    timeZone: 'Europe/London'
-  });
-  
-  const time = date.toLocaleTimeString('en-GB', {
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false,
-    timeZone: 'Europe/London'
-  });
-  
-  return `${dayName} ${time}`;
+export function formatCheckpointTime(date: Date, event: EventDefinition = DEFAULT_EVENT): string {
+  return formatEventTimestamp(date, event.timezone);
 }
 
 /**
- * Get event start date (Sunday, August 3, 2025)
- * @returns Event start date
+ * Get event start date (midnight in the event timezone on the first day)
+ * @param event - Event definition
+ * @returns Event start instant
  */
-export function getEventStartDate(): Date {
-  // LEL 2025 starts on Sunday, August 3, 2025
-  return new Date(2025, 7, 3, 0, 0, 0, 0); // August is month 7 (0-indexed)
+export function getEventStartDate(event: EventDefinition = DEFAULT_EVENT): Date {
+  return getEventLocalTime(event, 0) as Date;
 }
 
 /**
  * Check if a time is within the event window
  * @param date - Date to check
+ * @param event - Event definition
  * @returns True if within event window
  */
-export function isWithinEventWindow(date: Date): boolean {
-  const eventStart = getEventStartDate();
-  const eventEnd = new Date(eventStart);
-  eventEnd.setDate(eventEnd.getDate() + 5); // 5-day event
+export function isWithinEventWindow(date: Date, event: EventDefinition = DEFAULT_EVENT): boolean {
+  const eventStart = getEventStartDate(event);
+  // Midnight after the last day
+  const eventEnd = getEventLocalTime(event, getEventDayCount(event)) as Date;
   
-  return date >= eventStart && date <= eventEnd;
+  return date >= eventStart && date < eventEnd;
 }
 
 /**
@@ -185,19 +142,21 @@ export function isWithinEventWindow(date: Date): boolean {
  * @param currentDistance - Current distance in km
  * @param targetDistance - Target distance in km
  * @param averageSpeed - Average speed in km/h
+ * @param from - Moment the rider is at the current distance
  * @returns Estimated arrival date or null
  */
 export function calculateEstimatedArrival(
   currentDistance: number,
   targetDistance: number,
-  averageSpeed: number
+  averageSpeed: number,
+  from: Date = systemClock.now()
 ): Date | null {
   if (currentDistance >= targetDistance || averageSpeed <= 0) return null;
   
   const remainingDistance = targetDistance - currentDistance;
   const hoursToArrival = remainingDistance / averageSpeed;
   
-  const arrivalTime = new Date();
+  const arrivalTime = new Date(from);
   arrivalTime.setHours(arrivalTime.getHours() + Math.floor(hoursToArrival));
   arrivalTime.setMinutes(arrivalTime.getMinutes() + Math.floor((hoursToArrival % 1) * 60));
   
@@ -2,10 +2,15 @@ import { EnhancedRider } from './riderProcessors';
 import { 
   getCheckpointDistance, 
   getTotalDistanceForRider, 
-  getWaveStartTime,
-  calculateElapsedTime as calculateCheckpointElapsedTime,
+  getRiderStartInstant,
+  getStartGap,
   formatElapsedTime
 } from '../../config/lel-route';
+import { DEFAULT_EVENT, EventDefinition } from '../../config/events';
+import { getMinutesBetween, parseCheckpointSequence, parseEventTimestamp } from '../eventTimestamp';
+import { CutoffState, getCutoffStatus } from './cutoffProcessors';
+import { EMPTY_PACE_MODEL, FieldPaceModel, RiderEta, predictRiderEta } from './etaProcessors';
+import { FinishProjection, projectFinish } from './finishProcessors';
 
 /**
  * Checkpoint record with timestamp
@@ -36,9 +41,24 @@ export interface TrackingRider extends EnhancedRider {
   elapsedMinutes: number;
   averageSpeed: number;
   progress: number;
+  startGapMinutes: number | null; // Actual start minus scheduled wave start
+  timeInHandMinutes: number | null; // At the last control reached
+  nextControlMarginMinutes: number | null; // Projected, at the next control
+  cutoffState: CutoffState;
+  eta: RiderEta | null; // Only for riders on the road
+  finishProjection: FinishProjection | null; // Against the finish limit, with eta
   instagram?: string; // Instagram profile URL
 }
 
+/**
+ * Raw checkpoint record from API
+ */
+export interface RawCheckpoint {
+  name: string;
+  time: string;
+  departure?: string;
+}
+
 /**
  * Raw tracking data from API
  */
@@ -46,18 +66,27 @@ export interface RawTrackingRider {
   rider_no: string;
   name: string;
   status: RiderStatus;
-  checkpoints: Array<{ name: string; time: string }>;
+  checkpoints: RawCheckpoint[];
   distance_km: number;
   last_checkpoint: string | null;
+  current_checkpoint?: string;
+  elapsed_time?: number;
+  average_speed?: number;
+  estimated_distance?: number;
+  actual_start?: string; // Start time if the rider left after their wave
   instagram?: string; // Instagram profile URL
 }
 
 /**
  * Calculate actual distance covered by a rider
  * @param rider - Raw tracking rider data
+ * @param event - Event definition
  * @returns Actual distance in km
  */
-export function calculateActualDistance(rider: RawTrackingRider): number {
+export function calculateActualDistance(
+  rider: RawTrackingRider,
+  event: EventDefinition = DEFAULT_EVENT
+): number {
   // If distance is provided and valid, use it
   if (rider.distance_km > 0) {
     return rider.distance_km;
@@ -65,7 +94,7 @@ export function calculateActualDistance(rider: RawTrackingRider): number {
   
   // Otherwise, calculate from last checkpoint
   if (rider.last_checkpoint) {
-    const checkpointDistance = getCheckpointDistance(rider.last_checkpoint, rider.rider_no);
+    const checkpointDistance = getCheckpointDistance(rider.last_checkpoint, rider.rider_no, event);
     if (checkpointDistance > 0) {
       return checkpointDistance;
     }
@@ -77,77 +106,54 @@ export function calculateActualDistance(rider: RawTrackingRider): number {
 /**
  * Calculate elapsed time in minutes
  * @param rider - Raw tracking rider data
- * @param currentTime - Current time in UK timezone
+ * @param currentTime - Current instant
+ * @param event - Event definition
  * @returns Elapsed time in minutes
  */
-export function calculateElapsedTime(rider: RawTrackingRider, currentTime: Date): number {
+export function calculateElapsedTime(
+  rider: RawTrackingRider,
+  currentTime: Date,
+  event: EventDefinition = DEFAULT_EVENT
+): number {
   if (rider.status === 'not_started') return 0;
   
-  // Get start time from first checkpoint or wave start time
-  let startTimeStr: string;
+  // Start from the first checkpoint, or the wave start if none recorded yet
+  let startTime: Date | null;
   if (rider.checkpoints.length > 0) {
-    startTimeStr = rider.checkpoints[0].time;
+    startTime = parseEventTimestamp(rider.checkpoints[0].time, event, { notAfter: currentTime });
   } else if (rider.status === 'in_progress') {
-    // Use wave start time if in progress but no checkpoints yet
-    const waveStartTime = getWaveStartTime(rider.rider_no);
-    startTimeStr = `Sunday ${waveStartTime}`;
+    startTime = getRiderStartInstant(rider, event);
   } else {
     return 0;
   }
   
-  // Parse the checkpoint time (format: "Sunday 04:40")
-  const startTime = parseCheckpointTime(startTimeStr, currentTime);
   if (!startTime) return 0;
   
-  const elapsedMs = currentTime.getTime() - startTime.getTime();
-  return Math.max(0, Math.floor(elapsedMs / 1000 / 60)); // Convert to minutes
-}
-
-/**
- * Parse checkpoint time string to Date
- * @param timeStr - Time string like "Sunday 04:40"
- * @param referenceDate - Reference date for context
- * @returns Parsed date or null
- */
-export function parseCheckpointTime(timeStr: string, referenceDate: Date): Date | null {
-  const parts = timeStr.split(' ');
-  if (parts.length < 2) return null;
-  
-  const timePart = parts[parts.length - 1];
-  const [hours, minutes] = timePart.split(':').map(Number);
-  if (isNaN(hours) || isNaN(minutes)) return null;
-  
-  // Create date in UK timezone context
-  const checkpointDate = new Date(referenceDate);
-  checkpointDate.setHours(hours, minutes, 0, 0);
-  
-  // If checkpoint time is in the future, it was from the previous day
-  if (checkpointDate > referenceDate) {
-    checkpointDate.setDate(checkpointDate.getDate() - 1);
-  }
-  
-  return checkpointDate;
+  return Math.max(0, getMinutesBetween(startTime, currentTime));
 }
 
 /**
  * Calculate estimated distance based on elapsed time
+ * Flat-speed fallback for riders without an arrival prediction (see etaProcessors).
  * @param actualDistance - Known distance covered
  * @param elapsedMinutes - Time elapsed in minutes
  * @param lastCheckpointTime - Time of last checkpoint
- * @param currentTime - Current time
+ * @param currentTime - Current instant
+ * @param event - Event definition
  * @returns Estimated distance in km
  */
 export function calculateEstimatedDistance(
   actualDistance: number,
   elapsedMinutes: number,
   lastCheckpointTime: string | null,
-  currentTime: Date
+  currentTime: Date,
+  event: EventDefinition = DEFAULT_EVENT
 ): number {
   if (elapsedMinutes <= 0) return actualDistance;
   
   // If we have actual distance and a recent checkpoint
   if (actualDistance > 0 && lastCheckpointTime) {
-    const lastTime = parseCheckpointTime(lastCheckpointTime, currentTime);
+    const lastTime = parseEventTimestamp(lastCheckpointTime, event, { notAfter: currentTime });
     if (lastTime) {
       const timeSinceLastCheckpoint = (currentTime.getTime() - lastTime.getTime()) / 1000 / 60;
       // Estimate at 18 km/h since last checkpoint
@@ -201,32 +207,62 @@ export function determineCurrentLocation(
   return 'Not Started';
 }
 
+/**
+ * Combine several tracking sources into one lookup by bib number
+ * A rider can be in more than one feed (e.g., the Indian riders feed and
+ * their wave shard); the record with more checkpoints is the more recent.
+ * @param sources - Rider lists, earlier sources winning ties
+ * @returns Map of bib number to raw tracking data
+ */
+export function mergeTrackingRiders(sources: RawTrackingRider[][]): Map<string, RawTrackingRider> {
+  const merged = new Map<string, RawTrackingRider>();
+
+  sources.forEach(riders => {
+    riders.forEach(rider => {
+      const existing = merged.get(rider.rider_no);
+      if (!existing || rider.checkpoints.length > existing.checkpoints.length) {
+        merged.set(rider.rider_no, rider);
+      }
+    });
+  });
+
+  return merged;
+}
+
 /**
  * Enhance tracking data with calculated fields
  * @param rawRider - Raw tracking data
  * @param enhancedRider - Enhanced rider base data
  * @param currentTime - Current time for calculations
+ * @param event - Event definition
+ * @param paceModel - What the field's legs say, for arrival predictions
  * @returns Fully processed tracking rider
  */
 export function processTrackingRider(
   rawRider: RawTrackingRider,
   enhancedRider: EnhancedRider,
-  currentTime: Date
+  currentTime: Date,
+  event: EventDefinition = DEFAULT_EVENT,
+  paceModel: FieldPaceModel = EMPTY_PACE_MODEL
 ): TrackingRider {
-  const actualDistance = calculateActualDistance(rawRider);
-  const elapsedMinutes = calculateElapsedTime(rawRider, currentTime);
+  // An actual start in either feed overrides the scheduled wave start
+  const riderWithStart: RawTrackingRider = {
+    ...rawRider,
+    actual_start: rawRider.actual_start ?? enhancedRider.actual_start
+  };
+  
+  const actualDistance = calculateActualDistance(rawRider, event);
+  const elapsedMinutes = calculateElapsedTime(riderWithStart, currentTime, event);
   
   // Get last checkpoint time for estimation
   const lastCheckpointTime = rawRider.checkpoints.length > 0
     ? rawRider.checkpoints[rawRider.checkpoints.length - 1].time
     : null;
   
-  const estimatedDistance = calculateEstimatedDistance(
-    actualDistance,
-    elapsedMinutes,
-    lastCheckpointTime,
-    currentTime
-  );
+  const eta = predictRiderEta(riderWithStart, currentTime, event, paceModel);
+  const estimatedDistance = eta
+    ? Math.max(actualDistance, eta.estimatedKm)
+    : calculateEstimatedDistance(actualDistance, elapsedMinutes, lastCheckpointTime, currentTime, event);
   
   const averageSpeed = calculateAverageSpeed(actualDistance, elapsedMinutes);
   const progress = calculateProgress(
@@ -239,12 +275,23 @@ export function processTrackingRider(
     rawRider.last_checkpoint
   );
   
-  // Enhance checkpoints with distances and elapsed times
-  const checkpointsWithDistance: CheckpointRecord[] = rawRider.checkpoints.map(cp => {
-    const distance_km = getCheckpointDistance(cp.name, rawRider.rider_no);
+  // Enhance checkpoints with distances and elapsed times from the rider's start
+  const startGap = getStartGap(riderWithStart, event);
+  const riderStart = getRiderStartInstant(riderWithStart, event);
+  const checkpointInstants = parseCheckpointSequence(
+    rawRider.checkpoints.map(cp => cp.time),
+    event,
+    riderStart
+  );
+  
+  const checkpointsWithDistance: CheckpointRecord[] = rawRider.checkpoints.map((cp, index) => {
+    const distance_km = getCheckpointDistance(cp.name, rawRider.rider_no, event);
+    const instant = checkpointInstants[index];
+    const minutesFromStart = riderStart && instant ? getMinutesBetween(riderStart, instant) : null;
     // For the first checkpoint (Start), elapsed time should be 0
-    const isFirstCheckpoint = rawRider.checkpoints.indexOf(cp) === 0;
-    const elapsed_minutes = isFirstCheckpoint ? 0 : calculateCheckpointElapsedTime(rawRider.rider_no, cp.time);
+    const elapsed_minutes = index === 0
+      ? 0
+      : minutesFromStart !== null && minutesFromStart > 0 ? minutesFromStart : null;
     
     return {
       ...cp,
@@ -254,6 +301,9 @@ export function processTrackingRider(
     };
   });
   
+  // Margins at the next control come from the same predictions as the arrival times
+  const cutoff = getCutoffStatus(riderWithStart, currentTime, event, undefined, eta?.controls[0]);
+  
   return {
     ...enhancedRider,
     status: rawRider.status,
@@ -265,6 +315,12 @@ export function processTrackingRider(
     elapsedMinutes,
     averageSpeed,
     progress,
+    startGapMinutes: startGap.gapMinutes,
+    timeInHandMinutes: cutoff.timeInHandMinutes,
+    nextControlMarginMinutes: cutoff.projectedMarginMinutes,
+    cutoffState: cutoff.state,
+    eta,
+    finishProjection: eta ? projectFinish(eta, currentTime, event) : null,
     instagram: rawRider.instagram // Pass through Instagram URL
   };
 }
@@ -290,5 +346,10 @@ export const trackingSorters = {
       'dnf': 3
     };
     return statusOrder[a.status] - statusOrder[b.status];
-  }
+  },
+
+  // Least likely to make the finish limit first; riders without a projection last
+  byFinishChance: (a: TrackingRider, b: TrackingRider) =>
+    (a.finishProjection?.probability ?? 2) - (b.finishProjection?.probability ?? 2) ||
+    (a.finishProjection?.marginMinutes ?? 0) - (b.finishProjection?.marginMinutes ?? 0)
 };
\ No newline at end of file
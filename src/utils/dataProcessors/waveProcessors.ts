@@ -21,10 +21,10 @@ export interface WaveStatistics {
  */
 export interface ProcessedWave {
   code: string;
-  startTime: string;
+  startTime: string | null; // HH:MM, or null if the wave is not scheduled
   riders: EnhancedRider[];
   statistics: WaveStatistics;
-  route: 'london' | 'writtle' | 'mixed';
+  route: string; // Start location id, or 'mixed'
 }
 
 /**
@@ -114,14 +114,14 @@ export function calculateWaveStatistics<T extends EnhancedRider>(riders: T[]): W
 /**
  * Determine wave route type
  * @param riders - Riders in the wave
- * @returns 'london', 'writtle', or 'mixed'
+ * @returns Start location id shared by all riders, or 'mixed'
  */
-export function determineWaveRoute(riders: EnhancedRider[]): 'london' | 'writtle' | 'mixed' {
-  if (riders.length === 0) return 'writtle';
+export function determineWaveRoute(riders: EnhancedRider[]): string {
+  if (riders.length === 0) return 'mixed';
   
   const routes = new Set(riders.map(r => r.route));
   if (routes.size === 1) {
-    return routes.values().next().value;
+    return riders[0].route;
   }
   return 'mixed';
 }
@@ -214,7 +214,7 @@ export function processTrackedWaves(trackingRiders: TrackingRider[]): TrackedWav
  * @param waves - Array of processed waves
  * @returns Array of wave summaries
  */
-export function getWaveSummaries(waves: ProcessedWave[]): Array<{ code: string; count: number; startTime: string }> {
+export function getWaveSummaries(waves: ProcessedWave[]): Array<{ code: string; count: number; startTime: string | null }> {
   return waves.map(wave => ({
     code: wave.code,
     count: wave.riders.length,
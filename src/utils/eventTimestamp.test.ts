@@ -0,0 +1,93 @@
+import {
+  formatEventTimestamp,
+  getEventLocalTime,
+  getMinutesBetween,
+  getZonedDateTime,
+  parseCheckpointSequence,
+  parseEventTimestamp,
+  zonedDateTimeToUtc
+} from './eventTimestamp';
+import { LEL_2025 } from '../config/events';
+
+// LEL 2025 starts on Sunday 3 August, in British Summer Time (UTC+1)
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+describe('zoned conversions', () => {
+  test('event-local wall time round-trips through UTC', () => {
+    const instant = zonedDateTimeToUtc(
+      { year: 2025, month: 8, day: 3, hour: 5, minute: 15, second: 0 },
+      'Europe/London'
+    );
+    expect(instant).toEqual(utc('2025-08-03T04:15:00'));
+    expect(getZonedDateTime(instant, 'Europe/London')).toMatchObject({ day: 3, hour: 5, minute: 15 });
+  });
+
+  test('getEventLocalTime counts days from the start date', () => {
+    expect(getEventLocalTime(LEL_2025, 2, '23:30')).toEqual(utc('2025-08-05T22:30:00'));
+    expect(getEventLocalTime(LEL_2025, 0, '25:00')).toBeNull();
+  });
+});
+
+describe('parseEventTimestamp', () => {
+  test('reads weekday times relative to the event start', () => {
+    expect(parseEventTimestamp('Sunday 08:46', LEL_2025)).toEqual(utc('2025-08-03T07:46:00'));
+    expect(parseEventTimestamp('tuesday 23:05', LEL_2025)).toEqual(utc('2025-08-05T22:05:00'));
+  });
+
+  test('reads day/month times in the event year', () => {
+    expect(parseEventTimestamp('3/8 19:32', LEL_2025)).toEqual(utc('2025-08-03T18:32:00'));
+  });
+
+  test('passes ISO times through', () => {
+    expect(parseEventTimestamp('2025-08-04T10:00:00Z', LEL_2025)).toEqual(utc('2025-08-04T10:00:00'));
+  });
+
+  test('returns null for empty or unreadable times', () => {
+    expect(parseEventTimestamp(undefined, LEL_2025)).toBeNull();
+    expect(parseEventTimestamp('-', LEL_2025)).toBeNull();
+    expect(parseEventTimestamp('Someday 08:00', LEL_2025)).toBeNull();
+    expect(parseEventTimestamp('Monday 8h', LEL_2025)).toBeNull();
+  });
+
+  test('resolves a bare time with the bounds', () => {
+    const notBefore = utc('2025-08-04T12:00:00');
+    expect(parseEventTimestamp('08:00', LEL_2025)).toEqual(utc('2025-08-03T07:00:00'));
+    expect(parseEventTimestamp('08:00', LEL_2025, { notBefore })).toEqual(utc('2025-08-05T07:00:00'));
+    expect(parseEventTimestamp('08:00', LEL_2025, { notAfter: notBefore })).toEqual(utc('2025-08-04T07:00:00'));
+  });
+
+  test('picks the right week of a weekday on events longer than a week', () => {
+    const longEvent = { ...LEL_2025, endDate: '2025-08-14' };
+    expect(parseEventTimestamp('Monday 09:00', longEvent)).toEqual(utc('2025-08-04T08:00:00'));
+    expect(parseEventTimestamp('Monday 09:00', longEvent, { notBefore: utc('2025-08-05T00:00:00') }))
+      .toEqual(utc('2025-08-11T08:00:00'));
+  });
+});
+
+describe('parseCheckpointSequence', () => {
+  test('keeps moving forward across midnight', () => {
+    const instants = parseCheckpointSequence(['23:10', '01:20', 'bad', '04:00'], LEL_2025);
+    expect(instants).toEqual([
+      utc('2025-08-03T22:10:00'),
+      utc('2025-08-04T00:20:00'),
+      null,
+      utc('2025-08-04T03:00:00')
+    ]);
+  });
+
+  test('starts no earlier than the given start', () => {
+    const [first] = parseCheckpointSequence(['05:00'], LEL_2025, utc('2025-08-03T06:00:00'));
+    expect(first).toEqual(utc('2025-08-04T04:00:00'));
+  });
+});
+
+describe('formatting', () => {
+  test('getMinutesBetween floors to whole minutes', () => {
+    expect(getMinutesBetween(utc('2025-08-03T04:00:00'), utc('2025-08-03T05:30:59'))).toBe(90);
+    expect(getMinutesBetween(utc('2025-08-03T05:00:00'), utc('2025-08-03T04:00:00'))).toBe(-60);
+  });
+
+  test('formatEventTimestamp writes feed-style local times', () => {
+    expect(formatEventTimestamp(utc('2025-08-04T23:05:00'), 'Europe/London')).toBe('Tuesday 00:05');
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Event timestamps
+ *
+ * Feed times are wall-clock times in the event's timezone without a full
+ * date: "Sunday 08:46" (weekday + time), "3/8 19:32" (day/month + time) or a
+ * bare "08:46". Everything here turns them into absolute instants, so that
+ * elapsed times and orderings agree across midnight, daylight saving changes
+ * and events that run longer than a week.
+ */
+
+import type { EventDefinition } from '../config/events';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar date and wall-clock time in a specific timezone
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Bounds used to pick between candidate dates for ambiguous feed times
+ */
+export interface TimestampBounds {
+  /** Pick the earliest candidate at or after this instant (e.g. the previous checkpoint) */
+  notBefore?: Date | null;
+  /** Pick the latest candidate at or before this instant (e.g. now) */
+  notAfter?: Date | null;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a timezone
+ * @param date - Absolute instant
+ * @param timeZone - IANA timezone (e.g., "Europe/London")
+ * @returns Zoned calendar fields
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const getPart = (type: Intl.DateTimeFormatPartTypes): number => {
+    const part = parts.find(p => p.type === type);
+    return part ? parseInt(part.value, 10) : 0;
+  };
+
+  return {
+    year: getPart('year'),
+    month: getPart('month'),
+    day: getPart('day'),
+    hour: getPart('hour') % 24,
+    minute: getPart('minute'),
+    second: getPart('second')
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant
+ * @returns Offset in minutes (positive east of UTC)
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const zoned = getZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an absolute instant
+ * Times skipped by a spring-forward change move forward by the gap;
+ * times repeated in autumn resolve to the standard-time occurrence.
+ * @param zoned - Calendar fields (overflowing days/hours are normalised)
+ * @param timeZone - IANA timezone
+ * @returns Absolute instant
+ */
+export function zonedDateTimeToUtc(zoned: ZonedDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  const firstOffset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  let result = asUtc - firstOffset * 60000;
+
+  const secondOffset = getTimeZoneOffset(new Date(result), timeZone);
+  if (secondOffset !== firstOffset) {
+    result = asUtc - secondOffset * 60000;
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Parse a YYYY-MM-DD calendar date
+ */
+function parseCalendarDate(dateStr: string): { year: number; month: number; day: number } {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return { year, month, day };
+}
+
+/**
+ * Parse "HH:MM" (optionally "HH:MM:SS")
+ * @returns Hours and minutes, or null if malformed
+ */
+function parseClockTime(timeStr: string): { hour: number; minute: number } | null {
+  const match = timeStr.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match) return null;
+
+  const hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  if (hour > 23 || minute > 59) return null;
+
+  return { hour, minute };
+}
+
+/**
+ * Number of calendar days the event spans (start and end day inclusive)
+ * @param event - Event definition
+ * @returns Day count
+ */
+export function getEventDayCount(event: EventDefinition): number {
+  const start = parseCalendarDate(event.startDate);
+  const end = parseCalendarDate(event.endDate);
+  const days = (Date.UTC(end.year, end.month - 1, end.day) - Date.UTC(start.year, start.month - 1, start.day)) / MS_PER_DAY;
+  return Math.max(1, Math.round(days) + 1);
+}
+
+/**
+ * Get the instant of a wall-clock time on a given day of the event
+ * @param event - Event definition
+ * @param dayOffset - Days after the start date (0 = first day)
+ * @param time - Time of day as "HH:MM" (defaults to midnight)
+ * @returns Absolute instant, or null if the time is malformed
+ */
+export function getEventLocalTime(event: EventDefinition, dayOffset: number, time: string = '00:00'): Date | null {
+  const clock = parseClockTime(time);
+  if (!clock) return null;
+
+  const start = parseCalendarDate(event.startDate);
+  return zonedDateTimeToUtc({
+    year: start.year,
+    month: start.month,
+    day: start.day + dayOffset,
+    hour: clock.hour,
+    minute: clock.minute,
+    second: 0
+  }, event.timezone);
+}
+
+/**
+ * Choose between candidate instants for an ambiguous feed time
+ * Candidates must be in ascending order.
+ */
+function pickCandidate(candidates: Date[], bounds: TimestampBounds): Date | null {
+  if (candidates.length === 0) return null;
+
+  if (bounds.notBefore) {
+    const notBefore = bounds.notBefore.getTime();
+    const match = candidates.find(candidate => candidate.getTime() >= notBefore);
+    return match || candidates[candidates.length - 1];
+  }
+
+  if (bounds.notAfter) {
+    const notAfter = bounds.notAfter.getTime();
+    const earlier = candidates.filter(candidate => candidate.getTime() <= notAfter);
+    return earlier.length > 0 ? earlier[earlier.length - 1] : candidates[0];
+  }
+
+  return candidates[0];
+}
+
+/**
+ * Parse a feed time into an absolute instant
+ *
+ * Supported formats:
+ * - "Sunday 08:46": weekday relative to the event start. Weekdays repeat on
+ *   events longer than a week, so `bounds` decides which occurrence is meant.
+ * - "3/8 19:32": day/month in the event's year.
+ * - "08:46": time on some day of the event, resolved with `bounds`.
+ * - ISO 8601 strings are passed through.
+ *
+ * @param timeStr - Time string from a feed
+ * @param event - Event the time belongs to
+ * @param bounds - Optional bounds to resolve ambiguous times
+ * @returns Absolute instant or null if unparseable
+ */
+export function parseEventTimestamp(
+  timeStr: string | null | undefined,
+  event: EventDefinition,
+  bounds: TimestampBounds = {}
+): Date | null {
+  if (!timeStr) return null;
+
+  const trimmed = timeStr.trim();
+  if (!trimmed || trimmed === '-') return null;
+
+  // Already absolute
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const parts = trimmed.split(/\s+/);
+  const clock = parseClockTime(parts[parts.length - 1]);
+  if (!clock) return null;
+  const time = parts[parts.length - 1];
+  const dayPart = parts.length > 1 ? parts[0] : null;
+  const dayCount = getEventDayCount(event);
+
+  // Format: "3/8 19:32" (day/month)
+  if (dayPart && dayPart.includes('/')) {
+    const [day, month] = dayPart.split('/').map(Number);
+    if (!day || !month) return null;
+
+    const start = parseCalendarDate(event.startDate);
+    // An event crossing New Year reports January dates for the following year
+    const year = month < start.month - 6 ? start.year + 1 : start.year;
+    return zonedDateTimeToUtc({ year, month, day, hour: clock.hour, minute: clock.minute, second: 0 }, event.timezone);
+  }
+
+  // Format: "Sunday 08:46"
+  if (dayPart) {
+    const dayIndex = DAY_NAMES.findIndex(name => name.toLowerCase() === dayPart.toLowerCase());
+    if (dayIndex === -1) return null;
+
+    const start = parseCalendarDate(event.startDate);
+    const startDayIndex = new Date(Date.UTC(start.year, start.month - 1, start.day)).getUTCDay();
+    const firstOffset = (dayIndex - startDayIndex + 7) % 7;
+
+    const candidates: Date[] = [];
+    for (let offset = firstOffset; offset === firstOffset || offset < dayCount; offset += 7) {
+      const candidate = getEventLocalTime(event, offset, time);
+      if (candidate) candidates.push(candidate);
+    }
+    return pickCandidate(candidates, bounds);
+  }
+
+  // Format: "08:46" (any day of the event)
+  const candidates: Date[] = [];
+  for (let offset = 0; offset < dayCount; offset++) {
+    const candidate = getEventLocalTime(event, offset, time);
+    if (candidate) candidates.push(candidate);
+  }
+  return pickCandidate(candidates, bounds);
+}
+
+/**
+ * Parse a rider's checkpoint times in order
+ * Each time is resolved to the first occurrence after the previous checkpoint,
+ * so a week-long wrap of weekday names still moves forward.
+ * @param times - Checkpoint times in visiting order
+ * @param event - Event definition
+ * @param start - Optional lower bound for the first checkpoint (e.g. wave start)
+ * @returns Instants in the same order (null where unparseable)
+ */
+export function parseCheckpointSequence(
+  times: string[],
+  event: EventDefinition,
+  start: Date | null = null
+): Array<Date | null> {
+  let previous = start;
+
+  return times.map(time => {
+    const instant = parseEventTimestamp(time, event, { notBefore: previous });
+    if (instant) previous = instant;
+    return instant;
+  });
+}
+
+/**
+ * Whole minutes between two instants
+ * @param start - Earlier instant
+ * @param end - Later instant
+ * @returns Minutes (negative if end is before start)
+ */
+export function getMinutesBetween(start: Date, end: Date): number {
+  return Math.floor((end.getTime() - start.getTime()) / 60000);
+}
+
+/**
+ * Format an instant as a feed-style time in a timezone
+ * @param date - Absolute instant
+ * @param timeZone - IANA timezone
+ * @returns String like "Sunday 08:46"
+ */
+export function formatEventTimestamp(date: Date, timeZone: string): string {
+  const zoned = getZonedDateTime(date, timeZone);
+  const dayName = DAY_NAMES[new Date(Date.UTC(zoned.year, zoned.month - 1, zoned.day)).getUTCDay()];
+  return `${dayName} ${String(zoned.hour).padStart(2, '0')}:${String(zoned.minute).padStart(2, '0')}`;
+}
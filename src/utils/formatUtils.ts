@@ -1,3 +1,6 @@
+import type { RiderAffiliation } from '../types';
+import { systemClock } from './clock';
+
 /**
  * Format time elapsed from seconds to human readable format
  */
@@ -50,9 +53,8 @@ export const formatTime = (date: Date | string): string => {
 /**
  * Get relative time from now
  */
-export const getRelativeTime = (date: Date | string): string => {
+export const getRelativeTime = (date: Date | string, now: Date = systemClock.now()): string => {
   const d = typeof date === 'string' ? new Date(date) : date;
-  const now = new Date();
   const diffMs = now.getTime() - d.getTime();
   const diffMins = Math.floor(diffMs / 60000);
   
@@ -78,4 +80,13 @@ export const formatPercentage = (value: number, decimals = 1): string => {
  */
 export const formatNumber = (num: number): string => {
   return num.toLocaleString();
-};
\ No newline at end of file
+};
+/**
+ * Format a rider's club and home town (e.g., "Bangalore Randonneurs · Bengaluru, Karnataka")
+ */
+export const formatAffiliation = (affiliation: RiderAffiliation | undefined): string | null => {
+  if (!affiliation) return null;
+  const place = [affiliation.city, affiliation.state].filter(Boolean).join(', ');
+  const parts = [affiliation.club, place].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
@@ -1,3 +1,4 @@
 // Export all utility functions
 export * from './waveUtils';
-export * from './formatUtils';
\ No newline at end of file
+export * from './formatUtils';
+export * from './eventTimestamp';
\ No newline at end of file
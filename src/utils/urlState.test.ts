@@ -0,0 +1,67 @@
+import { applyUrlViewState, parseUrlViewState } from './urlState';
+
+describe('parseUrlViewState', () => {
+  test('reads filters, sort and selection', () => {
+    expect(parseUrlViewState('?q=anna&wave=LB&status=in_progress&country=India&min_km=100&max_km=500&sort=distance&rider=LB12&selected_wave=LC&control=hawick'))
+      .toEqual({
+        filters: {
+          searchTerm: 'anna',
+          wave: 'LB',
+          status: 'in_progress',
+          country: 'India',
+          minDistance: 100,
+          maxDistance: 500
+        },
+        sortBy: 'distance',
+        rider: 'LB12',
+        wave: 'LC',
+        control: 'hawick'
+      });
+  });
+
+  test('gives an empty state for an empty query string', () => {
+    expect(parseUrlViewState('')).toEqual({ filters: {}, sortBy: null, rider: null, wave: null, control: null });
+  });
+
+  test('leaves out unknown and invalid values', () => {
+    const state = parseUrlViewState('status=resting&sort=height&min_km=far&max_km=%20');
+    expect(state.filters).toEqual({});
+    expect(state.sortBy).toBeNull();
+  });
+
+  test('keeps the search exactly as typed', () => {
+    expect(parseUrlViewState('q=anna%20').filters.searchTerm).toBe('anna ');
+  });
+});
+
+describe('applyUrlViewState', () => {
+  test('replaces every filter at once and keeps parameters it does not own', () => {
+    const next = applyUrlViewState('now=2025-08-04T10%3A00%3A00Z&q=anna&wave=LB', {
+      filters: { status: 'finished' }
+    });
+    const params = new URLSearchParams(next);
+    expect(params.get('now')).toBe('2025-08-04T10:00:00Z');
+    expect(params.get('status')).toBe('finished');
+    expect(params.has('q')).toBe(false);
+    expect(params.has('wave')).toBe(false);
+  });
+
+  test('clears a value set to null and leaves unmentioned ones alone', () => {
+    expect(applyUrlViewState('rider=LB12&sort=name', { rider: null })).toBe('sort=name');
+  });
+
+  test('round-trips through parseUrlViewState', () => {
+    const state = parseUrlViewState('');
+    const next = applyUrlViewState('', {
+      filters: { country: 'GB', minDistance: 0 },
+      sortBy: 'finish_chance',
+      control: 'moffat'
+    });
+    expect(parseUrlViewState(next)).toEqual({
+      ...state,
+      filters: { country: 'GB', minDistance: 0 },
+      sortBy: 'finish_chance',
+      control: 'moffat'
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * View state kept in the query string
+ *
+ * Filters, sort, search and what is open (rider, wave, control) are read
+ * from and written to the URL, so a view can be shared as a link, survives
+ * a reload and follows the browser's back and forward buttons. Parameters
+ * owned by others (the clock's now/speed, shared groups' name/riders) are
+ * left as they are.
+ */
+
+import type { RiderFilters, RiderSortBy, RiderStatus } from '../types/enhanced';
+
+export interface UrlViewState {
+  filters: RiderFilters;
+  /** Null when the link does not ask for an order; each page has its own default */
+  sortBy: RiderSortBy | null;
+  /** Rider number of the open rider */
+  rider: string | null;
+  /** Code of the selected wave */
+  wave: string | null;
+  /** Registry id of the open control */
+  control: string | null;
+}
+
+// Query parameter for each piece of state
+export const URL_STATE_PARAMS = {
+  searchTerm: 'q',
+  wave: 'wave',
+  status: 'status',
+  country: 'country',
+  minDistance: 'min_km',
+  maxDistance: 'max_km',
+  sortBy: 'sort',
+  rider: 'rider',
+  selectedWave: 'selected_wave',
+  control: 'control'
+} as const;
+
+const RIDER_STATUSES: readonly RiderStatus[] = ['not_started', 'in_progress', 'finished', 'dnf'];
+const RIDER_SORTS: readonly RiderSortBy[] = ['name', 'rider_no', 'distance', 'speed', 'status', 'wave', 'finish_chance'];
+
+// Not trimmed: the search box writes through the URL, spaces and all
+const readString = (params: URLSearchParams, name: string): string | undefined => {
+  return params.get(name) || undefined;
+};
+
+const readNumber = (params: URLSearchParams, name: string): number | undefined => {
+  const value = readString(params, name)?.trim();
+  if (!value) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const readOption = <T extends string>(params: URLSearchParams, name: string, options: readonly T[]): T | undefined => {
+  const value = readString(params, name);
+  return options.find(option => option === value);
+};
+
+const writeValue = (params: URLSearchParams, name: string, value: string | number | null | undefined): void => {
+  if (value === undefined || value === null || value === '') {
+    params.delete(name);
+  } else {
+    params.set(name, String(value));
+  }
+};
+
+/**
+ * Read the view state from a query string
+ * @param search - Query string, with or without the leading "?"
+ * @returns View state; unknown or invalid values are left out
+ */
+export function parseUrlViewState(search: string): UrlViewState {
+  const params = new URLSearchParams(search);
+
+  const filters: RiderFilters = {
+    wave: readString(params, URL_STATE_PARAMS.wave),
+    status: readOption(params, URL_STATE_PARAMS.status, RIDER_STATUSES),
+    country: readString(params, URL_STATE_PARAMS.country),
+    minDistance: readNumber(params, URL_STATE_PARAMS.minDistance),
+    maxDistance: readNumber(params, URL_STATE_PARAMS.maxDistance),
+    searchTerm: readString(params, URL_STATE_PARAMS.searchTerm)
+  };
+  // Absent filters are left out rather than set to undefined, so {} means "no filters"
+  (Object.keys(filters) as (keyof RiderFilters)[]).forEach(key => {
+    if (filters[key] === undefined) delete filters[key];
+  });
+
+  return {
+    filters,
+    sortBy: readOption(params, URL_STATE_PARAMS.sortBy, RIDER_SORTS) || null,
+    rider: readString(params, URL_STATE_PARAMS.rider) || null,
+    wave: readString(params, URL_STATE_PARAMS.selectedWave) || null,
+    control: readString(params, URL_STATE_PARAMS.control) || null
+  };
+}
+
+/**
+ * Write changes to the view state into a query string
+ * @param search - Current query string
+ * @param changes - State to change; filters replace every filter at once
+ * @returns New query string without the leading "?"; other parameters are kept
+ */
+export function applyUrlViewState(search: string, changes: Partial<UrlViewState>): string {
+  const params = new URLSearchParams(search);
+
+  if (changes.filters) {
+    const { filters } = changes;
+    writeValue(params, URL_STATE_PARAMS.searchTerm, filters.searchTerm);
+    writeValue(params, URL_STATE_PARAMS.wave, filters.wave);
+    writeValue(params, URL_STATE_PARAMS.status, filters.status);
+    writeValue(params, URL_STATE_PARAMS.country, filters.country);
+    writeValue(params, URL_STATE_PARAMS.minDistance, filters.minDistance);
+    writeValue(params, URL_STATE_PARAMS.maxDistance, filters.maxDistance);
+  }
+  if (changes.sortBy !== undefined) writeValue(params, URL_STATE_PARAMS.sortBy, changes.sortBy);
+  if (changes.rider !== undefined) writeValue(params, URL_STATE_PARAMS.rider, changes.rider);
+  if (changes.wave !== undefined) writeValue(params, URL_STATE_PARAMS.selectedWave, changes.wave);
+  if (changes.control !== undefined) writeValue(params, URL_STATE_PARAMS.control, changes.control);
+
+  return params.toString();
+}
@@ -1,5 +1,6 @@
 import { Rider, WaveSummary } from '../types/index';
 import { WAVE_CONFIG } from '../config/constants';
+import { normalizeCountryCode } from '../config/countries';
 
 /**
  * Extract wave code from rider number
@@ -108,7 +109,7 @@ export const getWaveSummary = (riders: Rider[]): WaveSummary[] => {
       const waveData = waveMap.get(wave)!;
       waveData.riders.push(rider);
       if (rider.country) {
-        waveData.countries.add(rider.country);
+        waveData.countries.add(normalizeCountryCode(rider.country) || rider.country);
       }
     }
   });
@@ -0,0 +1,33 @@
+/**
+ * Data processing worker
+ *
+ * Runs the processing pipeline off the main thread and transfers the packed
+ * result back, so scrolling and taps stay responsive while a payload is
+ * crunched.
+ */
+
+import { getEventById } from '../config/events';
+import { encodeProcessedRaceData, processRaceData } from '../utils/dataProcessors';
+import type { DataProcessingRequest, DataProcessingResponse } from './dataProcessingProtocol';
+
+interface WorkerScope {
+  onmessage: ((message: MessageEvent<DataProcessingRequest>) => void) | null;
+  postMessage: (response: DataProcessingResponse, transfer?: Transferable[]) => void;
+}
+
+// eslint-disable-next-line no-restricted-globals
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = ({ data: request }) => {
+  try {
+    const event = getEventById(request.eventId);
+    if (!event) throw new Error(`Unknown event "${request.eventId}"`);
+
+    const buffer = encodeProcessedRaceData(processRaceData(request.input, event));
+    scope.postMessage({ type: 'processed', id: request.id, buffer }, [buffer]);
+  } catch (error: any) {
+    scope.postMessage({ type: 'failed', id: request.id, message: error?.message || String(error) });
+  }
+};
+
+export {};
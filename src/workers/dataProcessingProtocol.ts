@@ -0,0 +1,32 @@
+/**
+ * Messages between the data store and the data processing worker
+ */
+
+import type { RaceDataInput } from '../utils/dataProcessors';
+
+/** Main thread to worker: process one snapshot of the data */
+export interface ProcessRequest {
+  type: 'process';
+  /** Increases with every request; echoed back in the response */
+  id: number;
+  /** Registry id of the event the data belongs to */
+  eventId: string;
+  input: RaceDataInput;
+}
+
+/** Worker to main thread: the snapshot processed, packed by encodeProcessedRaceData */
+export interface ProcessedResponse {
+  type: 'processed';
+  id: number;
+  buffer: ArrayBuffer;
+}
+
+/** Worker to main thread: processing threw */
+export interface ProcessFailedResponse {
+  type: 'failed';
+  id: number;
+  message: string;
+}
+
+export type DataProcessingRequest = ProcessRequest;
+export type DataProcessingResponse = ProcessedResponse | ProcessFailedResponse;